@@ -9,6 +9,11 @@ import { WhoToFollow } from "./components/WhoToFollow";
 import { Trends } from "./components/Trends";
 import { Composer } from "./components/Composer";
 import { Tweet } from "./components/Tweet";
+import Notifications from "./components/Notifications";
+import type { QuotedPost } from "./components/QuotedPost";
+import type { MediaAttachment } from "./components/MediaGrid";
+import type { PollState } from "./components/Poll";
+import type { PostPlace } from "./components/Place";
 import Profile from "./components/profile";
 import { useEffect, useState } from "react";
 import { FaCheckCircle } from "react-icons/fa";
@@ -66,6 +71,7 @@ export default function App(){
     coverImage?: string;
     avatar?: string;
     verified?: boolean;
+    isAutomated?: boolean;
   } | null>(null)
   useEffect(() => {
     // Session/User hydration on initial load
@@ -110,6 +116,8 @@ export default function App(){
   // Normalized feed item used by <Tweet/>
   type FeedItem = {
     id: string;
+    // Distinct per feed entry: a post can appear itself and as reposts
+    entryId: string;
     userFullName: string;
     username: string;
     avatar?: string;
@@ -119,8 +127,16 @@ export default function App(){
     likes?: number;
     liked?: boolean;
     retweets?: number;
+    reposted?: boolean;
+    repostedBy?: { username: string; fullName: string } | null;
     replies?: number;
     views?: number | string;
+    edited?: boolean;
+    quoted?: QuotedPost | null;
+    quotes?: number;
+    media?: MediaAttachment[];
+    poll?: PollState | null;
+    place?: PostPlace | null;
   }
   const [posts, setPosts] = useState<FeedItem[]>([])
 
@@ -203,6 +219,7 @@ export default function App(){
 
       const mapped: FeedItem[] = all.map((it: any) => ({
         id: String(it?.id || ''),
+        entryId: String(it?.entry_id || it?.id || ''),
         userFullName: it?.user?.fullName || it?.userFullName || it?.username || 'Unknown',
         username: it?.user?.username || it?.username || 'unknown',
         avatar: it?.user?.avatar ?? it?.avatar ?? '',
@@ -211,8 +228,16 @@ export default function App(){
         likes: typeof it?.like_count === 'number' ? it.like_count : (typeof it?.likes === 'number' ? it.likes : 0),
         liked: !!(it?.liked),
         retweets: typeof it?.repost_count === 'number' ? it.repost_count : (it?.retweets ?? 0),
+        reposted: !!it?.reposted,
+        repostedBy: it?.reposted_by ?? null,
         replies: typeof it?.reply_count === 'number' ? it.reply_count : (it?.replies ?? 0),
         views: typeof it?.view_count === 'number' ? it.view_count : (it?.views ?? 0),
+        edited: !!it?.edited,
+        quoted: it?.quoted_post ?? null,
+        quotes: typeof it?.quote_count === 'number' ? it.quote_count : 0,
+        media: Array.isArray(it?.media) ? it.media : [],
+        poll: it?.poll ?? null,
+        place: it?.place ?? null,
       }));
 
       // Pick one of five algorithms at random each time we load
@@ -244,7 +269,9 @@ export default function App(){
 
   // UI state: active page, settings page toggle, and theme
   const [active, setActive] = useState<"home"|"messages"|"notifications"|"moment"|"profile">("home");
-  const [showSettings, setShowSettings] = useState(false);
+  // Back from connecting an identity provider (see ConnectedAccounts): reopen Settings there
+  const [returningFromConnect] = useState(() => /(^#|&)(connected|connect_error)=/.test(window.location.hash));
+  const [showSettings, setShowSettings] = useState(returningFromConnect);
   const [darkMode] = useState(localStorage.getItem("theme") === "dark");
 
   // Apply theme to <html data-theme> and persist choice
@@ -411,7 +438,7 @@ export default function App(){
           {/* Conditional rendering: settings page supersedes others */}
           {showSettings ? (
               
-                <Settings />
+                <Settings initialSection={returningFromConnect ? "privacy_security" : undefined} />
   
           ) : active === "home" ? (
             <>
@@ -420,7 +447,7 @@ export default function App(){
               {posts.map((p) => (
                 <Tweet
                   id={p.id}
-                  key={p.id || `${p.username}-${p.createdAt}`}
+                  key={p.entryId || `${p.username}-${p.createdAt}`}
                   fullName={p.userFullName}
                   username={p.username}
                   avatar={p.avatar}
@@ -428,17 +455,29 @@ export default function App(){
                   created_at={p.createdAt}
                   likes={p.likes}
                   retweets={p.retweets}
+                  reposted={p.reposted}
+                  repostedBy={p.repostedBy}
                   replies={p.replies}
                   views={p.views}
                   liked={p.liked}
+                  edited={p.edited}
+                  quoted={p.quoted}
+                  quotes={p.quotes}
+                  media={p.media}
+                  poll={p.poll}
+                  place={p.place}
+                  onDeleted={(id) => setPosts((prev) => prev.filter((x) => x.id !== id))}
                 />
               ))}
             </>
+          ) : active === "notifications" ? (
+            <Notifications />
           ) : active === "profile" ? (
             // Profile page shows current user profile details
             <Profile
               fullName={currentUser?.fullName || currentUser?.username || "Guest"}
               verified={currentUser?.verified}
+              automated={currentUser?.isAutomated}
               username={currentUser?.username || "guest"}
               bio={currentUser?.bio || ""}
               link={currentUser?.link || undefined}
@@ -1,14 +1,17 @@
 import axios from 'axios'
 
-const BASE = import.meta.env.VITE_API_URL || 'http://localhost:4000'
+const BASE = import.meta.env.VITE_API_BASE || 'http://localhost:4000/api'
 export const api = axios.create({
-  baseURL: "http://localhost:4000", // your backend port
-  withCredentials: true,            // if using sessions
+  baseURL: BASE,
+  withCredentials: true,
 })
 
-// bootstrap anon token once
+// Signed-in users use their own token; everyone else gets a guest identity from /auth/anon
 const storageKey = 'anon_token'
 async function ensureToken() {
+  const signedIn = localStorage.getItem('accessToken')
+  if (signedIn) return signedIn
+
   let t = localStorage.getItem(storageKey)
   if (!t) {
     const r = await fetch(`${BASE}/auth/anon`, {
@@ -26,7 +29,26 @@ async function ensureToken() {
 // attach token to every request
 api.interceptors.request.use(async (cfg) => {
   const t = await ensureToken()
-  cfg.headers = cfg.headers || {}
-  cfg.headers.Authorization = `Bearer ${t}`
+  if (t) cfg.headers.Authorization = `Bearer ${t}`
   return cfg
-})
\ No newline at end of file
+})
+
+// Access tokens are short-lived: a signed-in user's is renewed from the `rt` cookie and the
+// request retried once. An expired guest token is dropped so the next request bootstraps a
+// fresh guest
+api.interceptors.response.use(undefined, async (err) => {
+  if (!axios.isAxiosError(err) || err.response?.status !== 401) return Promise.reject(err)
+  if (!localStorage.getItem('accessToken')) {
+    localStorage.removeItem(storageKey)
+    return Promise.reject(err)
+  }
+  const cfg = err.config as (typeof err.config & { retried?: boolean }) | undefined
+  if (!cfg || cfg.retried) return Promise.reject(err)
+  const r = await fetch(`${BASE}/auth/refresh`, { method: 'POST', credentials: 'include' }).catch(() => null)
+  const data = r?.ok ? await r.json().catch(() => null) : null
+  if (!data?.accessToken) return Promise.reject(err)
+  localStorage.setItem('accessToken', data.accessToken)
+  if (data.user) localStorage.setItem('user', JSON.stringify(data.user))
+  cfg.retried = true
+  return api(cfg)
+})
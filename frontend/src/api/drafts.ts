@@ -0,0 +1,94 @@
+// Drafts and scheduled posts against /drafts.
+// A draft is a saved post body; with `scheduled_at` the server publishes it at that time.
+
+import type { MediaAttachment } from '../components/MediaGrid'
+import type { PostPlace } from '../components/Place'
+import { MAX_TWEET_LEN } from '../../../server/src/utils/postLength'
+
+const BASE = import.meta.env.VITE_API_BASE || 'http://localhost:4000/api'
+
+export type Draft = {
+  id: string
+  text: string
+  quoted_post_id: string | null
+  media: MediaAttachment[]
+  poll: { options: string[]; duration_minutes: number } | null
+  place: PostPlace | null
+  scheduled_at: string | null
+  status: 'draft' | 'scheduled' | 'publishing' | 'failed'
+  error: string | null
+  updated_at: string
+}
+
+export type DraftBody = {
+  text?: string
+  quoted_post_id?: string | null
+  media?: { id: string; alt?: string }[]
+  poll?: { options: string[]; duration_minutes: number } | null
+  place?: { id: string } | { lat: number; lng: number } | null
+  scheduled_at?: string | null
+}
+
+async function send(method: string, path: string, body?: unknown, keepalive = false) {
+  const res = await fetch(`${BASE}/drafts${path}`, {
+    method,
+    headers: body === undefined ? undefined : { 'content-type': 'application/json' },
+    credentials: 'include',
+    body: body === undefined ? undefined : JSON.stringify(body),
+    keepalive,
+  })
+  const data = await res.json().catch(() => null)
+  // The message is the server's error code; draftErrorMessage words it
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`)
+  return data
+}
+
+export async function listDrafts(): Promise<Draft[]> {
+  const data = await send('GET', '')
+  return Array.isArray(data?.items) ? data.items : []
+}
+
+/**
+ * Creates the draft, or updates it when `id` is given. `keepalive` lets the request finish
+ * while the page is closing.
+ */
+export async function saveDraft(id: string | null, body: DraftBody, keepalive = false): Promise<Draft> {
+  return id ? send('PATCH', `/${id}`, body, keepalive) : send('POST', '', body, keepalive)
+}
+
+export async function deleteDraft(id: string): Promise<void> {
+  await send('DELETE', `/${id}`)
+}
+
+/** Wording for an error code, thrown by the calls above or in a failed draft's `error` */
+export function draftErrorMessage(code: string | null | undefined): string {
+  switch (code) {
+    case 'invalid_schedule': return 'Pick a time in the future, at most a year ahead.'
+    case 'empty_text': return 'A scheduled post needs some text.'
+    case 'too_long': return `A post can be at most ${MAX_TWEET_LEN} characters.`
+    case 'invalid_poll': return 'Poll choices must be filled in and different from each other.'
+    case 'poll_with_media': return 'A post can have a poll or media, not both.'
+    case 'invalid_place': return 'That location is not available.'
+    case 'media_not_found': return 'An attachment is no longer available. Remove it and try again.'
+    case 'quoted_not_found': return 'The quoted post is no longer available.'
+    case 'account_deactivated': return 'Your account was deactivated when this was due.'
+    case 'draft_publishing': return 'This post is being published right now.'
+    case 'too_many_drafts': return 'You have too many drafts. Delete some first.'
+    case 'not_found': return 'That draft no longer exists.'
+    default: return 'Something went wrong. Please try again.'
+  }
+}
+
+/** `scheduled_at` as the value of an <input type="datetime-local">, in local time */
+export function toDateTimeLocal(iso: string | null): string {
+  if (!iso) return ''
+  const d = new Date(iso)
+  if (Number.isNaN(d.getTime())) return ''
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+/** The reverse of toDateTimeLocal; null for an empty or invalid value */
+export function fromDateTimeLocal(value: string): string | null {
+  const d = value ? new Date(value) : null
+  return d && !Number.isNaN(d.getTime()) ? d.toISOString() : null
+}
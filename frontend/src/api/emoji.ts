@@ -0,0 +1,61 @@
+// The emoji dataset from /emoji, for the picker and for counting post text the way the
+// server does: it expands `:shortcode:` before counting, so the Composer does too.
+
+import { normalizeText, weightedLength } from '../../../server/src/utils/postLength'
+import { expandShortcodes as expandWith } from '../../../server/src/utils/shortcodes'
+
+export { withSkinTone } from '../../../server/src/utils/shortcodes'
+
+const BASE = import.meta.env.VITE_API_BASE || 'http://localhost:4000/api'
+
+export type EmojiEntry = {
+  emoji: string
+  name: string
+  shortcodes: string[]
+  keywords: string[]
+  /** Whether a skin-tone modifier may follow it */
+  skin_tones: boolean
+}
+
+export type EmojiData = {
+  /** The five modifiers, lightest first; `:skin-tone-2:` is the first */
+  skin_tones: string[]
+  categories: { id: string; name: string; emoji: EmojiEntry[] }[]
+  /** Built on load: every shortcode to its entry */
+  byShortcode: Map<string, EmojiEntry>
+}
+
+let loading: Promise<EmojiData> | null = null
+
+/** Fetches the dataset once per page; a failed load is retried on the next call */
+export function loadEmoji(): Promise<EmojiData> {
+  if (!loading) {
+    loading = fetch(`${BASE}/emoji`)
+      .then(async (res) => {
+        const data = await res.json().catch(() => null)
+        if (!res.ok || !Array.isArray(data?.categories)) throw new Error('Could not load emoji')
+        const byShortcode = new Map<string, EmojiEntry>()
+        for (const c of data.categories) for (const e of c.emoji) for (const code of e.shortcodes) byShortcode.set(code, e)
+        return { skin_tones: data.skin_tones, categories: data.categories, byShortcode }
+      })
+      .catch((e) => { loading = null; throw e })
+  }
+  return loading
+}
+
+/** The server's expansion (server/src/utils/shortcodes.ts) over the loaded dataset */
+export function expandShortcodes(text: string, data: EmojiData) {
+  return expandWith(text, (code) => {
+    const e = data.byShortcode.get(code)
+    return e && { emoji: e.emoji, tones: e.skin_tones }
+  })
+}
+
+/**
+ * Length of post text as the server counts it (server/src/utils/postLength.ts): normalized as
+ * it stores it and with shortcodes expanded once `data` has loaded.
+ */
+export function postTextLength(text: string, data: EmojiData | null) {
+  const t = normalizeText(text)
+  return weightedLength(data ? expandShortcodes(t, data) : t)
+}
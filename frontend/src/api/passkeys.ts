@@ -0,0 +1,91 @@
+// Passkey (WebAuthn) ceremonies against /auth/passkeys.
+// The server sends and expects binary fields base64url-encoded; the browser API wants ArrayBuffers.
+
+const BASE = import.meta.env.VITE_API_BASE || 'http://localhost:4000/api'
+
+function toBuffer(b64url: string): ArrayBuffer {
+  const b64 = b64url.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(b64url.length / 4) * 4, '=')
+  const bin = atob(b64)
+  const bytes = new Uint8Array(bin.length)
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i)
+  return bytes.buffer
+}
+
+function toBase64url(buf: ArrayBuffer): string {
+  let bin = ''
+  for (const b of new Uint8Array(buf)) bin += String.fromCharCode(b)
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+async function postJson(path: string, body: unknown = {}) {
+  const res = await fetch(`${BASE}${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify(body),
+  })
+  const data = await res.json().catch(() => null)
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`)
+  return data
+}
+
+export function passkeysSupported(): boolean {
+  return typeof window !== 'undefined' && !!window.PublicKeyCredential && !!navigator.credentials
+}
+
+type DescriptorJSON = { type: 'public-key'; id: string }
+
+/** Register a new passkey for the signed-in user */
+export async function registerPasskey(name: string) {
+  const opts = await postJson('/auth/passkeys/register/options')
+  const cred = (await navigator.credentials.create({
+    publicKey: {
+      ...opts,
+      challenge: toBuffer(opts.challenge),
+      user: { ...opts.user, id: toBuffer(opts.user.id) },
+      excludeCredentials: (opts.excludeCredentials || []).map((c: DescriptorJSON) => ({ ...c, id: toBuffer(c.id) })),
+    },
+  })) as PublicKeyCredential | null
+  if (!cred) throw new Error('Passkey creation was cancelled')
+
+  const response = cred.response as AuthenticatorAttestationResponse
+  return postJson('/auth/passkeys/register/verify', {
+    name,
+    credential: {
+      id: cred.id,
+      type: cred.type,
+      response: {
+        clientDataJSON: toBase64url(response.clientDataJSON),
+        attestationObject: toBase64url(response.attestationObject),
+        transports: typeof response.getTransports === 'function' ? response.getTransports() : [],
+      },
+    },
+  })
+}
+
+/** Passwordless sign-in; resolves to the same payload as POST /auth/login */
+export async function signInWithPasskey() {
+  const opts = await postJson('/auth/passkeys/login/options')
+  const cred = (await navigator.credentials.get({
+    publicKey: {
+      ...opts,
+      challenge: toBuffer(opts.challenge),
+      allowCredentials: (opts.allowCredentials || []).map((c: DescriptorJSON) => ({ ...c, id: toBuffer(c.id) })),
+    },
+  })) as PublicKeyCredential | null
+  if (!cred) throw new Error('Passkey sign-in was cancelled')
+
+  const response = cred.response as AuthenticatorAssertionResponse
+  return postJson('/auth/passkeys/login/verify', {
+    credential: {
+      id: cred.id,
+      type: cred.type,
+      response: {
+        clientDataJSON: toBase64url(response.clientDataJSON),
+        authenticatorData: toBase64url(response.authenticatorData),
+        signature: toBase64url(response.signature),
+        userHandle: response.userHandle ? toBase64url(response.userHandle) : null,
+      },
+    },
+  })
+}
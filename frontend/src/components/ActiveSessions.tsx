@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+
+/**
+ * ActiveSessions: lists every signed-in device for the current account
+ * and lets the user sign out one device or all other devices.
+ * Authenticates with the `rt` cookie so the server can tell which row is "this device".
+ */
+
+const API_BASE = import.meta.env.VITE_API_BASE || "http://localhost:4000/api";
+
+type SessionItem = {
+  id: string;
+  device: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+};
+
+function formatDate(iso: string) {
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? "" : d.toLocaleString();
+}
+
+export default function ActiveSessions() {
+  const [items, setItems] = useState<SessionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  async function load() {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`${API_BASE}/auth/sessions`, { credentials: "include" });
+      if (!res.ok) throw new Error(res.status === 401 ? "Please sign in again to manage sessions." : "Could not load sessions.");
+      const data = await res.json();
+      setItems(Array.isArray(data?.items) ? data.items : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not load sessions.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => { load(); }, []);
+
+  async function revoke(id: string) {
+    setBusy(id);
+    setNotice(null);
+    try {
+      const res = await fetch(`${API_BASE}/auth/sessions/${encodeURIComponent(id)}`, { method: "DELETE", credentials: "include" });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || "Could not sign out that device.");
+      if (data?.current) {
+        // Signed out of this device: drop cached identity and go to login
+        localStorage.removeItem("accessToken");
+        localStorage.removeItem("user");
+        window.location.assign("/login");
+        return;
+      }
+      setItems((prev) => prev.filter((s) => s.id !== id));
+      setNotice("Device signed out.");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not sign out that device.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function revokeOthers() {
+    setBusy("others");
+    setNotice(null);
+    try {
+      const res = await fetch(`${API_BASE}/auth/sessions`, { method: "DELETE", credentials: "include" });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || "Could not sign out other devices.");
+      setItems((prev) => prev.filter((s) => s.current));
+      setNotice(`Signed out ${data?.revoked ?? 0} other device${data?.revoked === 1 ? "" : "s"}.`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not sign out other devices.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const others = items.filter((s) => !s.current).length;
+
+  return (
+    <div>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginTop: 12 }}>
+        <h4 style={{ margin: 0 }}>Where you're signed in</h4>
+        <button
+          className="btn"
+          style={{ padding: "8px 14px", fontSize: 14, opacity: busy === "others" || others === 0 ? 0.6 : 1 }}
+          disabled={busy === "others" || others === 0}
+          onClick={revokeOthers}
+        >
+          {busy === "others" ? "Signing out…" : "Sign out all other devices"}
+        </button>
+      </div>
+
+      {error && <p style={{ color: "#dc160f" }}>{error}</p>}
+      {notice && <p style={{ color: "var(--muted)" }}>{notice}</p>}
+      {loading && <p style={{ color: "var(--muted)" }}>Loading sessions…</p>}
+
+      <div style={{ display: "flex", flexDirection: "column", gap: 8, marginTop: 12 }}>
+        {items.map((s) => (
+          <div
+            key={s.id}
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              padding: 16,
+              border: "1px solid var(--border)",
+              borderRadius: 12,
+              background: "var(--panel)",
+            }}
+          >
+            <div style={{ textAlign: "left" }}>
+              <div style={{ fontWeight: 700, color: "var(--bold-text)" }}>
+                {s.device}
+                {s.current && <span style={{ marginLeft: 8, fontSize: 12, color: "var(--primary)" }}>This device</span>}
+              </div>
+              <div style={{ fontSize: 13, color: "var(--muted)" }} title={s.userAgent}>
+                {s.ip ? `IP ${s.ip} · ` : ""}Signed in {formatDate(s.createdAt)} · Last active {formatDate(s.lastUsedAt)}
+              </div>
+            </div>
+            <button
+              className="btn"
+              style={{ padding: "6px 12px", fontSize: 14, opacity: busy === s.id ? 0.6 : 1 }}
+              disabled={busy === s.id}
+              onClick={() => revoke(s.id)}
+            >
+              {s.current ? "Sign out" : "Revoke"}
+            </button>
+          </div>
+        ))}
+        {!loading && !error && items.length === 0 && (
+          <p style={{ color: "var(--muted)" }}>No active sessions.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useEffect, useState } from "react";
+
+/**
+ * ApiTokens: personal API tokens for bots and scripts under Settings > Account Privacy and Security.
+ * A new token is shown once, right after creation; the list only shows its first characters.
+ * Using a token marks the account as automated on its profile.
+ */
+
+const API_BASE = import.meta.env.VITE_API_BASE || "http://localhost:4000/api";
+
+type Scope = "read" | "post" | "engage" | "dm";
+
+type TokenItem = {
+  id: string;
+  name: string;
+  scopes: Scope[];
+  prefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+};
+
+const SCOPES: { key: Scope; label: string }[] = [
+  { key: "read", label: "Read your profile and relationships" },
+  { key: "post", label: "Post and reply" },
+  { key: "engage", label: "Like, repost and follow" },
+  { key: "dm", label: "Direct messages" },
+];
+
+const EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "1 year" },
+  { days: null, label: "Never" },
+];
+
+function formatDate(iso: string) {
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? "" : d.toLocaleString();
+}
+
+export default function ApiTokens() {
+  const [items, setItems] = useState<TokenItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<Scope[]>(["read"]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [created, setCreated] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function load() {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`${API_BASE}/auth/tokens`, { credentials: "include" });
+      if (!res.ok) throw new Error(res.status === 401 ? "Please sign in again to manage API tokens." : "Could not load API tokens.");
+      const data = await res.json();
+      setItems(Array.isArray(data?.items) ? data.items : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not load API tokens.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => { load(); }, []);
+
+  function toggleScope(scope: Scope) {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+  }
+
+  async function create(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy("create");
+    setError(null);
+    setCreated(null);
+    try {
+      const res = await fetch(`${API_BASE}/auth/tokens`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ name: name.trim(), scopes, expiresInDays }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error === "guest_account" ? "Create an account to use API tokens." : data?.error || "Could not create token.");
+      setCreated(data.token);
+      setItems((prev) => [data.item, ...prev]);
+      setName("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not create token.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function revoke(id: string) {
+    setBusy(id);
+    setError(null);
+    try {
+      const res = await fetch(`${API_BASE}/auth/tokens/${encodeURIComponent(id)}`, { method: "DELETE", credentials: "include" });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || "Could not revoke token.");
+      setItems((prev) => prev.filter((t) => t.id !== id));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not revoke token.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div style={{ marginBottom: 24 }}>
+      <h4 style={{ margin: "12px 0 0" }}>API tokens</h4>
+      <p style={{ color: "var(--muted)", marginTop: 4 }}>
+        Let bots and scripts use your account. Send a token as <code>Authorization: Bearer &lt;token&gt;</code>.
+        Accounts that use tokens are labelled as automated on their profile.
+      </p>
+
+      {error && <p style={{ color: "#dc160f" }}>{error}</p>}
+      {created && (
+        <div style={{ padding: 16, border: "1px solid var(--border)", borderRadius: 12, background: "var(--panel)", marginTop: 12 }}>
+          <p style={{ marginTop: 0 }}>Copy your new token now. You won't be able to see it again.</p>
+          <code style={{ display: "block", wordBreak: "break-all", fontSize: 14 }}>{created}</code>
+          <button className="btn" style={{ padding: "6px 12px", fontSize: 13, marginTop: 12 }} onClick={() => setCreated(null)}>
+            Done
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={create} style={{ display: "flex", flexDirection: "column", gap: 8, marginTop: 12 }}>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+          maxLength={50}
+          placeholder="Token name, e.g. Weather bot"
+          style={{
+            padding: "8px 12px",
+            borderRadius: "var(--radius)",
+            border: "1px solid var(--border)",
+            background: "var(--bg)",
+            color: "var(--text)",
+          }}
+        />
+        {SCOPES.map((s) => (
+          <label key={s.key} style={{ display: "flex", alignItems: "center", gap: 8 }}>
+            <input type="checkbox" checked={scopes.includes(s.key)} onChange={() => toggleScope(s.key)} />
+            <strong>{s.key}</strong>
+            <span style={{ color: "var(--muted)" }}>{s.label}</span>
+          </label>
+        ))}
+        <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          Expires after
+          <select
+            value={expiresInDays ?? ""}
+            onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+            style={{ padding: "6px 10px", borderRadius: "var(--radius)", border: "1px solid var(--border)", background: "var(--bg)", color: "var(--text)" }}
+          >
+            {EXPIRY_OPTIONS.map((o) => (
+              <option key={o.label} value={o.days ?? ""}>{o.label}</option>
+            ))}
+          </select>
+        </label>
+        <div>
+          <button
+            type="submit"
+            className="btn"
+            style={{ padding: "8px 14px", fontSize: 14, opacity: busy === "create" || scopes.length === 0 ? 0.6 : 1 }}
+            disabled={busy === "create" || scopes.length === 0}
+          >
+            {busy === "create" ? "Creating…" : "Create token"}
+          </button>
+        </div>
+      </form>
+
+      {loading && <p style={{ color: "var(--muted)" }}>Loading API tokens…</p>}
+
+      <div style={{ display: "flex", flexDirection: "column", gap: 8, marginTop: 12 }}>
+        {items.map((t) => (
+          <div
+            key={t.id}
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              padding: 16,
+              border: "1px solid var(--border)",
+              borderRadius: 12,
+              background: "var(--panel)",
+            }}
+          >
+            <div>
+              <div style={{ fontWeight: 700, color: "var(--bold-text)" }}>
+                {t.name} <code style={{ fontWeight: 400, fontSize: 13 }}>{t.prefix}…</code>
+              </div>
+              <div style={{ fontSize: 13, color: "var(--muted)" }}>
+                {t.scopes.join(", ")} · Created {formatDate(t.createdAt)}
+                {t.lastUsedAt ? ` · Last used ${formatDate(t.lastUsedAt)}` : " · Never used"}
+                {t.expiresAt ? ` · Expires ${formatDate(t.expiresAt)}` : ""}
+              </div>
+            </div>
+            <button
+              className="btn"
+              style={{ padding: "6px 12px", fontSize: 13, opacity: busy === t.id ? 0.6 : 1 }}
+              disabled={busy === t.id}
+              onClick={() => revoke(t.id)}
+            >
+              {busy === t.id ? "Revoking…" : "Revoke"}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
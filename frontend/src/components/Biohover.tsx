@@ -5,6 +5,8 @@ type MiniUser = {
   fullName: string;
   avatar?: string | null;
   verified?: boolean;
+  // posts through personal API tokens (bot or script)
+  automated?: boolean;
   bio?: string | null;
   followers?: number;
   following?: number;
@@ -117,6 +119,7 @@ const Biohover: React.FC<BiohoverProps> = ({
           null
         ),
         verified: !!(data?.verified ?? data?.user?.verified),
+        automated: !!(data?.isAutomated ?? data?.user?.isAutomated),
         bio:
           data?.bio ??
           data?.user?.bio ??
@@ -275,7 +278,10 @@ const Biohover: React.FC<BiohoverProps> = ({
               </svg>
             ) : null}
           </div>
-          <div style={{ color: "var(--muted,#666)" }}>@{user?.username || username}</div>
+          <div style={{ color: "var(--muted,#666)" }}>
+            @{user?.username || username}
+            {user?.automated ? " · Automated" : null}
+          </div>
         </div>
         {(user?.username !== (import.meta.env.VITE_CURRENT_USER || (window as any).currentUser?.username)) && (
           <button 
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useHasPassword } from "../hooks/useHasPassword";
+
+/**
+ * ChangePasswordForm: Settings > Accounts password change.
+ * Mirrors the server rules (6–20 chars, confirmation must match) for instant feedback;
+ * the server stays the source of truth and its message is shown on rejection.
+ * An account without a password (identity provider sign-up) sets its first one here; it skips
+ * the current-password field and must have signed in recently.
+ */
+
+const API_BASE = import.meta.env.VITE_API_BASE || "http://localhost:4000/api";
+
+type Mode = "password" | "secretKey";
+type FieldErrors = Partial<Record<"current" | "password" | "confirmPassword", string>>;
+
+function validate(mode: Mode, current: string, password: string, confirmPassword: string, hasPassword: boolean): FieldErrors {
+  const errors: FieldErrors = {};
+  if (hasPassword && !current.trim()) errors.current = mode === "password" ? "Enter your current password" : "Enter your secret key";
+  if (password.length < 6) errors.password = "Password must be at least 6 characters";
+  else if (password.length > 20) errors.password = "Password must be at most 20 characters";
+  if (confirmPassword !== password) errors.confirmPassword = "⚠️ Passwords do not match";
+  return errors;
+}
+
+export default function ChangePasswordForm({ onDone }: { onDone?: () => void }) {
+  const [mode, setMode] = useState<Mode>("password");
+  const [current, setCurrent] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [touched, setTouched] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [newSecretKey, setNewSecretKey] = useState<string | null>(null);
+
+  const hasPassword = useHasPassword() !== false;
+  const errors = validate(mode, current, password, confirmPassword, hasPassword);
+  const hasErrors = Object.keys(errors).length > 0;
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setTouched(true);
+    setError(null);
+    setSuccess(null);
+    if (hasErrors) return;
+
+    setSaving(true);
+    try {
+      const res = await fetch(`${API_BASE}/auth/password`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          ...(!hasPassword ? {} : mode === "password" ? { currentPassword: current } : { secretKey: current }),
+          password,
+          confirmPassword,
+        }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.code === "reauth_required" ? "Sign in again to confirm it's you, then retry." : data?.error || `Password change failed (${res.status})`);
+
+      if (data?.accessToken) localStorage.setItem("accessToken", data.accessToken);
+      setNewSecretKey(data?.secretKey || null);
+      setSuccess(hasPassword ? "Password changed. Other devices have been signed out." : "Password set. Other devices have been signed out.");
+      setCurrent("");
+      setPassword("");
+      setConfirmPassword("");
+      setTouched(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Password change failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const inputStyle: React.CSSProperties = {
+    display: "block",
+    width: "100%",
+    maxWidth: 360,
+    padding: "10px 14px",
+    marginTop: 6,
+    borderRadius: "var(--radius)",
+    border: "1px solid var(--border)",
+    background: "var(--panel)",
+    color: "var(--text)",
+    outline: "none",
+  };
+  const fieldError = (msg?: string) =>
+    touched && msg ? <div style={{ color: "#dc160f", fontSize: 13, marginTop: 4 }}>{msg}</div> : null;
+
+  return (
+    <form onSubmit={onSubmit} style={{ marginTop: 16, textAlign: "left" }} autoComplete="off">
+      {error && <p style={{ color: "#dc160f" }}>{error}</p>}
+      {success && <p style={{ color: "var(--primary)" }}>{success}</p>}
+      {newSecretKey && (
+        <div style={{ padding: 16, border: "1px solid var(--border)", borderRadius: 12, background: "var(--panel)", marginBottom: 12 }}>
+          <strong>Your new secret key</strong>
+          <p style={{ fontWeight: "bold", wordBreak: "break-all" }}>{newSecretKey}</p>
+          <small>Your old key no longer works. Store this one securely; it will not be shown again.</small>
+        </div>
+      )}
+
+      {hasPassword && (
+        <>
+          <label style={{ display: "block", marginTop: 12 }}>
+            {mode === "password" ? "Current password" : "Secret key"}
+            <input
+              type={mode === "password" ? "password" : "text"}
+              value={current}
+              onChange={(e) => setCurrent(e.target.value)}
+              style={inputStyle}
+            />
+          </label>
+          {fieldError(errors.current)}
+          <button
+            type="button"
+            onClick={() => { setMode(mode === "password" ? "secretKey" : "password"); setCurrent(""); }}
+            style={{ border: "none", background: "none", color: "var(--primary)", cursor: "pointer", padding: 0, marginTop: 6 }}
+          >
+            {mode === "password" ? "Forgot it? Use your secret key instead" : "Use your current password instead"}
+          </button>
+        </>
+      )}
+
+      <label style={{ display: "block", marginTop: 12 }}>
+        New password
+        <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} style={inputStyle} />
+      </label>
+      {fieldError(errors.password)}
+
+      <label style={{ display: "block", marginTop: 12 }}>
+        Confirm new password
+        <input type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} style={inputStyle} />
+      </label>
+      {fieldError(errors.confirmPassword)}
+
+      <div style={{ display: "flex", gap: 12, marginTop: 20 }}>
+        <button className="btn" type="submit" disabled={saving} style={{ padding: 12, fontSize: 16, opacity: saving ? 0.7 : 1 }}>
+          {saving ? "Saving…" : hasPassword ? "Change Password" : "Set Password"}
+        </button>
+        {onDone && (
+          <button className="btn" type="button" onClick={onDone} style={{ padding: 12, fontSize: 16, backgroundColor: "var(--bg)", color: "var(--muted)" }}>
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from "react";
+
+/**
+ * ChangeUsernameForm: Settings > Accounts handle change.
+ * Mirrors the server rules (3–20 of a–z, 0–9, _) for instant feedback. Posts, replies and
+ * reposts move to the new handle; the old one is held for the user and redirects for a while.
+ */
+
+const API_BASE = import.meta.env.VITE_API_BASE || "http://localhost:4000/api";
+
+function validate(username: string): string | null {
+  if (username.length < 3) return "Username must be at least 3 characters";
+  if (username.length > 20) return "Username cannot exceed 20 characters";
+  if (!/^[a-z0-9_]+$/.test(username)) return "Username can only contain letters, numbers and underscores";
+  return null;
+}
+
+function currentUsername(): string {
+  try {
+    return JSON.parse(localStorage.getItem("user") || "null")?.username || "";
+  } catch {
+    return "";
+  }
+}
+
+export default function ChangeUsernameForm({ onDone }: { onDone?: () => void }) {
+  const [username, setUsername] = useState(currentUsername());
+  const [touched, setTouched] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const normalized = username.trim().toLowerCase();
+  const fieldError = validate(normalized);
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setTouched(true);
+    setError(null);
+    setSuccess(null);
+    if (fieldError) return;
+
+    setSaving(true);
+    try {
+      const res = await fetch(`${API_BASE}/users/me/username`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ username: normalized }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        if (data?.error === "username_taken") throw new Error("That username is taken.");
+        if (data?.error === "unchanged") throw new Error("That's already your username.");
+        if (data?.error === "too_soon") {
+          throw new Error(`You changed your username recently. Try again after ${new Date(data.retryAt).toLocaleString()}.`);
+        }
+        throw new Error(data?.message || data?.error || `Username change failed (${res.status})`);
+      }
+
+      if (data?.accessToken) localStorage.setItem("accessToken", data.accessToken);
+      try {
+        const cached = JSON.parse(localStorage.getItem("user") || "null");
+        if (cached) localStorage.setItem("user", JSON.stringify({ ...cached, username: data.username }));
+      } catch { /* cache is rebuilt from /users/me on next load */ }
+      setSuccess(`You are now @${data.username}. Links to @${data.previousUsername} redirect here for ${data.holdDays} days.`);
+      setTouched(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Username change failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form onSubmit={onSubmit} style={{ marginTop: 16, textAlign: "left" }} autoComplete="off">
+      {error && <p style={{ color: "#dc160f" }}>{error}</p>}
+      {success && <p style={{ color: "var(--primary)" }}>{success}</p>}
+
+      <label style={{ display: "block", marginTop: 12 }}>
+        New username
+        <input
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          maxLength={20}
+          style={{
+            display: "block",
+            width: "100%",
+            maxWidth: 360,
+            padding: "10px 14px",
+            marginTop: 6,
+            borderRadius: "var(--radius)",
+            border: "1px solid var(--border)",
+            background: "var(--panel)",
+            color: "var(--text)",
+            outline: "none",
+          }}
+        />
+      </label>
+      {touched && fieldError && <div style={{ color: "#dc160f", fontSize: 13, marginTop: 4 }}>{fieldError}</div>}
+
+      <div style={{ display: "flex", gap: 12, marginTop: 20 }}>
+        <button className="btn" type="submit" disabled={saving} style={{ padding: 12, fontSize: 16, opacity: saving ? 0.7 : 1 }}>
+          {saving ? "Saving…" : "Change Username"}
+        </button>
+        {onDone && (
+          <button className="btn" type="button" onClick={onDone} style={{ padding: 12, fontSize: 16, backgroundColor: "var(--bg)", color: "var(--muted)" }}>
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -1,6 +1,14 @@
 import { useState, useRef, useEffect } from "react";
-import { FaRegImage, FaRegSmile, FaMapMarkerAlt, /*FaRegCalendarAlt,*/ FaSlidersH } from "react-icons/fa";
+import { FaRegImage, FaRegSmile, FaMapMarkerAlt, FaRegCalendarAlt, FaSlidersH } from "react-icons/fa";
 import { TbGif } from "react-icons/tb"; // GIF wordmark icon
+import QuotedPostCard, { type QuotedPost } from "./QuotedPost";
+import type { MediaAttachment } from "./MediaGrid";
+import DraftsList from "./DraftsList";
+import PlacePicker, { PlaceTag, type PostPlace } from "./Place";
+import EmojiPicker from "./EmojiPicker";
+import { loadEmoji, postTextLength, type EmojiData } from "../api/emoji";
+import { MAX_TWEET_LEN, URL_LENGTH } from "../../../server/src/utils/postLength";
+import { deleteDraft, draftErrorMessage, fromDateTimeLocal, saveDraft, toDateTimeLocal, type Draft, type DraftBody } from "../api/drafts";
 
 /**
  * Composer: "Say something..." input with action icons
@@ -8,16 +16,83 @@ import { TbGif } from "react-icons/tb"; // GIF wordmark icon
  * - Icons use var(--primary)
  * - Only hover effect: show label under icon
  * - Post button aligned to the right
+ * - With `quoted`, posts a quote of that post and previews it under the input
+ * - Media uploads each file to /media as soon as it's picked; the post then references
+ *   up to four of them, each with optional alt text
+ * - Poll adds two to four options and a duration; a post has either a poll or media
+ * - Schedule picks a time and the post is saved as a scheduled draft instead, which the
+ *   server publishes then. Drafts lists saved and scheduled posts to edit, reschedule or cancel
+ * - Location tags the post with a city or the device's approximate position; opt-in per post
+ * - Emoji opens a searchable picker that inserts at the cursor; `:shortcode:` typed by hand is
+ *   expanded by the server, and the counter counts it (and every emoji) as the server does
+ * - The counter uses the server's own rules (server/src/utils/postLength.ts): each link counts
+ *   as URL_LENGTH characters, each emoji or accented letter as one
+ * - Unsaved work is saved as a draft when the Composer unmounts or the page is closed
  */
 
 const API_BASE = (import.meta as any).env?.VITE_API_BASE || 'http://localhost:4000';
 
-type ComposerProps = {}
-export function Composer({}: ComposerProps) {
+const MAX_ATTACHMENTS = 4;
+const MEDIA_ACCEPT = "image/jpeg,image/png,image/gif,image/webp,video/mp4";
+
+function composeErrorMessage(code: string | undefined, data: { max_seconds?: number } | null): string {
+  switch (code) {
+    case 'unsupported_type': return 'Only JPEG, PNG, GIF and WebP images and MP4 videos can be attached.';
+    case 'too_large': return 'That file is too large.';
+    case 'too_long': return `Videos can be at most ${data?.max_seconds ?? 140} seconds long.`;
+    case 'unreadable': return 'That file could not be read.';
+    case 'media_not_found': return 'An attachment is no longer available. Remove it and try again.';
+    case 'invalid_poll': return 'Poll choices must be filled in and different from each other.';
+    case 'invalid_place': return 'That location is not available. Pick another one.';
+    default: return 'Upload failed. Please try again.';
+  }
+}
+
+const POLL_MAX_OPTIONS = 4;
+const POLL_OPTION_MAX_LEN = 25;
+const POLL_DURATIONS = [
+  { label: "5 minutes", minutes: 5 },
+  { label: "1 hour", minutes: 60 },
+  { label: "1 day", minutes: 24 * 60 },
+  { label: "3 days", minutes: 3 * 24 * 60 },
+  { label: "7 days", minutes: 7 * 24 * 60 },
+];
+
+type PollDraft = { options: string[]; durationMinutes: number };
+
+// A gazetteer place goes by id; anything else by its (already coarsened) coordinates
+function placeBody(place: PostPlace | null) {
+  if (!place) return null;
+  return place.id ? { id: place.id } : { lat: place.lat, lng: place.lng };
+}
+
+type ComposerProps = {
+  quoted?: QuotedPost;
+  onPosted?: () => void;
+}
+export function Composer({ quoted, onPosted }: ComposerProps) {
   const [text, setText] = useState("");
   const [posting, setPosting] = useState(false);
-  const maxChars = 280;
-  const remaining = maxChars - text.length;
+  const [attachments, setAttachments] = useState<MediaAttachment[]>([]);
+  const [uploading, setUploading] = useState(0);
+  const [composeError, setComposeError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [poll, setPoll] = useState<PollDraft | null>(null);
+  const pollReady = !poll || poll.options.filter((o) => o.trim()).length >= 2;
+  // The draft being edited, if any, and the post it quotes when that didn't come in as `quoted`
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draftQuotedId, setDraftQuotedId] = useState<string | null>(null);
+  const [scheduleAt, setScheduleAt] = useState("");
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [showDrafts, setShowDrafts] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [place, setPlace] = useState<PostPlace | null>(null);
+  const [showPlaces, setShowPlaces] = useState(false);
+  const [showEmoji, setShowEmoji] = useState(false);
+  const [emojiData, setEmojiData] = useState<EmojiData | null>(null);
+  const quotedId = quoted?.id ?? draftQuotedId;
+  const maxChars = MAX_TWEET_LEN;
+  const remaining = maxChars - postTextLength(text, emojiData);
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
 
   useEffect(() => {
@@ -27,6 +102,11 @@ export function Composer({}: ComposerProps) {
     }
   }, [text]);
 
+  // Shortcodes count as the emoji they become, so the dataset is needed once one may be typed
+  useEffect(() => {
+    if (!emojiData && text.includes(':')) loadEmoji().then(setEmojiData).catch(() => {});
+  }, [text, emojiData]);
+
   useEffect(() => {
     const h = () => {
       if (typeof (window as any).loadFeed === "function") {
@@ -51,32 +131,148 @@ export function Composer({}: ComposerProps) {
     } catch { return null }
   }
 
-  async function postTweet(textToPost: string) {
-    const at0 = localStorage.getItem('accessToken') || ''
-    const res1 = await fetch(`${API_BASE}/posts`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(at0 ? { Authorization: `Bearer ${at0}` } : {}),
-      },
+  // Sends with the stored access token; on 401 refreshes it once and retries
+  async function authedFetch(path: string, init: { method: string; headers?: Record<string, string>; body: BodyInit }) {
+    const send = (at: string) => fetch(`${API_BASE}${path}`, {
+      ...init,
+      headers: { ...(init.headers || {}), ...(at ? { Authorization: `Bearer ${at}` } : {}) },
       credentials: 'include',
-      body: JSON.stringify({ text: textToPost }),
     })
-    if (res1.status === 401) {
+    let res = await send(localStorage.getItem('accessToken') || '')
+    if (res.status === 401) {
       const at1 = await refreshAccessToken()
-      if (!at1) return { ok: false, status: 401 }
-      const res2 = await fetch(`${API_BASE}/posts`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${at1}`,
-        },
-        credentials: 'include',
-        body: JSON.stringify({ text: textToPost }),
-      })
-      return { ok: res2.ok, status: res2.status, data: await res2.text().then(t => { try { return JSON.parse(t) } catch { return t } }) }
+      if (!at1) return { ok: false, status: 401, data: null }
+      res = await send(at1)
+    }
+    return { ok: res.ok, status: res.status, data: await res.text().then(t => { try { return JSON.parse(t) } catch { return t } }) }
+  }
+
+  function draftBody(): DraftBody {
+    return {
+      text,
+      quoted_post_id: quotedId,
+      media: attachments.map((a) => ({ id: a.id, alt: a.alt })),
+      poll: poll ? { options: poll.options.map((o) => o.trim()), duration_minutes: poll.durationMinutes } : null,
+      place: placeBody(place),
+    }
+  }
+  const hasContent = !!(text.trim() || attachments.length || poll);
+
+  // What was last saved or loaded, so unmounting with nothing new doesn't save again
+  const savedBody = useRef(JSON.stringify(draftBody()));
+  const autosave = useRef<() => void>(() => {});
+  autosave.current = () => {
+    const body = draftBody();
+    if (!hasContent || JSON.stringify(body) === savedBody.current) return;
+    savedBody.current = JSON.stringify(body);
+    // Leaves scheduled_at out: a scheduled draft stays scheduled, anything else stays a draft
+    saveDraft(draftId, body, true).catch(() => {});
+  };
+  useEffect(() => {
+    const onHide = () => autosave.current();
+    window.addEventListener('pagehide', onHide);
+    return () => { window.removeEventListener('pagehide', onHide); onHide(); };
+  }, []);
+
+  function reset() {
+    setText('');
+    setAttachments([]);
+    setPoll(null);
+    setPlace(null);
+    setShowPlaces(false);
+    setComposeError(null);
+    setDraftId(null);
+    setDraftQuotedId(null);
+    setScheduleAt('');
+    setShowSchedule(false);
+    savedBody.current = JSON.stringify({ text: '', quoted_post_id: quoted?.id ?? null, media: [], poll: null, place: null });
+  }
+
+  function editDraft(d: Draft) {
+    autosave.current();
+    setShowDrafts(false);
+    setText(d.text);
+    setAttachments(d.media);
+    setPoll(d.poll ? { options: d.poll.options, durationMinutes: d.poll.duration_minutes } : null);
+    setPlace(d.place);
+    setDraftId(d.id);
+    setDraftQuotedId(d.quoted_post_id);
+    setScheduleAt(toDateTimeLocal(d.scheduled_at));
+    setShowSchedule(!!d.scheduled_at);
+    setComposeError(null);
+    setNotice(null);
+    savedBody.current = JSON.stringify({
+      text: d.text,
+      quoted_post_id: d.quoted_post_id,
+      media: d.media.map((a) => ({ id: a.id, alt: a.alt })),
+      poll: d.poll,
+      place: placeBody(d.place),
+    });
+  }
+
+  // Saves as a plain draft, or as a scheduled one when a time is picked
+  async function storeDraft(scheduled: boolean) {
+    const body = { ...draftBody(), scheduled_at: scheduled ? fromDateTimeLocal(scheduleAt) : null };
+    try {
+      setPosting(true);
+      const saved = await saveDraft(draftId, body);
+      reset();
+      setNotice(saved.scheduled_at ? `Scheduled for ${new Date(saved.scheduled_at).toLocaleString()}.` : 'Saved to drafts.');
+    } catch (e) {
+      setComposeError(draftErrorMessage(e instanceof Error ? e.message : null));
+    } finally {
+      setPosting(false);
+    }
+  }
+
+  // Replaces the selection, or inserts at the cursor, and puts the cursor after the emoji
+  function insertEmoji(emoji: string) {
+    const el = textareaRef.current;
+    const start = el?.selectionStart ?? text.length;
+    const end = el?.selectionEnd ?? text.length;
+    setText(text.slice(0, start) + emoji + text.slice(end));
+    setNotice(null);
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + emoji.length, start + emoji.length);
+    });
+  }
+
+  async function postTweet(textToPost: string) {
+    const body: Record<string, unknown> = { text: textToPost }
+    if (quotedId) body.quoted_post_id = quotedId
+    if (attachments.length) body.media = attachments.map((a) => ({ id: a.id, alt: a.alt }))
+    if (poll) body.poll = { options: poll.options.map((o) => o.trim()).filter(Boolean), duration_minutes: poll.durationMinutes }
+    if (place) body.place = placeBody(place)
+    return authedFetch('/posts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+  }
+
+  async function addFiles(files: FileList | null) {
+    if (!files?.length) return;
+    setComposeError(null);
+    const picked = Array.from(files).slice(0, MAX_ATTACHMENTS - attachments.length);
+    if (picked.length < files.length) setComposeError(`Up to ${MAX_ATTACHMENTS} attachments per post.`);
+    for (const file of picked) {
+      setUploading((n) => n + 1);
+      try {
+        const form = new FormData();
+        form.append('file', file);
+        const result = await authedFetch('/media', { method: 'POST', body: form });
+        if (!result.ok) {
+          setComposeError(composeErrorMessage(result.data?.error, result.data));
+          continue;
+        }
+        setAttachments((prev) => [...prev, { ...result.data, alt: '' }].slice(0, MAX_ATTACHMENTS));
+      } catch {
+        setComposeError(composeErrorMessage(undefined, null));
+      } finally {
+        setUploading((n) => n - 1);
+      }
     }
-    return { ok: res1.ok, status: res1.status, data: await res1.text().then(t => { try { return JSON.parse(t) } catch { return t } }) }
   }
 
   return (
@@ -85,9 +281,9 @@ export function Composer({}: ComposerProps) {
       <textarea
         ref={textareaRef}
         className="input"
-        placeholder="Say something..."
+        placeholder={quoted ? "Add a comment..." : "Say something..."}
         value={text}
-        onChange={(e) => setText(e.target.value)}
+        onChange={(e) => { setText(e.target.value); setNotice(null); }}
         style={{
           fontSize: 18,
           background: "transparent",
@@ -103,6 +299,111 @@ export function Composer({}: ComposerProps) {
         }}
       />
 
+      {/* Attachments, each with its alt text */}
+      {attachments.length > 0 && (
+        <div style={{ display: "grid", gridTemplateColumns: attachments.length === 1 ? "1fr" : "1fr 1fr", gap: 8, marginTop: 8 }}>
+          {attachments.map((a) => (
+            <div key={a.id} style={{ position: "relative", border: "1px solid var(--border)", borderRadius: 12, overflow: "hidden", background: "var(--panel)" }}>
+              {a.kind === "video" ? (
+                <video src={a.url} preload="metadata" muted style={{ width: "100%", maxHeight: 220, objectFit: "cover", display: "block" }} />
+              ) : (
+                <img src={a.thumb_url || a.url} alt={a.alt} style={{ width: "100%", maxHeight: 220, objectFit: "cover", display: "block" }} />
+              )}
+              <button
+                type="button"
+                aria-label="Remove attachment"
+                onClick={() => setAttachments((prev) => prev.filter((x) => x.id !== a.id))}
+                style={{ position: "absolute", top: 6, right: 6, border: "none", borderRadius: 999, width: 26, height: 26, cursor: "pointer", background: "rgba(0,0,0,0.6)", color: "#fff" }}
+              >
+                ×
+              </button>
+              <input
+                className="input"
+                placeholder="Describe this for people who can't see it"
+                aria-label="Alt text"
+                maxLength={1000}
+                value={a.alt}
+                onChange={(e) => setAttachments((prev) => prev.map((x) => (x.id === a.id ? { ...x, alt: e.target.value } : x)))}
+                style={{ width: "100%", border: "none", borderTop: "1px solid var(--border)", borderRadius: 0, fontSize: 13, padding: "6px 8px", boxSizing: "border-box" }}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+      {uploading > 0 && <div style={{ color: "var(--muted)", fontSize: 13, marginTop: 6 }}>Uploading…</div>}
+      {composeError && <div style={{ color: "#dc160f", fontSize: 13, marginTop: 6 }}>{composeError}</div>}
+
+      {/* Poll editor */}
+      {poll && (
+        <div style={{ marginTop: 8, padding: 12, border: "1px solid var(--border)", borderRadius: 12 }}>
+          {poll.options.map((o, i) => (
+            <input
+              key={i}
+              className="input"
+              placeholder={`Choice ${i + 1}${i >= 2 ? " (optional)" : ""}`}
+              maxLength={POLL_OPTION_MAX_LEN}
+              value={o}
+              onChange={(e) => setPoll({ ...poll, options: poll.options.map((x, j) => (j === i ? e.target.value : x)) })}
+              style={{ width: "100%", marginTop: i ? 6 : 0, boxSizing: "border-box" }}
+            />
+          ))}
+          <div style={{ display: "flex", alignItems: "center", gap: 12, marginTop: 8, flexWrap: "wrap" }}>
+            {poll.options.length < POLL_MAX_OPTIONS && (
+              <button type="button" className="btn" onClick={() => setPoll({ ...poll, options: [...poll.options, ""] })}>
+                Add choice
+              </button>
+            )}
+            <label style={{ fontSize: 14, color: "var(--muted)" }}>
+              Length{" "}
+              <select
+                value={poll.durationMinutes}
+                onChange={(e) => setPoll({ ...poll, durationMinutes: Number(e.target.value) })}
+              >
+                {POLL_DURATIONS.map((d) => <option key={d.minutes} value={d.minutes}>{d.label}</option>)}
+              </select>
+            </label>
+            <button type="button" onClick={() => setPoll(null)} style={{ marginLeft: "auto", border: "none", background: "transparent", color: "#dc160f", cursor: "pointer" }}>
+              Remove poll
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Schedule: the post goes out at this time instead of now */}
+      {showSchedule && (
+        <div style={{ display: "flex", alignItems: "center", gap: 12, marginTop: 8, flexWrap: "wrap", fontSize: 14, color: "var(--muted)" }}>
+          <label>
+            Post on{" "}
+            <input
+              type="datetime-local"
+              className="input"
+              value={scheduleAt}
+              min={toDateTimeLocal(new Date().toISOString())}
+              onChange={(e) => setScheduleAt(e.target.value)}
+            />
+          </label>
+          {scheduleAt && (
+            <button type="button" onClick={() => setScheduleAt("")} style={{ border: "none", background: "transparent", color: "#dc160f", cursor: "pointer" }}>
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
+      {showEmoji && <EmojiPicker onPick={insertEmoji} onClose={() => setShowEmoji(false)} />}
+
+      {showPlaces && (
+        <PlacePicker
+          onPick={(p) => { setPlace(p); setShowPlaces(false); }}
+          onClose={() => setShowPlaces(false)}
+        />
+      )}
+      {place && <PlaceTag place={place} onRemove={() => setPlace(null)} />}
+
+      {quoted && <QuotedPostCard quoted={quoted} />}
+      {!quoted && draftQuotedId && <div style={{ color: "var(--muted)", fontSize: 13, marginTop: 6 }}>Quotes a post</div>}
+      {notice && <div style={{ color: "var(--muted)", fontSize: 13, marginTop: 6 }}>{notice}</div>}
+
       {/* Character counter */}
       {remaining < 20 && (
         <div className={`char-counter${remaining <= 10 ? " danger" : ""}`} style={{ textAlign: "right", marginTop: 4, marginBottom: 8 }}>
@@ -114,29 +415,72 @@ export function Composer({}: ComposerProps) {
       <div style={{ display: "flex", justifyContent: "space-between", marginTop: 12, alignItems: "center" }}>
         {/* Icon row */}
         <div style={{ display: "flex", gap: 16, alignItems: "center" }}>
-          <IconWithLabel label="Media"><FaRegImage size={22} color="var(--primary)" /></IconWithLabel>
+          <IconWithLabel
+            label="Media"
+            disabled={!!poll || attachments.length + uploading >= MAX_ATTACHMENTS}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <FaRegImage size={22} color="var(--primary)" />
+          </IconWithLabel>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={MEDIA_ACCEPT}
+            multiple
+            hidden
+            onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }}
+          />
           <IconWithLabel label="GIF"><TbGif size={22} color="var(--primary)" /></IconWithLabel>
-          <IconWithLabel label="Poll"><FaSlidersH size={22} color="var(--primary)" /></IconWithLabel>
-          <IconWithLabel label="Emoji"><FaRegSmile size={22} color="var(--primary)" /></IconWithLabel>
-          <IconWithLabel label="Location"><FaMapMarkerAlt size={22} color="var(--primary)" /></IconWithLabel>
+          <IconWithLabel
+            label="Poll"
+            disabled={!!poll || attachments.length + uploading > 0}
+            onClick={() => setPoll({ options: ["", ""], durationMinutes: 24 * 60 })}
+          >
+            <FaSlidersH size={22} color="var(--primary)" />
+          </IconWithLabel>
+          <IconWithLabel label="Emoji" onClick={() => setShowEmoji((v) => !v)}>
+            <FaRegSmile size={22} color="var(--primary)" />
+          </IconWithLabel>
+          <IconWithLabel label="Schedule" onClick={() => setShowSchedule((v) => !v)}>
+            <FaRegCalendarAlt size={22} color="var(--primary)" />
+          </IconWithLabel>
+          <IconWithLabel label="Location" onClick={() => setShowPlaces((v) => !v)}>
+            <FaMapMarkerAlt size={22} color="var(--primary)" />
+          </IconWithLabel>
         </div>
 
-        {/* Post button */}
-        <div style={{ marginLeft: "auto" }}>
+        {/* Drafts, Save draft + Post button */}
+        <div style={{ marginLeft: "auto", display: "flex", gap: 12, alignItems: "center" }}>
+          {!quoted && (
+            <button type="button" onClick={() => setShowDrafts(true)} style={{ border: "none", background: "transparent", color: "var(--primary)", cursor: "pointer" }}>
+              Drafts
+            </button>
+          )}
+          {hasContent && !scheduleAt && (
+            <button
+              type="button"
+              disabled={posting || uploading > 0}
+              onClick={() => storeDraft(false)}
+              style={{ border: "none", background: "transparent", color: "var(--primary)", cursor: posting || uploading > 0 ? "not-allowed" : "pointer" }}
+            >
+              Save draft
+            </button>
+          )}
           <button
             className="btn"
-            style={{ cursor: (posting || !text.trim() || remaining < 0) ? 'not-allowed' : 'pointer', opacity: posting ? 0.7 : 1 }}
+            style={{ cursor: (posting || uploading > 0 || !pollReady || !text.trim() || remaining < 0) ? 'not-allowed' : 'pointer', opacity: posting ? 0.7 : 1 }}
             onClick={async () => {
-              if (posting) return; // prevent double submit
+              if (posting || uploading > 0) return; // prevent double submit / posting mid-upload
               const payload = text.trim();
               if (!payload) {
                 console.warn('Post blocked: empty text');
                 return;
               }
               if (remaining < 0) {
-                console.warn('Post blocked: over 280 characters');
+                console.warn(`Post blocked: over ${maxChars} characters`);
                 return;
               }
+              if (scheduleAt) return storeDraft(true);
               const at = localStorage.getItem('accessToken');
               if (!at) console.warn('No accessToken in localStorage; POST will likely 401');
               console.debug('POST /posts →', { API_BASE, len: payload.length });
@@ -146,21 +490,30 @@ export function Composer({}: ComposerProps) {
                 const result = await postTweet(payload);
                 if (!result.ok) {
                   console.error('Post failed', result.status, result.data || '');
+                  const code = result.data?.error;
+                  if (code === 'media_not_found' || code === 'invalid_poll' || code === 'invalid_place') setComposeError(composeErrorMessage(code, null));
+                  // Not the upload's too_long: the text, once the server expanded its shortcodes
+                  if (code === 'too_long') setComposeError(`A post can be at most ${maxChars} characters; links count as ${URL_LENGTH}.`);
                   return;
                 }
-                setText('');
+                if (draftId) deleteDraft(draftId).catch(() => {});
+                reset();
+                setNotice(null);
+                onPosted?.();
                 window.dispatchEvent(new CustomEvent('feed:refresh', { detail: { reason: 'post' } }))
               } finally {
                 setPosting(false);
               }
             }}
             type="button"
-            disabled={posting || !text.trim() || remaining < 0}
+            disabled={posting || uploading > 0 || !pollReady || !text.trim() || remaining < 0}
           >
-            {posting ? 'Posting…' : 'Post'}
+            {posting ? (scheduleAt ? 'Scheduling…' : 'Posting…') : (scheduleAt ? 'Schedule' : 'Post')}
           </button>
         </div>
       </div>
+
+      {showDrafts && <DraftsList onEdit={editDraft} onClose={() => setShowDrafts(false)} />}
     </div>
   );
 }
@@ -169,10 +522,10 @@ export function Composer({}: ComposerProps) {
  * Small helper component to render an icon with a tooltip-like label
  * appearing *below* the icon on hover. No other hover effects.
  */
-function IconWithLabel({ label, children }: { label: string; children: React.ReactNode }) {
+function IconWithLabel({ label, children, onClick, disabled }: { label: string; children: React.ReactNode; onClick?: () => void; disabled?: boolean }) {
   return (
     <div className="icon-wrap">
-      <button className="icon-btn" aria-label={label}>
+      <button className="icon-btn" aria-label={label} type="button" onClick={onClick} disabled={disabled} style={disabled ? { opacity: 0.5, cursor: "not-allowed" } : undefined}>
         {children}
       </button>
       <span className="icon-label">{label}</span>
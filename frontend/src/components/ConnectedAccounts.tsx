@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+
+/**
+ * ConnectedAccounts: external identity providers (OpenID Connect) linked to this account.
+ * Connecting leaves the app for the provider and comes back to /#connected=<id> or
+ * /#connect_error=<code>; App opens Settings on that fragment and this component reports it.
+ */
+
+const API_BASE = import.meta.env.VITE_API_BASE || "http://localhost:4000/api";
+
+type Identity = { provider: string; name: string; email: string | null; linkedAt: string };
+type Provider = { id: string; name: string };
+
+const CONNECT_ERRORS: Record<string, string> = {
+  identity_in_use: "That account is already connected to a different Tweaker account.",
+  already_linked: "You already have a different account from this provider connected.",
+  cancelled: "Connecting was cancelled.",
+  invalid_state: "That link expired. Please try again.",
+  verification_failed: "The identity provider could not be verified. Please try again.",
+};
+
+/** Read and clear the outcome of a connect round trip */
+function takeConnectResult(): { connected?: string; error?: string } {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  const connected = params.get("connected") || undefined;
+  const error = params.get("connect_error") || undefined;
+  if (connected || error) window.history.replaceState(null, "", window.location.pathname);
+  return { connected, error };
+}
+
+export default function ConnectedAccounts() {
+  const [items, setItems] = useState<Identity[]>([]);
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  async function load() {
+    setLoading(true);
+    try {
+      const res = await fetch(`${API_BASE}/auth/oidc/identities`, { credentials: "include" });
+      if (!res.ok) throw new Error(res.status === 401 ? "Please sign in again to manage connected accounts." : "Could not load connected accounts.");
+      const data = await res.json();
+      setItems(Array.isArray(data?.items) ? data.items : []);
+      setProviders(Array.isArray(data?.providers) ? data.providers : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not load connected accounts.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    const result = takeConnectResult();
+    if (result.connected) setNotice("Account connected. You can now sign in with it.");
+    if (result.error) setError(CONNECT_ERRORS[result.error] || "Could not connect that account.");
+    load();
+  }, []);
+
+  async function connect(id: string) {
+    setBusy(id);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`${API_BASE}/auth/oidc/${encodeURIComponent(id)}/link`, { method: "POST", credentials: "include" });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error === "guest_account" ? "Create an account to connect other sign-in providers." : data?.error || "Could not connect that account.");
+      window.location.assign(data.url);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not connect that account.");
+      setBusy(null);
+    }
+  }
+
+  async function disconnect(id: string) {
+    setBusy(id);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`${API_BASE}/auth/oidc/identities/${encodeURIComponent(id)}`, { method: "DELETE", credentials: "include" });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || "Could not disconnect that account.");
+      setItems((prev) => prev.filter((i) => i.provider !== id));
+      setNotice("Account disconnected.");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not disconnect that account.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  // Nothing to show when the server has no providers configured and nothing is linked
+  if (!loading && providers.length === 0 && items.length === 0 && !error) return null;
+
+  const linked = new Set(items.map((i) => i.provider));
+
+  return (
+    <div style={{ marginBottom: 24 }}>
+      <h4 style={{ margin: "12px 0 0" }}>Connected accounts</h4>
+      <p style={{ color: "var(--muted)", marginTop: 4 }}>Sign in with an account you already have elsewhere.</p>
+
+      {error && <p style={{ color: "#dc160f" }}>{error}</p>}
+      {notice && <p style={{ color: "var(--muted)" }}>{notice}</p>}
+      {loading && <p style={{ color: "var(--muted)" }}>Loading connected accounts…</p>}
+
+      <div style={{ display: "flex", flexDirection: "column", gap: 8, marginTop: 12 }}>
+        {items.map((i) => (
+          <div
+            key={i.provider}
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              padding: 16,
+              border: "1px solid var(--border)",
+              borderRadius: 12,
+              background: "var(--panel)",
+            }}
+          >
+            <div>
+              <div style={{ fontWeight: 700, color: "var(--bold-text)" }}>{i.name}</div>
+              <div style={{ fontSize: 13, color: "var(--muted)" }}>
+                {i.email ? `${i.email} · ` : ""}Connected {new Date(i.linkedAt).toLocaleDateString()}
+              </div>
+            </div>
+            <button
+              className="btn"
+              style={{ padding: "6px 12px", fontSize: 13, opacity: busy === i.provider ? 0.6 : 1 }}
+              disabled={busy === i.provider}
+              onClick={() => disconnect(i.provider)}
+            >
+              {busy === i.provider ? "Disconnecting…" : "Disconnect"}
+            </button>
+          </div>
+        ))}
+        {providers.filter((p) => !linked.has(p.id)).map((p) => (
+          <div key={p.id}>
+            <button
+              className="btn"
+              style={{ padding: "8px 14px", fontSize: 14, opacity: busy === p.id ? 0.6 : 1 }}
+              disabled={busy === p.id}
+              onClick={() => connect(p.id)}
+            >
+              {busy === p.id ? "Redirecting…" : `Connect ${p.name}`}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
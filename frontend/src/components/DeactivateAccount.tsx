@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useHasPassword } from "../hooks/useHasPassword";
+
+/**
+ * DeactivateAccount: Settings > Accounts danger zone.
+ * Deactivation hides the profile immediately; signing in again within the grace
+ * window restores it, otherwise the account and its content are permanently deleted.
+ * Accounts without a password confirm by having signed in recently instead.
+ */
+
+const API_BASE = import.meta.env.VITE_API_BASE || "http://localhost:4000/api";
+
+export default function DeactivateAccount() {
+  const [open, setOpen] = useState(false);
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const hasPassword = useHasPassword();
+
+  async function onConfirm(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    if (hasPassword !== false && !password) {
+      setError("Enter your password to confirm");
+      return;
+    }
+    setBusy(true);
+    try {
+      const res = await fetch(`${API_BASE}/users/me/deactivate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(hasPassword === false ? {} : { password }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        throw new Error(
+          data?.error === "wrong_password"
+            ? "Wrong password"
+            : data?.error === "reauth_required"
+              ? "Sign in again to confirm it's you, then retry."
+              : data?.error || `Deactivation failed (${res.status})`
+        );
+      }
+      localStorage.removeItem("accessToken");
+      localStorage.removeItem("user");
+      window.location.assign("/login");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Deactivation failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!open) {
+    return (
+      <button
+        className="btn"
+        style={{ padding: 16, fontSize: 16, backgroundColor: "#dc160f" }}
+        onClick={() => setOpen(true)}
+      >
+        Deactivate Account
+      </button>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={onConfirm}
+      style={{ marginTop: 16, padding: 16, border: "1px solid #dc160f", borderRadius: 12, background: "var(--panel)", textAlign: "left" }}
+    >
+      <strong>Deactivate your account?</strong>
+      <p style={{ color: "var(--muted)" }}>
+        Your profile and posts are hidden right away and every device is signed out.
+        Sign in again within 30 days to restore everything. After that your account, posts,
+        replies, likes and follows are permanently deleted.
+      </p>
+      {error && <p style={{ color: "#dc160f" }}>{error}</p>}
+      {hasPassword !== false && (
+        <label style={{ display: "block" }}>
+          Password
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            style={{
+              display: "block",
+              width: "100%",
+              maxWidth: 360,
+              padding: "10px 14px",
+              marginTop: 6,
+              borderRadius: "var(--radius)",
+              border: "1px solid var(--border)",
+              background: "var(--panel)",
+              color: "var(--text)",
+              outline: "none",
+            }}
+          />
+        </label>
+      )}
+      <div style={{ display: "flex", gap: 12, marginTop: 16 }}>
+        <button className="btn" type="submit" disabled={busy} style={{ padding: 12, fontSize: 16, backgroundColor: "#dc160f", opacity: busy ? 0.7 : 1 }}>
+          {busy ? "Deactivating…" : "Deactivate"}
+        </button>
+        <button
+          className="btn"
+          type="button"
+          onClick={() => { setOpen(false); setPassword(""); setError(null); }}
+          style={{ padding: 12, fontSize: 16, backgroundColor: "var(--bg)", color: "var(--muted)" }}
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { deleteDraft, draftErrorMessage, fromDateTimeLocal, listDrafts, saveDraft, toDateTimeLocal, type Draft } from "../api/drafts";
+
+/**
+ * DraftsList: modal with the user's scheduled posts (soonest first) and drafts (latest edit
+ * first), opened from the Composer. Edit hands the draft back to the Composer; scheduled
+ * posts can also be moved to another time or cancelled here.
+ */
+
+function formatDate(iso: string | null) {
+  const d = iso ? new Date(iso) : null;
+  return d && !Number.isNaN(d.getTime()) ? d.toLocaleString() : "";
+}
+
+function statusLine(d: Draft): { text: string; error?: boolean } {
+  if (d.status === "failed") return { text: `Not posted: ${draftErrorMessage(d.error)}`, error: true };
+  if (d.status === "publishing") return { text: "Posting now…" };
+  if (d.status === "scheduled") return { text: `Will post ${formatDate(d.scheduled_at)}` };
+  return { text: `Saved ${formatDate(d.updated_at)}` };
+}
+
+export default function DraftsList({ onEdit, onClose }: { onEdit: (draft: Draft) => void; onClose: () => void }) {
+  const [items, setItems] = useState<Draft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [rescheduling, setRescheduling] = useState<{ id: string; value: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listDrafts()
+      .then((list) => { if (!cancelled) setItems(list); })
+      .catch((e) => { if (!cancelled) setError(e instanceof Error && e.message === "Unauthorized" ? "Log in to see your drafts." : "Could not load your drafts."); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Close on Escape
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === "Escape") onClose(); };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(draftErrorMessage(e instanceof Error ? e.message : null));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const cancel = (d: Draft) => run(d.id, async () => {
+    await deleteDraft(d.id);
+    setItems((prev) => prev.filter((x) => x.id !== d.id));
+  });
+
+  const reschedule = (d: Draft, value: string) => run(d.id, async () => {
+    const updated = await saveDraft(d.id, { scheduled_at: fromDateTimeLocal(value) });
+    setItems((prev) => prev.map((x) => (x.id === d.id ? updated : x)));
+    setRescheduling(null);
+  });
+
+  const scheduled = items
+    .filter((d) => d.scheduled_at && d.status !== "draft")
+    .sort((a, b) => (a.scheduled_at || "").localeCompare(b.scheduled_at || ""));
+  const drafts = items.filter((d) => !scheduled.includes(d));
+
+  const renderItem = (d: Draft, i: number) => {
+    const status = statusLine(d);
+    const busy = busyId === d.id || d.status === "publishing";
+    const extras = [
+      d.media.length ? `${d.media.length} attachment${d.media.length === 1 ? "" : "s"}` : "",
+      d.poll ? "Poll" : "",
+      d.quoted_post_id ? "Quote" : "",
+    ].filter(Boolean);
+    return (
+      <li key={d.id} style={{ padding: "12px 0", borderTop: i ? "1px solid var(--border)" : "none" }}>
+        <div style={{ fontSize: 13, color: status.error ? "#dc160f" : "var(--muted)" }}>{status.text}</div>
+        <p style={{ margin: "6px 0 0", fontSize: 16, lineHeight: 1.4, color: d.text ? "var(--text)" : "var(--muted)", whiteSpace: "pre-wrap" }}>
+          {d.text || "(no text)"}
+        </p>
+        {extras.length > 0 && <div style={{ marginTop: 4, fontSize: 13, color: "var(--muted)" }}>{extras.join(" · ")}</div>}
+
+        {rescheduling?.id === d.id ? (
+          <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 8, flexWrap: "wrap" }}>
+            <input
+              type="datetime-local"
+              className="input"
+              value={rescheduling.value}
+              min={toDateTimeLocal(new Date().toISOString())}
+              onChange={(e) => setRescheduling({ id: d.id, value: e.target.value })}
+            />
+            <button type="button" className="btn" disabled={busy || !rescheduling.value} onClick={() => reschedule(d, rescheduling.value)}>
+              Save
+            </button>
+            <button type="button" onClick={() => setRescheduling(null)} style={{ border: "none", background: "transparent", color: "var(--muted)", cursor: "pointer" }}>
+              Back
+            </button>
+          </div>
+        ) : (
+          <div style={{ display: "flex", gap: 12, marginTop: 8 }}>
+            <button type="button" className="btn" disabled={busy} onClick={() => onEdit(d)}>
+              Edit
+            </button>
+            {d.status !== "draft" && (
+              <button
+                type="button"
+                className="btn"
+                disabled={busy}
+                onClick={() => setRescheduling({ id: d.id, value: d.status === "failed" ? "" : toDateTimeLocal(d.scheduled_at) })}
+              >
+                Reschedule
+              </button>
+            )}
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => cancel(d)}
+              style={{ marginLeft: "auto", border: "none", background: "transparent", color: "#dc160f", cursor: busy ? "not-allowed" : "pointer" }}
+            >
+              {d.status === "draft" ? "Delete" : "Cancel"}
+            </button>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Drafts"
+      onMouseDown={(e) => { e.stopPropagation(); if (e.target === e.currentTarget) onClose(); }}
+      onClick={(e) => e.stopPropagation()}
+      style={{ position: "fixed", inset: 0, zIndex: 1100, background: "rgba(0,0,0,0.45)" }}
+    >
+      <div
+        style={{
+          maxWidth: 520,
+          width: "92%",
+          margin: "10vh auto",
+          padding: 16,
+          border: "1px solid var(--border)",
+          borderRadius: 12,
+          background: "var(--panel)",
+          maxHeight: "70vh",
+          overflowY: "auto",
+          textAlign: "left",
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+          <strong style={{ fontSize: 16 }}>Drafts</strong>
+          <button onClick={onClose} aria-label="Close" style={{ border: "none", background: "transparent", cursor: "pointer", fontSize: 18 }}>×</button>
+        </div>
+
+        {loading && <p style={{ color: "var(--muted)" }}>Loading…</p>}
+        {error && <p style={{ color: "#dc160f" }}>{error}</p>}
+        {!loading && !items.length && !error && <p style={{ color: "var(--muted)" }}>No drafts or scheduled posts.</p>}
+
+        {scheduled.length > 0 && (
+          <>
+            <div style={{ marginTop: 12, fontSize: 14, fontWeight: 700, color: "var(--text)" }}>Scheduled</div>
+            <ul style={{ listStyle: "none", padding: 0, margin: "4px 0 0" }}>{scheduled.map(renderItem)}</ul>
+          </>
+        )}
+        {drafts.length > 0 && (
+          <>
+            <div style={{ marginTop: 12, fontSize: 14, fontWeight: 700, color: "var(--text)" }}>Drafts</div>
+            <ul style={{ listStyle: "none", padding: 0, margin: "4px 0 0" }}>{drafts.map(renderItem)}</ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useEffect, useMemo, useState } from "react";
+import { loadEmoji, withSkinTone, type EmojiData, type EmojiEntry } from "../api/emoji";
+
+/**
+ * EmojiPicker: the Composer's emoji panel over the server's dataset (GET /emoji).
+ * - Search matches names, shortcodes and keywords; otherwise one category at a time
+ * - Recently used emoji come first, and the chosen skin tone applies to every emoji that
+ *   takes one; both are remembered in localStorage on this device
+ * - `onPick` gets the emoji with the tone already applied
+ */
+
+const RECENT_KEY = "emoji.recent";
+const TONE_KEY = "emoji.skinTone";
+const MAX_RECENT = 24;
+const MAX_RESULTS = 80;
+
+function readRecent(): string[] {
+  try {
+    const v = JSON.parse(localStorage.getItem(RECENT_KEY) || "[]");
+    return Array.isArray(v) ? v.filter((e) => typeof e === "string").slice(0, MAX_RECENT) : [];
+  } catch {
+    return [];
+  }
+}
+
+// 0 is the default yellow; 1–5 pick one of the dataset's modifiers
+function readTone(): number {
+  const n = Number(localStorage.getItem(TONE_KEY));
+  return Number.isInteger(n) && n >= 0 && n <= 5 ? n : 0;
+}
+
+export default function EmojiPicker({ onPick, onClose }: { onPick: (emoji: string) => void; onClose: () => void }) {
+  const [data, setData] = useState<EmojiData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState<string | null>(null);
+  const [recent, setRecent] = useState<string[]>(readRecent);
+  const [tone, setTone] = useState(readTone);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadEmoji()
+      .then((d) => { if (!cancelled) setData(d); })
+      .catch(() => { if (!cancelled) setError("Could not load emoji."); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const byEmoji = useMemo(() => {
+    const m = new Map<string, EmojiEntry>();
+    for (const c of data?.categories || []) for (const e of c.emoji) m.set(e.emoji, e);
+    return m;
+  }, [data]);
+
+  const results = useMemo(() => {
+    const q = query.trim().toLowerCase().replace(/^:|:$/g, "");
+    if (!data || !q) return null;
+    const found: EmojiEntry[] = [];
+    for (const c of data.categories) {
+      for (const e of c.emoji) {
+        if (e.name.toLowerCase().includes(q) || e.shortcodes.some((s) => s.includes(q)) || e.keywords.some((k) => k.startsWith(q))) {
+          found.push(e);
+          if (found.length >= MAX_RESULTS) return found;
+        }
+      }
+    }
+    return found;
+  }, [data, query]);
+
+  const modifier = data && tone ? data.skin_tones[tone - 1] ?? null : null;
+  const display = (e: EmojiEntry) => (e.skin_tones ? withSkinTone(e.emoji, modifier) : e.emoji);
+
+  const pick = (e: EmojiEntry) => {
+    const next = [e.emoji, ...recent.filter((r) => r !== e.emoji)].slice(0, MAX_RECENT);
+    setRecent(next);
+    localStorage.setItem(RECENT_KEY, JSON.stringify(next));
+    onPick(display(e));
+  };
+
+  const chooseTone = (n: number) => {
+    setTone(n);
+    localStorage.setItem(TONE_KEY, String(n));
+  };
+
+  const recentEntries = recent.map((r) => byEmoji.get(r)).filter((e): e is EmojiEntry => !!e);
+  const activeCategory = data?.categories.find((c) => c.id === category) ?? data?.categories[0];
+
+  const grid = (items: EmojiEntry[]) => (
+    <div style={{ display: "grid", gridTemplateColumns: "repeat(8, 1fr)", gap: 2 }}>
+      {items.map((e) => (
+        <button
+          key={e.emoji}
+          type="button"
+          title={`${e.name} :${e.shortcodes[0]}:`}
+          aria-label={e.name}
+          onClick={() => pick(e)}
+          style={{ fontSize: 22, lineHeight: "32px", border: "none", borderRadius: 8, background: "transparent", cursor: "pointer", padding: 0 }}
+        >
+          {display(e)}
+        </button>
+      ))}
+    </div>
+  );
+
+  const heading = (label: string) => (
+    <div style={{ fontSize: 12, fontWeight: 600, color: "var(--muted)", margin: "8px 0 4px" }}>{label}</div>
+  );
+
+  return (
+    <div style={{ marginTop: 8, padding: 12, border: "1px solid var(--border)", borderRadius: 12, textAlign: "left" }}>
+      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <input
+          className="input"
+          placeholder="Search emoji"
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          style={{ flex: 1, boxSizing: "border-box" }}
+        />
+        <button type="button" onClick={onClose} aria-label="Close" style={{ border: "none", background: "transparent", cursor: "pointer", fontSize: 18, color: "var(--muted)" }}>
+          ×
+        </button>
+      </div>
+
+      {error && <div style={{ marginTop: 6, fontSize: 13, color: "#dc160f" }}>{error}</div>}
+      {!data && !error && <div style={{ marginTop: 6, fontSize: 13, color: "var(--muted)" }}>Loading…</div>}
+
+      {data && (
+        <>
+          {/* Skin tone */}
+          <div role="radiogroup" aria-label="Skin tone" style={{ display: "flex", gap: 4, marginTop: 8 }}>
+            {["", ...data.skin_tones].map((m, i) => (
+              <button
+                key={i}
+                type="button"
+                role="radio"
+                aria-checked={tone === i}
+                aria-label={i ? `Skin tone ${i}` : "Default skin tone"}
+                onClick={() => chooseTone(i)}
+                style={{ fontSize: 18, border: tone === i ? "2px solid var(--primary)" : "2px solid transparent", borderRadius: 999, background: "transparent", cursor: "pointer", padding: "0 2px" }}
+              >
+                {withSkinTone("✋", m || null)}
+              </button>
+            ))}
+          </div>
+
+          {results ? (
+            <>
+              {heading("Results")}
+              {results.length ? grid(results) : <div style={{ fontSize: 13, color: "var(--muted)" }}>No emoji found.</div>}
+            </>
+          ) : (
+            <>
+              {recentEntries.length > 0 && (
+                <>
+                  {heading("Recent")}
+                  {grid(recentEntries)}
+                </>
+              )}
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 8 }}>
+                {data.categories.map((c) => (
+                  <button
+                    key={c.id}
+                    type="button"
+                    onClick={() => setCategory(c.id)}
+                    title={c.name}
+                    style={{ border: "none", background: "transparent", cursor: "pointer", fontSize: 13, padding: 0, color: c.id === activeCategory?.id ? "var(--primary)" : "var(--muted)", fontWeight: c.id === activeCategory?.id ? 600 : 400 }}
+                  >
+                    {c.name}
+                  </button>
+                ))}
+              </div>
+              {activeCategory && (
+                <div style={{ maxHeight: 200, overflowY: "auto", marginTop: 4 }}>
+                  {grid(activeCategory.emoji)}
+                </div>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * MediaGrid: a post's attachments (`media` in feed payloads), up to four in a 2-column grid.
+ * Images open the full file in a new tab; videos play inline. Alt text goes on
+ * the element and, for images, shows on hover.
+ */
+
+export type MediaAttachment = {
+  id: string;
+  kind: "image" | "video";
+  url: string;
+  thumb_url: string | null;
+  width: number | null;
+  height: number | null;
+  alt: string;
+};
+
+export default function MediaGrid({ items }: { items: MediaAttachment[] }) {
+  if (!items.length) return null;
+  const single = items.length === 1;
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      style={{
+        display: "grid",
+        gridTemplateColumns: single ? "1fr" : "1fr 1fr",
+        gap: 4,
+        marginTop: 8,
+        borderRadius: 12,
+        overflow: "hidden",
+        border: "1px solid var(--border)",
+      }}
+    >
+      {items.map((m) => {
+        const fit: React.CSSProperties = {
+          width: "100%",
+          height: single ? "auto" : "100%",
+          maxHeight: single ? 510 : undefined,
+          aspectRatio: single ? undefined : "16 / 9",
+          objectFit: "cover",
+          display: "block",
+          background: "var(--panel)",
+        };
+        return m.kind === "video" ? (
+          <video key={m.id} src={m.url} controls preload="metadata" aria-label={m.alt || undefined} style={fit} />
+        ) : (
+          <a key={m.id} href={m.url} target="_blank" rel="noreferrer" style={{ display: "block" }}>
+            {/* A lone image gets the room for the full file; in a grid the thumbnail does */}
+            <img src={single ? m.url : m.thumb_url || m.url} alt={m.alt} title={m.alt || undefined} loading="lazy" style={fit} />
+          </a>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import type { PollState } from "./Poll";
+
+/**
+ * Notifications: the signed-in user's notifications, newest first (GET /notifications).
+ * Opening the list marks everything read.
+ */
+
+const API_BASE = import.meta.env.VITE_API_BASE || "http://localhost:4000/api";
+
+type NotificationItem = {
+  id: string;
+  type: "poll_closed";
+  created_at: string;
+  relative_time: string;
+  read: boolean;
+  post: { id: string; text: string; poll: PollState | null } | null;
+};
+
+/** "Yes (62%)" for the leading option(s) of a closed poll */
+function pollSummary(poll: PollState): string {
+  const total = poll.total_votes || 0;
+  if (!total) return "No votes were cast.";
+  const top = Math.max(...poll.options.map((o) => o.votes || 0));
+  const leaders = poll.options.filter((o) => (o.votes || 0) === top).map((o) => o.text);
+  const pct = Math.round((top / total) * 100);
+  return `${leaders.length > 1 ? "Tied" : "Winner"}: ${leaders.join(", ")} (${pct}%) · ${total} vote${total === 1 ? "" : "s"}`;
+}
+
+export default function Notifications() {
+  const [items, setItems] = useState<NotificationItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (cursor: string | null) => {
+    setLoading(true);
+    try {
+      const url = cursor ? `${API_BASE}/notifications?cursor=${encodeURIComponent(cursor)}` : `${API_BASE}/notifications`;
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error(res.status === 401 ? "Log in to see your notifications." : "Could not load notifications.");
+      const data = await res.json();
+      const page: NotificationItem[] = Array.isArray(data?.items) ? data.items : [];
+      setItems((prev) => (cursor ? [...prev, ...page] : page));
+      setNextCursor(data?.nextCursor || null);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not load notifications.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load(null).then(() => fetch(`${API_BASE}/notifications/read`, { method: "POST", credentials: "include" }).catch(() => {}));
+  }, []);
+
+  return (
+    <div className="panel" style={{ padding: 16, textAlign: "left" }}>
+      <h2 style={{ margin: "0 0 8px", fontSize: 20 }}>Notifications</h2>
+      {error && <p style={{ color: "#dc160f" }}>{error}</p>}
+      {!loading && !error && items.length === 0 && <p style={{ color: "var(--muted)" }}>Nothing here yet.</p>}
+
+      <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+        {items.map((n, i) => (
+          <li
+            key={n.id}
+            style={{
+              padding: "12px 0",
+              borderTop: i ? "1px solid var(--border)" : "none",
+              fontWeight: n.read ? undefined : 600,
+            }}
+          >
+            {n.type === "poll_closed" && (
+              <>
+                <div style={{ color: "var(--text)" }}>Your poll has ended</div>
+                {n.post ? (
+                  <>
+                    <div style={{ marginTop: 4, color: "var(--muted)", whiteSpace: "pre-wrap", fontWeight: 400 }}>{n.post.text}</div>
+                    {n.post.poll && <div style={{ marginTop: 4, fontSize: 14, color: "var(--text)" }}>{pollSummary(n.post.poll)}</div>}
+                  </>
+                ) : (
+                  <div style={{ marginTop: 4, color: "var(--muted)", fontWeight: 400 }}>The post was deleted.</div>
+                )}
+              </>
+            )}
+            <div style={{ marginTop: 4, fontSize: 13, color: "var(--muted)", fontWeight: 400 }}>{n.relative_time}</div>
+          </li>
+        ))}
+      </ul>
+
+      {loading && <p style={{ color: "var(--muted)" }}>Loading…</p>}
+      {!loading && nextCursor && (
+        <button type="button" className="btn" onClick={() => load(nextCursor)}>
+          Show more
+        </button>
+      )}
+    </div>
+  );
+}
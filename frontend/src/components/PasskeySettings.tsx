@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { passkeysSupported, registerPasskey } from "../api/passkeys";
+
+/**
+ * PasskeySettings: lists the account's passkeys, adds a new one through the browser's
+ * WebAuthn prompt and removes old ones. Passkeys sign in without a password from the Login page.
+ */
+
+const API_BASE = import.meta.env.VITE_API_BASE || "http://localhost:4000/api";
+
+type PasskeyItem = {
+  id: string;
+  name: string;
+  transports: string[];
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+function formatDate(iso: string) {
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? "" : d.toLocaleString();
+}
+
+export default function PasskeySettings() {
+  const [items, setItems] = useState<PasskeyItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  async function load() {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`${API_BASE}/auth/passkeys`, { credentials: "include" });
+      if (!res.ok) throw new Error(res.status === 401 ? "Please sign in again to manage passkeys." : "Could not load passkeys.");
+      const data = await res.json();
+      setItems(Array.isArray(data?.items) ? data.items : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not load passkeys.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => { load(); }, []);
+
+  async function add(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy("add");
+    setError(null);
+    setNotice(null);
+    try {
+      await registerPasskey(name.trim() || "Passkey");
+      setName("");
+      setNotice("Passkey added. You can now sign in with it instead of your password.");
+      await load();
+    } catch (e) {
+      // NotAllowedError: the browser prompt was dismissed or timed out
+      if (e instanceof Error && e.name === "NotAllowedError") return;
+      const message = e instanceof Error ? e.message : "";
+      setError(message === "guest_account" ? "Create an account to use passkeys." : message || "Could not add passkey.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function remove(id: string) {
+    setBusy(id);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`${API_BASE}/auth/passkeys/${encodeURIComponent(id)}`, { method: "DELETE", credentials: "include" });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || "Could not remove passkey.");
+      setItems((prev) => prev.filter((p) => p.id !== id));
+      setNotice("Passkey removed.");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not remove passkey.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div style={{ marginBottom: 24 }}>
+      <h4 style={{ margin: "12px 0 0" }}>Passkeys</h4>
+      <p style={{ color: "var(--muted)", marginTop: 4 }}>
+        Sign in with your fingerprint, face, screen lock or a security key instead of your password.
+      </p>
+
+      {!passkeysSupported() && <p style={{ color: "var(--muted)" }}>This browser doesn't support passkeys.</p>}
+      {error && <p style={{ color: "#dc160f" }}>{error}</p>}
+      {notice && <p style={{ color: "var(--muted)" }}>{notice}</p>}
+      {loading && <p style={{ color: "var(--muted)" }}>Loading passkeys…</p>}
+
+      <div style={{ display: "flex", flexDirection: "column", gap: 8, marginTop: 12 }}>
+        {items.map((p) => (
+          <div
+            key={p.id}
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              padding: 16,
+              border: "1px solid var(--border)",
+              borderRadius: 12,
+              background: "var(--panel)",
+            }}
+          >
+            <div>
+              <div style={{ fontWeight: 700, color: "var(--bold-text)" }}>{p.name}</div>
+              <div style={{ fontSize: 13, color: "var(--muted)" }}>
+                Added {formatDate(p.createdAt)}
+                {p.lastUsedAt ? ` · Last used ${formatDate(p.lastUsedAt)}` : " · Never used"}
+              </div>
+            </div>
+            <button
+              className="btn"
+              style={{ padding: "6px 12px", fontSize: 13, opacity: busy === p.id ? 0.6 : 1 }}
+              disabled={busy === p.id}
+              onClick={() => remove(p.id)}
+            >
+              {busy === p.id ? "Removing…" : "Remove"}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {passkeysSupported() && (
+        <form onSubmit={add} style={{ display: "flex", gap: 8, marginTop: 12 }}>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={50}
+            placeholder="Name, e.g. Work laptop"
+            style={{
+              flex: 1,
+              padding: "8px 12px",
+              borderRadius: "var(--radius)",
+              border: "1px solid var(--border)",
+              background: "var(--bg)",
+              color: "var(--text)",
+            }}
+          />
+          <button
+            type="submit"
+            className="btn"
+            style={{ padding: "8px 14px", fontSize: 14, opacity: busy === "add" ? 0.6 : 1 }}
+            disabled={busy === "add"}
+          >
+            {busy === "add" ? "Waiting for browser…" : "Add a passkey"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { FaMapMarkerAlt } from "react-icons/fa";
+
+/**
+ * Location tagging (`place` in feed payloads). PlaceTag shows a post's place; PlacePicker is
+ * the Composer's search over the server's offline gazetteer (GET /places), plus an option to
+ * use the device's position. The server only ever stores coarsened coordinates, and the
+ * picker shows the author the coarsened place before they post.
+ */
+
+const API_BASE = import.meta.env.VITE_API_BASE || "http://localhost:4000/api";
+
+export type PostPlace = {
+  id: string | null;
+  name: string | null;
+  country: string | null;
+  lat: number;
+  lng: number;
+};
+
+function label(place: PostPlace) {
+  if (!place.name) return "Approximate location";
+  return place.country ? `${place.name}, ${place.country}` : place.name;
+}
+
+export function PlaceTag({ place, onRemove }: { place: PostPlace; onRemove?: () => void }) {
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: 4, marginTop: 6, fontSize: 14, color: "var(--muted)", textAlign: "left" }}>
+      <FaMapMarkerAlt size={13} />
+      <span>{place.id || !place.name ? label(place) : `Near ${label(place)}`}</span>
+      {onRemove && (
+        <button type="button" aria-label="Remove location" onClick={onRemove} style={{ border: "none", background: "transparent", color: "var(--muted)", cursor: "pointer" }}>
+          ×
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default function PlacePicker({ onPick, onClose }: { onPick: (place: PostPlace) => void; onClose: () => void }) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<PostPlace[]>([]);
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) { setResults([]); return; }
+    let cancelled = false;
+    const t = setTimeout(async () => {
+      try {
+        const res = await fetch(`${API_BASE}/places?q=${encodeURIComponent(q)}`);
+        const data = await res.json().catch(() => null);
+        if (!cancelled) setResults(Array.isArray(data?.items) ? data.items : []);
+      } catch {
+        if (!cancelled) setError("Could not search places.");
+      }
+    }, 200);
+    return () => { cancelled = true; clearTimeout(t); };
+  }, [query]);
+
+  const locateMe = () => {
+    if (!navigator.geolocation) { setError("Your browser can't share its location."); return; }
+    setLocating(true);
+    setError(null);
+    navigator.geolocation.getCurrentPosition(
+      async ({ coords }) => {
+        try {
+          const res = await fetch(`${API_BASE}/places?lat=${coords.latitude}&lng=${coords.longitude}`);
+          const data = await res.json().catch(() => null);
+          const place: PostPlace | undefined = data?.items?.[0];
+          if (!res.ok || !place) throw new Error();
+          onPick(place);
+        } catch {
+          setError("Could not look up your location.");
+        } finally {
+          setLocating(false);
+        }
+      },
+      () => { setLocating(false); setError("Location access was denied."); },
+      { enableHighAccuracy: false, maximumAge: 10 * 60 * 1000, timeout: 10000 }
+    );
+  };
+
+  return (
+    <div style={{ marginTop: 8, padding: 12, border: "1px solid var(--border)", borderRadius: 12, textAlign: "left" }}>
+      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <input
+          className="input"
+          placeholder="Search for a city"
+          autoFocus
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setError(null); }}
+          style={{ flex: 1, boxSizing: "border-box" }}
+        />
+        <button type="button" onClick={onClose} aria-label="Close" style={{ border: "none", background: "transparent", cursor: "pointer", fontSize: 18, color: "var(--muted)" }}>
+          ×
+        </button>
+      </div>
+      <button
+        type="button"
+        disabled={locating}
+        onClick={locateMe}
+        style={{ marginTop: 8, border: "none", background: "transparent", color: "var(--primary)", cursor: locating ? "not-allowed" : "pointer", padding: 0 }}
+      >
+        {locating ? "Locating…" : "Use my approximate location"}
+      </button>
+      {error && <div style={{ marginTop: 6, fontSize: 13, color: "#dc160f" }}>{error}</div>}
+      {results.length > 0 && (
+        <ul style={{ listStyle: "none", padding: 0, margin: "8px 0 0" }}>
+          {results.map((p) => (
+            <li key={p.id ?? `${p.lat},${p.lng}`}>
+              <button
+                type="button"
+                onClick={() => onPick(p)}
+                style={{ display: "block", width: "100%", textAlign: "left", padding: "6px 0", border: "none", background: "transparent", color: "var(--text)", cursor: "pointer" }}
+              >
+                {label(p)}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+
+/**
+ * PollView: a post's poll (`poll` in feed payloads). Until the viewer votes or the poll
+ * closes, the server leaves the tallies out and this shows the options as buttons; after
+ * that it shows each option's share, with the viewer's choice marked.
+ */
+
+const API_BASE = import.meta.env.VITE_API_BASE || "http://localhost:4000/api";
+
+export type PollState = {
+  options: { text: string; votes: number | null }[];
+  total_votes: number | null;
+  closes_at: string;
+  closed: boolean;
+  voted_option: number | null;
+};
+
+const VOTE_ERRORS: Record<string, string> = {
+  poll_closed: "This poll has ended.",
+  already_voted: "You already voted in this poll.",
+};
+
+function timeLeft(iso: string): string {
+  const ms = new Date(iso).getTime() - Date.now();
+  if (!(ms > 0)) return "Final results";
+  const minutes = Math.ceil(ms / 60000);
+  if (minutes < 60) return `${minutes}m left`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h left`;
+  return `${Math.floor(hours / 24)}d left`;
+}
+
+export default function PollView({ postId, poll: initial }: { postId: string; poll: PollState }) {
+  const [poll, setPoll] = useState<PollState>(initial);
+  const [voting, setVoting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => { setPoll(initial); }, [initial]);
+
+  const showResults = poll.closed || poll.total_votes !== null;
+
+  const vote = async (option: number) => {
+    if (voting) return;
+    setVoting(true);
+    setError(null);
+    try {
+      const res = await fetch(`${API_BASE}/posts/${postId}/poll/votes`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ option }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(VOTE_ERRORS[data?.error] || (res.status === 401 ? "Log in to vote." : "Could not record your vote."));
+        return;
+      }
+      if (data?.poll) setPoll(data.poll);
+    } catch {
+      setError("Could not record your vote.");
+    } finally {
+      setVoting(false);
+    }
+  };
+
+  return (
+    <div style={{ marginTop: 8, textAlign: "left" }} onClick={(e) => e.stopPropagation()}>
+      {poll.options.map((o, i) => {
+        if (!showResults) {
+          return (
+            <button
+              key={i}
+              type="button"
+              disabled={voting}
+              onClick={() => vote(i)}
+              style={{
+                display: "block",
+                width: "100%",
+                marginTop: 6,
+                padding: "8px 12px",
+                borderRadius: 999,
+                border: "1px solid var(--primary)",
+                background: "transparent",
+                color: "var(--primary)",
+                fontWeight: 700,
+                cursor: voting ? "not-allowed" : "pointer",
+              }}
+            >
+              {o.text}
+            </button>
+          );
+        }
+        const total = poll.total_votes || 0;
+        const pct = total ? Math.round(((o.votes || 0) / total) * 100) : 0;
+        const mine = poll.voted_option === i;
+        return (
+          <div key={i} style={{ position: "relative", marginTop: 6, borderRadius: 6, overflow: "hidden" }}>
+            <div style={{ position: "absolute", inset: 0, width: `${pct}%`, background: mine ? "var(--primary)" : "var(--border)", opacity: mine ? 0.35 : 0.6 }} />
+            <div style={{ position: "relative", display: "flex", justifyContent: "space-between", padding: "6px 10px", color: "var(--text)", fontWeight: mine ? 700 : undefined }}>
+              <span>{o.text}{mine ? " ✓" : ""}</span>
+              <span>{pct}%</span>
+            </div>
+          </div>
+        );
+      })}
+      <div style={{ marginTop: 6, fontSize: 13, color: "var(--muted)" }}>
+        {showResults && `${poll.total_votes ?? 0} vote${poll.total_votes === 1 ? "" : "s"} · `}
+        {poll.closed ? "Final results" : timeLeft(poll.closes_at)}
+      </div>
+      {error && <div style={{ marginTop: 4, fontSize: 13, color: "#dc160f" }}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+
+/**
+ * PostHistory: modal listing every version of an edited post, newest first.
+ * Opened from the "Edited" marker on a Tweet; reads GET /posts/:id/history.
+ */
+
+const API_BASE = import.meta.env.VITE_API_BASE || "http://localhost:4000/api";
+
+type Version = { text: string; created_at: string; current: boolean };
+
+function formatDate(iso: string) {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleString();
+}
+
+export default function PostHistory({ postId, onClose }: { postId: string; onClose: () => void }) {
+  const [items, setItems] = useState<Version[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`${API_BASE}/posts/${postId}/history`, { credentials: "include" });
+        if (!res.ok) throw new Error(res.status === 404 ? "This post is no longer available." : "Could not load the edit history.");
+        const data = await res.json();
+        if (!cancelled) setItems(Array.isArray(data?.items) ? data.items : []);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Could not load the edit history.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [postId]);
+
+  // Close on Escape
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === "Escape") onClose(); };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Edit history"
+      onMouseDown={(e) => { e.stopPropagation(); if (e.target === e.currentTarget) onClose(); }}
+      onClick={(e) => e.stopPropagation()}
+      style={{ position: "fixed", inset: 0, zIndex: 1100, background: "rgba(0,0,0,0.45)" }}
+    >
+      <div
+        style={{
+          maxWidth: 520,
+          width: "92%",
+          margin: "10vh auto",
+          padding: 16,
+          border: "1px solid var(--border)",
+          borderRadius: 12,
+          background: "var(--panel)",
+          maxHeight: "70vh",
+          overflowY: "auto",
+          textAlign: "left",
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+          <strong style={{ fontSize: 16 }}>Edit history</strong>
+          <button onClick={onClose} aria-label="Close" style={{ border: "none", background: "transparent", cursor: "pointer", fontSize: 18 }}>×</button>
+        </div>
+
+        {loading && <p style={{ color: "var(--muted)" }}>Loading…</p>}
+        {error && <p style={{ color: "#dc160f" }}>{error}</p>}
+
+        <ul style={{ listStyle: "none", padding: 0, margin: "12px 0 0" }}>
+          {items.map((v, i) => (
+            <li key={i} style={{ padding: "12px 0", borderTop: i ? "1px solid var(--border)" : "none" }}>
+              <div style={{ fontSize: 13, color: "var(--muted)" }}>
+                {v.current ? "Current version" : "Earlier version"} · {formatDate(v.created_at)}
+              </div>
+              <p style={{ margin: "6px 0 0", fontSize: 16, lineHeight: 1.4, color: "var(--text)", whiteSpace: "pre-wrap" }}>{v.text}</p>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { FaCheckCircle } from "react-icons/fa";
+
+/**
+ * QuotedPostCard: the original post embedded inside a quote post (`quoted_post` in feed payloads).
+ * The server sends `unavailable` instead of content once the original is deleted or its
+ * author is no longer active.
+ */
+
+export type QuotedPost =
+  | {
+      id: string;
+      text: string;
+      created_at?: string;
+      relative_time?: string;
+      user: { fullName: string; username: string; avatar?: string | null; verified?: boolean };
+      edited?: boolean;
+    }
+  | { id: string; unavailable: true; reason: "deleted" | "unavailable" };
+
+const cardStyle: React.CSSProperties = {
+  marginTop: 8,
+  padding: 12,
+  border: "1px solid var(--border)",
+  borderRadius: 12,
+  background: "var(--panel)",
+  textAlign: "left",
+};
+
+export default function QuotedPostCard({ quoted }: { quoted: QuotedPost }) {
+  if ("unavailable" in quoted) {
+    return (
+      <div style={{ ...cardStyle, color: "var(--muted)", fontSize: 14 }}>
+        {quoted.reason === "deleted" ? "This post was deleted." : "This post is unavailable."}
+      </div>
+    );
+  }
+
+  return (
+    <div style={cardStyle}>
+      <div style={{ display: "flex", alignItems: "center", gap: 6, flexWrap: "wrap" }}>
+        <img
+          src={quoted.user.avatar || "/images/avatar.png"}
+          width={20}
+          height={20}
+          style={{ borderRadius: 999, objectFit: "cover" }}
+          alt=""
+        />
+        <strong style={{ color: "var(--bold-text)", fontSize: 14 }}>{quoted.user.fullName}</strong>
+        {quoted.user.verified && <FaCheckCircle size={12} color="var(--primary)" />}
+        <span style={{ color: "var(--muted)", fontSize: 14 }}>@{quoted.user.username}</span>
+        {quoted.relative_time && <span style={{ color: "var(--muted)", fontSize: 14 }}>· {quoted.relative_time}</span>}
+        {quoted.edited && <span style={{ color: "var(--muted)", fontSize: 13 }}>· Edited</span>}
+      </div>
+      <p style={{ margin: "6px 0 0", fontSize: 15, lineHeight: 1.4, color: "var(--text)", whiteSpace: "pre-wrap" }}>{quoted.text}</p>
+    </div>
+  );
+}
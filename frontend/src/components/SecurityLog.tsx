@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+
+/**
+ * SecurityLog: recent security events of the current account
+ * (sign-ins, failed sign-ins, lockouts, password changes, recoveries, two-factor changes).
+ */
+
+const API_BASE = import.meta.env.VITE_API_BASE || "http://localhost:4000/api";
+
+type SecurityEventItem = {
+  id: string;
+  type:
+    | "login"
+    | "login_failed"
+    | "lockout"
+    | "password_changed"
+    | "recovery"
+    | "two_factor_enabled"
+    | "two_factor_disabled"
+    | "backup_code_used"
+    | "passkey_added"
+    | "passkey_removed"
+    | "api_token_created"
+    | "api_token_revoked"
+    | "identity_linked"
+    | "identity_unlinked"
+    | "username_changed";
+  device: string;
+  ip: string;
+  createdAt: string;
+};
+
+const LABELS: Record<SecurityEventItem["type"], string> = {
+  login: "Signed in",
+  login_failed: "Failed sign-in attempt",
+  lockout: "Sign-in temporarily locked",
+  password_changed: "Password changed",
+  recovery: "Account recovered with secret key",
+  two_factor_enabled: "Two-factor authentication set up",
+  two_factor_disabled: "Two-factor authentication turned off",
+  backup_code_used: "Signed in with a backup code",
+  passkey_added: "Passkey added",
+  passkey_removed: "Passkey removed",
+  api_token_created: "API token created",
+  api_token_revoked: "API token revoked",
+  identity_linked: "Connected a sign-in provider",
+  identity_unlinked: "Disconnected a sign-in provider",
+  username_changed: "Username changed",
+};
+
+const WARNING_TYPES = new Set<SecurityEventItem["type"]>(["login_failed", "lockout", "two_factor_disabled"]);
+
+function formatDate(iso: string) {
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? "" : d.toLocaleString();
+}
+
+export default function SecurityLog() {
+  const [items, setItems] = useState<SecurityEventItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch(`${API_BASE}/auth/security-events`, { credentials: "include" });
+        if (!res.ok) throw new Error(res.status === 401 ? "Please sign in again to view security activity." : "Could not load security activity.");
+        const data = await res.json();
+        setItems(Array.isArray(data?.items) ? data.items : []);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Could not load security activity.");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  return (
+    <div style={{ marginTop: 32 }}>
+      <h4 style={{ margin: 0 }}>Security activity</h4>
+      <p style={{ color: "var(--muted)", fontSize: 13 }}>
+        Don't recognise something? Change your password and sign out your other devices.
+      </p>
+
+      {error && <p style={{ color: "#dc160f" }}>{error}</p>}
+      {loading && <p style={{ color: "var(--muted)" }}>Loading activity…</p>}
+
+      <div style={{ display: "flex", flexDirection: "column", gap: 8, marginTop: 12 }}>
+        {items.map((ev) => (
+          <div
+            key={ev.id}
+            style={{
+              padding: 12,
+              border: "1px solid var(--border)",
+              borderRadius: 12,
+              background: "var(--panel)",
+              textAlign: "left",
+            }}
+          >
+            <div style={{ fontWeight: 700, color: WARNING_TYPES.has(ev.type) ? "#dc160f" : "var(--bold-text)" }}>
+              {LABELS[ev.type] ?? ev.type}
+            </div>
+            <div style={{ fontSize: 13, color: "var(--muted)" }}>
+              {ev.device}{ev.ip ? ` · IP ${ev.ip}` : ""} · {formatDate(ev.createdAt)}
+            </div>
+          </div>
+        ))}
+        {!loading && !error && items.length === 0 && (
+          <p style={{ color: "var(--muted)" }}>No security activity yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
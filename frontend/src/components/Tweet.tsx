@@ -1,7 +1,13 @@
-import { FaRegHeart, FaRegComment, FaRetweet, FaRegBookmark, FaCheckCircle } from "react-icons/fa";
+import { FaRegHeart, FaRegComment, FaRetweet, FaRegBookmark, FaCheckCircle, FaRegTrashAlt, FaRegEdit, FaQuoteRight } from "react-icons/fa";
 import { useState, useEffect } from "react";
 import Comments from "./comments"
 import Biohover from "./Biohover";
+import PostHistory from "./PostHistory";
+import QuotedPostCard, { type QuotedPost } from "./QuotedPost";
+import MediaGrid, { type MediaAttachment } from "./MediaGrid";
+import PollView, { type PollState } from "./Poll";
+import { PlaceTag, type PostPlace } from "./Place";
+import { Composer } from "./Composer";
 
 type TweetProps = {
   id: string;
@@ -12,15 +18,45 @@ type TweetProps = {
   created_at?: string;        // relative time like "2m ago"
 
   // Visuals and counters
-  media?: string;
+  media?: MediaAttachment[];
+  poll?: PollState | null;
+  place?: PostPlace | null;
   verified?: boolean;
   replies?: number;
   retweets?: number;
+  // Viewer has reposted this post
+  reposted?: boolean;
+  // Set when this feed entry is someone's repost of the post
+  repostedBy?: { username: string; fullName: string } | null;
   likes?: number;
   liked?: boolean;
   views?: string | number;
   onReply?: () => void;
   avatar?: string;
+  // Quote posts embed the original; `quotes` counts quotes of this post
+  quoted?: QuotedPost | null;
+  quotes?: number;
+  // Text was changed after posting; the marker opens the history
+  edited?: boolean;
+  // Tombstone of a post its author deleted
+  deleted?: boolean;
+  onDeleted?: (id: string) => void;
+}
+
+const EDIT_ERRORS: Record<string, string> = {
+  edit_window_closed: 'Posts can only be edited shortly after posting.',
+  edit_limit_reached: 'This post has been edited too many times.',
+  edit_conflict: 'This post changed in the meantime. Reload and try again.',
+  unchanged: 'Nothing changed.',
+};
+
+/** Username of the signed-in viewer, from the cached /users/me */
+function viewerUsername(): string | undefined {
+  try {
+    return JSON.parse(localStorage.getItem('user') || 'null')?.username || undefined;
+  } catch {
+    return undefined;
+  }
 }
 
 export function Tweet(props: TweetProps) {
@@ -31,14 +67,23 @@ export function Tweet(props: TweetProps) {
     text,
     created_at,
     media,
+    poll,
+    place,
     verified = true,
     replies,
     retweets,
+    reposted: repostedProp,
+    repostedBy,
     likes,
     liked: likedProp,
     views,
     onReply,
     avatar,
+    quoted,
+    quotes,
+    edited: editedProp,
+    deleted: deletedProp,
+    onDeleted,
   } = props
 
   const [showReply, setShowReply] = useState(false); // reply modal
@@ -47,11 +92,24 @@ export function Tweet(props: TweetProps) {
   const [liked, setLiked] = useState<boolean>(!!likedProp);
   const [likeHovered, setLikeHovered] = useState(false);
   const [likeBusy, setLikeBusy] = useState(false);
-  const [retweeted, setRetweeted] = useState(false);
+  const [retweeted, setRetweeted] = useState<boolean>(!!repostedProp);
+  const [repostBusy, setRepostBusy] = useState(false);
   const [retweetHovered, setRetweetHovered] = useState(false);
   const [retweetCount, setRetweetCount] = useState<number>(retweets ?? 0);
   const [likeCount, setLikeCount] = useState<number>(likes ?? 0);
+  const [currentText, setCurrentText] = useState<string>(text ?? '');
+  const [edited, setEdited] = useState<boolean>(!!editedProp);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showQuote, setShowQuote] = useState(false);
+  const [quoteCount, setQuoteCount] = useState<number>(quotes ?? 0);
+  const [deleted, setDeleted] = useState<boolean>(!!deletedProp);
+  const [deleting, setDeleting] = useState(false);
   const hasId = Boolean(id);
+  const isOwn = Boolean(username) && viewerUsername() === username;
 
   // Lock body scroll when thread modal is open
   useEffect(() => {
@@ -104,9 +162,100 @@ export function Tweet(props: TweetProps) {
     }
   };
 
+  const toggleRepost = async () => {
+    if (!hasId || repostBusy) return;
+    setRepostBusy(true);
+    const prevReposted = retweeted;
+    const prevCount = retweetCount;
+    // optimistic update
+    setRetweeted(!prevReposted);
+    setRetweetCount((c) => c + (prevReposted ? -1 : 1));
+    try {
+      const res = await fetch(`${API_BASE}/posts/${id}/repost`, {
+        method: prevReposted ? 'DELETE' : 'POST',
+        credentials: 'include',
+      });
+      if (!res.ok) throw new Error('repost_failed');
+      const data = await res.json();
+      if (typeof data.repost_count === 'number') setRetweetCount(data.repost_count);
+      if (typeof data.reposted === 'boolean') setRetweeted(data.reposted);
+    } catch (e) {
+      // rollback on failure
+      setRetweeted(prevReposted);
+      setRetweetCount(prevCount);
+      console.error('toggleRepost error', e);
+    } finally {
+      setRepostBusy(false);
+    }
+  };
+
+  const deletePost = async () => {
+    if (!hasId || deleting) return;
+    if (!window.confirm('Delete this post? This can’t be undone.')) return;
+    setDeleting(true);
+    try {
+      const res = await fetch(`${API_BASE}/posts/${id}`, { method: 'DELETE', credentials: 'include' });
+      if (!res.ok) throw new Error('delete_failed');
+      setDeleted(true);
+      setShowThread(false);
+      onDeleted?.(id);
+    } catch (e) {
+      console.error('deletePost error', e);
+      window.alert('Could not delete this post. Please try again.');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const saveEdit = async () => {
+    const next = draft.trim();
+    if (!hasId || saving || !next) return;
+    setSaving(true);
+    setEditError(null);
+    try {
+      const res = await fetch(`${API_BASE}/posts/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ text: next }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(EDIT_ERRORS[data?.error] || `Edit failed (${res.status})`);
+      setCurrentText(data.text);
+      setEdited(true);
+      setEditing(false);
+    } catch (e) {
+      setEditError(e instanceof Error ? e.message : 'Edit failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const editedMarker = edited ? (
+    <>
+      <span style={{ color: 'var(--muted)' }}>·</span>
+      <span
+        style={{ color: 'var(--muted)', fontSize: 14, textDecoration: 'underline', cursor: 'pointer' }}
+        onClick={(e) => { e.stopPropagation(); setShowHistory(true); }}
+        role="button"
+        tabIndex={0}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            e.stopPropagation();
+            setShowHistory(true);
+          }
+        }}
+        title="Show edit history"
+      >
+        Edited
+      </span>
+    </>
+  ) : null;
+
   const displayName = fullName ?? 'Unknown'
   const displayHandle = username ?? 'unknown'
-  const content = text ?? ''
+  const content = currentText
   const when = created_at ?? ''
 
   return (
@@ -124,6 +273,15 @@ export function Tweet(props: TweetProps) {
       }}
     >
       <div style={{ display: "flex", flexDirection: "column" }}>
+        {repostedBy && (
+          <div style={{ display: "flex", alignItems: "center", gap: 6, marginBottom: 6, fontSize: 13, fontWeight: 700, color: 'var(--muted)' }}>
+            <FaRetweet /> {repostedBy.username === viewerUsername() ? 'You reposted' : `${repostedBy.fullName} reposted`}
+          </div>
+        )}
+        {deleted ? (
+          <p style={{ margin: 0, fontSize: 16, color: 'var(--muted)', textAlign: 'left' }}>This post was deleted.</p>
+        ) : (
+        <>
         {/* Header line with avatar, name, handle, time */}
         <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
           <Biohover username={displayHandle}>
@@ -156,16 +314,43 @@ export function Tweet(props: TweetProps) {
             </Biohover>
             {when ? <span style={{ color: 'var(--muted)' }}>·</span> : null}
             {when ? <span style={{ color: 'var(--muted)', fontSize: 16 }}>{when}</span> : null}
+            {editedMarker}
           </div>
         </div>
 
-        {/* Body */}
-        <p style={{ margin: '8px 0 12px', fontSize: 16, lineHeight: 1.4, color: 'var(--text)', textAlign: 'left' }}>{content}</p>
+        {/* Body, or the author's edit box */}
+        {editing ? (
+          <div style={{ margin: '8px 0 12px' }} onClick={(e) => e.stopPropagation()}>
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              maxLength={280}
+              rows={3}
+              style={{ width: '100%', fontSize: 16, padding: 8, borderRadius: 'var(--radius)', border: '1px solid var(--border)', background: 'var(--panel)', color: 'var(--text)', resize: 'vertical' }}
+            />
+            {editError && <div style={{ color: '#dc160f', fontSize: 13, marginTop: 4 }}>{editError}</div>}
+            <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+              <button className="btn" onClick={saveEdit} disabled={saving || !draft.trim()} style={{ padding: '6px 14px', opacity: saving ? 0.7 : 1 }}>
+                {saving ? 'Saving…' : 'Save'}
+              </button>
+              <button className="btn" onClick={() => setEditing(false)} style={{ padding: '6px 14px', backgroundColor: 'var(--bg)', color: 'var(--muted)' }}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p style={{ margin: '8px 0 12px', fontSize: 16, lineHeight: 1.4, color: 'var(--text)', textAlign: 'left' }}>{content}</p>
+        )}
 
           {/* Optional media */}
-          {media && (
-            <img src={media} style={{ width: "100%", borderRadius: 12, display: "block", marginTop: 8 }} />
+          {media && media.length > 0 && (
+            <MediaGrid items={media} />
           )}
+          {poll && hasId && <PollView postId={id} poll={poll} />}
+          {place && <PlaceTag place={place} />}
+
+          {/* Quoted original */}
+          {quoted && <QuotedPostCard quoted={quoted} />}
 
           {/* Actions row */}
           <div
@@ -212,31 +397,13 @@ export function Tweet(props: TweetProps) {
                 }}
                 onMouseEnter={() => setRetweetHovered(true)}
                 onMouseLeave={() => setRetweetHovered(false)}
-                onClick={() => {
-                  setRetweeted((prev) => {
-                    if (prev) {
-                      setRetweetCount((c) => c - 1);
-                      return false;
-                    } else {
-                      setRetweetCount((c) => c + 1);
-                      return true;
-                    }
-                  });
-                }}
+                onClick={(e) => { e.stopPropagation(); toggleRepost(); }}
                 role="button"
                 tabIndex={0}
                 onKeyDown={(e) => {
                   if (e.key === 'Enter' || e.key === ' ') {
                     e.preventDefault();
-                    setRetweeted((prev) => {
-                      if (prev) {
-                        setRetweetCount((c) => c - 1);
-                        return false;
-                      } else {
-                        setRetweetCount((c) => c + 1);
-                        return true;
-                      }
-                    });
+                    toggleRepost();
                   }
                 }}
                 aria-label="Retweet"
@@ -252,6 +419,27 @@ export function Tweet(props: TweetProps) {
                     : retweetCount}
                 </span>
               </div>
+              <div
+                className="action-group"
+                style={{ display: "flex", alignItems: "center", gap: 8, cursor: "pointer" }}
+                onClick={() => hasId && setShowQuote(true)}
+                role="button"
+                tabIndex={0}
+                onKeyDown={(e) => {
+                  if ((e.key === 'Enter' || e.key === ' ') && hasId) {
+                    e.preventDefault();
+                    setShowQuote(true);
+                  }
+                }}
+                aria-label="Quote"
+                title="Quote"
+              >
+                <div className="icon-wrap">
+                  <span className="action-icon"><FaQuoteRight /></span>
+                  <span className="icon-label">Quote</span>
+                </div>
+                <span className="action-count">{quoteCount}</span>
+              </div>
               <div
                 className="action-group like-action"
                 style={{
@@ -300,6 +488,48 @@ export function Tweet(props: TweetProps) {
             </div>
             {/* Right side icons */}
             <div style={{ marginLeft: "auto", display: "flex", alignItems: "center", gap: 16 }}>
+              {isOwn && (
+                <div
+                  className="icon-wrap"
+                  style={{ cursor: 'pointer' }}
+                  onClick={() => { setDraft(content); setEditError(null); setEditing(true); }}
+                  role="button"
+                  tabIndex={0}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                      e.preventDefault();
+                      setDraft(content);
+                      setEditError(null);
+                      setEditing(true);
+                    }
+                  }}
+                  aria-label="Edit"
+                  title="Edit"
+                >
+                  <span className="action-icon"><FaRegEdit /></span>
+                  <span className="icon-label">Edit</span>
+                </div>
+              )}
+              {isOwn && (
+                <div
+                  className="icon-wrap"
+                  style={{ cursor: deleting ? 'not-allowed' : 'pointer', opacity: deleting ? 0.7 : 1 }}
+                  onClick={deletePost}
+                  role="button"
+                  tabIndex={0}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                      e.preventDefault();
+                      deletePost();
+                    }
+                  }}
+                  aria-label="Delete"
+                  title="Delete"
+                >
+                  <span className="action-icon"><FaRegTrashAlt /></span>
+                  <span className="icon-label">Delete</span>
+                </div>
+              )}
               <div className="icon-wrap">
                 <span className="action-icon"><FaRegBookmark /></span>
                 <span className="icon-label">Bookmark</span>
@@ -314,6 +544,8 @@ export function Tweet(props: TweetProps) {
               </div>
             </div>
           </div>
+        </>
+        )}
           {/* Thread modal: shows the list of comments for this tweet */}
           {showThread && hasId ? (
             <div
@@ -369,16 +601,19 @@ export function Tweet(props: TweetProps) {
                 >
                   <strong style={{ fontSize: 16 }}>Post</strong>
                   <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
-                    <button
+                    {!deleted && <button
                       onClick={(e) => { e.stopPropagation(); setShowReply(true); }}
                       style={{ border: 'none', background: '#333', color: '#fff', borderRadius: '9999px', padding: '6px 14px', cursor: 'pointer' }}
                     >
                       Reply
-                    </button>
+                    </button>}
                     <button onClick={() => setShowThread(false)} aria-label="Close" style={{ border: 'none', background: 'transparent', cursor: 'pointer', fontSize: 18 }}>×</button>
                   </div>
                 </div>
                 <div style={{ padding: 16, overflowY: 'auto', display: 'flex', flexDirection: 'column' }}>
+                  {deleted ? (
+                    <p style={{ margin: '0 0 8px', fontSize: 16, color: 'var(--muted)', textAlign: 'left' }}>This post was deleted.</p>
+                  ) : (
                   <div style={{ display: 'flex', gap: 12, marginBottom: 8 }}>
                     <Biohover username={displayHandle}>
                       <img
@@ -411,11 +646,16 @@ export function Tweet(props: TweetProps) {
                         </Biohover>
                         {when ? <span style={{ color: 'var(--muted)' }}>·</span> : null}
                         {when ? <span style={{ color: 'var(--muted)', fontSize: 16 }}>{when}</span> : null}
+                        {editedMarker}
                       </div>
                       <p style={{ margin: '8px 0 12px', fontSize: 16, lineHeight: 1.4, color: 'var(--text)', textAlign: 'left' }}>{content}</p>
-                      {media && (
-                        <img src={media} style={{ width: "100%", borderRadius: 12, display: "block", marginTop: 8 }} />
+                      {media && media.length > 0 && (
+                        <MediaGrid items={media} />
                       )}
+                      {poll && hasId && <PollView postId={id} poll={poll} />}
+                      {place && <PlaceTag place={place} />}
+          {place && <PlaceTag place={place} />}
+                      {quoted && <QuotedPostCard quoted={quoted} />}
                       <div
                         style={{ display: "flex", flexDirection: "row", alignItems: "center", gap: 16, marginTop: 8, color: "var(--muted)" }}
                         onClick={(e) => e.stopPropagation()}
@@ -460,31 +700,13 @@ export function Tweet(props: TweetProps) {
                             }}
                             onMouseEnter={() => setRetweetHovered(true)}
                             onMouseLeave={() => setRetweetHovered(false)}
-                            onClick={() => {
-                              setRetweeted((prev) => {
-                                if (prev) {
-                                  setRetweetCount((c) => c - 1);
-                                  return false;
-                                } else {
-                                  setRetweetCount((c) => c + 1);
-                                  return true;
-                                }
-                              });
-                            }}
+                            onClick={(e) => { e.stopPropagation(); toggleRepost(); }}
                             role="button"
                             tabIndex={0}
                             onKeyDown={(e) => {
                               if (e.key === 'Enter' || e.key === ' ') {
                                 e.preventDefault();
-                                setRetweeted((prev) => {
-                                  if (prev) {
-                                    setRetweetCount((c) => c - 1);
-                                    return false;
-                                  } else {
-                                    setRetweetCount((c) => c + 1);
-                                    return true;
-                                  }
-                                });
+                                toggleRepost();
                               }
                             }}
                             aria-label="Retweet"
@@ -564,14 +786,38 @@ export function Tweet(props: TweetProps) {
                       </div>
                     </div>
                   </div>
+                  )}
                   <Comments postId={id} showList={true} />
                 </div>
               </div>
             </div>
           ) : null}
 
+          {/* Quote composer, opened via the Quote action */}
+          {showQuote && hasId ? (
+            <div
+              role="dialog"
+              aria-modal="true"
+              aria-label="Quote post"
+              onMouseDown={(e) => { e.stopPropagation(); if (e.target === e.currentTarget) setShowQuote(false); }}
+              onClick={(e) => e.stopPropagation()}
+              style={{ position: 'fixed', inset: 0, zIndex: 1000, background: 'rgba(0,0,0,0.45)' }}
+            >
+              <div style={{ maxWidth: 600, width: '92%', margin: '10vh auto' }}>
+                <Composer
+                  quoted={{ id, text: content, relative_time: when, user: { fullName: displayName, username: displayHandle, avatar, verified } }}
+                  onPosted={() => { setShowQuote(false); setQuoteCount((c) => c + 1); }}
+                />
+              </div>
+            </div>
+          ) : null}
+
+          {showHistory && hasId ? (
+            <PostHistory postId={id} onClose={() => setShowHistory(false)} />
+          ) : null}
+
           {/* Reply modal, opened via the Reply action */}
-          {showReply && hasId ? (
+          {showReply && hasId && !deleted ? (
             <Comments postId={id} visible={true} onPosted={setReplyCount} onClose={() => setShowReply(false)} />
           ) : null}
         </div>
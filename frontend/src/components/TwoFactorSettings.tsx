@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { useHasPassword } from "../hooks/useHasPassword";
+
+/**
+ * TwoFactorSettings: TOTP two-factor authentication under Settings > Account Privacy and Security.
+ * Flow: confirm password → add the key to an authenticator app → verify a first code → save backup codes.
+ * The same flow re-enrolls a new device; disabling needs the password plus a code or backup code.
+ * Accounts without a password skip the password and must have signed in recently instead.
+ */
+
+const API_BASE = import.meta.env.VITE_API_BASE || "http://localhost:4000/api";
+
+type Status = { enabled: boolean; enabledAt: string | null; backupCodesRemaining: number };
+type Step = "idle" | "password" | "verify" | "backup" | "disable";
+
+async function post(path: string, body: unknown) {
+  const res = await fetch(`${API_BASE}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(
+      data?.error === "guest_account"
+        ? "Create an account to use two-factor authentication."
+        : data?.code === "reauth_required"
+          ? "Sign in again to confirm it's you, then retry."
+          : data?.error || `Request failed (${res.status})`
+    );
+  }
+  return data;
+}
+
+/** Base32 secret in groups of four for typing it by hand */
+function groupSecret(secret: string) {
+  return secret.replace(/(.{4})/g, "$1 ").trim();
+}
+
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<Status | null>(null);
+  const [step, setStep] = useState<Step>("idle");
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [setup, setSetup] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const hasPassword = useHasPassword() !== false;
+
+  async function loadStatus() {
+    try {
+      const res = await fetch(`${API_BASE}/auth/2fa`, { credentials: "include" });
+      if (!res.ok) throw new Error(res.status === 401 ? "Please sign in again to manage two-factor authentication." : "Could not load two-factor status.");
+      setStatus(await res.json());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not load two-factor status.");
+    }
+  }
+
+  useEffect(() => { loadStatus(); }, []);
+
+  function reset() {
+    setStep("idle");
+    setPassword("");
+    setCode("");
+    setSetup(null);
+    setError(null);
+  }
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const onPassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      setSetup(await post("/auth/2fa/setup", hasPassword ? { password } : {}));
+      setPassword("");
+      setStep("verify");
+    });
+  };
+
+  const onVerify = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const data = await post("/auth/2fa/enable", { code: code.trim() });
+      setBackupCodes(Array.isArray(data?.backupCodes) ? data.backupCodes : []);
+      setCode("");
+      setSetup(null);
+      setStep("backup");
+      await loadStatus();
+    });
+  };
+
+  const onDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await post("/auth/2fa/disable", { ...(hasPassword ? { password } : {}), code: code.trim() });
+      reset();
+      await loadStatus();
+    });
+  };
+
+  const inputStyle: React.CSSProperties = {
+    display: "block",
+    width: "100%",
+    maxWidth: 360,
+    padding: "10px 14px",
+    marginTop: 6,
+    borderRadius: "var(--radius)",
+    border: "1px solid var(--border)",
+    background: "var(--panel)",
+    color: "var(--text)",
+    outline: "none",
+  };
+  const cancelButton = (
+    <button className="btn" type="button" onClick={reset} style={{ padding: 12, fontSize: 16, backgroundColor: "var(--bg)", color: "var(--muted)" }}>
+      Cancel
+    </button>
+  );
+
+  return (
+    <div style={{ marginBottom: 32, textAlign: "left" }}>
+      <h4 style={{ margin: 0 }}>Two-factor authentication</h4>
+      <p style={{ color: "var(--muted)", fontSize: 13 }}>
+        {status?.enabled
+          ? `On since ${status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : "—"} · ${status.backupCodesRemaining} backup code${status.backupCodesRemaining === 1 ? "" : "s"} left`
+          : "Require a code from an authenticator app in addition to your password when signing in."}
+      </p>
+      {error && <p style={{ color: "#dc160f" }}>{error}</p>}
+
+      {step === "idle" && status && (
+        <div style={{ display: "flex", gap: 12 }}>
+          <button className="btn" style={{ padding: "8px 14px", fontSize: 14 }} onClick={() => setStep("password")}>
+            {status.enabled ? "Set up on a new device" : "Enable two-factor authentication"}
+          </button>
+          {status.enabled && (
+            <button className="btn" style={{ padding: "8px 14px", fontSize: 14, backgroundColor: "#dc160f" }} onClick={() => setStep("disable")}>
+              Disable
+            </button>
+          )}
+        </div>
+      )}
+
+      {step === "password" && (
+        <form onSubmit={onPassword}>
+          {hasPassword ? (
+            <label style={{ display: "block" }}>
+              Confirm your password
+              <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} style={inputStyle} required />
+            </label>
+          ) : (
+            <p style={{ color: "var(--muted)", fontSize: 13 }}>Your account has no password, so this works for a few minutes after you sign in.</p>
+          )}
+          <div style={{ display: "flex", gap: 12, marginTop: 16 }}>
+            <button className="btn" type="submit" disabled={busy} style={{ padding: 12, fontSize: 16, opacity: busy ? 0.7 : 1 }}>Continue</button>
+            {cancelButton}
+          </div>
+        </form>
+      )}
+
+      {step === "verify" && setup && (
+        <form onSubmit={onVerify}>
+          <p>
+            Add Tweaker to your authenticator app. On a phone, <a href={setup.otpauthUri} style={{ color: "var(--primary)" }}>open this link</a>;
+            otherwise enter this key manually:
+          </p>
+          <p style={{ fontFamily: "monospace", fontWeight: "bold", wordBreak: "break-all" }}>{groupSecret(setup.secret)}</p>
+          {status?.enabled && (
+            <p style={{ color: "var(--muted)", fontSize: 13 }}>Your current authenticator and backup codes keep working until you verify the new device.</p>
+          )}
+          <label style={{ display: "block" }}>
+            6-digit code from the app
+            <input value={code} onChange={(e) => setCode(e.target.value)} inputMode="numeric" autoComplete="one-time-code" style={inputStyle} required />
+          </label>
+          <div style={{ display: "flex", gap: 12, marginTop: 16 }}>
+            <button className="btn" type="submit" disabled={busy} style={{ padding: 12, fontSize: 16, opacity: busy ? 0.7 : 1 }}>Verify</button>
+            {cancelButton}
+          </div>
+        </form>
+      )}
+
+      {step === "backup" && (
+        <div style={{ padding: 16, border: "1px solid var(--border)", borderRadius: 12, background: "var(--panel)" }}>
+          <strong>Save your backup codes</strong>
+          <p style={{ color: "var(--muted)", fontSize: 13 }}>
+            Each code signs you in once if you lose your authenticator. Previous backup codes no longer work.
+            They will not be shown again.
+          </p>
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(2, max-content)", gap: "6px 24px", fontFamily: "monospace", fontWeight: "bold" }}>
+            {backupCodes.map((c) => <span key={c}>{c}</span>)}
+          </div>
+          <button className="btn" style={{ padding: 12, fontSize: 16, marginTop: 16 }} onClick={() => { setBackupCodes([]); reset(); }}>
+            I saved them
+          </button>
+        </div>
+      )}
+
+      {step === "disable" && (
+        <form onSubmit={onDisable}>
+          {hasPassword && (
+            <label style={{ display: "block", marginBottom: 12 }}>
+              Password
+              <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} style={inputStyle} required />
+            </label>
+          )}
+          <label style={{ display: "block" }}>
+            Authentication code or backup code
+            <input value={code} onChange={(e) => setCode(e.target.value)} autoComplete="one-time-code" style={inputStyle} required />
+          </label>
+          <div style={{ display: "flex", gap: 12, marginTop: 16 }}>
+            <button className="btn" type="submit" disabled={busy} style={{ padding: 12, fontSize: 16, backgroundColor: "#dc160f", opacity: busy ? 0.7 : 1 }}>
+              Disable two-factor
+            </button>
+            {cancelButton}
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,9 @@ import { FaRegHeart, FaRegComment, FaRetweet, FaRegBookmark, FaCheckCircle } fro
 import { useEffect, useState, useCallback, useRef } from "react";
 
 interface CommentItem {
+  id?: string;          // replies are posts: like/repost/reply go through /posts/:id
+  parent_post_id?: string;
+  deleted?: boolean;    // tombstone kept because replies hang under it
   username: string;
   fullName: string;
   text: string;
@@ -14,6 +17,10 @@ interface CommentItem {
   verified?: boolean;
   avatar?: string;      // from API when available
   avatarUrl?: string;   // alt field name some routes use
+  reply_count?: number;
+  repost_count?: number;
+  like_count?: number;
+  liked?: boolean;
 }
 
 interface CommentsProps {
@@ -51,6 +58,11 @@ const API_BASE = (import.meta as any).env?.VITE_API_BASE || "http://localhost:40
 
 export default function Comments({ postId, onPosted, visible = false, onClose, showList = false }: CommentsProps) {
   const [comments, setComments] = useState<CommentItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Nested replies shown under a reply, and the reply being answered
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
   const [newComment, setNewComment] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -78,6 +90,7 @@ export default function Comments({ postId, onPosted, visible = false, onClose, s
       }
       const data = await res.json();
       setComments(Array.isArray(data.items) ? data.items : []);
+      setNextCursor(typeof data.nextCursor === "string" ? data.nextCursor : null);
       if (typeof data.reply_count === "number" && onPosted) {
         onPosted(data.reply_count);
       }
@@ -87,6 +100,42 @@ export default function Comments({ postId, onPosted, visible = false, onClose, s
     }
   }, [postId, onPosted]);
 
+  async function loadMore() {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const res = await fetch(`${API_BASE}/comments/${postId}?cursor=${encodeURIComponent(nextCursor)}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`Load failed (${res.status})`);
+      const data = await res.json();
+      const page: CommentItem[] = Array.isArray(data.items) ? data.items : [];
+      setComments((prev) => [...prev, ...page]);
+      setNextCursor(typeof data.nextCursor === "string" ? data.nextCursor : null);
+    } catch (err) {
+      console.error("Failed to load more replies", err);
+      setError("Network error");
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  // Like/unlike a reply; it is a post, so the /posts like endpoints apply
+  async function toggleReplyLike(c: CommentItem) {
+    if (!c.id) return;
+    const liked = !!c.liked;
+    const update = (patch: Partial<CommentItem>) =>
+      setComments((prev) => prev.map((x) => (x.id === c.id ? { ...x, ...patch } : x)));
+    update({ liked: !liked, like_count: (c.like_count ?? 0) + (liked ? -1 : 1) });
+    try {
+      const res = await fetch(`${API_BASE}/posts/${c.id}/like`, { method: liked ? "DELETE" : "POST", credentials: "include" });
+      if (!res.ok) throw new Error("like_failed");
+      const data = await res.json();
+      update({ liked: !!data.liked, like_count: typeof data.like_count === "number" ? data.like_count : c.like_count });
+    } catch (err) {
+      console.error("Failed to like reply", err);
+      update({ liked, like_count: c.like_count });
+    }
+  }
+
   const fetchPreview = useCallback(async () => {
     if (!postId) return;
     setLoadingPreview(true);
@@ -165,7 +214,7 @@ export default function Comments({ postId, onPosted, visible = false, onClose, s
       if (!res.ok) {
         const body = await res.text().catch(() => "");
         console.error("Reply failed", res.status, body);
-        setError(res.status === 401 ? "Session expired" : `Reply failed (${res.status})`);
+        setError(res.status === 401 ? "Session expired" : res.status === 410 ? "This post was deleted" : `Reply failed (${res.status})`);
         setLoading(false);
         return;
       }
@@ -413,7 +462,7 @@ export default function Comments({ postId, onPosted, visible = false, onClose, s
       {showList && (
         <ul style={{ listStyle: "none", padding: 0, margin: "8px 0 0 0" }}>
           {comments.map((c, idx) => (
-            <li key={idx} style={{ position: 'relative', padding: "8px 0" }}>
+            <li key={c.id || idx} style={{ position: 'relative', padding: "8px 0" }}>
               <div style={{ display: "flex", gap: 12 }}>
                 {/* Left rail: avatar + connector line to next comment */}
                 <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', width: 40 }}>
@@ -437,6 +486,10 @@ export default function Comments({ postId, onPosted, visible = false, onClose, s
                     padding: '12px 14px',
                   }}
                 >
+                  {c.deleted ? (
+                    <div style={{ color: "var(--muted)", fontSize: 15, textAlign: 'left' }}>This reply was deleted.</div>
+                  ) : (
+                  <>
                   {/* Meta row: name, handle, dot, time */}
                   <div style={{ display: "flex", alignItems: "center", gap: 6, flexWrap: "wrap" }}>
                     <strong style={{ color: "var(--text)", fontSize: 15 }}>{c.fullName}</strong>
@@ -458,10 +511,10 @@ export default function Comments({ postId, onPosted, visible = false, onClose, s
                       aria-label="Reply"
                       className="c-action"
                       style={{ display:'flex', alignItems:'center', gap: 6, background:'none', border:'none', cursor:'pointer', padding:0, color:'inherit', position:'relative' }}
-                      onClick={(e) => { e.stopPropagation(); }}
+                      onClick={(e) => { e.stopPropagation(); if (c.id) setReplyingTo(c.id); }}
                     >
                       <span className="action-icon" style={{ fontSize: 15 }}><FaRegComment /></span>
-                      <span className="count" style={{ fontSize: 15, color: 'var(--muted)' }}>{typeof c.repliesCount === 'number' ? c.repliesCount : 0}</span>
+                      <span className="count" style={{ fontSize: 15, color: 'var(--muted)' }}>{c.reply_count ?? c.repliesCount ?? 0}</span>
                       <span className="c-tip">Reply</span>
                     </button>
 
@@ -474,7 +527,7 @@ export default function Comments({ postId, onPosted, visible = false, onClose, s
                       onClick={(e) => e.stopPropagation()}
                     >
                       <span className="action-icon" style={{ fontSize: 17 }}><FaRetweet /></span>
-                      <span className="count" style={{ fontSize: 15, color: 'var(--muted)' }}>{typeof c.retweetsCount === 'number' ? c.retweetsCount : 0}</span>
+                      <span className="count" style={{ fontSize: 15, color: 'var(--muted)' }}>{c.repost_count ?? c.retweetsCount ?? 0}</span>
                       <span className="c-tip">Retweet</span>
                     </button>
 
@@ -484,10 +537,10 @@ export default function Comments({ postId, onPosted, visible = false, onClose, s
                       aria-label="Like"
                       className="c-action"
                       style={{ display:'flex', alignItems:'center', gap: 6, background:'none', border:'none', cursor:'pointer', padding:0, color:'inherit', position:'relative' }}
-                      onClick={(e) => e.stopPropagation()}
+                      onClick={(e) => { e.stopPropagation(); toggleReplyLike(c); }}
                     >
-                      <span className="action-icon" style={{ fontSize: 15 }}><FaRegHeart /></span>
-                      <span className="count" style={{ fontSize: 15, color: 'var(--muted)' }}>{typeof c.likesCount === 'number' ? c.likesCount : 0}</span>
+                      <span className="action-icon" style={{ fontSize: 15, color: c.liked ? "#ef1bd3ff" : undefined }}><FaRegHeart /></span>
+                      <span className="count" style={{ fontSize: 15, color: 'var(--muted)' }}>{c.like_count ?? c.likesCount ?? 0}</span>
                       <span className="c-tip">Like</span>
                     </button>
 
@@ -539,13 +592,49 @@ export default function Comments({ postId, onPosted, visible = false, onClose, s
                       </button>
                     </div>
                   </div>
+                  </>
+                  )}
                 </div>
               </div>
+              {/* Replies to this reply, loaded on demand */}
+              {c.id && (c.reply_count ?? 0) > 0 && (
+                <div style={{ marginLeft: 52 }}>
+                  <button
+                    type="button"
+                    onClick={(e) => { e.stopPropagation(); setExpanded((prev) => ({ ...prev, [c.id!]: !prev[c.id!] })); }}
+                    style={{ background: "none", border: "none", padding: "6px 0 0", cursor: "pointer", color: "var(--primary)", fontSize: 14 }}
+                  >
+                    {expanded[c.id] ? "Hide replies" : `Show ${c.reply_count} ${c.reply_count === 1 ? "reply" : "replies"}`}
+                  </button>
+                  {expanded[c.id] && <Comments postId={c.id} showList={true} />}
+                </div>
+              )}
             </li>
           ))}
+          {nextCursor && (
+            <li style={{ padding: "8px 0" }}>
+              <button
+                type="button"
+                onClick={(e) => { e.stopPropagation(); loadMore(); }}
+                disabled={loadingMore}
+                style={{ background: "none", border: "none", padding: 0, cursor: "pointer", color: "var(--primary)", fontSize: 14 }}
+              >
+                {loadingMore ? "Loading…" : "Show more replies"}
+              </button>
+            </li>
+          )}
         </ul>
       )}
 
+      {/* Reply to a reply: same modal, parented to that reply */}
+      {replyingTo && (
+        <Comments
+          postId={replyingTo}
+          visible={true}
+          onClose={() => { setReplyingTo(null); fetchComments(); }}
+        />
+      )}
+
       <style>
         {`
           .close-btn:hover { background: #f3f3f3; }
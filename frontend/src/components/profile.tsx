@@ -14,6 +14,8 @@ interface ProfileProps {
   coverImage?: string;
   avatar?: string;
   verified?: boolean;
+  /** Account uses personal API tokens (bot or script) */
+  automated?: boolean;
 }
 
 const Profile: React.FC<ProfileProps> = ({
@@ -23,6 +25,7 @@ const Profile: React.FC<ProfileProps> = ({
   link,
   following,
   verified = true,
+  automated = false,
   followers,
   coverImage,
   avatar,
@@ -202,7 +205,17 @@ const Profile: React.FC<ProfileProps> = ({
           {displayName}
           {verified && <FaCheckCircle size={16} color="var(--primary)" />}
         </h2>
-        <p style={{ color: "var(--muted)", margin: "4px 0" }}>@{username}</p>
+        <p style={{ color: "var(--muted)", margin: "4px 0" }}>
+          @{username}
+          {automated && (
+            <span
+              title="This account is run by a bot or script using an API token"
+              style={{ marginLeft: 8, padding: "2px 8px", fontSize: 12, border: "1px solid var(--border)", borderRadius: 999 }}
+            >
+              Automated
+            </span>
+          )}
+        </p>
         {displayBio && <p style={{ color: "var(--muted)", margin: "8px 0" }}>{displayBio}</p>}
 
         {/* Extra Info */}
@@ -320,7 +333,7 @@ const Profile: React.FC<ProfileProps> = ({
             ) : (
               posts.map((p: any) => (
                 <Tweet
-                  key={p.id || p._id}
+                  key={p.entry_id || p.id || p._id}
                   id={p.id || p._id}
                   fullName={p?.userFullName || p?.user?.fullName || fullName}
                   username={p?.username || p?.user?.username || username}
@@ -338,8 +351,17 @@ const Profile: React.FC<ProfileProps> = ({
                   }
                   liked={!!p?.liked}
                   retweets={typeof p?.retweets === 'number' ? p.retweets : (typeof p?.repost_count === 'number' ? p.repost_count : 0)}
+                  reposted={!!p?.reposted}
+                  repostedBy={p?.reposted_by ?? null}
                   replies={typeof p?.replies === 'number' ? p.replies : (typeof p?.reply_count === 'number' ? p.reply_count : 0)}
                   views={typeof p?.views === 'number' ? p.views : (typeof p?.view_count === 'number' ? p.view_count : 0)}
+                  edited={!!p?.edited}
+                  quoted={p?.quoted_post ?? null}
+                  quotes={typeof p?.quote_count === 'number' ? p.quote_count : 0}
+                  media={Array.isArray(p?.media) ? p.media : []}
+                  poll={p?.poll ?? null}
+                  place={p?.place ?? null}
+                  onDeleted={(id) => setPosts((prev) => prev.filter((x) => (x.id || x._id) !== id))}
                 />
               ))
             )
@@ -1,22 +1,33 @@
 
 
 import React, { useState } from "react";
+import ActiveSessions from "./ActiveSessions";
+import SecurityLog from "./SecurityLog";
+import TwoFactorSettings from "./TwoFactorSettings";
+import PasskeySettings from "./PasskeySettings";
+import ApiTokens from "./ApiTokens";
+import ConnectedAccounts from "./ConnectedAccounts";
+import ChangePasswordForm from "./ChangePasswordForm";
+import ChangeUsernameForm from "./ChangeUsernameForm";
+import DeactivateAccount from "./DeactivateAccount";
 
-const Settings: React.FC = () => {
-  const [activeSection, setActiveSection] = useState<
-    | "accounts"
-    | "display"
-    | "content_preferences"
-    | "notifications"
-    | "accessibility"
-    | "privacy_security"
-    | "language"
-    | "verification"
-    | "additional_resources"
-    | "help"
-    | "blocked"
-    | null
-  >(null);
+export type SettingsSection =
+  | "accounts"
+  | "display"
+  | "content_preferences"
+  | "notifications"
+  | "accessibility"
+  | "privacy_security"
+  | "language"
+  | "verification"
+  | "additional_resources"
+  | "help"
+  | "blocked";
+
+const Settings: React.FC<{ initialSection?: SettingsSection }> = ({ initialSection }) => {
+  const [activeSection, setActiveSection] = useState<SettingsSection | null>(initialSection ?? null);
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [changingUsername, setChangingUsername] = useState(false);
 
   return (
       <div
@@ -108,14 +119,37 @@ const Settings: React.FC = () => {
             <p>Manage your account settings:</p>
             <ul style={{ marginTop: "12px" }}>
               <li>
-                <button className="btn"
-                  style={{
-                padding: 16,
-                fontSize: 16,
-              }}
-                >
-                  Change Password
-                </button>
+                {changingPassword ? (
+                  <ChangePasswordForm onDone={() => setChangingPassword(false)} />
+                ) : (
+                  <button className="btn"
+                    style={{
+                  padding: 16,
+                  fontSize: 16,
+                }}
+                    onClick={() => setChangingPassword(true)}
+                  >
+                    Change Password
+                  </button>
+                )}
+              </li>
+              <li style={{ marginTop: "12px" }}>
+                {changingUsername ? (
+                  <ChangeUsernameForm onDone={() => setChangingUsername(false)} />
+                ) : (
+                  <button className="btn"
+                    style={{
+                  padding: 16,
+                  fontSize: 16,
+                }}
+                    onClick={() => setChangingUsername(true)}
+                  >
+                    Change Username
+                  </button>
+                )}
+              </li>
+              <li style={{ marginTop: "12px" }}>
+                <DeactivateAccount />
               </li>
             </ul>
           </div>
@@ -155,7 +189,15 @@ const Settings: React.FC = () => {
           (window as any)._ComingSoon && (window as any)._ComingSoon({ title: "Accessibility" })
         )}
         {activeSection === "privacy_security" && (
-          (window as any)._ComingSoon && (window as any)._ComingSoon({ title: "Account Privacy and Security" })
+          <div>
+            <h3 style={{ marginTop: 0 }}>Account Privacy and Security</h3>
+            <TwoFactorSettings />
+            <PasskeySettings />
+            <ConnectedAccounts />
+            <ApiTokens />
+            <ActiveSessions />
+            <SecurityLog />
+          </div>
         )}
         {activeSection === "language" && (
           (window as any)._ComingSoon && (window as any)._ComingSoon({ title: "Language" })
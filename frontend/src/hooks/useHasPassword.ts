@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query'
+import { api } from '../api/client'
+
+/**
+ * Whether the signed-in account has a password. Accounts created through an identity provider
+ * don't, and confirm sensitive changes by a recent sign-in instead (the server answers 403
+ * `reauth_required` when it is too old). Undefined while loading.
+ */
+export function useHasPassword() {
+  const { data } = useQuery({
+    queryKey: ['me','hasPassword'],
+    queryFn: async () => {
+      const { data } = await api.get<{ hasPassword?: boolean }>('/users/me')
+      return data.hasPassword !== false
+    },
+    staleTime: 60_000,
+  })
+  return data
+}
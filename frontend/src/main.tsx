@@ -5,6 +5,7 @@ import { createBrowserRouter, RouterProvider } from 'react-router-dom'
 import App from './App'
 import Login from './pages/Login'
 import Signup from './pages/Signup'
+import Recover from './pages/Recover'
 /*
 import Feed from './pages/Feed'
 import Profile from './pages/Profile'
@@ -22,6 +23,10 @@ const router = createBrowserRouter([
     path: '/signup',
     element: <Signup />,
   },
+  {
+    path: '/recover',
+    element: <Recover />,
+  },
   {
     path: '/*',
     element: <App />,
@@ -1,9 +1,29 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import axios from 'axios'
+import { passkeysSupported, signInWithPasskey } from '../api/passkeys'
 
-export default function Login() {
+type LoginResponse = {
+  accessToken?: string
+  user?: unknown
+  reactivated?: boolean
+  backupCodesRemaining?: number
+  twoFactorRequired?: boolean
+  challengeToken?: string
+}
+
+type OidcProvider = { id: string; name: string }
+
+const OIDC_ERRORS: Record<string, string> = {
+  cancelled: 'Sign-in was cancelled.',
+  invalid_state: 'That sign-in link expired. Please try again.',
+  verification_failed: 'The identity provider could not be verified. Please try again.',
+  account_unavailable: 'This account is no longer available.',
+  provider_unavailable: 'That identity provider is unavailable right now.',
+}
 
-  const API_BASE = (import.meta as any).env?.VITE_API_BASE || 'http://localhost:4000'
+const API_BASE = (import.meta as any).env?.VITE_API_BASE || 'http://localhost:4000'
+
+export default function Login() {
 
   const [username, setUsername] = useState('')
   const [password, setPassword] = useState('')
@@ -15,23 +35,95 @@ export default function Login() {
   const [buttonHovered, setButtonHovered] = useState(false)
   const [linkHovered, setLinkHovered] = useState(false)
 
+  // Set once the password step succeeds on an account with two-factor authentication
+  const [challengeToken, setChallengeToken] = useState<string | null>(null)
+  const [code, setCode] = useState('')
+
+  // External identity providers configured on the server (GET /auth/oidc/providers)
+  const [providers, setProviders] = useState<OidcProvider[]>([])
+
+  // Shared by the password, two-factor and passkey paths, which all answer like POST /auth/login
+  function finishLogin(data: LoginResponse) {
+    if (data?.twoFactorRequired) {
+      setChallengeToken(data.challengeToken ?? null)
+      return
+    }
+    if (data?.accessToken) localStorage.setItem('accessToken', data.accessToken)
+    if (data?.user) localStorage.setItem('user', JSON.stringify(data.user))
+    if (typeof data?.backupCodesRemaining === 'number') {
+      setSuccess(`Signed in with a backup code. ${data.backupCodesRemaining} left.`)
+      setTimeout(() => window.location.assign('/'), 2000)
+      return
+    }
+    if (data?.reactivated) {
+      // Give the user a moment to read that the pending deletion was cancelled
+      setSuccess('Welcome back! Your account has been reactivated.')
+      setTimeout(() => window.location.assign('/'), 1500)
+      return
+    }
+    setSuccess('Logged in')
+    window.location.assign('/')
+  }
+
+  useEffect(() => {
+    axios.get(`${API_BASE}/auth/oidc/providers`)
+      .then(({ data }) => setProviders(Array.isArray(data?.providers) ? data.providers : []))
+      .catch(() => setProviders([]))
+
+    // Back from an identity provider: the outcome is in the fragment (see routes/oidc.ts)
+    const params = new URLSearchParams(window.location.hash.slice(1))
+    if (!params.has('oidc') && !params.has('oidc_error')) return
+    // Clear it first so a second effect run can't redeem the same refresh cookie twice
+    window.history.replaceState(null, '', window.location.pathname)
+
+    const failure = params.get('oidc_error')
+    if (failure) {
+      setError(OIDC_ERRORS[failure] || 'Sign-in failed. Please try again.')
+    } else if (params.get('oidc') === '2fa') {
+      setChallengeToken(params.get('challenge'))
+    } else if (params.get('oidc') === 'ok') {
+      // The callback set the refresh cookie; trade it for an access token like a reload would
+      setLoading(true)
+      axios.post(`${API_BASE}/auth/refresh`, {}, { withCredentials: true })
+        .then(({ data }) => finishLogin({ ...data, reactivated: params.get('reactivated') === '1' }))
+        .catch(() => setError('Sign-in failed. Please try again.'))
+        .finally(() => setLoading(false))
+    }
+  }, [])
+
+  async function onPasskey() {
+    setError(null); setSuccess(null); setLoading(true)
+    try {
+      finishLogin(await signInWithPasskey())
+    } catch (err) {
+      // NotAllowedError: the user dismissed the browser prompt or it timed out
+      if (err instanceof Error && err.name !== 'NotAllowedError') setError(err.message || 'Passkey sign-in failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
   async function onSubmit(e: React.FormEvent) {
     e.preventDefault()
     setError(null); setSuccess(null); setLoading(true)
     try {
-      const { data } = await axios.post(
-        `${API_BASE}/auth/login`,
-        { username: username.trim().toLowerCase(), password },
-        { withCredentials: true }
-      )
-      if (data?.accessToken) localStorage.setItem('accessToken', data.accessToken)
-      if (data?.user) localStorage.setItem('user', JSON.stringify(data.user))
-      setSuccess('Logged in')
-      window.location.assign('/')
+      const { data } = challengeToken
+        ? await axios.post(`${API_BASE}/auth/login/2fa`, { challengeToken, code: code.trim() }, { withCredentials: true })
+        : await axios.post(
+            `${API_BASE}/auth/login`,
+            { username: username.trim().toLowerCase(), password },
+            { withCredentials: true }
+          )
+      finishLogin(data)
     } catch (err: any) {
       if (err.response) {
         console.error('Login failed:', { status: err.response.status, data: err.response.data })
         setError(err.response.data?.error || `Login failed (${err.response.status})`)
+        // Challenge expired: back to the password step
+        if (challengeToken && err.response.status === 401 && err.response.data?.error !== 'Invalid code') {
+          setChallengeToken(null)
+          setCode('')
+        }
       } else if (err.request) {
         console.error('Login no response:', err.request)
         setError('No response from server. Check CORS and that the server is running on port 4000.')
@@ -121,28 +213,52 @@ export default function Login() {
 
       <h1 style={{ textAlign: 'center', color: '#ffffff' }}>Log In</h1>
       <form onSubmit={onSubmit} id="login-form">
-        <label htmlFor="username" style={labelStyle}>Username</label>
-        <input
-          id="username"
-          value={username}
-          onChange={e => setUsername(e.target.value)}
-          required
-          style={usernameInputStyle}
-          onFocus={() => setUsernameFocused(true)}
-          onBlur={() => setUsernameFocused(false)}
-        />
-
-        <label htmlFor="password" style={labelStyle}>Password</label>
-        <input
-          id="password"
-          type="password"
-          value={password}
-          onChange={e => setPassword(e.target.value)}
-          required
-          style={passwordInputStyle}
-          onFocus={() => setPasswordFocused(true)}
-          onBlur={() => setPasswordFocused(false)}
-        />
+        {challengeToken ? (
+          <>
+            <label htmlFor="code" style={labelStyle}>Authentication code</label>
+            <input
+              id="code"
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              required
+              autoFocus
+              autoComplete="one-time-code"
+              inputMode="text"
+              placeholder="123456 or backup code"
+              style={passwordInputStyle}
+              onFocus={() => setPasswordFocused(true)}
+              onBlur={() => setPasswordFocused(false)}
+            />
+            <p style={{ color: '#888', fontSize: '0.85rem' }}>
+              Enter the 6-digit code from your authenticator app, or one of your backup codes.
+            </p>
+          </>
+        ) : (
+          <>
+            <label htmlFor="username" style={labelStyle}>Username</label>
+            <input
+              id="username"
+              value={username}
+              onChange={e => setUsername(e.target.value)}
+              required
+              style={usernameInputStyle}
+              onFocus={() => setUsernameFocused(true)}
+              onBlur={() => setUsernameFocused(false)}
+            />
+
+            <label htmlFor="password" style={labelStyle}>Password</label>
+            <input
+              id="password"
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              required
+              style={passwordInputStyle}
+              onFocus={() => setPasswordFocused(true)}
+              onBlur={() => setPasswordFocused(false)}
+            />
+          </>
+        )}
 
         <button
           type="submit"
@@ -151,10 +267,37 @@ export default function Login() {
           onMouseEnter={() => setButtonHovered(true)}
           onMouseLeave={() => setButtonHovered(false)}
         >
-          {loading ? 'Logging in…' : 'Log in'}
+          {loading ? 'Logging in…' : challengeToken ? 'Verify' : 'Log in'}
         </button>
       </form>
 
+      {!challengeToken && passkeysSupported() && (
+        <button
+          type="button"
+          onClick={onPasskey}
+          disabled={loading}
+          style={{ ...buttonStyle, marginTop: '1rem', backgroundColor: 'transparent', border: '1px solid #a305a6', boxShadow: 'none' }}
+        >
+          Sign in with a passkey
+        </button>
+      )}
+
+      {!challengeToken && providers.map((p) => (
+        <a
+          key={p.id}
+          href={`${API_BASE}/auth/oidc/${encodeURIComponent(p.id)}/start`}
+          style={{ ...buttonStyle, display: 'inline-block', boxSizing: 'border-box', marginTop: '1rem', textDecoration: 'none', backgroundColor: 'transparent', border: '1px solid #a305a6', boxShadow: 'none' }}
+        >
+          Continue with {p.name}
+        </a>
+      ))}
+
+      <p style={{ color: '#ffffff' }}>Forgot your password?  {'  '}
+        <a href="/recover" style={{ textDecoration: 'none', color: '#5495ffff' }}>
+          Use your secret key
+        </a>
+      </p>
+
       <p style={{ color: '#ffffff' }}>Don't have an account?  {'  '}
         <a
           href="/Signup"
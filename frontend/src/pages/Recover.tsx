@@ -0,0 +1,264 @@
+import { useState } from 'react'
+import axios from 'axios'
+
+const API_BASE = import.meta.env.VITE_API_BASE || 'http://localhost:4000'
+
+/**
+ * Recover: reset a lost password with the secret key issued at signup.
+ * On success the server rotates the key, so the new one is shown exactly once.
+ * Accounts with two-factor authentication also need an authenticator or backup code; the
+ * field appears once the server asks for it.
+ */
+export default function Recover() {
+  const [username, setUsername] = useState('')
+  const [secretKey, setSecretKey] = useState('')
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false)
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [newSecretKey, setNewSecretKey] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [inputFocus, setInputFocus] = useState<{ [key: string]: boolean }>({})
+  const [buttonHover, setButtonHover] = useState(false)
+  const [linkHover, setLinkHover] = useState(false)
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError(null)
+    setSuccess(null)
+    setNewSecretKey(null)
+
+    if (password !== confirmPassword) {
+      setError('⚠️ Passwords do not match')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const { data } = await axios.post(
+        `${API_BASE}/auth/recover`,
+        { username: username.trim().toLowerCase(), secretKey, password, confirmPassword, ...(needsTwoFactor ? { code: code.trim() } : {}) },
+        { withCredentials: true }
+      )
+
+      setSuccess('Password reset ✅')
+      setNewSecretKey(data.secretKey)
+
+      // Persist tokens and user for App.tsx hydration
+      if (data?.accessToken) localStorage.setItem('accessToken', data.accessToken)
+      if (data?.user) localStorage.setItem('user', JSON.stringify(data.user))
+
+      setSecretKey('')
+      setPassword('')
+      setConfirmPassword('')
+      setCode('')
+    } catch (err) {
+      const data = axios.isAxiosError(err) ? err.response?.data : undefined
+      if (data?.twoFactorRequired) setNeedsTwoFactor(true)
+      const serverMsg = data?.error || data?.message
+      console.error('Recover error:', data || err)
+      setError(serverMsg ? `⚠️ ${serverMsg}` : '⚠️ Recovery failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Styles
+  const containerStyle: React.CSSProperties = {
+    background: '#000000',
+    padding: '2.5rem',
+    borderRadius: '2em',
+    width: '100%',
+    maxWidth: '700px',
+    margin: '2rem auto',
+    boxSizing: 'border-box',
+  }
+  const headingStyle: React.CSSProperties = {
+    textAlign: 'center',
+    color: '#ffffff',
+  }
+  const labelStyle: React.CSSProperties = {
+    display: 'block',
+    marginTop: '1rem',
+    color: '#ffffff',
+    textAlign: 'left',
+    marginLeft: '20%'
+  }
+  const inputStyle = (key: string): React.CSSProperties => ({
+    width: '60%',
+    padding: '0.7rem',
+    marginTop: '0.5rem',
+    border: '1px solid #555',
+    borderRadius: '2em',
+    background: '#000000ff',
+    color: 'white',
+    fontSize: '1rem',
+    outline: 'none',
+    boxSizing: 'border-box',
+    transition: 'box-shadow 0.2s',
+    boxShadow: inputFocus[key] ? '0 0 0 2px #a305a6' : 'none',
+  })
+  const buttonStyle: React.CSSProperties = {
+    width: '60%',
+    marginTop: '2rem',
+    padding: '0.7rem',
+    backgroundColor: '#a305a6',
+    border: 'none',
+    borderRadius: '2em',
+    color: 'white',
+    fontWeight: 'bold',
+    cursor: 'pointer',
+    fontSize: '1rem',
+    transition: 'box-shadow 0.2s',
+    boxShadow: buttonHover ? '0 0 0 2px #a305a6, 0 2px 8px rgba(0,0,0,0.2)' : 'none',
+    opacity: loading ? 0.7 : 1,
+  }
+  const flashBaseStyle: React.CSSProperties = {
+    position: 'relative',
+    padding: '0.2rem',
+    borderRadius: '2em',
+    fontSize: '1rem',
+    textAlign: 'center',
+    marginBottom: '1.5rem',
+    boxShadow: '0 2px 16px 0 rgba(0,0,0,0.12)',
+    color: '#fff',
+    fontWeight: 'bold',
+    width: '300px',
+  }
+  const messageStyle: React.CSSProperties = {
+    marginTop: '2rem',
+    backgroundColor: '#1c2128',
+    padding: '1rem',
+    borderRadius: '6px',
+    border: '1px solid #30363d',
+    textAlign: 'center' as const,
+    color: '#fff',
+  }
+  const anchorStyle: React.CSSProperties = {
+    textDecoration: 'none',
+    color: linkHover ? '#a305a6ff' : '#5495ffff',
+    transition: 'color 0.2s',
+    fontWeight: 500,
+    cursor: 'pointer',
+  }
+
+  const focusHandlers = (key: string) => ({
+    onFocus: () => setInputFocus(f => ({ ...f, [key]: true })),
+    onBlur: () => setInputFocus(f => ({ ...f, [key]: false })),
+  })
+
+  return (
+    <div style={containerStyle}>
+      {error && <div style={{ ...flashBaseStyle, backgroundColor: '#f70000' }}>{error}</div>}
+      {success && <div style={{ ...flashBaseStyle, backgroundColor: '#a305a6ff' }}>{success}</div>}
+
+      <h1 style={headingStyle}>Recover Account</h1>
+      {!newSecretKey && (
+        <form onSubmit={handleSubmit} id="recover-form" autoComplete="off">
+          <label htmlFor="username" style={labelStyle}>Username</label>
+          <input
+            id="username"
+            type="text"
+            value={username}
+            onChange={e => setUsername(e.target.value)}
+            required
+            style={inputStyle('username')}
+            {...focusHandlers('username')}
+          />
+
+          <label htmlFor="secret-key" style={labelStyle}>Secret Key</label>
+          <input
+            id="secret-key"
+            type="text"
+            value={secretKey}
+            onChange={e => setSecretKey(e.target.value)}
+            required
+            style={inputStyle('secret-key')}
+            {...focusHandlers('secret-key')}
+          />
+
+          <label htmlFor="password" style={labelStyle}>New Password</label>
+          <input
+            id="password"
+            type="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            required
+            style={inputStyle('password')}
+            {...focusHandlers('password')}
+          />
+
+          <label htmlFor="confirm-password" style={labelStyle}>Confirm New Password</label>
+          <input
+            id="confirm-password"
+            type="password"
+            value={confirmPassword}
+            onChange={e => setConfirmPassword(e.target.value)}
+            required
+            style={inputStyle('confirm-password')}
+            {...focusHandlers('confirm-password')}
+          />
+
+          {needsTwoFactor && (
+            <>
+              <label htmlFor="code" style={labelStyle}>Authentication Code or Backup Code</label>
+              <input
+                id="code"
+                type="text"
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                required
+                style={inputStyle('code')}
+                {...focusHandlers('code')}
+              />
+            </>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading}
+            style={buttonStyle}
+            onMouseEnter={() => setButtonHover(true)}
+            onMouseLeave={() => setButtonHover(false)}
+          >
+            {loading ? 'Resetting…' : 'Reset password'}
+          </button>
+        </form>
+      )}
+
+      {newSecretKey && (
+        <div id="message" style={messageStyle}>
+          <h2 style={headingStyle}>Your New Secret Key</h2>
+          <p style={{ fontWeight: 'bold', wordBreak: 'break-all' }}>{newSecretKey}</p>
+          <small>
+            Your old key no longer works. Copy and store this one securely.
+            Tweaker will never show it again.
+          </small>
+          <button
+            type="button"
+            style={buttonStyle}
+            onClick={() => window.location.assign('/')}
+          >
+            Continue
+          </button>
+        </div>
+      )}
+
+      <p style={{ marginTop: '2rem', textAlign: 'center', color: '#fff' }}>
+        Remembered it?{' '}
+        <a
+          href="/Login"
+          style={anchorStyle}
+          onMouseEnter={() => setLinkHover(true)}
+          onMouseLeave={() => setLinkHover(false)}
+        >
+          Sign in
+        </a>
+      </p>
+    </div>
+  )
+}
@@ -16,6 +16,28 @@ export default function Signup() {
   const [buttonHover, setButtonHover] = useState(false)
   const [linkHover, setLinkHover] = useState(false)
 
+  // Visitors browsing as a guest keep their posts: upgrade the guest identity instead of signing up fresh.
+  // Returns null when there is no usable guest token, so the caller falls back to a normal signup.
+  async function upgradeGuest() {
+    const guestToken = localStorage.getItem('anon_token')
+    if (!guestToken) return null
+    try {
+      const { data } = await axios.post(
+        `${API_BASE}/auth/upgrade`,
+        { username, password, confirmPassword, fullName },
+        { withCredentials: true, headers: { Authorization: `Bearer ${guestToken}` } }
+      )
+      localStorage.removeItem('anon_token')
+      return data
+    } catch (err) {
+      const status = axios.isAxiosError(err) ? err.response?.status : undefined
+      if (status !== 401 && status !== 409) throw err
+      // Expired guest or not a guest anymore: nothing to carry over
+      localStorage.removeItem('anon_token')
+      return null
+    }
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault()
     setError(null)
@@ -35,11 +57,11 @@ export default function Signup() {
 
     setLoading(true)
     try {
-      const { data } = await axios.post(
+      const data = (await upgradeGuest()) ?? (await axios.post(
         `${API_BASE}/signup`,
-        { username, password, fullName },
+        { username, password, confirmPassword, fullName },
         { withCredentials: true }
-      )
+      )).data
 
       setSuccess('Account created successfully!✅')
       setSecretKey(data.secretKey)
@@ -52,9 +74,8 @@ export default function Signup() {
       setUsername('')
       setPassword('')
       setConfirmPassword('')
-      setTimeout(() => {
-        window.location.assign('/')
-      }, 500)
+      // Stay on the page until the user has seen the secret key; it is never shown again
+      if (!data?.secretKey) window.location.assign('/')
     } catch (err: any) {
       const serverMsg = err?.response?.data?.error || err?.response?.data?.message
       console.error('Signup error:', err?.response?.data || err)
@@ -245,6 +266,9 @@ export default function Signup() {
             Copy and store this key securely. It will be required to recover your account.
             Tweaker will never show it again.
           </small>
+          <button type="button" style={buttonStyle} onClick={() => window.location.assign('/')}>
+            I saved my key, continue
+          </button>
         </div>
       )}
 
@@ -4,4 +4,9 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // The Composer counts post length with the server's own modules (postLength.ts, shortcodes.ts);
+    // the frontend therefore needs ../server next to it, see the repository README
+    fs: { allow: ['.', '../server/src/utils/postLength.ts', '../server/src/utils/shortcodes.ts'] },
+  },
 })
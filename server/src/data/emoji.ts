@@ -0,0 +1,409 @@
+/**
+ * Emoji for the picker and `:shortcode:` expansion (lib/emoji.ts). Each entry is
+ * [emoji, name, shortcodes, search keywords, takes a skin tone]; shortcodes and keywords are
+ * space-separated. Shortcodes are what posts store after expansion, so never change or
+ * reuse one; adding aliases is fine.
+ */
+export type EmojiRow = readonly [string, string, string, string, 0 | 1]
+
+export const EMOJI_CATEGORIES: ReadonlyArray<{ id: string; name: string; emoji: ReadonlyArray<EmojiRow> }> = [
+  {
+    id: 'smileys',
+    name: 'Smileys & emotion',
+    emoji: [
+      ['😀', 'grinning face', 'grinning', 'smile happy', 0],
+      ['😃', 'grinning face with big eyes', 'smiley', 'happy joy', 0],
+      ['😄', 'grinning face with smiling eyes', 'smile', 'happy joy laugh', 0],
+      ['😁', 'beaming face', 'grin', 'happy teeth', 0],
+      ['😆', 'grinning squinting face', 'laughing satisfied', 'happy laugh', 0],
+      ['😅', 'grinning face with sweat', 'sweat_smile', 'relief nervous', 0],
+      ['🤣', 'rolling on the floor laughing', 'rofl', 'lol laugh', 0],
+      ['😂', 'face with tears of joy', 'joy', 'lol laugh cry', 0],
+      ['🙂', 'slightly smiling face', 'slightly_smiling_face', 'smile', 0],
+      ['🙃', 'upside-down face', 'upside_down_face', 'silly sarcasm', 0],
+      ['😉', 'winking face', 'wink', 'flirt', 0],
+      ['😊', 'smiling face with smiling eyes', 'blush', 'happy shy', 0],
+      ['😇', 'smiling face with halo', 'innocent', 'angel', 0],
+      ['🥰', 'smiling face with hearts', 'smiling_face_with_three_hearts', 'love crush', 0],
+      ['😍', 'smiling face with heart-eyes', 'heart_eyes', 'love crush', 0],
+      ['🤩', 'star-struck', 'star_struck', 'wow amazing', 0],
+      ['😘', 'face blowing a kiss', 'kissing_heart', 'love kiss', 0],
+      ['😋', 'face savoring food', 'yum', 'tasty delicious', 0],
+      ['😛', 'face with tongue', 'stuck_out_tongue', 'silly', 0],
+      ['😜', 'winking face with tongue', 'stuck_out_tongue_winking_eye', 'silly joke', 0],
+      ['🤪', 'zany face', 'zany_face', 'crazy silly', 0],
+      ['🤑', 'money-mouth face', 'money_mouth_face', 'rich', 0],
+      ['🤗', 'smiling face with open hands', 'hugs hugging', 'hug', 0],
+      ['🤭', 'face with hand over mouth', 'hand_over_mouth', 'oops giggle', 0],
+      ['🤫', 'shushing face', 'shushing_face', 'quiet secret', 0],
+      ['🤔', 'thinking face', 'thinking', 'hmm think', 0],
+      ['🤐', 'zipper-mouth face', 'zipper_mouth_face', 'secret quiet', 0],
+      ['🤨', 'face with raised eyebrow', 'raised_eyebrow', 'skeptical suspicious', 0],
+      ['😐', 'neutral face', 'neutral_face', 'meh', 0],
+      ['😑', 'expressionless face', 'expressionless', 'blank', 0],
+      ['😶', 'face without mouth', 'no_mouth', 'silent', 0],
+      ['😏', 'smirking face', 'smirk', 'smug', 0],
+      ['😒', 'unamused face', 'unamused', 'meh annoyed', 0],
+      ['🙄', 'face with rolling eyes', 'roll_eyes', 'eyeroll whatever', 0],
+      ['😬', 'grimacing face', 'grimacing', 'awkward', 0],
+      ['😌', 'relieved face', 'relieved', 'calm', 0],
+      ['😔', 'pensive face', 'pensive', 'sad', 0],
+      ['😪', 'sleepy face', 'sleepy', 'tired', 0],
+      ['😴', 'sleeping face', 'sleeping', 'zzz tired', 0],
+      ['😷', 'face with medical mask', 'mask', 'sick ill', 0],
+      ['🤒', 'face with thermometer', 'face_with_thermometer', 'sick ill fever', 0],
+      ['🤢', 'nauseated face', 'nauseated_face', 'sick gross', 0],
+      ['🤮', 'face vomiting', 'vomiting_face', 'sick gross', 0],
+      ['🥵', 'hot face', 'hot_face', 'heat sweating', 0],
+      ['🥶', 'cold face', 'cold_face', 'freezing', 0],
+      ['🥴', 'woozy face', 'woozy_face', 'dizzy drunk', 0],
+      ['🤯', 'exploding head', 'exploding_head', 'mind blown shocked', 0],
+      ['🥳', 'partying face', 'partying_face', 'party celebrate birthday', 0],
+      ['😎', 'smiling face with sunglasses', 'sunglasses', 'cool', 0],
+      ['🤓', 'nerd face', 'nerd_face', 'geek', 0],
+      ['😕', 'confused face', 'confused', 'unsure', 0],
+      ['😟', 'worried face', 'worried', 'nervous', 0],
+      ['🙁', 'slightly frowning face', 'slightly_frowning_face', 'sad', 0],
+      ['😮', 'face with open mouth', 'open_mouth', 'surprise wow', 0],
+      ['😲', 'astonished face', 'astonished', 'shocked wow', 0],
+      ['😳', 'flushed face', 'flushed', 'embarrassed', 0],
+      ['🥺', 'pleading face', 'pleading_face', 'puppy eyes please', 0],
+      ['😢', 'crying face', 'cry', 'sad tear', 0],
+      ['😭', 'loudly crying face', 'sob', 'sad cry', 0],
+      ['😱', 'face screaming in fear', 'scream', 'scared shocked', 0],
+      ['😤', 'face with steam from nose', 'triumph', 'frustrated', 0],
+      ['😡', 'enraged face', 'rage pout', 'angry mad', 0],
+      ['😠', 'angry face', 'angry', 'mad', 0],
+      ['🤬', 'face with symbols on mouth', 'cursing_face', 'swearing angry', 0],
+      ['😈', 'smiling face with horns', 'smiling_imp', 'devil evil', 0],
+      ['💀', 'skull', 'skull', 'dead lol', 0],
+      ['💩', 'pile of poo', 'poop hankey', 'poo', 0],
+      ['🤡', 'clown face', 'clown_face', 'clown', 0],
+      ['👻', 'ghost', 'ghost', 'halloween boo', 0],
+      ['👽', 'alien', 'alien', 'ufo space', 0],
+      ['🤖', 'robot', 'robot', 'bot', 0],
+      ['😺', 'grinning cat', 'smiley_cat', 'cat happy', 0],
+      ['🙈', 'see-no-evil monkey', 'see_no_evil', 'monkey oops', 0],
+      ['❤️', 'red heart', 'heart', 'love', 0],
+      ['🧡', 'orange heart', 'orange_heart', 'love', 0],
+      ['💛', 'yellow heart', 'yellow_heart', 'love', 0],
+      ['💚', 'green heart', 'green_heart', 'love', 0],
+      ['💙', 'blue heart', 'blue_heart', 'love', 0],
+      ['💜', 'purple heart', 'purple_heart', 'love', 0],
+      ['🖤', 'black heart', 'black_heart', 'love', 0],
+      ['🤍', 'white heart', 'white_heart', 'love', 0],
+      ['💔', 'broken heart', 'broken_heart', 'sad breakup', 0],
+      ['💕', 'two hearts', 'two_hearts', 'love', 0],
+      ['💖', 'sparkling heart', 'sparkling_heart', 'love', 0],
+      ['💯', 'hundred points', '100', 'perfect score', 0],
+      ['💥', 'collision', 'boom collision', 'explosion', 0],
+      ['💫', 'dizzy', 'dizzy', 'star', 0],
+      ['💬', 'speech balloon', 'speech_balloon', 'comment chat', 0],
+      ['💤', 'zzz', 'zzz', 'sleep', 0],
+    ],
+  },
+  {
+    id: 'people',
+    name: 'People & body',
+    emoji: [
+      ['👋', 'waving hand', 'wave', 'hello hi bye', 1],
+      ['🤚', 'raised back of hand', 'raised_back_of_hand', 'stop', 1],
+      ['✋', 'raised hand', 'hand raised_hand', 'stop high five', 1],
+      ['🖖', 'vulcan salute', 'vulcan_salute', 'spock star trek', 1],
+      ['👌', 'OK hand', 'ok_hand', 'okay perfect', 1],
+      ['🤌', 'pinched fingers', 'pinched_fingers', 'italian', 1],
+      ['✌️', 'victory hand', 'v', 'peace', 1],
+      ['🤞', 'crossed fingers', 'crossed_fingers', 'luck hope', 1],
+      ['🤟', 'love-you gesture', 'love_you_gesture', 'ily', 1],
+      ['🤘', 'sign of the horns', 'metal', 'rock', 1],
+      ['🤙', 'call me hand', 'call_me_hand', 'shaka', 1],
+      ['👈', 'backhand index pointing left', 'point_left', 'left', 1],
+      ['👉', 'backhand index pointing right', 'point_right', 'right', 1],
+      ['👆', 'backhand index pointing up', 'point_up_2', 'up', 1],
+      ['👇', 'backhand index pointing down', 'point_down', 'down', 1],
+      ['👍', 'thumbs up', '+1 thumbsup', 'like yes approve', 1],
+      ['👎', 'thumbs down', '-1 thumbsdown', 'dislike no', 1],
+      ['✊', 'raised fist', 'fist_raised fist', 'power solidarity', 1],
+      ['👊', 'oncoming fist', 'fist_oncoming punch', 'bump', 1],
+      ['👏', 'clapping hands', 'clap', 'applause bravo', 1],
+      ['🙌', 'raising hands', 'raised_hands', 'celebrate hooray', 1],
+      ['👐', 'open hands', 'open_hands', 'hug', 1],
+      ['🤲', 'palms up together', 'palms_up_together', 'prayer', 1],
+      ['🤝', 'handshake', 'handshake', 'deal agreement', 0],
+      ['🙏', 'folded hands', 'pray', 'please thanks', 1],
+      ['✍️', 'writing hand', 'writing_hand', 'write', 1],
+      ['💪', 'flexed biceps', 'muscle', 'strong', 1],
+      ['👀', 'eyes', 'eyes', 'look see', 0],
+      ['🧠', 'brain', 'brain', 'smart', 0],
+      ['👶', 'baby', 'baby', 'child', 1],
+      ['🧒', 'child', 'child', 'kid', 1],
+      ['🧑', 'person', 'adult', 'human', 1],
+      ['👩', 'woman', 'woman', 'female', 1],
+      ['👨', 'man', 'man', 'male', 1],
+      ['🧓', 'older person', 'older_adult', 'old', 1],
+      ['🤷', 'person shrugging', 'shrug', 'whatever dunno', 1],
+      ['🤦', 'person facepalming', 'facepalm', 'ugh', 1],
+      ['🙋', 'person raising hand', 'raising_hand', 'question me', 1],
+      ['🙆', 'person gesturing OK', 'ok_person', 'yes', 1],
+      ['🙅', 'person gesturing no', 'no_good', 'no stop', 1],
+      ['💁', 'person tipping hand', 'tipping_hand_person information_desk_person', 'sassy', 1],
+      ['🧑‍💻', 'technologist', 'technologist', 'coder developer computer', 1],
+      ['🧑‍🍳', 'cook', 'cook', 'chef', 1],
+      ['🧑‍🎓', 'student', 'student', 'graduate', 1],
+      ['🏃', 'person running', 'runner running', 'exercise', 1],
+      ['💃', 'woman dancing', 'dancer', 'dance party', 1],
+      ['🕺', 'man dancing', 'man_dancing', 'dance party', 1],
+      ['👯', 'people with bunny ears', 'dancers', 'party', 0],
+      ['🧘', 'person in lotus position', 'lotus_position', 'yoga meditate', 1],
+    ],
+  },
+  {
+    id: 'nature',
+    name: 'Animals & nature',
+    emoji: [
+      ['🐶', 'dog face', 'dog', 'puppy pet', 0],
+      ['🐱', 'cat face', 'cat', 'kitten pet', 0],
+      ['🐭', 'mouse face', 'mouse', 'animal', 0],
+      ['🐰', 'rabbit face', 'rabbit', 'bunny', 0],
+      ['🦊', 'fox', 'fox_face', 'animal', 0],
+      ['🐻', 'bear', 'bear', 'animal', 0],
+      ['🐼', 'panda', 'panda_face', 'animal', 0],
+      ['🐨', 'koala', 'koala', 'animal', 0],
+      ['🐯', 'tiger face', 'tiger', 'animal', 0],
+      ['🦁', 'lion', 'lion', 'animal', 0],
+      ['🐮', 'cow face', 'cow', 'animal', 0],
+      ['🐷', 'pig face', 'pig', 'animal', 0],
+      ['🐸', 'frog', 'frog', 'animal', 0],
+      ['🐵', 'monkey face', 'monkey_face', 'animal', 0],
+      ['🐔', 'chicken', 'chicken', 'bird', 0],
+      ['🐧', 'penguin', 'penguin', 'bird', 0],
+      ['🐦', 'bird', 'bird', 'tweet', 0],
+      ['🦄', 'unicorn', 'unicorn', 'magic', 0],
+      ['🐝', 'honeybee', 'bee honeybee', 'insect', 0],
+      ['🦋', 'butterfly', 'butterfly', 'insect', 0],
+      ['🐢', 'turtle', 'turtle', 'slow', 0],
+      ['🐍', 'snake', 'snake', 'python', 0],
+      ['🐙', 'octopus', 'octopus', 'sea', 0],
+      ['🐳', 'spouting whale', 'whale', 'sea', 0],
+      ['🐬', 'dolphin', 'dolphin', 'sea', 0],
+      ['🦈', 'shark', 'shark', 'sea', 0],
+      ['🌸', 'cherry blossom', 'cherry_blossom', 'flower spring', 0],
+      ['🌹', 'rose', 'rose', 'flower love', 0],
+      ['🌻', 'sunflower', 'sunflower', 'flower', 0],
+      ['🌷', 'tulip', 'tulip', 'flower', 0],
+      ['🌱', 'seedling', 'seedling', 'plant grow', 0],
+      ['🌲', 'evergreen tree', 'evergreen_tree', 'forest', 0],
+      ['🌴', 'palm tree', 'palm_tree', 'beach', 0],
+      ['🍀', 'four leaf clover', 'four_leaf_clover', 'luck', 0],
+      ['🍁', 'maple leaf', 'maple_leaf', 'autumn fall', 0],
+      ['🌞', 'sun with face', 'sun_with_face', 'sunny', 0],
+      ['☀️', 'sun', 'sunny', 'weather', 0],
+      ['🌙', 'crescent moon', 'crescent_moon', 'night', 0],
+      ['⭐', 'star', 'star', 'favorite', 0],
+      ['🌟', 'glowing star', 'star2', 'shine', 0],
+      ['✨', 'sparkles', 'sparkles', 'shiny magic', 0],
+      ['⚡', 'high voltage', 'zap', 'lightning', 0],
+      ['🔥', 'fire', 'fire', 'lit hot', 0],
+      ['🌈', 'rainbow', 'rainbow', 'pride', 0],
+      ['☁️', 'cloud', 'cloud', 'weather', 0],
+      ['🌧️', 'cloud with rain', 'cloud_with_rain', 'weather', 0],
+      ['❄️', 'snowflake', 'snowflake', 'winter cold', 0],
+      ['🌊', 'water wave', 'ocean', 'sea surf', 0],
+    ],
+  },
+  {
+    id: 'food',
+    name: 'Food & drink',
+    emoji: [
+      ['🍏', 'green apple', 'green_apple', 'fruit', 0],
+      ['🍎', 'red apple', 'apple', 'fruit', 0],
+      ['🍌', 'banana', 'banana', 'fruit', 0],
+      ['🍉', 'watermelon', 'watermelon', 'fruit summer', 0],
+      ['🍇', 'grapes', 'grapes', 'fruit', 0],
+      ['🍓', 'strawberry', 'strawberry', 'fruit', 0],
+      ['🍒', 'cherries', 'cherries', 'fruit', 0],
+      ['🍑', 'peach', 'peach', 'fruit', 0],
+      ['🥑', 'avocado', 'avocado', 'fruit', 0],
+      ['🍅', 'tomato', 'tomato', 'vegetable', 0],
+      ['🥕', 'carrot', 'carrot', 'vegetable', 0],
+      ['🌽', 'ear of corn', 'corn', 'vegetable', 0],
+      ['🍞', 'bread', 'bread', 'toast', 0],
+      ['🧀', 'cheese wedge', 'cheese', 'food', 0],
+      ['🍳', 'cooking', 'fried_egg', 'breakfast', 0],
+      ['🍔', 'hamburger', 'hamburger', 'burger', 0],
+      ['🍟', 'french fries', 'fries', 'chips', 0],
+      ['🍕', 'pizza', 'pizza', 'food', 0],
+      ['🌮', 'taco', 'taco', 'mexican', 0],
+      ['🍣', 'sushi', 'sushi', 'japanese', 0],
+      ['🍜', 'steaming bowl', 'ramen', 'noodles', 0],
+      ['🍝', 'spaghetti', 'spaghetti', 'pasta', 0],
+      ['🍩', 'doughnut', 'doughnut', 'donut', 0],
+      ['🍪', 'cookie', 'cookie', 'biscuit', 0],
+      ['🎂', 'birthday cake', 'birthday', 'cake party', 0],
+      ['🍰', 'shortcake', 'cake', 'dessert', 0],
+      ['🍫', 'chocolate bar', 'chocolate_bar', 'sweet', 0],
+      ['🍿', 'popcorn', 'popcorn', 'movie', 0],
+      ['☕', 'hot beverage', 'coffee', 'tea cafe', 0],
+      ['🍵', 'teacup without handle', 'tea', 'green tea', 0],
+      ['🍺', 'beer mug', 'beer', 'drink', 0],
+      ['🍻', 'clinking beer mugs', 'beers', 'cheers drink', 0],
+      ['🍷', 'wine glass', 'wine_glass', 'drink', 0],
+      ['🥂', 'clinking glasses', 'clinking_glasses', 'cheers celebrate', 0],
+      ['🍹', 'tropical drink', 'tropical_drink', 'cocktail', 0],
+    ],
+  },
+  {
+    id: 'activities',
+    name: 'Activities',
+    emoji: [
+      ['⚽', 'soccer ball', 'soccer', 'football sport', 0],
+      ['🏀', 'basketball', 'basketball', 'sport', 0],
+      ['🏈', 'american football', 'football', 'sport', 0],
+      ['⚾', 'baseball', 'baseball', 'sport', 0],
+      ['🎾', 'tennis', 'tennis', 'sport', 0],
+      ['🏐', 'volleyball', 'volleyball', 'sport', 0],
+      ['🏓', 'ping pong', 'ping_pong', 'table tennis', 0],
+      ['⛳', 'flag in hole', 'golf', 'sport', 0],
+      ['🏆', 'trophy', 'trophy', 'win award', 0],
+      ['🥇', '1st place medal', '1st_place_medal', 'gold win', 0],
+      ['🎮', 'video game', 'video_game', 'gaming controller', 0],
+      ['🎲', 'game die', 'game_die', 'dice', 0],
+      ['🎯', 'bullseye', 'dart', 'target goal', 0],
+      ['🎨', 'artist palette', 'art', 'paint', 0],
+      ['🎬', 'clapper board', 'clapper', 'movie film', 0],
+      ['🎤', 'microphone', 'microphone', 'sing karaoke', 0],
+      ['🎧', 'headphone', 'headphones', 'music', 0],
+      ['🎸', 'guitar', 'guitar', 'music', 0],
+      ['🎹', 'musical keyboard', 'musical_keyboard', 'piano music', 0],
+      ['🎵', 'musical note', 'musical_note', 'music', 0],
+      ['🎉', 'party popper', 'tada', 'party celebrate congrats', 0],
+      ['🎊', 'confetti ball', 'confetti_ball', 'party', 0],
+      ['🎈', 'balloon', 'balloon', 'party birthday', 0],
+      ['🎁', 'wrapped gift', 'gift', 'present birthday', 0],
+      ['🎄', 'Christmas tree', 'christmas_tree', 'holiday', 0],
+      ['🎃', 'jack-o-lantern', 'jack_o_lantern', 'halloween pumpkin', 0],
+    ],
+  },
+  {
+    id: 'travel',
+    name: 'Travel & places',
+    emoji: [
+      ['🚗', 'automobile', 'car red_car', 'drive', 0],
+      ['🚕', 'taxi', 'taxi', 'cab', 0],
+      ['🚌', 'bus', 'bus', 'transit', 0],
+      ['🚲', 'bicycle', 'bike', 'cycle', 0],
+      ['🚀', 'rocket', 'rocket', 'launch space ship it', 0],
+      ['✈️', 'airplane', 'airplane', 'flight travel', 0],
+      ['🚆', 'train', 'train2', 'rail', 0],
+      ['⛵', 'sailboat', 'sailboat boat', 'sea', 0],
+      ['🏠', 'house', 'house', 'home', 0],
+      ['🏢', 'office building', 'office', 'work', 0],
+      ['🏖️', 'beach with umbrella', 'beach_umbrella', 'vacation summer', 0],
+      ['⛰️', 'mountain', 'mountain', 'hike', 0],
+      ['🌋', 'volcano', 'volcano', 'mountain', 0],
+      ['🗽', 'Statue of Liberty', 'statue_of_liberty', 'new york', 0],
+      ['🗼', 'Tokyo tower', 'tokyo_tower', 'japan', 0],
+      ['🌍', 'globe showing Europe-Africa', 'earth_africa', 'world globe', 0],
+      ['🌎', 'globe showing Americas', 'earth_americas', 'world globe', 0],
+      ['🌏', 'globe showing Asia-Australia', 'earth_asia', 'world globe', 0],
+      ['🗺️', 'world map', 'world_map', 'travel', 0],
+      ['📍', 'round pushpin', 'round_pushpin', 'location pin', 0],
+    ],
+  },
+  {
+    id: 'objects',
+    name: 'Objects',
+    emoji: [
+      ['💻', 'laptop', 'computer laptop', 'work code', 0],
+      ['📱', 'mobile phone', 'iphone phone', 'smartphone', 0],
+      ['⌨️', 'keyboard', 'keyboard', 'typing', 0],
+      ['📷', 'camera', 'camera', 'photo', 0],
+      ['📺', 'television', 'tv', 'watch', 0],
+      ['💡', 'light bulb', 'bulb', 'idea', 0],
+      ['🔋', 'battery', 'battery', 'power', 0],
+      ['📚', 'books', 'books', 'read study', 0],
+      ['📝', 'memo', 'memo pencil', 'note write', 0],
+      ['✏️', 'pencil', 'pencil2', 'write', 0],
+      ['📌', 'pushpin', 'pushpin', 'pin', 0],
+      ['📎', 'paperclip', 'paperclip', 'attach', 0],
+      ['📅', 'calendar', 'date', 'schedule', 0],
+      ['📈', 'chart increasing', 'chart_with_upwards_trend', 'growth stonks', 0],
+      ['📉', 'chart decreasing', 'chart_with_downwards_trend', 'decline', 0],
+      ['💰', 'money bag', 'moneybag', 'rich', 0],
+      ['💸', 'money with wings', 'money_with_wings', 'spend', 0],
+      ['🔑', 'key', 'key', 'lock password', 0],
+      ['🔒', 'locked', 'lock', 'secure private', 0],
+      ['🔔', 'bell', 'bell', 'notification', 0],
+      ['📣', 'megaphone', 'mega', 'announce', 0],
+      ['🛠️', 'hammer and wrench', 'hammer_and_wrench', 'tools fix', 0],
+      ['⚙️', 'gear', 'gear', 'settings', 0],
+      ['🧪', 'test tube', 'test_tube', 'science experiment', 0],
+      ['💊', 'pill', 'pill', 'medicine', 0],
+      ['⏰', 'alarm clock', 'alarm_clock', 'time', 0],
+      ['⌛', 'hourglass done', 'hourglass', 'time wait', 0],
+      ['🗑️', 'wastebasket', 'wastebasket', 'trash delete', 0],
+    ],
+  },
+  {
+    id: 'symbols',
+    name: 'Symbols',
+    emoji: [
+      ['✅', 'check mark button', 'white_check_mark', 'done yes', 0],
+      ['✔️', 'check mark', 'heavy_check_mark', 'done yes', 0],
+      ['❌', 'cross mark', 'x', 'no wrong', 0],
+      ['❗', 'red exclamation mark', 'exclamation heavy_exclamation_mark', 'important', 0],
+      ['❓', 'red question mark', 'question', 'what', 0],
+      ['⚠️', 'warning', 'warning', 'caution', 0],
+      ['🚫', 'prohibited', 'no_entry_sign', 'forbidden', 0],
+      ['♻️', 'recycling symbol', 'recycle', 'environment', 0],
+      ['🔴', 'red circle', 'red_circle', 'dot', 0],
+      ['🟢', 'green circle', 'green_circle', 'dot', 0],
+      ['🔵', 'blue circle', 'large_blue_circle', 'dot', 0],
+      ['➡️', 'right arrow', 'arrow_right', 'next', 0],
+      ['⬅️', 'left arrow', 'arrow_left', 'back', 0],
+      ['⬆️', 'up arrow', 'arrow_up', 'up', 0],
+      ['⬇️', 'down arrow', 'arrow_down', 'down', 0],
+      ['🔁', 'repeat button', 'repeat', 'loop', 0],
+      ['🆕', 'NEW button', 'new', 'fresh', 0],
+      ['🆗', 'OK button', 'ok', 'okay', 0],
+      ['🔝', 'TOP arrow', 'top', 'best', 0],
+      ['➕', 'plus', 'heavy_plus_sign', 'add', 0],
+      ['➖', 'minus', 'heavy_minus_sign', 'subtract', 0],
+      ['♾️', 'infinity', 'infinity', 'forever', 0],
+      ['©️', 'copyright', 'copyright', 'c', 0],
+      ['™️', 'trade mark', 'tm', 'trademark', 0],
+    ],
+  },
+  {
+    id: 'flags',
+    name: 'Flags',
+    emoji: [
+      ['🏁', 'chequered flag', 'checkered_flag', 'race finish', 0],
+      ['🚩', 'triangular flag', 'triangular_flag_on_post', 'red flag', 0],
+      ['🏳️', 'white flag', 'white_flag', 'surrender', 0],
+      ['🏴', 'black flag', 'black_flag', 'flag', 0],
+      ['🏳️‍🌈', 'rainbow flag', 'rainbow_flag', 'pride lgbt', 0],
+      ['🇺🇳', 'flag: United Nations', 'united_nations', 'un', 0],
+      ['🇪🇺', 'flag: European Union', 'eu european_union', 'europe', 0],
+      ['🇺🇸', 'flag: United States', 'us', 'america usa', 0],
+      ['🇬🇧', 'flag: United Kingdom', 'gb uk', 'britain', 0],
+      ['🇨🇦', 'flag: Canada', 'canada', 'ca', 0],
+      ['🇲🇽', 'flag: Mexico', 'mexico', 'mx', 0],
+      ['🇧🇷', 'flag: Brazil', 'brazil', 'br', 0],
+      ['🇦🇷', 'flag: Argentina', 'argentina', 'ar', 0],
+      ['🇫🇷', 'flag: France', 'fr', 'france', 0],
+      ['🇩🇪', 'flag: Germany', 'de', 'germany', 0],
+      ['🇪🇸', 'flag: Spain', 'es', 'spain', 0],
+      ['🇮🇹', 'flag: Italy', 'it', 'italy', 0],
+      ['🇳🇱', 'flag: Netherlands', 'netherlands', 'nl dutch', 0],
+      ['🇺🇦', 'flag: Ukraine', 'ukraine', 'ua', 0],
+      ['🇮🇳', 'flag: India', 'india', 'in', 0],
+      ['🇨🇳', 'flag: China', 'cn', 'china', 0],
+      ['🇯🇵', 'flag: Japan', 'jp', 'japan', 0],
+      ['🇰🇷', 'flag: South Korea', 'kr', 'korea', 0],
+      ['🇦🇺', 'flag: Australia', 'australia', 'au', 0],
+      ['🇳🇬', 'flag: Nigeria', 'nigeria', 'ng', 0],
+      ['🇿🇦', 'flag: South Africa', 'south_africa', 'za', 0],
+    ],
+  },
+]
@@ -0,0 +1,174 @@
+/**
+ * Offline gazetteer for location tagging (lib/places.ts): major cities with the coordinates of
+ * their centre. Entries are [id, name, ISO country code, latitude, longitude]; ids are stable
+ * and stored on posts, so never change or reuse one.
+ */
+export const PLACES: ReadonlyArray<readonly [string, string, string, number, number]> = [
+  // Africa
+  ['abidjan-ci', 'Abidjan', 'CI', 5.36, -4.01],
+  ['accra-gh', 'Accra', 'GH', 5.6, -0.19],
+  ['addis-ababa-et', 'Addis Ababa', 'ET', 9.03, 38.74],
+  ['alexandria-eg', 'Alexandria', 'EG', 31.2, 29.92],
+  ['algiers-dz', 'Algiers', 'DZ', 36.75, 3.06],
+  ['cairo-eg', 'Cairo', 'EG', 30.04, 31.24],
+  ['cape-town-za', 'Cape Town', 'ZA', -33.92, 18.42],
+  ['casablanca-ma', 'Casablanca', 'MA', 33.57, -7.59],
+  ['dakar-sn', 'Dakar', 'SN', 14.72, -17.47],
+  ['dar-es-salaam-tz', 'Dar es Salaam', 'TZ', -6.79, 39.21],
+  ['durban-za', 'Durban', 'ZA', -29.86, 31.03],
+  ['johannesburg-za', 'Johannesburg', 'ZA', -26.2, 28.05],
+  ['kampala-ug', 'Kampala', 'UG', 0.35, 32.58],
+  ['khartoum-sd', 'Khartoum', 'SD', 15.5, 32.56],
+  ['kigali-rw', 'Kigali', 'RW', -1.95, 30.06],
+  ['kinshasa-cd', 'Kinshasa', 'CD', -4.44, 15.27],
+  ['lagos-ng', 'Lagos', 'NG', 6.52, 3.38],
+  ['luanda-ao', 'Luanda', 'AO', -8.84, 13.23],
+  ['marrakesh-ma', 'Marrakesh', 'MA', 31.63, -8.01],
+  ['nairobi-ke', 'Nairobi', 'KE', -1.29, 36.82],
+  ['tunis-tn', 'Tunis', 'TN', 36.81, 10.18],
+  // Asia
+  ['almaty-kz', 'Almaty', 'KZ', 43.24, 76.89],
+  ['bangalore-in', 'Bengaluru', 'IN', 12.97, 77.59],
+  ['bangkok-th', 'Bangkok', 'TH', 13.76, 100.5],
+  ['beijing-cn', 'Beijing', 'CN', 39.9, 116.41],
+  ['chengdu-cn', 'Chengdu', 'CN', 30.57, 104.07],
+  ['chennai-in', 'Chennai', 'IN', 13.08, 80.27],
+  ['colombo-lk', 'Colombo', 'LK', 6.93, 79.86],
+  ['delhi-in', 'Delhi', 'IN', 28.61, 77.21],
+  ['dhaka-bd', 'Dhaka', 'BD', 23.81, 90.41],
+  ['hanoi-vn', 'Hanoi', 'VN', 21.03, 105.85],
+  ['ho-chi-minh-city-vn', 'Ho Chi Minh City', 'VN', 10.82, 106.63],
+  ['hong-kong-hk', 'Hong Kong', 'HK', 22.32, 114.17],
+  ['hyderabad-in', 'Hyderabad', 'IN', 17.39, 78.49],
+  ['jakarta-id', 'Jakarta', 'ID', -6.21, 106.85],
+  ['karachi-pk', 'Karachi', 'PK', 24.86, 67.01],
+  ['kathmandu-np', 'Kathmandu', 'NP', 27.72, 85.32],
+  ['kolkata-in', 'Kolkata', 'IN', 22.57, 88.36],
+  ['kuala-lumpur-my', 'Kuala Lumpur', 'MY', 3.14, 101.69],
+  ['kyoto-jp', 'Kyoto', 'JP', 35.01, 135.77],
+  ['lahore-pk', 'Lahore', 'PK', 31.55, 74.34],
+  ['manila-ph', 'Manila', 'PH', 14.6, 120.98],
+  ['mumbai-in', 'Mumbai', 'IN', 19.08, 72.88],
+  ['osaka-jp', 'Osaka', 'JP', 34.69, 135.5],
+  ['busan-kr', 'Busan', 'KR', 35.18, 129.08],
+  ['seoul-kr', 'Seoul', 'KR', 37.57, 126.98],
+  ['shanghai-cn', 'Shanghai', 'CN', 31.23, 121.47],
+  ['shenzhen-cn', 'Shenzhen', 'CN', 22.54, 114.06],
+  ['singapore-sg', 'Singapore', 'SG', 1.35, 103.82],
+  ['taipei-tw', 'Taipei', 'TW', 25.03, 121.57],
+  ['tashkent-uz', 'Tashkent', 'UZ', 41.3, 69.24],
+  ['tokyo-jp', 'Tokyo', 'JP', 35.68, 139.69],
+  ['ulaanbaatar-mn', 'Ulaanbaatar', 'MN', 47.89, 106.91],
+  // Middle East
+  ['abu-dhabi-ae', 'Abu Dhabi', 'AE', 24.45, 54.38],
+  ['amman-jo', 'Amman', 'JO', 31.95, 35.93],
+  ['baghdad-iq', 'Baghdad', 'IQ', 33.31, 44.36],
+  ['beirut-lb', 'Beirut', 'LB', 33.89, 35.5],
+  ['doha-qa', 'Doha', 'QA', 25.29, 51.53],
+  ['dubai-ae', 'Dubai', 'AE', 25.2, 55.27],
+  ['istanbul-tr', 'Istanbul', 'TR', 41.01, 28.98],
+  ['ankara-tr', 'Ankara', 'TR', 39.93, 32.86],
+  ['kuwait-city-kw', 'Kuwait City', 'KW', 29.38, 47.99],
+  ['muscat-om', 'Muscat', 'OM', 23.59, 58.41],
+  ['riyadh-sa', 'Riyadh', 'SA', 24.71, 46.68],
+  ['tehran-ir', 'Tehran', 'IR', 35.69, 51.39],
+  ['tel-aviv-il', 'Tel Aviv', 'IL', 32.09, 34.78],
+  // Europe
+  ['amsterdam-nl', 'Amsterdam', 'NL', 52.37, 4.9],
+  ['athens-gr', 'Athens', 'GR', 37.98, 23.73],
+  ['barcelona-es', 'Barcelona', 'ES', 41.39, 2.17],
+  ['belgrade-rs', 'Belgrade', 'RS', 44.79, 20.45],
+  ['berlin-de', 'Berlin', 'DE', 52.52, 13.4],
+  ['birmingham-gb', 'Birmingham', 'GB', 52.49, -1.89],
+  ['brussels-be', 'Brussels', 'BE', 50.85, 4.35],
+  ['bucharest-ro', 'Bucharest', 'RO', 44.43, 26.1],
+  ['budapest-hu', 'Budapest', 'HU', 47.5, 19.04],
+  ['copenhagen-dk', 'Copenhagen', 'DK', 55.68, 12.57],
+  ['dublin-ie', 'Dublin', 'IE', 53.35, -6.26],
+  ['edinburgh-gb', 'Edinburgh', 'GB', 55.95, -3.19],
+  ['frankfurt-de', 'Frankfurt', 'DE', 50.11, 8.68],
+  ['geneva-ch', 'Geneva', 'CH', 46.2, 6.14],
+  ['hamburg-de', 'Hamburg', 'DE', 53.55, 9.99],
+  ['helsinki-fi', 'Helsinki', 'FI', 60.17, 24.94],
+  ['kyiv-ua', 'Kyiv', 'UA', 50.45, 30.52],
+  ['lisbon-pt', 'Lisbon', 'PT', 38.72, -9.14],
+  ['london-gb', 'London', 'GB', 51.51, -0.13],
+  ['lyon-fr', 'Lyon', 'FR', 45.76, 4.84],
+  ['madrid-es', 'Madrid', 'ES', 40.42, -3.7],
+  ['manchester-gb', 'Manchester', 'GB', 53.48, -2.24],
+  ['marseille-fr', 'Marseille', 'FR', 43.3, 5.37],
+  ['milan-it', 'Milan', 'IT', 45.46, 9.19],
+  ['moscow-ru', 'Moscow', 'RU', 55.76, 37.62],
+  ['munich-de', 'Munich', 'DE', 48.14, 11.58],
+  ['naples-it', 'Naples', 'IT', 40.85, 14.27],
+  ['oslo-no', 'Oslo', 'NO', 59.91, 10.75],
+  ['paris-fr', 'Paris', 'FR', 48.86, 2.35],
+  ['porto-pt', 'Porto', 'PT', 41.16, -8.63],
+  ['prague-cz', 'Prague', 'CZ', 50.08, 14.44],
+  ['reykjavik-is', 'Reykjavík', 'IS', 64.15, -21.94],
+  ['riga-lv', 'Riga', 'LV', 56.95, 24.11],
+  ['rome-it', 'Rome', 'IT', 41.9, 12.5],
+  ['rotterdam-nl', 'Rotterdam', 'NL', 51.92, 4.48],
+  ['saint-petersburg-ru', 'Saint Petersburg', 'RU', 59.93, 30.34],
+  ['sofia-bg', 'Sofia', 'BG', 42.7, 23.32],
+  ['stockholm-se', 'Stockholm', 'SE', 59.33, 18.07],
+  ['tallinn-ee', 'Tallinn', 'EE', 59.44, 24.75],
+  ['vienna-at', 'Vienna', 'AT', 48.21, 16.37],
+  ['vilnius-lt', 'Vilnius', 'LT', 54.69, 25.28],
+  ['warsaw-pl', 'Warsaw', 'PL', 52.23, 21.01],
+  ['zagreb-hr', 'Zagreb', 'HR', 45.81, 15.98],
+  ['zurich-ch', 'Zürich', 'CH', 47.38, 8.54],
+  // North America
+  ['atlanta-us', 'Atlanta', 'US', 33.75, -84.39],
+  ['austin-us', 'Austin', 'US', 30.27, -97.74],
+  ['boston-us', 'Boston', 'US', 42.36, -71.06],
+  ['calgary-ca', 'Calgary', 'CA', 51.05, -114.07],
+  ['chicago-us', 'Chicago', 'US', 41.88, -87.63],
+  ['dallas-us', 'Dallas', 'US', 32.78, -96.8],
+  ['denver-us', 'Denver', 'US', 39.74, -104.99],
+  ['detroit-us', 'Detroit', 'US', 42.33, -83.05],
+  ['guadalajara-mx', 'Guadalajara', 'MX', 20.66, -103.35],
+  ['havana-cu', 'Havana', 'CU', 23.11, -82.37],
+  ['honolulu-us', 'Honolulu', 'US', 21.31, -157.86],
+  ['houston-us', 'Houston', 'US', 29.76, -95.37],
+  ['las-vegas-us', 'Las Vegas', 'US', 36.17, -115.14],
+  ['los-angeles-us', 'Los Angeles', 'US', 34.05, -118.24],
+  ['mexico-city-mx', 'Mexico City', 'MX', 19.43, -99.13],
+  ['miami-us', 'Miami', 'US', 25.76, -80.19],
+  ['minneapolis-us', 'Minneapolis', 'US', 44.98, -93.27],
+  ['monterrey-mx', 'Monterrey', 'MX', 25.69, -100.32],
+  ['montreal-ca', 'Montréal', 'CA', 45.5, -73.57],
+  ['new-orleans-us', 'New Orleans', 'US', 29.95, -90.07],
+  ['new-york-us', 'New York', 'US', 40.71, -74.01],
+  ['ottawa-ca', 'Ottawa', 'CA', 45.42, -75.7],
+  ['panama-city-pa', 'Panama City', 'PA', 8.98, -79.52],
+  ['philadelphia-us', 'Philadelphia', 'US', 39.95, -75.17],
+  ['phoenix-us', 'Phoenix', 'US', 33.45, -112.07],
+  ['portland-us', 'Portland', 'US', 45.52, -122.68],
+  ['san-diego-us', 'San Diego', 'US', 32.72, -117.16],
+  ['san-francisco-us', 'San Francisco', 'US', 37.77, -122.42],
+  ['san-jose-cr', 'San José', 'CR', 9.93, -84.08],
+  ['seattle-us', 'Seattle', 'US', 47.61, -122.33],
+  ['toronto-ca', 'Toronto', 'CA', 43.65, -79.38],
+  ['vancouver-ca', 'Vancouver', 'CA', 49.28, -123.12],
+  ['washington-us', 'Washington', 'US', 38.91, -77.04],
+  // South America
+  ['bogota-co', 'Bogotá', 'CO', 4.71, -74.07],
+  ['buenos-aires-ar', 'Buenos Aires', 'AR', -34.6, -58.38],
+  ['caracas-ve', 'Caracas', 'VE', 10.48, -66.9],
+  ['lima-pe', 'Lima', 'PE', -12.05, -77.04],
+  ['medellin-co', 'Medellín', 'CO', 6.24, -75.58],
+  ['montevideo-uy', 'Montevideo', 'UY', -34.9, -56.16],
+  ['quito-ec', 'Quito', 'EC', -0.18, -78.47],
+  ['rio-de-janeiro-br', 'Rio de Janeiro', 'BR', -22.91, -43.17],
+  ['santiago-cl', 'Santiago', 'CL', -33.45, -70.67],
+  ['sao-paulo-br', 'São Paulo', 'BR', -23.55, -46.63],
+  // Oceania
+  ['adelaide-au', 'Adelaide', 'AU', -34.93, 138.6],
+  ['auckland-nz', 'Auckland', 'NZ', -36.85, 174.76],
+  ['brisbane-au', 'Brisbane', 'AU', -27.47, 153.03],
+  ['melbourne-au', 'Melbourne', 'AU', -37.81, 144.96],
+  ['perth-au', 'Perth', 'AU', -31.95, 115.86],
+  ['sydney-au', 'Sydney', 'AU', -33.87, 151.21],
+  ['wellington-nz', 'Wellington', 'NZ', -41.29, 174.78],
+]
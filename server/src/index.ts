@@ -5,8 +5,9 @@
  *  • Security middleware (helmet, CORS, cookie-parser)
  *  • Mongo connection and health endpoint
  *  • JWT auth (access + refresh) and cookie handling
- *  • Auth routes mount (/auth) and inline /signup, /auth/me, /auth/refresh, /auth/logout
- *  • Posts router mounted at /posts (tweet-like features)
+ *  • Auth routes mount (/auth), the /signup alias and inline /auth/me
+ *  • Posts router mounted at /posts (tweet-like features), media uploads and files at /media
+ *  • Background account purge job (deactivated accounts past their grace window)
  */
 
 /** Env first so process.env is available */
@@ -24,21 +25,32 @@ import cookieParser from 'cookie-parser'
 /** Database */
 import mongoose from 'mongoose'
 
-/** Auth + hashing */
-import bcrypt from 'bcryptjs'
-import jwt from 'jsonwebtoken'
-
 /** Local models and routers */
 import User from './models/user.js'
-import authRouter from './routes/auth.js'
+import { startAccountDeletionJob } from './lib/accounts.js'
+import { sweepPendingRenames } from './lib/usernames.js'
+import { migrateEmbeddedComments } from './lib/replies.js'
+import { backfillReposts } from './lib/reposts.js'
+import { migrateInlineProfileImages, startMediaSweepJob } from './lib/media.js'
+import { startPollCloseJob } from './lib/polls.js'
+import { startScheduledPublisher } from './lib/drafts.js'
+import authRouter, { signup } from './routes/auth.js'
+import passkeysRouter from './routes/passkeys.js'
+import apiTokensRouter from './routes/apiTokens.js'
+import oidcRouter from './routes/oidc.js'
 import posts from './routes/posts.js'
+import media from './routes/media.js'
 import users from './routes/users.js'
 import commentsRouter from './routes/comments.js'
+import notificationsRouter from './routes/notifications.js'
+import draftsRouter from './routes/drafts.js'
+import placesRouter from './routes/places.js'
+import emojiRouter from './routes/emoji.js'
 
 /** Rate limiting */
 import { signupLimiter, loginLimiter } from './middleware/rateLimit.js'
 
-import { authenticateJWT } from './middleware/authenticate.js'
+import { authenticateJWT, requireScope } from './middleware/authenticate.js'
 
 /** Express app bootstrap */
 const app = express()
@@ -98,26 +110,29 @@ app.get('/health', (_req, res) => {
 
 /** Mount feature routers */
 app.use('/api/posts', posts)
+app.use('/api/media', media)
 app.use('/api/users', users)
 app.use('/api/comments', commentsRouter)
+app.use('/api/notifications', notificationsRouter)
+app.use('/api/drafts', draftsRouter)
+app.use('/api/places', placesRouter)
+app.use('/api/emoji', emojiRouter)
 
 /** Apply login rate limiter before /auth/login route */
 app.use('/api/auth/login', loginLimiter)
+app.use('/api/auth/passkeys', passkeysRouter)
+app.use('/api/auth/tokens', apiTokensRouter)
+app.use('/api/auth/oidc', oidcRouter)
 app.use('/api/auth', authRouter)
 
-/** Port and JWT config (env-driven) */
+/** Port config (env-driven); JWT secrets and lifetimes live in lib/sessions.ts */
 // Port for HTTP server
 const PORT = process.env.PORT || 4000
 
-// Secrets and lifetimes for JWTs
-const JWT_SECRET: jwt.Secret = process.env.JWT_SECRET || 'change_me'              // access token secret
-const JWT_REFRESH_SECRET: jwt.Secret = process.env.JWT_REFRESH_SECRET || 'change_me_refresh' // refresh token secret
-const ACCESS_TOKEN_EXPIRES_IN: jwt.SignOptions['expiresIn'] = (process.env.ACCESS_TOKEN_TTL as any) || '15m' // short lived
-const REFRESH_TOKEN_EXPIRES_IN: jwt.SignOptions['expiresIn'] = (process.env.REFRESH_TOKEN_TTL as any) || '7d' // longer lived
-
 /**
  * MongoDB connection
- *  • Requires MONGO_URI in .env
+ *  • Requires MONGO_URI in .env, pointing at a replica set (Atlas, or `mongod --replSet` locally):
+ *    reposts are written in a transaction (lib/reposts.ts)
  *  • Optional MONGO_DB to override DB via driver option
  */
 const mongoUri = process.env.MONGO_URI
@@ -133,6 +148,27 @@ mongoose
   .then(() => {
     // @ts-ignore — driver type may not expose .db
     console.log('✅ MongoDB connected (db =', mongoose.connection.db?.databaseName || '(from URI)', ')')
+    // Purge accounts whose deactivation grace window has ended
+    startAccountDeletionJob()
+    // Drop uploads that no post claimed
+    startMediaSweepJob()
+    // Tell authors when their polls close
+    startPollCloseJob()
+    // Publish scheduled posts as they come due
+    startScheduledPublisher()
+    // Finish username changes a crash interrupted before their content moved
+    sweepPendingRenames().catch((err) => console.error('Rename sweep error:', err))
+    // One-time move of embedded comments into reply posts; a no-op once done
+    migrateEmbeddedComments()
+      .then((n) => { if (n) console.log('💬 Migrated embedded comments on', n, 'posts') })
+      .catch((err) => console.error('Comment migration error:', err))
+    backfillReposts()
+      .then((n) => { if (n) console.log('🔁 Backfilled', n, 'repost timeline entries') })
+      .catch((err) => console.error('Repost backfill error:', err))
+    // Avatars and covers once stored inline as data URLs move to the media store
+    migrateInlineProfileImages()
+      .then((n) => { if (n) console.log('🖼️ Moved', n, 'inline profile images to the media store') })
+      .catch((err) => console.error('Profile image migration error:', err))
     app.listen(PORT, () => {
       console.log(`🚀 Server running at http://localhost:${PORT}`)
     })
@@ -147,7 +183,7 @@ mongoose
   })
 
 /** Return fresh profile from DB for the current access token */
-app.get('/api/auth/me', authenticateJWT, async (req: Request & { user?: any }, res: Response) => {
+app.get('/api/auth/me', authenticateJWT, requireScope('read'), async (req: Request & { user?: any }, res: Response) => {
   try {
     const u = await User.findById(req.user?._id).select('_id username fullName')
     if (!u) return res.status(404).json({ error: 'User not found' })
@@ -162,104 +198,8 @@ app.get('/api/protected', authenticateJWT, (req: Request & { user?: any }, res:
   res.json({ ok: true, user: req.user })
 })
 
-// signup route
-app.post('/api/auth/signup', signupLimiter, async (req: Request, res: Response) => {
-  // Normalize input
-  const username = String((req.body as any)?.username || '').trim().toLowerCase()
-  const fullName = String((req.body as any)?.fullName || '').trim()
-
-  // Validate fields
-  if (!/^[a-zA-Z\s]{2,50}$/.test(fullName)) {
-    return res.status(400).json({ error: '⚠️ Full name must be 2–50 letters and spaces only' })
-  }
-  if (!/^[a-z0-9_]{3,20}$/.test(username)) {
-    return res.status(400).json({ error: '⚠️ Invalid username format' })
-  }
-  const password = String((req.body as any)?.password || '').trim()
-  if (username.length < 3 || password.length < 6) {
-    return res.status(400).json({ error: '⚠️ Password or username too short' })
-  }
-
-  try {
-    // Uniqueness check
-    const existing = await User.findOne({ username })
-    if (existing) return res.status(400).json({ error: '⚠️ Username already exists' })
-
-    // Hash password and create recovery secret
-    const hashed = await bcrypt.hash(password, 10)
-    const secretKey = Array.from({ length: 12 }).map(() => Math.random().toString(36).slice(2, 6)).join(' ')
-
-    // Persist user
-    const user = await User.create({ username, fullName, password: hashed, secretKey })
-
-    // Log creation target for sanity
-    console.log('👤 User created:', user._id.toString(), '→ collection:', (User as any).collection?.name, 'db:', mongoose.connection.db?.databaseName)
-
-    // Issue JWTs
-    const accessToken = jwt.sign({ _id: user._id.toString(), username: user.username }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_EXPIRES_IN })
-    const refreshToken = jwt.sign({ _id: user._id.toString(), username: user.username }, JWT_REFRESH_SECRET, { expiresIn: REFRESH_TOKEN_EXPIRES_IN })
-
-    // Set signed httpOnly refresh cookie
-    res.cookie('rt', refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: process.env.NODE_ENV === 'production' ? 'strict' : 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000,
-      path: '/',
-      signed: true,
-    })
-
-    // Respond with access token and public user fields
-    return res.status(201).json({ message: 'User created', secretKey, accessToken, user: { _id: user._id, username: user.username, fullName: user.fullName } })
-  } catch (err) {
-    console.error(err)
-    return res.status(500).json({ error: '⚠️ Signup failed' })
-  }
-})
-
-// Alias: some clients call /api/signup — keep behavior identical to /api/auth/signup
-app.post('/api/signup', signupLimiter, async (req: Request, res: Response) => {
-  const username = String((req.body as any)?.username || '').trim().toLowerCase()
-  const fullName = String((req.body as any)?.fullName || '').trim()
-
-  if (!/^[a-zA-Z\s]{2,50}$/.test(fullName)) {
-    return res.status(400).json({ error: '⚠️ Full name must be 2–50 letters and spaces only' })
-  }
-  if (!/^[a-z0-9_]{3,20}$/.test(username)) {
-    return res.status(400).json({ error: '⚠️ Invalid username format' })
-  }
-  const password = String((req.body as any)?.password || '').trim()
-  if (username.length < 3 || password.length < 6) {
-    return res.status(400).json({ error: '⚠️ Password or username too short' })
-  }
-
-  try {
-    const existing = await User.findOne({ username })
-    if (existing) return res.status(400).json({ error: '⚠️ Username already exists' })
-
-    const hashed = await bcrypt.hash(password, 10)
-    const secretKey = Array.from({ length: 12 }).map(() => Math.random().toString(36).slice(2, 6)).join(' ')
-
-    const user = await User.create({ username, fullName, password: hashed, secretKey })
-
-    const accessToken = jwt.sign({ _id: user._id.toString(), username: user.username }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_EXPIRES_IN })
-    const refreshToken = jwt.sign({ _id: user._id.toString(), username: user.username }, JWT_REFRESH_SECRET, { expiresIn: REFRESH_TOKEN_EXPIRES_IN })
-
-    res.cookie('rt', refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: process.env.NODE_ENV === 'production' ? 'strict' : 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000,
-      path: '/',
-      signed: true,
-    })
-
-    return res.status(201).json({ message: 'User created', secretKey, accessToken, user: { _id: user._id, username: user.username, fullName: user.fullName } })
-  } catch (err) {
-    console.error(err)
-    return res.status(500).json({ error: '⚠️ Signup failed' })
-  }
-})
+// Alias: some clients call /api/signup — same handler as /api/auth/signup
+app.post('/api/signup', signupLimiter, signup)
 
 app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
   console.error('[ERR]', err?.message || err)
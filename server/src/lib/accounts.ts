@@ -0,0 +1,419 @@
+/**
+ * Account lifecycle: creation, guest identities, deactivation, reactivation and permanent deletion.
+ *
+ *  • Every signup entry point goes through createAccount, which always issues a recovery key
+ *  • Guests get a generated handle and an unusable password; upgrading keeps their posts
+ *  • Accounts created through an identity provider (lib/oidc.ts) get a generated handle too,
+ *    and sign in through that provider
+ *  • Deactivation hides the profile and its posts right away and signs out every device
+ *  • Signing in again within the grace window reactivates the account
+ *  • After the grace window a background sweep purges the user and every reference to it:
+ *    their tweets become tombstones, and their comments/likes/reposts on other tweets, follow
+ *    edges, sessions and audit log go
+ */
+import crypto from 'crypto'
+import { Types } from 'mongoose'
+import bcrypt from 'bcryptjs'
+import User, { type IUser } from '../models/user.js'
+import Tweet from '../models/tweet.js'
+import Post from '../models/post.js'
+import Session from '../models/session.js'
+import SecurityEvent from '../models/securityEvent.js'
+import ApiToken from '../models/apiToken.js'
+import UsernameHistory from '../models/usernameHistory.js'
+import Repost from '../models/repost.js'
+import PollVote from '../models/pollVote.js'
+import Draft from '../models/draft.js'
+import Notification from '../models/notification.js'
+import { revokeAllSessions } from './sessions.js'
+import { generateSecretKey, hashSecretKey } from './recovery.js'
+import { releaseReply } from './replies.js'
+import { releaseQuote } from './quotes.js'
+import { discardMedia, discardProfileImage } from './media.js'
+import { releaseVotes } from './polls.js'
+import type { SignupInput } from '../schemas/zod.js'
+
+/** Days a deactivated account can still be restored by signing in */
+export const DELETION_GRACE_DAYS = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS) || 30
+const GRACE_MS = DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000
+
+/** How often the purge sweep runs */
+const SWEEP_INTERVAL_MS = Number(process.env.ACCOUNT_SWEEP_INTERVAL_MS) || 60 * 60 * 1000
+
+/** Mongo filter for users that should be visible to others */
+export const ACTIVE_USER_FILTER = { status: { $ne: 'deactivated' } }
+
+/** How recently an account without a password must have signed in to confirm a sensitive change */
+export const REAUTH_WINDOW_MINUTES = Number(process.env.REAUTH_WINDOW_MINUTES) || 10
+
+/** Author of a purged account's tombstones; not a valid handle, so no one can sign up as it */
+const PURGED_AUTHOR = '~deleted'
+
+/** Guests that never posted are dropped once they have been idle this long */
+const GUEST_IDLE_DAYS = Number(process.env.GUEST_IDLE_DAYS) || 30
+const GUEST_IDLE_MS = GUEST_IDLE_DAYS * 24 * 60 * 60 * 1000
+
+export type CreateAccountResult =
+  | { ok: true; user: IUser; secretKey: string }
+  | { ok: false; reason: 'username_taken' }
+
+/**
+ * createAccount
+ *  • Expects input already validated by SignupSchema (trimmed, username lowercased)
+ *  • Stores only hashes of the password and the recovery secret key; the plaintext key
+ *    is returned once for the caller to show the user
+ *  • A concurrent signup for the same username loses on the unique index and reports
+ *    `username_taken` like the pre-check does
+ */
+export async function createAccount(input: Pick<SignupInput, 'username' | 'fullName' | 'password'>): Promise<CreateAccountResult> {
+  if (!(await isUsernameAvailable(input.username))) return { ok: false, reason: 'username_taken' }
+
+  const secretKey = generateSecretKey()
+  try {
+    const user = await User.create({
+      username: input.username,
+      fullName: input.fullName,
+      password: await bcrypt.hash(input.password, 10),
+      secretKey: await hashSecretKey(secretKey),
+    })
+    return { ok: true, user, secretKey }
+  } catch (err: any) {
+    if (err?.code === 11000 && err?.keyPattern?.username) return { ok: false, reason: 'username_taken' }
+    throw err
+  }
+}
+
+/**
+ * isUsernameAvailable
+ *  • Free when no account uses it and it isn't an old handle still held for someone who
+ *    renamed (lib/usernames.ts); `forUserId` may take back its own held handles
+ */
+export async function isUsernameAvailable(username: string, forUserId?: { toString(): string }): Promise<boolean> {
+  const taken = await User.exists(forUserId ? { username, _id: { $ne: String(forUserId) } } : { username })
+  if (taken) return false
+  const held = await UsernameHistory.exists({
+    username,
+    reservedUntil: { $gt: new Date() },
+    ...(forUserId ? { user: { $ne: String(forUserId) } } : {}),
+  })
+  return !held
+}
+
+/**
+ * ensureUsernameUnique
+ *  • Normalizes a desired handle to [a-z0-9_] and appends a counter until it is free
+ *  • Mongo counterpart of ensureHandleUnique in lib/auth.ts
+ */
+export async function ensureUsernameUnique(desired: string): Promise<string> {
+  const base = desired.toLowerCase().replace(/[^a-z0-9_]/g, '').slice(0, 20) || 'user'
+  let candidate = base
+  let i = 0
+  while (!(await isUsernameAvailable(candidate))) {
+    i += 1
+    candidate = `${base}${i}`
+  }
+  return candidate
+}
+
+/**
+ * createGuestAccount
+ *  • Generated `anon_xxxxxx` handle, display name "Guest"
+ *  • Password and secret key are random and never returned, so a guest can only act
+ *    through the session it was issued; upgradeGuestAccount sets real credentials
+ */
+export async function createGuestAccount() {
+  const suffix = crypto.randomBytes(4).readUInt32BE(0).toString(36).slice(0, 6)
+  const username = await ensureUsernameUnique(`anon_${suffix}`)
+  return User.create({
+    username,
+    fullName: 'Guest',
+    password: await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10),
+    secretKey: await hashSecretKey(generateSecretKey()),
+    isGuest: true,
+  })
+}
+
+/**
+ * createExternalAccount
+ *  • Handle derived from the provider's preferred_username / email / name, made unique
+ *  • Display name from the `name` claim when it fits our rules, otherwise the handle
+ *  • Password and secret key are random and never returned; `hasPassword: false` keeps the
+ *    last identity from being unlinked
+ */
+export async function createExternalAccount(identity: { provider: string; subject: string; email?: string | null }, profile: { handle: string; name?: string }) {
+  // leave room for the counter ensureUsernameUnique may append
+  const handle = profile.handle.toLowerCase().replace(/[^a-z0-9_]/g, '').slice(0, 16)
+  const username = await ensureUsernameUnique(handle.length >= 3 ? handle : 'user')
+  const name = (profile.name || '').replace(/[^a-zA-Z\s]/g, '').replace(/\s+/g, ' ').trim().slice(0, 50)
+  return User.create({
+    username,
+    fullName: name.length >= 2 ? name : username,
+    password: await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10),
+    secretKey: await hashSecretKey(generateSecretKey()),
+    hasPassword: false,
+    identities: [{ provider: identity.provider, subject: identity.subject, email: identity.email ?? null }],
+  })
+}
+
+/**
+ * renameUsernameReferences
+ *  • Tweets, embedded comments and reposts reference authors by username, so a handle
+ *    change has to be carried over to keep the content attributed
+ */
+export async function renameUsernameReferences(from: string, to: string) {
+  if (from === to) return
+  await Tweet.updateMany({ username: from }, { $set: { username: to } })
+  await Tweet.updateMany(
+    { 'comments.username': from },
+    { $set: { 'comments.$[c].username': to } },
+    { arrayFilters: [{ 'c.username': from }] }
+  )
+  await Tweet.updateMany(
+    { 'retweets.username': from },
+    { $set: { 'retweets.$[r].username': to } },
+    { arrayFilters: [{ 'r.username': from }] }
+  )
+}
+
+/**
+ * upgradeGuestAccount
+ *  • Turns a guest into a full account in place: same _id, so likes and sessions carry over
+ *  • Optionally claims a chosen username, moving the guest's posts along with it
+ *  • Returns the new secret key (shown once) or null when the user is not a guest
+ */
+export async function upgradeGuestAccount(
+  userId: { toString(): string },
+  input: { username?: string; fullName: string; password: string }
+) {
+  const guest = await User.findOne({ _id: String(userId), isGuest: true })
+  if (!guest) return null
+
+  const secretKey = generateSecretKey()
+  const from = guest.username
+  const to = input.username || from
+  const updated = await User.findOneAndUpdate(
+    { _id: guest._id, isGuest: true },
+    {
+      $set: {
+        username: to,
+        fullName: input.fullName,
+        password: await bcrypt.hash(input.password, 10),
+        secretKey: await hashSecretKey(secretKey),
+        isGuest: false,
+      },
+    },
+    { new: true }
+  )
+  if (!updated) return null
+  await renameUsernameReferences(from, to)
+  return { user: updated, secretKey }
+}
+
+export type ConfirmIdentityResult = { ok: true } | { ok: false; reason: 'password_required' | 'wrong_password' | 'reauth_required' }
+
+/**
+ * confirmIdentity
+ *  • Sensitive changes (deactivating, two-factor, a first password) re-check who is asking
+ *  • Accounts with a password confirm with it
+ *  • Accounts created through an identity provider have none they know (`hasPassword: false`);
+ *    instead the session making the request must have signed in, through the provider or with
+ *    a passkey, within REAUTH_WINDOW_MINUTES
+ */
+export async function confirmIdentity(
+  user: { _id: unknown; password: string; hasPassword?: boolean },
+  password: string | undefined,
+  sessionId: string | undefined
+): Promise<ConfirmIdentityResult> {
+  if (user.hasPassword !== false) {
+    if (!password) return { ok: false, reason: 'password_required' }
+    return (await bcrypt.compare(password, user.password)) ? { ok: true } : { ok: false, reason: 'wrong_password' }
+  }
+  if (!sessionId || !Types.ObjectId.isValid(sessionId)) return { ok: false, reason: 'reauth_required' }
+  const fresh = await Session.exists({
+    _id: sessionId,
+    user: String(user._id),
+    revokedAt: null,
+    createdAt: { $gte: new Date(Date.now() - REAUTH_WINDOW_MINUTES * 60 * 1000) },
+  })
+  return fresh ? { ok: true } : { ok: false, reason: 'reauth_required' }
+}
+
+/** When a deactivated account becomes eligible for purge */
+export function deletionDueAt(deactivatedAt: Date): Date {
+  return new Date(deactivatedAt.getTime() + GRACE_MS)
+}
+
+export function isWithinGrace(deactivatedAt: Date | null | undefined, now = new Date()): boolean {
+  return !!deactivatedAt && deletionDueAt(deactivatedAt) > now
+}
+
+/** How long hiddenUsernames serves a cached list; other processes see a (de)activation this late */
+const HIDDEN_CACHE_MS = 30 * 1000
+let hiddenCache: { names: Promise<string[]>; until: number } | null = null
+
+/**
+ * hiddenUsernames
+ *  • Usernames whose content must not be served (deactivated, not yet purged)
+ *  • Feeds use it as a `$nin` filter on Tweet.username on every request, so it is cached for
+ *    HIDDEN_CACHE_MS; deactivating or reactivating in this process drops the cache at once
+ */
+export async function hiddenUsernames(): Promise<string[]> {
+  const now = Date.now()
+  if (!hiddenCache || hiddenCache.until <= now) {
+    const names = User.distinct('username', { status: 'deactivated' }).exec()
+    hiddenCache = { names, until: now + HIDDEN_CACHE_MS }
+    // A failed lookup isn't cached
+    names.catch(() => { if (hiddenCache?.names === names) hiddenCache = null })
+  }
+  return hiddenCache.names
+}
+
+function forgetHiddenUsernames() {
+  hiddenCache = null
+}
+
+export async function deactivateAccount(userId: { toString(): string }): Promise<Date> {
+  const now = new Date()
+  await User.updateOne({ _id: String(userId) }, { $set: { status: 'deactivated', deactivatedAt: now } })
+  forgetHiddenUsernames()
+  await revokeAllSessions(userId, 'deactivated')
+  return deletionDueAt(now)
+}
+
+export async function reactivateAccount(userId: { toString(): string }) {
+  await User.updateOne({ _id: String(userId), status: 'deactivated' }, { $set: { status: 'active', deactivatedAt: null } })
+  forgetHiddenUsernames()
+}
+
+/**
+ * purgeAccount
+ *  • Removes the user document and every reference other documents hold to it
+ *  • Order matters: references first, user last, so a crash mid-way leaves the user
+ *    deactivated and the next sweep simply retries
+ *  • `kind` says which accounts the final delete may remove: deactivated ones past their
+ *    grace window, or abandoned guests (sweepAbandonedGuests)
+ */
+export async function purgeAccount(user: { _id: unknown; username: string }, kind: 'deactivated' | 'guest' = 'deactivated') {
+  const id = String(user._id)
+  const username = user.username
+
+  // Their replies stop counting under other people's posts
+  const repliedTo = await Tweet.aggregate<{ _id: Types.ObjectId; n: number }>([
+    { $match: { username, parentId: { $ne: null }, deletedAt: null } },
+    { $group: { _id: '$parentId', n: { $sum: 1 } } },
+  ])
+  for (const p of repliedTo) await releaseReply(p._id, p.n)
+  // …and their quotes stop counting on the originals
+  const quoted = await Tweet.aggregate<{ _id: Types.ObjectId; n: number }>([
+    { $match: { username, quotedId: { $ne: null }, deletedAt: null } },
+    { $group: { _id: '$quotedId', n: { $sum: 1 } } },
+  ])
+  for (const q of quoted) await releaseQuote(q._id, q.n)
+  // Timeline entries: their reposts, and everyone's reposts of their tweets
+  const own = await Tweet.find({ username }).select('_id').lean()
+  await Repost.deleteMany({ $or: [{ user: id }, { post: { $in: own.map(t => t._id) } }] })
+  // Their poll votes come off the tallies; votes in their own polls go with the polls
+  await releaseVotes(id)
+  await PollVote.deleteMany({ post: { $in: own.map(t => t._id) } })
+  // Their uploads, attached or not, and profile images
+  await discardMedia({ owner: id })
+  await Draft.deleteMany({ user: id })
+  const images = await User.findById(id).select('avatar coverImage').lean<{ avatar?: string | null; coverImage?: string | null }>()
+  await discardProfileImage(images?.avatar)
+  await discardProfileImage(images?.coverImage)
+  // Their own tweets and replies become tombstones, as DELETE /posts/:id leaves them, so replies
+  // by others and quotes of them keep their context. The handle goes too: it is free again now
+  await Tweet.updateMany({ username }, [
+    {
+      $set: {
+        username: PURGED_AUTHOR,
+        deletedAt: { $ifNull: ['$deletedAt', '$$NOW'] },
+        likes: [],
+        retweets: [],
+        revisions: [],
+        media: [],
+        poll: null,
+        place: null,
+      },
+    },
+    { $unset: 'text' },
+  ])
+  // Their footprint on everyone else's tweets
+  await Tweet.updateMany(
+    { $or: [{ likes: id }, { 'comments.username': username }, { 'retweets.username': username }] },
+    { $pull: { likes: id, comments: { username }, retweets: { username } } }
+  )
+  // Legacy Post collection
+  await Post.deleteMany({ user: id })
+  await Post.updateMany({ likedBy: id }, { $pull: { likedBy: id } })
+  // Follow graph
+  await User.updateMany(
+    { $or: [{ followers: id }, { following: id }] },
+    { $pull: { followers: id, following: id } }
+  )
+  await Session.deleteMany({ user: id })
+  await SecurityEvent.deleteMany({ user: id })
+  await ApiToken.deleteMany({ user: id })
+  await Notification.deleteMany({ user: id })
+  // Old handles stop redirecting and become free right away
+  await UsernameHistory.deleteMany({ user: id })
+  await User.deleteOne(kind === 'guest' ? { _id: id, isGuest: true } : { _id: id, status: 'deactivated' })
+}
+
+/** Purge every deactivated account whose grace window has passed */
+export async function sweepExpiredAccounts(now = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - GRACE_MS)
+  const due = await User.find({ status: 'deactivated', deactivatedAt: { $lte: cutoff } })
+    .select('_id username')
+    .lean<Array<{ _id: unknown; username: string }>>()
+  for (const u of due) {
+    try {
+      await purgeAccount(u)
+      console.log('🗑️ Account purged:', String(u._id))
+    } catch (err) {
+      console.error('Account purge failed:', String(u._id), err)
+    }
+  }
+  return due.length
+}
+
+/**
+ * Delete guests idle past GUEST_IDLE_DAYS that have no live session and left nothing behind:
+ * no posts, replies, reposts, poll votes or drafts. Likes and anything else go through
+ * purgeAccount like a deleted account's.
+ */
+export async function sweepAbandonedGuests(now = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - GUEST_IDLE_MS)
+  const stale = await User.find({ isGuest: true, updatedAt: { $lte: cutoff } })
+    .select('_id username')
+    .lean<Array<{ _id: unknown; username: string }>>()
+  let removed = 0
+  for (const g of stale) {
+    const id = String(g._id)
+    const active = await Promise.all([
+      Session.exists({ user: id, revokedAt: null, expiresAt: { $gt: now } }),
+      Tweet.exists({ $or: [{ username: g.username }, { 'comments.username': g.username }, { 'retweets.username': g.username }] }),
+      Repost.exists({ user: id }),
+      PollVote.exists({ user: id }),
+      Draft.exists({ user: id }),
+    ])
+    if (active.some(Boolean)) continue
+    try {
+      await purgeAccount(g, 'guest')
+      removed += 1
+    } catch (err) {
+      console.error('Guest purge failed:', id, err)
+    }
+  }
+  return removed
+}
+
+/** Start the periodic purge sweep; call once after the DB connection is up */
+export function startAccountDeletionJob() {
+  const run = () => {
+    sweepExpiredAccounts().catch((err) => console.error('Account sweep error:', err))
+    sweepAbandonedGuests().catch((err) => console.error('Guest sweep error:', err))
+  }
+  run()
+  setInterval(run, SWEEP_INTERVAL_MS).unref()
+}
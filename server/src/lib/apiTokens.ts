@@ -0,0 +1,123 @@
+/**
+ * Personal API tokens for bots and scripts.
+ *
+ *  • Format: `pat_<43 base64url chars>`; only the SHA-256 hash is stored (models/apiToken.ts)
+ *  • Accepted by authenticateJWT as `Authorization: Bearer pat_…`; the request is limited to
+ *    the token's scopes (requireScope) and kept away from account management (requireSession)
+ *  • Using a token flags the account as automated on its public profile
+ */
+import crypto from 'crypto'
+import ApiToken, { type ApiScope } from '../models/apiToken.js'
+import User from '../models/user.js'
+import { ACTIVE_USER_FILTER } from './accounts.js'
+
+export type { ApiScope }
+
+export const API_TOKEN_PREFIX = 'pat_'
+
+/** Per-account cap; each token is one row in Settings */
+export const MAX_API_TOKENS = 20
+
+/** Shown in Settings next to the token name, e.g. `pat_Ab3d…` */
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 4
+
+function hashToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+export function isApiToken(bearer: string) {
+  return bearer.startsWith(API_TOKEN_PREFIX)
+}
+
+export type ApiTokenSummary = {
+  id: string
+  name: string
+  scopes: ApiScope[]
+  prefix: string
+  createdAt: Date
+  lastUsedAt: Date | null
+  expiresAt: Date | null
+}
+
+function summarize(d: { _id: unknown; name: string; scopes: ApiScope[]; prefix: string; createdAt: Date; lastUsedAt?: Date | null; expiresAt?: Date | null }): ApiTokenSummary {
+  return {
+    id: String(d._id),
+    name: d.name,
+    scopes: d.scopes,
+    prefix: d.prefix,
+    createdAt: d.createdAt,
+    lastUsedAt: d.lastUsedAt ?? null,
+    expiresAt: d.expiresAt ?? null,
+  }
+}
+
+export type CreateApiTokenResult =
+  | { ok: true; token: string; item: ApiTokenSummary }
+  | { ok: false; reason: 'limit_reached' }
+
+/** Create a token; the plaintext is returned here and nowhere else */
+export async function createApiToken(
+  userId: { toString(): string },
+  input: { name: string; scopes: ApiScope[]; expiresInDays?: number | null }
+): Promise<CreateApiTokenResult> {
+  const count = await ApiToken.countDocuments({ user: String(userId) })
+  if (count >= MAX_API_TOKENS) return { ok: false, reason: 'limit_reached' }
+
+  const token = API_TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url')
+  const doc = await ApiToken.create({
+    user: String(userId),
+    name: input.name,
+    scopes: [...new Set(input.scopes)],
+    tokenHash: hashToken(token),
+    prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+    expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000) : null,
+  })
+  return { ok: true, token, item: summarize(doc) }
+}
+
+/** Live tokens of a user, newest first */
+export async function listApiTokens(userId: { toString(): string }): Promise<ApiTokenSummary[]> {
+  const docs = await ApiToken.find({ user: String(userId), $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }] })
+    .sort({ createdAt: -1 })
+    .lean<Array<Parameters<typeof summarize>[0]>>()
+  return docs.map(summarize)
+}
+
+/** Revoke one token; scoping by user makes this safe to call with a client-supplied id */
+export async function revokeApiToken(userId: { toString(): string }, tokenId: string) {
+  const r = await ApiToken.deleteOne({ _id: tokenId, user: String(userId) })
+  return r.deletedCount > 0
+}
+
+/** Bump lastUsedAt at most every few minutes so busy bots don't write on every request */
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000
+
+export type ApiTokenIdentity = { _id: string; username: string; tokenId: string; scopes: ApiScope[] }
+
+/**
+ * Resolve a presented token to its owner.
+ * Returns undefined for unknown or expired tokens, and for accounts that are deactivated
+ * (a token never cancels a pending deletion the way signing in does) or still guests.
+ */
+export async function resolveApiToken(token: string): Promise<ApiTokenIdentity | undefined> {
+  const doc = await ApiToken.findOne({ tokenHash: hashToken(token) })
+    .lean<{ _id: unknown; user: unknown; scopes: ApiScope[]; lastUsedAt?: Date | null; expiresAt?: Date | null }>()
+  if (!doc) return undefined
+  // The TTL monitor only runs once a minute
+  if (doc.expiresAt && doc.expiresAt <= new Date()) return undefined
+
+  const user = await User.findOne({ _id: doc.user, isGuest: { $ne: true }, ...ACTIVE_USER_FILTER })
+    .select('_id username isAutomated')
+    .lean<{ _id: unknown; username: string; isAutomated?: boolean }>()
+  if (!user) return undefined
+
+  const now = new Date()
+  if (!doc.lastUsedAt || now.getTime() - doc.lastUsedAt.getTime() > TOUCH_INTERVAL_MS) {
+    ApiToken.updateOne({ _id: doc._id }, { $set: { lastUsedAt: now } }).catch(() => {})
+  }
+  if (!user.isAutomated) {
+    User.updateOne({ _id: user._id }, { $set: { isAutomated: true } }).catch(() => {})
+  }
+
+  return { _id: String(user._id), username: user.username, tokenId: String(doc._id), scopes: doc.scopes }
+}
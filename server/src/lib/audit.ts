@@ -0,0 +1,46 @@
+/**
+ * Security audit log: sign-ins, failed sign-ins, lockouts, password changes, recoveries
+ * and two-factor changes.
+ *
+ *  • Entries are written best-effort; a failed write is logged and never fails the request
+ *  • Device info is recorded like sessions do (user agent + coarsened IP, see maskIp)
+ */
+import type { Request } from 'express'
+import SecurityEvent, { type SecurityEventType } from '../models/securityEvent.js'
+import { describeUserAgent, maskIp } from './sessions.js'
+
+export async function recordSecurityEvent(req: Request, userId: { toString(): string }, type: SecurityEventType) {
+  try {
+    await SecurityEvent.create({
+      user: String(userId),
+      type,
+      userAgent: String(req.get('user-agent') || '').slice(0, 256),
+      ip: maskIp(req.ip),
+    })
+  } catch (err) {
+    console.error('Security event write failed:', type, err)
+  }
+}
+
+export type SecurityEventSummary = {
+  id: string
+  type: SecurityEventType
+  device: string
+  ip: string
+  createdAt: Date
+}
+
+/** Most recent events of a user, newest first */
+export async function listSecurityEvents(userId: { toString(): string }, limit = 50): Promise<SecurityEventSummary[]> {
+  const docs = await SecurityEvent.find({ user: String(userId) })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .lean<Array<{ _id: unknown; type: SecurityEventType; userAgent?: string; ip?: string; createdAt: Date }>>()
+  return docs.map((d) => ({
+    id: String(d._id),
+    type: d.type,
+    device: describeUserAgent(d.userAgent || ''),
+    ip: d.ip || '',
+    createdAt: d.createdAt,
+  }))
+}
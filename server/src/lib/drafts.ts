@@ -0,0 +1,224 @@
+/**
+ * Drafts and scheduled posts.
+ *
+ *  • A draft is a saved POST /posts body, kept per user on the server so it follows them
+ *    between devices. Its uploads are held (lib/media.ts holdMedia) so the sweep spares them
+ *  • Giving a draft `scheduled_at` schedules it; the content checks that need no database run
+ *    then, the rest (quoted post still there, uploads still theirs) when it is published
+ *  • The publisher claims due drafts one at a time by flipping them to "publishing", so two
+ *    server processes never publish the same one. A post made from a draft uses the draft's
+ *    pre-chosen `postId`: a claim left behind by a crash is retried after STALE_CLAIM_MINUTES
+ *    and notices the post already exists
+ *  • A failed publish leaves the draft with status "failed" and the reason, for the author to
+ *    fix and reschedule
+ */
+import { Types } from 'mongoose'
+import { z } from 'zod'
+import Draft, { type IDraft } from '../models/draft.js'
+import Media from '../models/media.js'
+import Tweet from '../models/tweet.js'
+import User from '../models/user.js'
+import { MAX_TWEET_INPUT_LEN } from '../utils/text.js'
+import { ACTIVE_USER_FILTER } from './accounts.js'
+import { discardMedia, holdMedia, MAX_ATTACHMENTS, mediaJson } from './media.js'
+import { placeInput, PlaceInputSchema, placeJson, resolvePlace } from './places.js'
+import { cleanPostContent, createPost, MediaRefSchema, PollInputSchema, type PostInput } from './posting.js'
+
+export const MAX_DRAFTS = Number(process.env.MAX_DRAFTS) || 100
+/** How far ahead a post may be scheduled */
+export const SCHEDULE_MAX_DAYS = Number(process.env.SCHEDULE_MAX_DAYS) || 365
+const STALE_CLAIM_MINUTES = 5
+const PUBLISH_INTERVAL_MS = 30 * 1000
+const PUBLISH_BATCH = 100
+
+/**
+ * Body of POST /drafts and PATCH /drafts/:id. Unlike POST /posts, text and poll options may be
+ * blank until the draft is scheduled. In a PATCH, fields left out keep their value.
+ */
+export const DraftInputSchema = z.object({
+  text: z.string().max(MAX_TWEET_INPUT_LEN).optional(),
+  quoted_post_id: z.string().regex(/^[a-f0-9]{24}$/i).nullable().optional(),
+  media: z.array(MediaRefSchema).max(MAX_ATTACHMENTS).optional(),
+  poll: PollInputSchema.nullable().optional(),
+  place: PlaceInputSchema.nullable().optional(),
+  scheduled_at: z.string().datetime({ offset: true }).nullable().optional(),
+})
+
+export type DraftInput = z.infer<typeof DraftInputSchema>
+
+type DraftFields = Pick<IDraft, 'text' | 'quotedId' | 'media' | 'poll' | 'place' | 'scheduledAt'>
+
+function toPostInput(d: DraftFields): PostInput {
+  return {
+    text: d.text,
+    quoted_post_id: d.quotedId ? String(d.quotedId) : undefined,
+    media: d.media.map(m => ({ id: String(m._id), alt: m.alt })),
+    poll: d.poll ? { options: d.poll.options, duration_minutes: d.poll.durationMinutes } : undefined,
+    place: d.place ? placeInput(d.place) : undefined,
+  }
+}
+
+export type SaveDraftResult =
+  | { ok: true; draft: IDraft }
+  | { ok: false; reason: 'not_found' | 'draft_publishing' | 'too_many_drafts' | 'invalid_schedule' | 'media_not_found' | 'invalid_place' | 'empty_text' | 'too_long' | 'poll_with_media' | 'invalid_poll' }
+
+/**
+ * saveDraft
+ *  • Creates a draft (`draftId` null) or updates one of the user's own
+ *  • With a `scheduledAt` in the next SCHEDULE_MAX_DAYS it is scheduled, otherwise it's a plain
+ *    draft; either way an earlier failure is cleared
+ *  • A draft the publisher has claimed can't be changed (draft_publishing)
+ */
+export async function saveDraft(userId: string, draftId: string | null, input: DraftInput, now = new Date()): Promise<SaveDraftResult> {
+  const existing = draftId ? await Draft.findOne({ _id: draftId, user: userId }) : null
+  if (draftId && !existing) return { ok: false, reason: 'not_found' }
+  if (existing?.status === 'publishing') return { ok: false, reason: 'draft_publishing' }
+  if (!existing && await Draft.countDocuments({ user: userId }) >= MAX_DRAFTS) return { ok: false, reason: 'too_many_drafts' }
+
+  const fields: DraftFields = {
+    text: input.text ?? existing?.text ?? '',
+    quotedId: input.quoted_post_id !== undefined
+      ? (input.quoted_post_id ? new Types.ObjectId(input.quoted_post_id) : null)
+      : existing?.quotedId ?? null,
+    media: input.media
+      ? input.media.map(m => ({ _id: new Types.ObjectId(m.id), alt: (m.alt || '').trim() }))
+      : existing?.media ?? [],
+    poll: input.poll !== undefined
+      ? (input.poll ? { options: input.poll.options, durationMinutes: input.poll.duration_minutes } : null)
+      : existing?.poll ?? null,
+    place: input.place !== undefined
+      ? (input.place ? resolvePlace(input.place) : null)
+      : existing?.place ?? null,
+    scheduledAt: input.scheduled_at !== undefined
+      ? (input.scheduled_at ? new Date(input.scheduled_at) : null)
+      : existing?.scheduledAt ?? null,
+  }
+
+  if (input.place && !fields.place) return { ok: false, reason: 'invalid_place' }
+
+  if (fields.scheduledAt) {
+    const latest = now.getTime() + SCHEDULE_MAX_DAYS * 24 * 60 * 60 * 1000
+    if (fields.scheduledAt.getTime() <= now.getTime() || fields.scheduledAt.getTime() > latest) {
+      return { ok: false, reason: 'invalid_schedule' }
+    }
+    const content = cleanPostContent(toPostInput(fields))
+    if (!content.ok) return content
+  }
+
+  const id = existing ? existing._id as Types.ObjectId : new Types.ObjectId()
+  if (!await holdMedia(userId, id, fields.media.map(m => String(m._id)))) return { ok: false, reason: 'media_not_found' }
+
+  const update = { ...fields, status: fields.scheduledAt ? 'scheduled' : 'draft', error: null }
+  if (!existing) return { ok: true, draft: await Draft.create({ _id: id, user: userId, ...update }) }
+
+  // The publisher may have claimed it since we looked
+  const saved = await Draft.findOneAndUpdate({ _id: id, status: { $ne: 'publishing' } }, { $set: update }, { new: true })
+  return saved ? { ok: true, draft: saved } : { ok: false, reason: 'draft_publishing' }
+}
+
+export type DeleteDraftResult = { ok: true } | { ok: false; reason: 'not_found' | 'draft_publishing' }
+
+/** Deletes one of the user's drafts, and the uploads only it held */
+export async function deleteDraft(userId: string, draftId: string): Promise<DeleteDraftResult> {
+  const gone = await Draft.findOneAndDelete({ _id: draftId, user: userId, status: { $ne: 'publishing' } })
+  if (!gone) {
+    return await Draft.exists({ _id: draftId, user: userId })
+      ? { ok: false, reason: 'draft_publishing' }
+      : { ok: false, reason: 'not_found' }
+  }
+  await discardMedia({ draft: gone._id, post: null })
+  return { ok: true }
+}
+
+/** Payload shape of a draft; `media` entries whose upload is gone are left out */
+export async function draftsJson(drafts: IDraft[]) {
+  const ids = drafts.flatMap(d => d.media.map(m => m._id))
+  const uploads = await Media.find({ _id: { $in: ids } }).lean<Array<Parameters<typeof mediaJson>[0]>>()
+  const byId = new Map(uploads.map(u => [String(u._id), u]))
+
+  return drafts.map(d => ({
+    id: String(d._id),
+    text: d.text,
+    quoted_post_id: d.quotedId ? String(d.quotedId) : null,
+    media: d.media.flatMap(m => {
+      const u = byId.get(String(m._id))
+      return u ? [mediaJson({ ...u, alt: m.alt })] : []
+    }),
+    poll: d.poll ? { options: d.poll.options, duration_minutes: d.poll.durationMinutes } : null,
+    place: placeJson(d.place),
+    scheduled_at: d.scheduledAt ? d.scheduledAt.toISOString() : null,
+    status: d.status,
+    error: d.error,
+    updated_at: d.updatedAt.toISOString(),
+  }))
+}
+
+/**
+ * publishClaimed
+ *  • Turns a draft the caller has flipped to "publishing" into a post, then deletes the draft
+ *  • On failure the draft goes to "failed" with the reason; a deactivated author's drafts fail
+ *    with account_deactivated rather than going out while they're hidden
+ */
+async function publishClaimed(draft: IDraft): Promise<boolean> {
+  const done = async () => {
+    await Draft.deleteOne({ _id: draft._id })
+    await Media.updateMany({ draft: draft._id }, { $set: { draft: null } })
+  }
+  const fail = (error: string) => Draft.updateOne({ _id: draft._id }, { $set: { status: 'failed', error, lockedAt: null } })
+
+  // A previous attempt got as far as creating the post
+  if (await Tweet.exists({ _id: draft.postId })) {
+    await done()
+    return true
+  }
+
+  const author = await User.findOne({ _id: draft.user, ...ACTIVE_USER_FILTER }).select('username').lean<{ username: string }>()
+  if (!author) {
+    await fail('account_deactivated')
+    return false
+  }
+
+  const created = await createPost({ _id: String(draft.user), username: author.username }, toPostInput(draft), draft.postId)
+  if (!created.ok) {
+    await fail(created.reason)
+    return false
+  }
+  await done()
+  return true
+}
+
+/**
+ * publishDueDrafts
+ *  • Releases claims older than STALE_CLAIM_MINUTES, then publishes every scheduled draft
+ *    that is due, oldest first, up to PUBLISH_BATCH per run
+ */
+export async function publishDueDrafts(now = new Date()): Promise<number> {
+  const stale = new Date(now.getTime() - STALE_CLAIM_MINUTES * 60 * 1000)
+  await Draft.updateMany({ status: 'publishing', lockedAt: { $lt: stale } }, { $set: { status: 'scheduled', lockedAt: null } })
+
+  let published = 0
+  for (let i = 0; i < PUBLISH_BATCH; i++) {
+    const draft = await Draft.findOneAndUpdate(
+      { status: 'scheduled', scheduledAt: { $lte: now } },
+      { $set: { status: 'publishing', lockedAt: now } },
+      { sort: { scheduledAt: 1 }, new: true },
+    )
+    if (!draft) break
+    if (await publishClaimed(draft)) published++
+  }
+  return published
+}
+
+/** Publishes due drafts at startup, then every PUBLISH_INTERVAL_MS */
+export function startScheduledPublisher() {
+  let running = false
+  const run = () => {
+    if (running) return
+    running = true
+    publishDueDrafts()
+      .catch((err) => console.error('Scheduled publish error:', err))
+      .finally(() => { running = false })
+  }
+  run()
+  setInterval(run, PUBLISH_INTERVAL_MS).unref()
+}
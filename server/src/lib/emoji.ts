@@ -0,0 +1,37 @@
+/**
+ * Emoji shortcodes.
+ *
+ *  • expandShortcodes turns `:name:` into the emoji, as sanitizeTweetText does for every post,
+ *    reply and poll option; the rules live in utils/shortcodes.ts, shared with the Composer
+ *  • emojiJson is the dataset as GET /emoji serves it to the Composer's picker
+ */
+import { EMOJI_CATEGORIES } from '../data/emoji.js'
+import { expandShortcodes as expandWith, SKIN_TONES, type ShortcodeHit } from '../utils/shortcodes.js'
+
+const BY_SHORTCODE = new Map<string, ShortcodeHit>()
+for (const category of EMOJI_CATEGORIES) {
+  for (const [emoji, , shortcodes, , tones] of category.emoji) {
+    for (const code of shortcodes.split(' ')) BY_SHORTCODE.set(code, { emoji, tones: tones === 1 })
+  }
+}
+
+export function expandShortcodes(text: string) {
+  return expandWith(text, code => BY_SHORTCODE.get(code))
+}
+
+export function emojiJson() {
+  return {
+    skin_tones: SKIN_TONES,
+    categories: EMOJI_CATEGORIES.map(c => ({
+      id: c.id,
+      name: c.name,
+      emoji: c.emoji.map(([emoji, name, shortcodes, keywords, tones]) => ({
+        emoji,
+        name,
+        shortcodes: shortcodes.split(' '),
+        keywords: keywords.split(' '),
+        skin_tones: tones === 1,
+      })),
+    })),
+  }
+}
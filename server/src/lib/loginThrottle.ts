@@ -0,0 +1,58 @@
+/**
+ * Per-username login throttling.
+ *
+ *  • loginLimiter (middleware/rateLimit.ts) only limits per IP; this limits per account,
+ *    so a guess spread over many IPs is slowed down just the same
+ *  • The first few failures are free; after that every failure locks the username for
+ *    an exponentially growing period (LOGIN_LOCK_BASE_MS × 2^n, capped at LOGIN_LOCK_MAX_MS)
+ *  • Unknown usernames are tracked too, so lockout behaviour doesn't reveal which accounts exist
+ *  • A successful sign-in clears the counter; otherwise it is forgotten LOGIN_FAILURE_WINDOW_MS
+ *    after the last failure (or after the lock ends, whichever is later)
+ */
+import LoginThrottle from '../models/loginThrottle.js'
+
+const FREE_ATTEMPTS = Number(process.env.LOGIN_FREE_ATTEMPTS) || 5
+const LOCK_BASE_MS = Number(process.env.LOGIN_LOCK_BASE_MS) || 30 * 1000
+const LOCK_MAX_MS = Number(process.env.LOGIN_LOCK_MAX_MS) || 60 * 60 * 1000
+const FAILURE_WINDOW_MS = Number(process.env.LOGIN_FAILURE_WINDOW_MS) || 15 * 60 * 1000
+
+/** Lock length after the given number of consecutive failures (0 while still free) */
+export function lockDurationMs(failures: number): number {
+  if (failures <= FREE_ATTEMPTS) return 0
+  return Math.min(LOCK_BASE_MS * 2 ** (failures - FREE_ATTEMPTS - 1), LOCK_MAX_MS)
+}
+
+/** Seconds until the username may try again, or 0 when it is not locked */
+export async function loginRetryAfter(username: string, now = new Date()): Promise<number> {
+  const doc = await LoginThrottle.findOne({ username }).select('lockedUntil').lean<{ lockedUntil?: Date | null }>()
+  if (!doc?.lockedUntil || doc.lockedUntil <= now) return 0
+  return Math.ceil((doc.lockedUntil.getTime() - now.getTime()) / 1000)
+}
+
+/**
+ * recordLoginFailure
+ *  • Counts one failed attempt and applies the resulting lock, if any
+ *  • Returns the lock end so the caller can log a lockout and set Retry-After
+ */
+export async function recordLoginFailure(username: string, now = new Date()): Promise<{ failures: number; lockedUntil: Date | null }> {
+  const doc = await LoginThrottle.findOneAndUpdate(
+    { username },
+    { $inc: { failures: 1 }, $set: { lastFailureAt: now, expiresAt: new Date(now.getTime() + FAILURE_WINDOW_MS) } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  ).lean<{ failures: number }>()
+  const failures = doc?.failures ?? 1
+
+  const lockMs = lockDurationMs(failures)
+  if (!lockMs) return { failures, lockedUntil: null }
+
+  const lockedUntil = new Date(now.getTime() + lockMs)
+  await LoginThrottle.updateOne(
+    { username },
+    { $set: { lockedUntil, expiresAt: new Date(lockedUntil.getTime() + FAILURE_WINDOW_MS) } }
+  )
+  return { failures, lockedUntil }
+}
+
+export async function clearLoginFailures(username: string) {
+  await LoginThrottle.deleteOne({ username })
+}
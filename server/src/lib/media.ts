@@ -0,0 +1,331 @@
+/**
+ * Media attachments.
+ *
+ *  • Uploads are stored on local disk under MEDIA_DIR with random names, so the bytes behind a
+ *    URL never change and routes/media.ts can let clients cache them forever
+ *  • The type is read from the file's bytes, not the client's Content-Type; JPEG, PNG, GIF and
+ *    WebP images and MP4 videos are accepted
+ *  • Images are re-encoded: orientation is applied and EXIF/GPS/XMP metadata dropped, plus a
+ *    THUMB_SIZE WebP thumbnail. Videos keep their encoding; the `udta`/`meta` boxes where
+ *    cameras put location and device data are blanked in place. Videos get no thumbnail (that
+ *    needs a decoder this server doesn't ship); clients show the first frame instead
+ *  • A post claims up to MAX_ATTACHMENTS of its author's unclaimed uploads (claimMedia);
+ *    uploads never claimed are swept after UNCLAIMED_MEDIA_HOURS, unless a draft holds them
+ *  • Avatars and cover images live in the same store, cropped to PROFILE_IMAGE_SIZES; the user
+ *    document holds their URL. Each upload gets a new file, the replaced one is removed
+ */
+import { mkdir, unlink, writeFile } from 'fs/promises'
+import path from 'path'
+import sharp from 'sharp'
+import { Types } from 'mongoose'
+import Media, { type IMedia } from '../models/media.js'
+import User from '../models/user.js'
+import type { IAttachment } from '../models/tweet.js'
+
+export const MEDIA_DIR = path.resolve(process.env.MEDIA_DIR || 'uploads/media')
+/** Where the files are served from (routes/media.ts), as clients should request them */
+const MEDIA_PUBLIC_URL = (process.env.MEDIA_PUBLIC_URL || `http://localhost:${process.env.PORT || 4000}/api/media`).replace(/\/+$/, '')
+
+export const MAX_ATTACHMENTS = 4
+export const MAX_IMAGE_BYTES = (Number(process.env.MEDIA_MAX_IMAGE_MB) || 10) * 1024 * 1024
+export const MAX_VIDEO_BYTES = (Number(process.env.MEDIA_MAX_VIDEO_MB) || 50) * 1024 * 1024
+export const MAX_VIDEO_SECONDS = Number(process.env.MEDIA_MAX_VIDEO_SECONDS) || 140
+export const MAX_ALT_TEXT_LEN = 1000
+const THUMB_SIZE = 480
+const UNCLAIMED_MEDIA_HOURS = Number(process.env.UNCLAIMED_MEDIA_HOURS) || 24
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000
+
+type Sniffed = { kind: 'image' | 'video'; mime: string; ext: string; format?: 'jpeg' | 'png' | 'gif' | 'webp' }
+
+/** What the file's leading bytes say it is, or null for anything we don't take */
+function sniff(buf: Buffer): Sniffed | null {
+  if (buf.length < 12) return null
+  if (buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) return { kind: 'image', mime: 'image/jpeg', ext: 'jpg', format: 'jpeg' }
+  if (buf.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return { kind: 'image', mime: 'image/png', ext: 'png', format: 'png' }
+  if (buf.toString('latin1', 0, 4) === 'GIF8') return { kind: 'image', mime: 'image/gif', ext: 'gif', format: 'gif' }
+  if (buf.toString('latin1', 0, 4) === 'RIFF' && buf.toString('latin1', 8, 12) === 'WEBP') return { kind: 'image', mime: 'image/webp', ext: 'webp', format: 'webp' }
+  if (buf.toString('latin1', 4, 8) === 'ftyp') {
+    // QuickTime, HEIF/AVIF stills and audio-only files share the container; only MP4 plays everywhere
+    const brand = buf.toString('latin1', 8, 12)
+    if (['qt  ', 'heic', 'heix', 'hevc', 'mif1', 'msf1', 'avif', 'avis', 'M4A ', 'M4B '].includes(brand)) return null
+    return { kind: 'video', mime: 'video/mp4', ext: 'mp4' }
+  }
+  return null
+}
+
+type Box = { type: string; start: number; body: number; end: number }
+
+/** ISO-BMFF boxes between `start` and `end`; stops at the first malformed one */
+function boxes(buf: Buffer, start = 0, end = buf.length): Box[] {
+  const out: Box[] = []
+  let off = start
+  while (off + 8 <= end) {
+    let size = buf.readUInt32BE(off)
+    let header = 8
+    if (size === 1) {
+      if (off + 16 > end) break
+      size = Number(buf.readBigUInt64BE(off + 8))
+      header = 16
+    } else if (size === 0) {
+      size = end - off
+    }
+    if (size < header || off + size > end) break
+    out.push({ type: buf.toString('latin1', off + 4, off + 8), start: off, body: off + header, end: off + size })
+    off += size
+  }
+  return out
+}
+
+/**
+ * inspectMp4
+ *  • Duration from `mvhd`, and whether any track is video
+ *  • Blanks metadata boxes by renaming them to `free`: same size, so every offset in the file
+ *    stays valid and players skip them
+ *  • Edits `buf` in place
+ *  • Null for anything it can't read, including boxes too short for the fields it needs
+ */
+export function inspectMp4(buf: Buffer): { seconds: number; hasVideo: boolean } | null {
+  const top = boxes(buf)
+  const moov = top.find(b => b.type === 'moov')
+  if (!moov) return null
+  const inMoov = boxes(buf, moov.body, moov.end)
+  const traks = inMoov.filter(b => b.type === 'trak')
+  for (const b of [...top, ...inMoov, ...traks.flatMap(t => boxes(buf, t.body, t.end))]) {
+    if (b.type === 'udta' || b.type === 'meta') buf.write('free', b.start + 4, 'latin1')
+  }
+
+  const mvhd = inMoov.find(b => b.type === 'mvhd')
+  if (!mvhd) return null
+  const v1 = buf[mvhd.body] === 1
+  if (mvhd.body + (v1 ? 32 : 20) > mvhd.end) return null
+  const timescale = buf.readUInt32BE(mvhd.body + (v1 ? 20 : 12))
+  const duration = v1 ? Number(buf.readBigUInt64BE(mvhd.body + 24)) : buf.readUInt32BE(mvhd.body + 16)
+  if (!timescale) return null
+
+  const hasVideo = traks.some(t => {
+    const mdia = boxes(buf, t.body, t.end).find(b => b.type === 'mdia')
+    const hdlr = mdia && boxes(buf, mdia.body, mdia.end).find(b => b.type === 'hdlr')
+    return !!hdlr && hdlr.body + 12 <= hdlr.end && buf.toString('latin1', hdlr.body + 8, hdlr.body + 12) === 'vide'
+  })
+  return { seconds: duration / timescale, hasVideo }
+}
+
+export type SaveUploadResult =
+  | { ok: true; media: IMedia }
+  | { ok: false; reason: 'unsupported_type' | 'too_large' | 'too_long' | 'unreadable' }
+
+/**
+ * saveUpload
+ *  • Validates, cleans and stores one uploaded file for `owner`; the result is unclaimed until
+ *    a post takes it
+ */
+export async function saveUpload(owner: string, buf: Buffer): Promise<SaveUploadResult> {
+  const type = sniff(buf)
+  if (!type) return { ok: false, reason: 'unsupported_type' }
+  if (buf.length > (type.kind === 'image' ? MAX_IMAGE_BYTES : MAX_VIDEO_BYTES)) return { ok: false, reason: 'too_large' }
+
+  const id = new Types.ObjectId()
+  const file = `${id}.${type.ext}`
+  let thumb: string | null = null
+  let width: number | null = null
+  let height: number | null = null
+  let durationSeconds: number | null = null
+  let data: Buffer
+
+  await mkdir(MEDIA_DIR, { recursive: true })
+  if (type.kind === 'image') {
+    const animated = type.format === 'gif' || type.format === 'webp'
+    try {
+      const meta = await sharp(buf, { animated }).metadata()
+      width = meta.autoOrient.width
+      height = meta.pageHeight ?? meta.autoOrient.height
+      // Output carries no metadata unless asked to, so re-encoding is what strips it
+      data = await sharp(buf, { animated }).autoOrient().toFormat(type.format!).toBuffer()
+      thumb = `${id}.thumb.webp`
+      const thumbData = await sharp(buf)
+        .autoOrient()
+        .resize(THUMB_SIZE, THUMB_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer()
+      await writeFile(path.join(MEDIA_DIR, thumb), thumbData)
+    } catch {
+      return { ok: false, reason: 'unreadable' }
+    }
+  } else {
+    const info = inspectMp4(buf)
+    if (!info || !info.hasVideo) return { ok: false, reason: 'unreadable' }
+    if (info.seconds > MAX_VIDEO_SECONDS) return { ok: false, reason: 'too_long' }
+    durationSeconds = Math.round(info.seconds * 10) / 10
+    data = buf
+  }
+
+  await writeFile(path.join(MEDIA_DIR, file), data)
+  const media = await Media.create({
+    _id: id,
+    owner,
+    kind: type.kind,
+    mime: type.mime,
+    file,
+    thumb,
+    width,
+    height,
+    durationSeconds,
+    size: data.length,
+  })
+  return { ok: true, media }
+}
+
+export type ClaimMediaResult = { ok: true; attachments: IAttachment[] } | { ok: false; reason: 'media_not_found' }
+
+/**
+ * claimMedia
+ *  • Attaches the owner's unclaimed uploads to `postId`, in the given order, with alt text
+ *  • All or nothing: if any id isn't the owner's or is already used, none are claimed
+ */
+export async function claimMedia(owner: string, postId: Types.ObjectId, items: Array<{ id: string; alt?: string }>): Promise<ClaimMediaResult> {
+  if (!items.length) return { ok: true, attachments: [] }
+  const ids = items.map(i => i.id)
+  if (new Set(ids).size !== ids.length) return { ok: false, reason: 'media_not_found' }
+
+  const r = await Media.updateMany({ _id: { $in: ids }, owner, post: null }, { $set: { post: postId } })
+  if (r.modifiedCount !== ids.length) {
+    await Media.updateMany({ _id: { $in: ids }, post: postId }, { $set: { post: null } })
+    return { ok: false, reason: 'media_not_found' }
+  }
+
+  const docs = await Media.find({ _id: { $in: ids } })
+  const byId = new Map(docs.map(d => [String(d._id), d]))
+  const attachments = items.map(({ id, alt }) => {
+    const m = byId.get(id)!
+    return { _id: m._id as Types.ObjectId, kind: m.kind, file: m.file, thumb: m.thumb, width: m.width, height: m.height, alt: (alt || '').trim() }
+  })
+  return { ok: true, attachments }
+}
+
+/**
+ * holdMedia
+ *  • Marks the owner's unclaimed uploads as held by a draft (lib/drafts.ts) so the sweep skips
+ *    them, and lets go of the ones the draft no longer lists
+ *  • Holds nothing new if any id isn't the owner's, is on a post or is held by another draft
+ */
+export async function holdMedia(owner: string, draftId: Types.ObjectId, ids: string[]): Promise<boolean> {
+  const filter = { _id: { $in: ids }, owner, post: null, draft: { $in: [null, draftId] } }
+  if (new Set(ids).size !== ids.length || await Media.countDocuments(filter) !== ids.length) return false
+  if (ids.length) await Media.updateMany(filter, { $set: { draft: draftId } })
+  await Media.updateMany({ draft: draftId, _id: { $nin: ids } }, { $set: { draft: null } })
+  return true
+}
+
+/** Payload shape of an attachment (or of an upload, which has no alt text yet) */
+export function mediaJson(a: Omit<IAttachment, '_id' | 'alt'> & { _id: unknown; alt?: string }) {
+  return {
+    id: String(a._id),
+    kind: a.kind,
+    url: `${MEDIA_PUBLIC_URL}/${a.file}`,
+    thumb_url: a.thumb ? `${MEDIA_PUBLIC_URL}/${a.thumb}` : null,
+    width: a.width,
+    height: a.height,
+    alt: a.alt || '',
+  }
+}
+
+/** Deletes the matching uploads, files first; a file that's already gone is fine */
+export async function discardMedia(filter: Record<string, unknown>): Promise<number> {
+  const docs = await Media.find(filter).select('file thumb').lean<Array<{ _id: Types.ObjectId; file: string; thumb: string | null }>>()
+  for (const d of docs) {
+    for (const name of [d.file, d.thumb]) {
+      if (!name) continue
+      await unlink(path.join(MEDIA_DIR, name)).catch((err) => { if (err?.code !== 'ENOENT') throw err })
+    }
+  }
+  if (docs.length) await Media.deleteMany({ _id: { $in: docs.map(d => d._id) } })
+  return docs.length
+}
+
+/** Uploads no post claimed within UNCLAIMED_MEDIA_HOURS and no draft holds */
+export async function sweepUnclaimedMedia(now = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - UNCLAIMED_MEDIA_HOURS * 60 * 60 * 1000)
+  return discardMedia({ post: null, draft: null, createdAt: { $lt: cutoff } })
+}
+
+/** Sweeps at startup, then hourly */
+export function startMediaSweepJob() {
+  const run = () => { sweepUnclaimedMedia().catch((err) => console.error('Media sweep error:', err)) }
+  run()
+  setInterval(run, SWEEP_INTERVAL_MS).unref()
+}
+
+// ----------------------------------------------------------------------------
+// Profile images
+// ----------------------------------------------------------------------------
+/** Standard sizes; uploads are cropped to fill them */
+const PROFILE_IMAGE_SIZES = {
+  avatar: { width: 400, height: 400 },
+  cover: { width: 1500, height: 500 },
+} as const
+
+export type ProfileImageKind = keyof typeof PROFILE_IMAGE_SIZES
+
+export type SaveProfileImageResult =
+  | { ok: true; url: string }
+  | { ok: false; reason: 'unsupported_type' | 'too_large' | 'unreadable' }
+
+/** Stores an avatar or cover image as WebP at its standard size; returns the URL to keep on the user */
+export async function saveProfileImage(kind: ProfileImageKind, buf: Buffer): Promise<SaveProfileImageResult> {
+  const type = sniff(buf)
+  if (!type || type.kind !== 'image') return { ok: false, reason: 'unsupported_type' }
+  if (buf.length > MAX_IMAGE_BYTES) return { ok: false, reason: 'too_large' }
+
+  let data: Buffer
+  try {
+    const { width, height } = PROFILE_IMAGE_SIZES[kind]
+    data = await sharp(buf).autoOrient().resize(width, height, { fit: 'cover' }).webp({ quality: 85 }).toBuffer()
+  } catch {
+    return { ok: false, reason: 'unreadable' }
+  }
+  const file = `${new Types.ObjectId()}.${kind}.webp`
+  await mkdir(MEDIA_DIR, { recursive: true })
+  await writeFile(path.join(MEDIA_DIR, file), data)
+  return { ok: true, url: `${MEDIA_PUBLIC_URL}/${file}` }
+}
+
+/** Deletes a profile image this store holds; anything else (provider pictures, data URLs) is left alone */
+export async function discardProfileImage(url: string | null | undefined) {
+  if (!url?.startsWith(`${MEDIA_PUBLIC_URL}/`)) return
+  const name = url.slice(MEDIA_PUBLIC_URL.length + 1)
+  if (!/^[a-f0-9]{24}\.(avatar|cover)\.webp$/.test(name)) return
+  await unlink(path.join(MEDIA_DIR, name)).catch((err) => { if (err?.code !== 'ENOENT') throw err })
+}
+
+/**
+ * migrateInlineProfileImages
+ *  • Moves avatars and covers stored inline as base64 data URLs into the store
+ *  • Idempotent: a user is only rewritten while the field still holds the same data URL, so a
+ *    rerun, or a profile update racing it, never loses the newer image
+ *  • Data URLs that don't decode to a usable image are left as they are and logged
+ *  • Returns how many images were moved
+ */
+export async function migrateInlineProfileImages(): Promise<number> {
+  const cursor = User.find({ $or: [{ avatar: /^data:/ }, { coverImage: /^data:/ }] })
+    .select('_id avatar coverImage')
+    .lean<{ _id: Types.ObjectId; avatar?: string | null; coverImage?: string | null }>()
+    .cursor()
+
+  let migrated = 0
+  for await (const u of cursor) {
+    for (const [field, kind] of [['avatar', 'avatar'], ['coverImage', 'cover']] as const) {
+      const value = u[field]
+      if (!value?.startsWith('data:')) continue
+      const base64 = /^data:[^,]*;base64,(.*)$/s.exec(value)?.[1]
+      const saved = base64 ? await saveProfileImage(kind, Buffer.from(base64, 'base64')) : null
+      if (!saved?.ok) {
+        console.warn('Inline profile image left in place:', String(u._id), field, saved?.reason ?? 'not_base64')
+        continue
+      }
+      const r = await User.updateOne({ _id: u._id, [field]: value }, { $set: { [field]: saved.url } }, { timestamps: false })
+      if (r.modifiedCount) migrated += 1
+      else await discardProfileImage(saved.url)
+    }
+  }
+  return migrated
+}
@@ -0,0 +1,18 @@
+/**
+ * Notifications.
+ *
+ *  • notify records one; listing and marking read are in routes/notifications.ts
+ *  • Recording the same event twice is a no-op, so jobs can retry freely
+ */
+import Notification, { type NotificationType } from '../models/notification.js'
+
+export async function notify(user: { toString(): string }, type: NotificationType, post: { toString(): string } | null = null) {
+  await Notification.updateOne(
+    { user: String(user), type, post: post ? String(post) : null },
+    { $setOnInsert: { readAt: null } },
+    { upsert: true }
+  ).catch((err) => {
+    // A concurrent notify inserted it first
+    if (err?.code !== 11000) throw err
+  })
+}
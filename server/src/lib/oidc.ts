@@ -0,0 +1,236 @@
+/**
+ * OpenID Connect sign-in (authorization code flow with PKCE) against any spec-compliant issuer.
+ *
+ *  • Providers come from OIDC_PROVIDERS, a JSON array of
+ *    { id, name, issuer, clientId, clientSecret?, scopes? }; endpoints are discovered from
+ *    `<issuer>/.well-known/openid-configuration`
+ *  • The ID token is verified against the issuer's JWKS (or the client secret for HS256):
+ *    signature, iss, aud/azp, exp and the nonce we sent
+ *  • The redirect URI registered with each provider is
+ *    `<OIDC_REDIRECT_BASE>/auth/oidc/<id>/callback` (OIDC_REDIRECT_BASE defaults to the local API)
+ */
+import crypto from 'crypto'
+import jwt, { type Algorithm } from 'jsonwebtoken'
+
+export type OidcProvider = {
+  id: string
+  name: string
+  issuer: string
+  clientId: string
+  clientSecret?: string
+  scopes: string
+}
+
+/** Public base URL of this API, as the identity provider's browser redirect sees it */
+const REDIRECT_BASE = (process.env.OIDC_REDIRECT_BASE || `http://localhost:${process.env.PORT || 4000}/api`).replace(/\/+$/, '')
+
+/** Discovery documents and key sets are cached this long */
+const METADATA_TTL_MS = 60 * 60 * 1000
+const FETCH_TIMEOUT_MS = 10 * 1000
+
+/** Tolerated clock difference between us and the issuer */
+const CLOCK_TOLERANCE_SEC = 60
+
+const ASYMMETRIC_ALGS: Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512']
+
+function loadProviders(): OidcProvider[] {
+  const raw = process.env.OIDC_PROVIDERS
+  if (!raw) return []
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    console.warn('⚠️ OIDC_PROVIDERS is not valid JSON; external sign-in is disabled.')
+    return []
+  }
+  if (!Array.isArray(parsed)) return []
+
+  const providers: OidcProvider[] = []
+  for (const p of parsed as Array<Record<string, unknown>>) {
+    const id = typeof p?.id === 'string' ? p.id.trim() : ''
+    if (!/^[a-z0-9_-]{1,32}$/.test(id) || typeof p.issuer !== 'string' || typeof p.clientId !== 'string') {
+      console.warn('⚠️ Skipping OIDC provider with missing or invalid id/issuer/clientId:', p?.id)
+      continue
+    }
+    providers.push({
+      id,
+      name: typeof p.name === 'string' && p.name.trim() ? p.name.trim() : id,
+      issuer: p.issuer.replace(/\/+$/, ''),
+      clientId: p.clientId,
+      clientSecret: typeof p.clientSecret === 'string' && p.clientSecret ? p.clientSecret : undefined,
+      scopes: typeof p.scopes === 'string' && p.scopes.trim() ? p.scopes.trim() : 'openid profile email',
+    })
+  }
+  return providers
+}
+
+const PROVIDERS = loadProviders()
+
+/** Providers for the login buttons; nothing secret */
+export function listProviders(): Array<{ id: string; name: string }> {
+  return PROVIDERS.map((p) => ({ id: p.id, name: p.name }))
+}
+
+export function getProvider(id: string): OidcProvider | undefined {
+  return PROVIDERS.find((p) => p.id === id)
+}
+
+export function redirectUri(provider: OidcProvider) {
+  return `${REDIRECT_BASE}/auth/oidc/${provider.id}/callback`
+}
+
+// ── Discovery ────────────────────────────────
+
+type ProviderMetadata = {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri?: string
+  token_endpoint_auth_methods_supported?: string[]
+}
+
+type Jwk = crypto.JsonWebKey & { kid?: string; use?: string }
+
+const metadataCache = new Map<string, { at: number; value: ProviderMetadata }>()
+const jwksCache = new Map<string, { at: number; keys: Jwk[] }>()
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const res = await fetch(url, { ...init, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) })
+  const body: any = await res.json().catch(() => null)
+  if (!res.ok) throw new Error(`oidc: ${url} responded ${res.status}${body?.error ? ` (${body.error})` : ''}`)
+  return body
+}
+
+async function getMetadata(provider: OidcProvider): Promise<ProviderMetadata> {
+  const cached = metadataCache.get(provider.id)
+  if (cached && Date.now() - cached.at < METADATA_TTL_MS) return cached.value
+
+  const doc = await fetchJson(`${provider.issuer}/.well-known/openid-configuration`)
+  if (doc?.issuer?.replace(/\/+$/, '') !== provider.issuer) throw new Error('oidc: discovery issuer mismatch')
+  if (typeof doc.authorization_endpoint !== 'string' || typeof doc.token_endpoint !== 'string') {
+    throw new Error('oidc: discovery document is missing endpoints')
+  }
+  metadataCache.set(provider.id, { at: Date.now(), value: doc })
+  return doc
+}
+
+async function getSigningKey(provider: OidcProvider, meta: ProviderMetadata, kid: string | undefined): Promise<crypto.KeyObject> {
+  if (!meta.jwks_uri) throw new Error('oidc: issuer publishes no jwks_uri')
+
+  const pick = (keys: Jwk[]) => keys.find((k) => (kid ? k.kid === kid : true) && (!k.use || k.use === 'sig'))
+
+  let cached = jwksCache.get(provider.id)
+  let key = cached && Date.now() - cached.at < METADATA_TTL_MS ? pick(cached.keys) : undefined
+  if (!key) {
+    // Unknown kid usually means the issuer rotated its keys
+    const doc = await fetchJson(meta.jwks_uri)
+    cached = { at: Date.now(), keys: Array.isArray(doc?.keys) ? doc.keys : [] }
+    jwksCache.set(provider.id, cached)
+    key = pick(cached.keys)
+  }
+  if (!key) throw new Error('oidc: no matching signing key')
+  return crypto.createPublicKey({ key, format: 'jwk' })
+}
+
+// ── Authorization request ────────────────────────────────
+
+function randomToken() {
+  return crypto.randomBytes(32).toString('base64url')
+}
+
+export type AuthorizationRequest = { url: string; state: string; nonce: string; codeVerifier: string }
+
+/** Build the redirect to the provider; state, nonce and verifier must be kept for the callback */
+export async function createAuthorizationRequest(provider: OidcProvider): Promise<AuthorizationRequest> {
+  const meta = await getMetadata(provider)
+  const state = randomToken()
+  const nonce = randomToken()
+  const codeVerifier = randomToken()
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url')
+
+  const url = new URL(meta.authorization_endpoint)
+  url.searchParams.set('response_type', 'code')
+  url.searchParams.set('client_id', provider.clientId)
+  url.searchParams.set('redirect_uri', redirectUri(provider))
+  url.searchParams.set('scope', provider.scopes.includes('openid') ? provider.scopes : `openid ${provider.scopes}`)
+  url.searchParams.set('state', state)
+  url.searchParams.set('nonce', nonce)
+  url.searchParams.set('code_challenge', codeChallenge)
+  url.searchParams.set('code_challenge_method', 'S256')
+  return { url: url.toString(), state, nonce, codeVerifier }
+}
+
+// ── Callback ────────────────────────────────
+
+export type OidcClaims = {
+  sub: string
+  email?: string
+  email_verified?: boolean
+  name?: string
+  preferred_username?: string
+  nickname?: string
+}
+
+/** Exchange the authorization code and return the verified ID token claims */
+export async function completeAuthorization(provider: OidcProvider, code: string, expected: { nonce: string; codeVerifier: string }): Promise<OidcClaims> {
+  const meta = await getMetadata(provider)
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri(provider),
+    code_verifier: expected.codeVerifier,
+  })
+  const headers: Record<string, string> = { 'content-type': 'application/x-www-form-urlencoded', accept: 'application/json' }
+  const methods = meta.token_endpoint_auth_methods_supported
+  if (!provider.clientSecret) {
+    body.set('client_id', provider.clientId)
+  } else if (methods && !methods.includes('client_secret_basic') && methods.includes('client_secret_post')) {
+    body.set('client_id', provider.clientId)
+    body.set('client_secret', provider.clientSecret)
+  } else {
+    // client_secret_basic is the spec default
+    const basic = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`
+    headers.authorization = `Basic ${Buffer.from(basic).toString('base64')}`
+  }
+
+  const tokens = await fetchJson(meta.token_endpoint, { method: 'POST', headers, body })
+  if (typeof tokens?.id_token !== 'string') throw new Error('oidc: token response has no id_token')
+  return verifyIdToken(provider, meta, tokens.id_token, expected.nonce)
+}
+
+async function verifyIdToken(provider: OidcProvider, meta: ProviderMetadata, idToken: string, nonce: string): Promise<OidcClaims> {
+  const decoded = jwt.decode(idToken, { complete: true })
+  if (!decoded || typeof decoded.payload === 'string') throw new Error('oidc: malformed id_token')
+
+  const alg = decoded.header.alg as Algorithm
+  let key: crypto.KeyObject | string
+  if (ASYMMETRIC_ALGS.includes(alg)) key = await getSigningKey(provider, meta, decoded.header.kid)
+  else if (alg === 'HS256' && provider.clientSecret) key = provider.clientSecret
+  else throw new Error(`oidc: unsupported id_token alg ${alg}`)
+
+  const claims = jwt.verify(idToken, key, {
+    algorithms: [alg],
+    issuer: meta.issuer,
+    audience: provider.clientId,
+    clockTolerance: CLOCK_TOLERANCE_SEC,
+  }) as jwt.JwtPayload
+
+  if (claims.nonce !== nonce) throw new Error('oidc: nonce mismatch')
+  if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== provider.clientId) throw new Error('oidc: azp mismatch')
+  if (typeof claims.sub !== 'string' || !claims.sub) throw new Error('oidc: id_token has no subject')
+
+  return {
+    sub: claims.sub,
+    email: typeof claims.email === 'string' ? claims.email : undefined,
+    email_verified: claims.email_verified === true,
+    name: typeof claims.name === 'string' ? claims.name : undefined,
+    preferred_username: typeof claims.preferred_username === 'string' ? claims.preferred_username : undefined,
+    nickname: typeof claims.nickname === 'string' ? claims.nickname : undefined,
+  }
+}
+
+/** Best handle suggestion for a new account; createExternalAccount makes it valid and unique */
+export function suggestHandle(claims: OidcClaims) {
+  return claims.preferred_username || claims.nickname || claims.email?.split('@')[0] || claims.name || 'user'
+}
@@ -0,0 +1,106 @@
+/**
+ * Places for location tagging.
+ *
+ *  • Named places come from the bundled gazetteer (data/places.ts), so search and naming work
+ *    offline with no lookup service
+ *  • Opt-in per post: a post has a place only when its author picked one for it
+ *  • Coordinates are coarsened before they are stored. A named place is stored at the place's
+ *    centre; raw coordinates are rounded to COORD_DECIMALS (about 11 km) and take the name of
+ *    the nearest place within NAME_RADIUS_KM. A post never says more than roughly which town
+ *    it was written in
+ */
+import { z } from 'zod'
+import { PLACES } from '../data/places.js'
+import type { IPlace } from '../models/tweet.js'
+
+export const COORD_DECIMALS = 1
+const NAME_RADIUS_KM = 50
+export const DEFAULT_NEARBY_RADIUS_KM = 25
+export const MAX_NEARBY_RADIUS_KM = 200
+const EARTH_RADIUS_KM = 6378.1
+
+export type Place = { id: string; name: string; country: string; lat: number; lng: number }
+
+const GAZETTEER: Place[] = PLACES.map(([id, name, country, lat, lng]) => ({ id, name, country, lat, lng }))
+const BY_ID = new Map(GAZETTEER.map(p => [p.id, p]))
+
+/** `place` in POST /posts: a gazetteer id, or coordinates to coarsen */
+export const PlaceInputSchema = z.union([
+  z.object({ id: z.string().min(1).max(64) }),
+  z.object({ lat: z.number().min(-90).max(90), lng: z.number().min(-180).max(180) }),
+])
+
+export type PlaceInput = z.infer<typeof PlaceInputSchema>
+
+/** Case- and accent-insensitive form of a place name or query */
+function fold(s: string) {
+  return s.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().trim()
+}
+
+export function placeById(id: string): Place | undefined {
+  return BY_ID.get(id)
+}
+
+/** Places whose name contains `q`, those starting with it first */
+export function searchPlaces(q: string, limit = 10): Place[] {
+  const needle = fold(q)
+  if (!needle) return []
+  const hits = GAZETTEER.filter(p => fold(p.name).includes(needle))
+  hits.sort((a, b) => Number(!fold(a.name).startsWith(needle)) - Number(!fold(b.name).startsWith(needle)) || a.name.localeCompare(b.name))
+  return hits.slice(0, limit)
+}
+
+/** Great-circle distance */
+export function distanceKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const rad = (d: number) => d * Math.PI / 180
+  const dLat = rad(b.lat - a.lat)
+  const dLng = rad(b.lng - a.lng)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+/** The closest gazetteer place within NAME_RADIUS_KM */
+export function nearestPlace(at: { lat: number; lng: number }): Place | undefined {
+  let best: Place | undefined
+  let bestKm = NAME_RADIUS_KM
+  for (const p of GAZETTEER) {
+    const km = distanceKm(at, p)
+    if (km <= bestKm) { best = p; bestKm = km }
+  }
+  return best
+}
+
+export function coarsen(value: number): number {
+  const f = 10 ** COORD_DECIMALS
+  return Math.round(value * f) / f
+}
+
+/** What a post stores for `input`; null for an unknown gazetteer id */
+export function resolvePlace(input: PlaceInput): IPlace | null {
+  if ('id' in input) {
+    const p = placeById(input.id)
+    if (!p) return null
+    return { placeId: p.id, name: p.name, country: p.country, location: { type: 'Point', coordinates: [p.lng, p.lat] } }
+  }
+  const at = { lat: coarsen(input.lat), lng: coarsen(input.lng) }
+  const near = nearestPlace(at)
+  return { placeId: null, name: near?.name ?? null, country: near?.country ?? null, location: { type: 'Point', coordinates: [at.lng, at.lat] } }
+}
+
+/** The input that resolves to `place` again, for drafts that store the resolved form */
+export function placeInput(place: IPlace): PlaceInput {
+  const [lng, lat] = place.location.coordinates
+  return place.placeId ? { id: place.placeId } : { lat, lng }
+}
+
+/** Filter for posts within `radiusKm` of a point */
+export function withinKm(at: { lat: number; lng: number }, radiusKm: number) {
+  return { 'place.location': { $geoWithin: { $centerSphere: [[at.lng, at.lat], radiusKm / EARTH_RADIUS_KM] } } }
+}
+
+/** Payload shape of a post's place */
+export function placeJson(place: IPlace | null | undefined) {
+  if (!place?.location) return null
+  const [lng, lat] = place.location.coordinates
+  return { id: place.placeId, name: place.name, country: place.country || null, lat, lng }
+}
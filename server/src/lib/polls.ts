@@ -0,0 +1,121 @@
+/**
+ * Polls.
+ *
+ *  • Attached to a post at creation: POLL_MIN_OPTIONS to POLL_MAX_OPTIONS options, open for
+ *    POLL_MIN_MINUTES to POLL_MAX_MINUTES
+ *  • One vote per user, enforced by PollVote's unique index; tallies are kept on the post
+ *  • Tallies stay hidden from anyone who hasn't voted until the poll closes (pollJson)
+ *  • startPollCloseJob tells authors when their poll has closed
+ */
+import { Types } from 'mongoose'
+import Tweet, { type IPoll } from '../models/tweet.js'
+import PollVote from '../models/pollVote.js'
+import User from '../models/user.js'
+import { notify } from './notifications.js'
+
+export const POLL_MIN_OPTIONS = 2
+export const POLL_MAX_OPTIONS = 4
+export const POLL_OPTION_MAX_LEN = 25
+export const POLL_MIN_MINUTES = 5
+export const POLL_MAX_MINUTES = 7 * 24 * 60
+const CLOSE_SWEEP_INTERVAL_MS = 60 * 1000
+
+/** A fresh poll; expects options already sanitized and counted */
+export function newPoll(options: string[], durationMinutes: number, now = new Date()): IPoll {
+  return {
+    options: options.map(text => ({ text, votes: 0 })),
+    totalVotes: 0,
+    closesAt: new Date(now.getTime() + durationMinutes * 60 * 1000),
+    closedNotifiedAt: null,
+  }
+}
+
+/**
+ * pollJson
+ * Payload shape of a poll as `votedOption`'s viewer sees it (undefined: hasn't voted or
+ * signed out). Until they vote or it closes, `votes` and `total_votes` are null.
+ */
+export function pollJson(poll: IPoll | null | undefined, votedOption: number | undefined, now = new Date()) {
+  if (!poll) return null
+  const closed = poll.closesAt.getTime() <= now.getTime()
+  const visible = closed || votedOption !== undefined
+  return {
+    options: poll.options.map(o => ({ text: o.text, votes: visible ? o.votes : null })),
+    total_votes: visible ? poll.totalVotes : null,
+    closes_at: poll.closesAt.toISOString(),
+    closed,
+    voted_option: votedOption ?? null,
+  }
+}
+
+/** The viewer's vote in each of `postIds` they voted in, keyed by post id */
+export async function viewerPollVotes(viewerId: string | undefined, postIds: Array<{ toString(): string }>): Promise<Map<string, number>> {
+  if (!viewerId || !Types.ObjectId.isValid(viewerId) || !postIds.length) return new Map()
+  const rows = await PollVote.find({ user: viewerId, post: { $in: postIds.map(String) } })
+    .select('post option')
+    .lean<Array<{ post: Types.ObjectId; option: number }>>()
+  return new Map(rows.map(r => [String(r.post), r.option]))
+}
+
+export type CastVoteResult =
+  | { ok: true; poll: IPoll }
+  | { ok: false; reason: 'not_found' | 'closed' | 'invalid_option' | 'already_voted' }
+
+/** Records the user's vote for option `option` of the poll on `postId` */
+export async function castVote(postId: string, userId: string, option: number, now = new Date()): Promise<CastVoteResult> {
+  const post = await Tweet.findOne({ _id: postId, deletedAt: null, poll: { $ne: null } }).select('poll').lean<{ poll: IPoll }>()
+  if (!post) return { ok: false, reason: 'not_found' }
+  if (post.poll.closesAt.getTime() <= now.getTime()) return { ok: false, reason: 'closed' }
+  if (!Number.isInteger(option) || option < 0 || option >= post.poll.options.length) return { ok: false, reason: 'invalid_option' }
+
+  try {
+    await PollVote.create({ post: postId, user: userId, option, createdAt: now })
+  } catch (err: any) {
+    if (err?.code === 11000) return { ok: false, reason: 'already_voted' }
+    throw err
+  }
+  const updated = await Tweet.findOneAndUpdate(
+    { _id: postId },
+    { $inc: { [`poll.options.${option}.votes`]: 1, 'poll.totalVotes': 1 } },
+    { new: true, projection: { poll: 1 } }
+  ).lean<{ poll: IPoll }>()
+  return { ok: true, poll: updated!.poll }
+}
+
+/** Takes back every vote the user cast (account purge), tallies included */
+export async function releaseVotes(userId: string) {
+  const votes = await PollVote.find({ user: userId }).select('post option').lean<Array<{ post: Types.ObjectId; option: number }>>()
+  for (const v of votes) {
+    await Tweet.updateOne(
+      { _id: v.post, [`poll.options.${v.option}.votes`]: { $gte: 1 } },
+      { $inc: { [`poll.options.${v.option}.votes`]: -1, 'poll.totalVotes': -1 } }
+    )
+  }
+  await PollVote.deleteMany({ user: userId })
+}
+
+/**
+ * closeDuePolls
+ *  • Notifies the author of every poll that has closed since the last run
+ *  • A crash between the two writes only means the notification is recorded again, which
+ *    notify ignores
+ */
+export async function closeDuePolls(now = new Date()): Promise<number> {
+  const due = await Tweet.find({ 'poll.closesAt': { $lte: now }, 'poll.closedNotifiedAt': null, deletedAt: null })
+    .select('_id username')
+    .limit(500)
+    .lean<Array<{ _id: Types.ObjectId; username: string }>>()
+  for (const p of due) {
+    const author = await User.findOne({ username: p.username }).select('_id').lean()
+    if (author) await notify(author._id, 'poll_closed', p._id)
+    await Tweet.updateOne({ _id: p._id }, { $set: { 'poll.closedNotifiedAt': now } }, { timestamps: false })
+  }
+  return due.length
+}
+
+/** Checks for closed polls at startup, then every minute */
+export function startPollCloseJob() {
+  const run = () => { closeDuePolls().catch((err) => console.error('Poll close error:', err)) }
+  run()
+  setInterval(run, CLOSE_SWEEP_INTERVAL_MS).unref()
+}
@@ -0,0 +1,100 @@
+/**
+ * Creating posts.
+ *
+ *  • createPost is how a top-level post comes into being, from POST /posts or when a scheduled
+ *    draft comes due (lib/drafts.ts)
+ *  • cleanPostContent is the part of the checks that needs no database; drafts run it when
+ *    they are scheduled so problems show up then rather than at publish time
+ */
+import { Types } from 'mongoose'
+import { z } from 'zod'
+import Tweet, { type ITweet } from '../models/tweet.js'
+import User from '../models/user.js'
+import { MAX_TWEET_INPUT_LEN, MAX_TWEET_LEN, sanitizeTweetText, weightedLength } from '../utils/text.js'
+import { claimMedia, MAX_ALT_TEXT_LEN, MAX_ATTACHMENTS } from './media.js'
+import { PlaceInputSchema, resolvePlace } from './places.js'
+import { newPoll, POLL_MAX_MINUTES, POLL_MAX_OPTIONS, POLL_MIN_MINUTES, POLL_MIN_OPTIONS, POLL_OPTION_MAX_LEN } from './polls.js'
+
+const objectId = z.string().regex(/^[a-f0-9]{24}$/i)
+
+export const MediaRefSchema = z.object({
+  id: objectId,
+  alt: z.string().max(MAX_ALT_TEXT_LEN).optional(),
+})
+
+export const PollInputSchema = z.object({
+  options: z.array(z.string().max(POLL_OPTION_MAX_LEN)).min(POLL_MIN_OPTIONS).max(POLL_MAX_OPTIONS),
+  duration_minutes: z.number().int().min(POLL_MIN_MINUTES).max(POLL_MAX_MINUTES),
+})
+
+/** Body of POST /posts */
+export const PostInputSchema = z.object({
+  text: z.string().min(1).max(MAX_TWEET_INPUT_LEN),
+  quoted_post_id: objectId.optional(),
+  media: z.array(MediaRefSchema).max(MAX_ATTACHMENTS).optional(),
+  poll: PollInputSchema.optional(),
+  place: PlaceInputSchema.optional(),
+})
+
+export type PostInput = z.infer<typeof PostInputSchema>
+
+export type CleanPostContentResult =
+  | { ok: true; text: string; pollOptions: string[] | null }
+  | { ok: false; reason: 'empty_text' | 'too_long' | 'poll_with_media' | 'invalid_poll' }
+
+export function cleanPostContent(input: { text: string; media?: unknown[]; poll?: { options: string[] } | null }): CleanPostContentResult {
+  const text = sanitizeTweetText(input.text)
+  if (!text) return { ok: false, reason: 'empty_text' }
+  if (weightedLength(text) > MAX_TWEET_LEN) return { ok: false, reason: 'too_long' }
+  if (!input.poll) return { ok: true, text, pollOptions: null }
+
+  if (input.media?.length) return { ok: false, reason: 'poll_with_media' }
+  const pollOptions = input.poll.options.map(o => sanitizeTweetText(o).replace(/\n/g, ' '))
+  const distinct = new Set(pollOptions.map(o => o.toLowerCase()))
+  if (pollOptions.some(o => !o) || distinct.size !== pollOptions.length) return { ok: false, reason: 'invalid_poll' }
+  return { ok: true, text, pollOptions }
+}
+
+export type CreatePostResult =
+  | { ok: true; post: ITweet }
+  | { ok: false; reason: 'empty_text' | 'too_long' | 'poll_with_media' | 'invalid_poll' | 'invalid_place' | 'quoted_not_found' | 'media_not_found' }
+
+/**
+ * createPost
+ *  • `author.username` must be resolved by id; the caller's token may predate a rename
+ *  • A quoted post must be live and its author active; it gains a quote
+ *  • `place` is stored coarsened (lib/places.ts); an unknown gazetteer id is invalid_place
+ *  • `postId` lets a caller that may retry (the scheduled publisher) know the id beforehand
+ */
+export async function createPost(author: { _id: string; username: string }, input: PostInput, postId = new Types.ObjectId()): Promise<CreatePostResult> {
+  const content = cleanPostContent(input)
+  if (!content.ok) return content
+  const place = input.place ? resolvePlace(input.place) : null
+  if (input.place && !place) return { ok: false, reason: 'invalid_place' }
+
+  if (input.quoted_post_id) {
+    const original = await Tweet.findOne({ _id: input.quoted_post_id, deletedAt: null }).select('username').lean<{ username: string }>()
+    if (!original || await User.exists({ username: original.username, status: 'deactivated' })) {
+      return { ok: false, reason: 'quoted_not_found' }
+    }
+  }
+
+  // Claimed under the new post's id before it exists, so a failed claim leaves nothing behind
+  const claimed = await claimMedia(author._id, postId, (input.media || []).map(m => ({ id: m.id, alt: sanitizeTweetText(m.alt) })))
+  if (!claimed.ok) return claimed
+
+  const post = await Tweet.create({
+    _id: postId,
+    text: content.text,
+    username: author.username,
+    likes: [],
+    retweets: [],
+    quotedId: input.quoted_post_id ?? null,
+    media: claimed.attachments,
+    poll: content.pollOptions ? newPoll(content.pollOptions, input.poll!.duration_minutes) : null,
+    place,
+    createdAt: new Date(),
+  })
+  if (post.quotedId) await Tweet.updateOne({ _id: post.quotedId }, { $inc: { quoteCount: 1 } })
+  return { ok: true, post }
+}
@@ -0,0 +1,65 @@
+/**
+ * Quote posts.
+ *
+ *  • A quote is an ordinary top-level post with `quotedId` pointing at the post it comments on;
+ *    the original keeps `quoteCount` of its live quotes
+ *  • Payloads embed the original as a small card (quotedCards). When the original was deleted,
+ *    or its author deactivated or purged, the card says so instead of showing stale content
+ */
+import { Types } from 'mongoose'
+import Tweet from '../models/tweet.js'
+import User from '../models/user.js'
+import { timeAgo } from '../utils/text.js'
+
+export type QuotedCard =
+  | {
+      id: string
+      text: string
+      created_at: string
+      relative_time: string
+      user: { fullName: string; username: string; avatar: string | null; verified: boolean }
+      edited: boolean
+    }
+  | { id: string; unavailable: true; reason: 'deleted' | 'unavailable' }
+
+/**
+ * quotedCards
+ *  • One card per distinct id, keyed by id; ids that are null/undefined are skipped
+ *  • Two queries regardless of page size (posts, then their authors)
+ */
+export async function quotedCards(ids: Array<Types.ObjectId | null | undefined>): Promise<Map<string, QuotedCard>> {
+  const wanted = [...new Set(ids.filter((id): id is Types.ObjectId => !!id).map(String))]
+  const cards = new Map<string, QuotedCard>()
+  if (!wanted.length) return cards
+
+  const posts = await Tweet.find({ _id: { $in: wanted } })
+    .select('_id text username createdAt editedAt deletedAt')
+    .lean<Array<{ _id: Types.ObjectId; text?: string; username: string; createdAt: Date; editedAt?: Date | null; deletedAt?: Date | null }>>()
+  const authors = await User.find({ username: { $in: [...new Set(posts.map(p => p.username))] }, status: { $ne: 'deactivated' } })
+    .select('username fullName avatar verified')
+    .lean()
+  const byUsername = new Map(authors.map(a => [a.username, a as any]))
+
+  for (const id of wanted) cards.set(id, { id, unavailable: true, reason: 'unavailable' })
+  for (const p of posts) {
+    const id = String(p._id)
+    if (p.deletedAt) { cards.set(id, { id, unavailable: true, reason: 'deleted' }); continue }
+    const author = byUsername.get(p.username)
+    if (!author) continue
+    cards.set(id, {
+      id,
+      text: p.text || '',
+      created_at: p.createdAt.toISOString(),
+      relative_time: timeAgo(p.createdAt),
+      user: { fullName: author.fullName || p.username, username: p.username, avatar: author.avatar || null, verified: !!author.verified },
+      edited: !!p.editedAt,
+    })
+  }
+  return cards
+}
+
+/** A quote went away (deleted, or its author purged): stop counting it on the original */
+export async function releaseQuote(quotedId: Types.ObjectId | null | undefined, count = 1) {
+  if (!quotedId || count <= 0) return
+  await Tweet.updateOne({ _id: quotedId, quoteCount: { $gte: count } }, { $inc: { quoteCount: -count } })
+}
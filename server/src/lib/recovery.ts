@@ -0,0 +1,54 @@
+import crypto from 'crypto'
+import bcrypt from 'bcryptjs'
+
+/** Number of space-separated groups in a recovery secret key */
+const KEY_GROUPS = 12
+const GROUP_LEN = 4
+const ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789'
+
+/**
+ * generateSecretKey
+ *  • 12 groups of 4 lowercase base36 chars, e.g. "k3xq 9fa2 …"
+ *  • Uses crypto randomness (Math.random is not suitable for credentials)
+ */
+export function generateSecretKey(): string {
+  const groups: string[] = []
+  for (let g = 0; g < KEY_GROUPS; g++) {
+    let chunk = ''
+    for (let i = 0; i < GROUP_LEN; i++) chunk += ALPHABET[crypto.randomInt(ALPHABET.length)]
+    groups.push(chunk)
+  }
+  return groups.join(' ')
+}
+
+/** Lowercase and collapse whitespace so copy/paste variations still match */
+export function normalizeSecretKey(raw: string): string {
+  return raw.trim().toLowerCase().split(/\s+/).join(' ')
+}
+
+/** Hash a secret key for storage; the plain key is only ever shown to the user once */
+export function hashSecretKey(key: string): Promise<string> {
+  return bcrypt.hash(normalizeSecretKey(key), 10)
+}
+
+/** Compared against when there is no stored key, so that case costs as much as a real one */
+const DUMMY_SECRET_KEY_HASH = bcrypt.hashSync('tweaker-dummy-secret-key', 10)
+
+/**
+ * verifySecretKey
+ *  • Accepts bcrypt hashes and legacy plaintext keys stored before hashing was introduced
+ *  • Plaintext comparison is constant-time to avoid leaking prefix matches
+ *  • With nothing stored (e.g. no such user) it still runs a bcrypt comparison and fails, so the
+ *    response time doesn't tell which usernames exist
+ */
+export async function verifySecretKey(input: string, stored: string | undefined | null): Promise<boolean> {
+  if (!stored) {
+    await bcrypt.compare(normalizeSecretKey(input), DUMMY_SECRET_KEY_HASH)
+    return false
+  }
+  const candidate = normalizeSecretKey(input)
+  if (/^\$2[aby]\$/.test(stored)) return bcrypt.compare(candidate, stored)
+  const a = Buffer.from(candidate)
+  const b = Buffer.from(normalizeSecretKey(stored))
+  return a.length === b.length && crypto.timingSafeEqual(a, b)
+}
@@ -0,0 +1,86 @@
+/**
+ * Replies.
+ *
+ *  • A reply is a Tweet like any other (likes, reposts, its own replies), plus `parentId`, the
+ *    post it answers, and `rootId`, the top post of the conversation, so a whole thread loads
+ *    with one indexed query
+ *  • Parents keep `replyCount` of their live replies; it moves with reply creation and deletion
+ *  • Replies used to be embedded in the parent's `comments` array; migrateEmbeddedComments
+ *    turns those into reply posts once, at startup
+ */
+import { Types } from 'mongoose'
+import Tweet, { type ITweet } from '../models/tweet.js'
+
+export type CreateReplyResult =
+  | { ok: true; reply: ITweet; replyCount: number }
+  | { ok: false; reason: 'not_found' | 'deleted' }
+
+/**
+ * createReply
+ *  • Expects `text` already sanitized and `username` resolved by id
+ */
+export async function createReply(parentId: string, username: string, text: string): Promise<CreateReplyResult> {
+  const parent = await Tweet.findById(parentId).select('_id rootId deletedAt')
+  if (!parent) return { ok: false, reason: 'not_found' }
+  // Existing replies stay under a tombstone, but it takes no new ones
+  if (parent.deletedAt) return { ok: false, reason: 'deleted' }
+
+  const reply = await Tweet.create({
+    text,
+    username,
+    parentId: parent._id,
+    rootId: parent.rootId || parent._id,
+  })
+  const updated = await Tweet.findOneAndUpdate({ _id: parent._id }, { $inc: { replyCount: 1 } }, { new: true, projection: { replyCount: 1 } })
+  return { ok: true, reply, replyCount: updated?.replyCount ?? 0 }
+}
+
+/** A reply went away (deleted, or its author purged): stop counting it under its parent */
+export async function releaseReply(parentId: Types.ObjectId | null | undefined, count = 1) {
+  if (!parentId || count <= 0) return
+  await Tweet.updateOne({ _id: parentId, replyCount: { $gte: count } }, { $inc: { replyCount: -count } })
+}
+
+type EmbeddedComment = { _id?: Types.ObjectId; username: string; text: string; createdAt?: Date }
+
+/** The reply post an embedded comment on `post` becomes; it keeps the comment's _id */
+export function replyFromComment(post: { _id: Types.ObjectId; rootId: Types.ObjectId | null }, c: EmbeddedComment) {
+  const createdAt = c.createdAt ? new Date(c.createdAt) : new Date()
+  return {
+    _id: c._id || new Types.ObjectId(),
+    text: c.text,
+    username: c.username,
+    parentId: post._id,
+    rootId: post.rootId || post._id,
+    likes: [],
+    retweets: [],
+    createdAt,
+    updatedAt: createdAt,
+  }
+}
+
+/**
+ * migrateEmbeddedComments
+ *  • Moves every embedded comment into a reply post and empties the array
+ *  • Idempotent and resumable: a reply keeps its comment's _id, so a rerun after a crash
+ *    finds it already there instead of duplicating it
+ *  • Returns how many posts were migrated
+ */
+export async function migrateEmbeddedComments(): Promise<number> {
+  const cursor = Tweet.find({ 'comments.0': { $exists: true } })
+    .select('_id rootId comments')
+    .lean<{ _id: Types.ObjectId; rootId: Types.ObjectId | null; comments: EmbeddedComment[] }>()
+    .cursor()
+
+  let migrated = 0
+  for await (const post of cursor) {
+    for (const c of post.comments) {
+      const { _id, ...reply } = replyFromComment(post, c)
+      await Tweet.updateOne({ _id }, { $setOnInsert: reply }, { upsert: true, timestamps: false })
+    }
+    const replyCount = await Tweet.countDocuments({ parentId: post._id, deletedAt: null })
+    await Tweet.updateOne({ _id: post._id }, { $set: { comments: [], replyCount } }, { timestamps: false })
+    migrated += 1
+  }
+  return migrated
+}
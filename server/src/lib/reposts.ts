@@ -0,0 +1,96 @@
+/**
+ * Reposts.
+ *
+ *  • A repost lives in two places: `retweets[]` on the post (the count, and who, by username)
+ *    and a Repost document (the timeline entry, by user id, ordered by repost time). Both are
+ *    written here in one transaction, so a failure can't leave the count and timeline apart
+ *  • Feeds merge Repost entries with posts; see timeline helpers in routes/posts.ts
+ *  • backfillReposts creates the timeline entries for reposts made before they existed
+ */
+import { Types } from 'mongoose'
+import Tweet from '../models/tweet.js'
+import Repost from '../models/repost.js'
+import User from '../models/user.js'
+
+export type RepostResult = { ok: true; reposted: boolean; repostCount: number } | { ok: false; reason: 'not_found' }
+
+async function repostCount(postId: Types.ObjectId | string): Promise<number> {
+  const t = await Tweet.findById(postId).select('retweets').lean<{ retweets?: unknown[] }>()
+  return t?.retweets?.length || 0
+}
+
+/** Repost `postId` as the user; reposting twice is a no-op */
+export async function addRepost(postId: string, user: { _id: { toString(): string }; username: string }, now = new Date()): Promise<RepostResult> {
+  const exists = await Tweet.exists({ _id: postId, deletedAt: null })
+  if (!exists) return { ok: false, reason: 'not_found' }
+
+  // A concurrent repost by the same user is a write conflict, which transaction() retries
+  await Tweet.db.transaction(async (session) => {
+    await Tweet.updateOne(
+      { _id: postId, deletedAt: null, 'retweets.username': { $ne: user.username } },
+      { $push: { retweets: { username: user.username, createdAt: now } } },
+      { session }
+    )
+    await Repost.updateOne({ user: String(user._id), post: postId }, { $setOnInsert: { createdAt: now } }, { upsert: true, session })
+  })
+  return { ok: true, reposted: true, repostCount: await repostCount(postId) }
+}
+
+/** Undo the user's repost of `postId`; undoing one that isn't there is a no-op */
+export async function removeRepost(postId: string, user: { _id: { toString(): string }; username: string }): Promise<RepostResult> {
+  const exists = await Tweet.exists({ _id: postId, deletedAt: null })
+  if (!exists) return { ok: false, reason: 'not_found' }
+
+  await Tweet.db.transaction(async (session) => {
+    await Tweet.updateOne({ _id: postId }, { $pull: { retweets: { username: user.username } } }, { session })
+    await Repost.deleteOne({ user: String(user._id), post: postId }, { session })
+  })
+  return { ok: true, reposted: false, repostCount: await repostCount(postId) }
+}
+
+/** Of `postIds`, the ones the viewer has reposted */
+export async function repostedByViewer(viewerId: string | undefined, postIds: Array<{ toString(): string }>): Promise<Set<string>> {
+  if (!viewerId || !Types.ObjectId.isValid(viewerId) || !postIds.length) return new Set()
+  const rows = await Repost.find({ user: viewerId, post: { $in: postIds.map(String) } }).select('post').lean<Array<{ post: Types.ObjectId }>>()
+  return new Set(rows.map(r => String(r.post)))
+}
+
+/**
+ * The Repost entries for a post's `retweets[]`, one per reposter who still has an account
+ * (`idByUsername`); a repost without a time is dated now
+ */
+export function repostEntries(
+  post: { _id: Types.ObjectId; retweets: Array<{ username: string; createdAt?: Date }> },
+  idByUsername: Map<string, Types.ObjectId>
+) {
+  return post.retweets.flatMap(r => {
+    const user = idByUsername.get(r.username)
+    return user ? [{ user, post: post._id, createdAt: r.createdAt ? new Date(r.createdAt) : new Date() }] : []
+  })
+}
+
+/**
+ * backfillReposts
+ *  • Creates Repost entries for `retweets[]` recorded before timeline entries existed
+ *  • Runs only while the Repost collection is empty, so it does its work once
+ *  • Returns how many entries were created
+ */
+export async function backfillReposts(): Promise<number> {
+  if (await Repost.exists({})) return 0
+
+  const cursor = Tweet.find({ 'retweets.0': { $exists: true }, deletedAt: null })
+    .select('_id retweets')
+    .lean<{ _id: Types.ObjectId; retweets: Array<{ username: string; createdAt?: Date }> }>()
+    .cursor()
+
+  let created = 0
+  for await (const post of cursor) {
+    const users = await User.find({ username: { $in: post.retweets.map(r => r.username) } }).select('_id username').lean<Array<{ _id: Types.ObjectId; username: string }>>()
+    const idByUsername = new Map(users.map(u => [u.username, u._id]))
+    for (const { user, post: postId, createdAt } of repostEntries(post, idByUsername)) {
+      const res = await Repost.updateOne({ user, post: postId }, { $setOnInsert: { createdAt } }, { upsert: true })
+      created += res.upsertedCount
+    }
+  }
+  return created
+}
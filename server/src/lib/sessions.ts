@@ -0,0 +1,345 @@
+/**
+ * Token issuance and server-side refresh sessions.
+ *
+ *  • Access tokens are short-lived JWTs (JWT_SECRET) that name their session family via `sid`;
+ *    authenticateJWT also checks that family is still live (isAccessSessionLive), so revoking
+ *    a session, signing out everywhere or changing the password cuts off its access tokens too
+ *  • Refresh tokens are JWTs (JWT_REFRESH_SECRET) bound to a Session family via `sid`
+ *    and to the family's current rotation via `jti`
+ *  • Every refresh rotates `jti`; presenting an older `jti` means the token was replayed,
+ *    so the whole family is revoked
+ */
+import crypto from 'crypto'
+import jwt from 'jsonwebtoken'
+import type { Secret, SignOptions } from 'jsonwebtoken'
+import type { Request, Response } from 'express'
+import { Types } from 'mongoose'
+import Session from '../models/session.js'
+
+/**
+ * JWT secret used for signing access tokens.
+ *
+ * This secret should be a secure, unpredictable string and kept confidential.
+ * It is used to sign and verify JWT access tokens that authenticate users.
+ * Access tokens are short-lived and grant access to protected resources.
+ *
+ * Defaults to 'change_me' if not set in environment variables, which is insecure.
+ * Ensure to set a strong secret in production environments.
+ *
+ * @constant {Secret}
+ */
+const JWT_SECRET: Secret = process.env.JWT_SECRET || 'change_me'
+
+/**
+ * JWT secret used for signing refresh tokens.
+ *
+ * This secret should be distinct from JWT_SECRET and kept confidential.
+ * It is used to sign and verify JWT refresh tokens that allow clients to
+ * obtain new access tokens without re-authenticating.
+ * Refresh tokens are long-lived and must be securely stored.
+ *
+ * Defaults to 'change_me_refresh' if not set in environment variables, which is insecure.
+ * Ensure to set a strong secret in production environments.
+ *
+ * @constant {Secret}
+ */
+const JWT_REFRESH_SECRET: Secret = process.env.JWT_REFRESH_SECRET || 'change_me_refresh'
+
+/**
+ * Access token expiration duration.
+ *
+ * Defines how long the access token remains valid before expiration.
+ * Typically short-lived (e.g., 15 minutes) to limit exposure if compromised.
+ *
+ * Defaults to '15m' if not set via environment variable ACCESS_TOKEN_TTL.
+ *
+ * @constant {SignOptions['expiresIn']}
+ */
+const ACCESS_TOKEN_EXPIRES_IN: SignOptions['expiresIn'] = (process.env.ACCESS_TOKEN_TTL as any) || '15m'
+
+/**
+ * Refresh token expiration duration.
+ *
+ * Defines how long the refresh token (and its session family) remains valid
+ * without being used. Each rotation extends the family by this amount.
+ *
+ * Defaults to '7d' if not set via environment variable REFRESH_TOKEN_TTL.
+ *
+ * @constant {SignOptions['expiresIn']}
+ */
+const REFRESH_TOKEN_EXPIRES_IN: SignOptions['expiresIn'] = (process.env.REFRESH_TOKEN_TTL as any) || '7d'
+
+/**
+ * Secret for sign-in challenge tokens (password accepted, second factor pending).
+ * Derived from JWT_SECRET but distinct, so a challenge can never pass as an access token.
+ */
+const LOGIN_CHALLENGE_SECRET: Secret = `${String(JWT_SECRET)}:login-challenge`
+
+/** How long the user has to enter their second factor after the password step */
+const LOGIN_CHALLENGE_EXPIRES_IN: SignOptions['expiresIn'] = '5m'
+
+/** Cookie lifetime; matches the default refresh token lifetime */
+const REFRESH_COOKIE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000
+
+export type TokenUser = { _id: { toString(): string }; username: string; isGuest?: boolean }
+
+export type RefreshPayload = { _id: string; username: string; sid: string; jti: string; guest?: boolean }
+
+/** Claims shared by access and refresh tokens; `guest` lets middleware gate guests without a DB read */
+function baseClaims(user: TokenUser) {
+  return { _id: String(user._id), username: user.username, ...(user.isGuest ? { guest: true } : {}) }
+}
+
+/** Access tokens carry `sid` so handlers can tell which session (device) made the request */
+export function signAccessToken(user: TokenUser, sid?: string): string {
+  return jwt.sign({ ...baseClaims(user), ...(sid ? { sid } : {}) }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_EXPIRES_IN })
+}
+
+function signRefreshToken(user: TokenUser, sid: string, jti: string): string {
+  return jwt.sign({ ...baseClaims(user), sid, jti }, JWT_REFRESH_SECRET, { expiresIn: REFRESH_TOKEN_EXPIRES_IN })
+}
+
+/** Verify signature + expiry of a refresh token; returns undefined for anything malformed */
+export function verifyRefreshToken(token: string): RefreshPayload | undefined {
+  try {
+    const data = jwt.verify(token, JWT_REFRESH_SECRET, { algorithms: ['HS256'] }) as any
+    if (typeof data !== 'object' || typeof data._id !== 'string') return undefined
+    if (typeof data.sid !== 'string' || typeof data.jti !== 'string') return undefined
+    if (!Types.ObjectId.isValid(data.sid)) return undefined
+    return {
+      _id: data._id,
+      username: typeof data.username === 'string' ? data.username : '',
+      sid: data.sid,
+      jti: data.jti,
+      ...(data.guest === true ? { guest: true } : {}),
+    }
+  } catch {
+    return undefined
+  }
+}
+
+/** Short-lived proof that the password step of a sign-in succeeded */
+export function signLoginChallenge(user: TokenUser): string {
+  return jwt.sign({ _id: String(user._id), purpose: 'login_2fa' }, LOGIN_CHALLENGE_SECRET, { expiresIn: LOGIN_CHALLENGE_EXPIRES_IN })
+}
+
+export function verifyLoginChallenge(token: string): { _id: string } | undefined {
+  try {
+    const data = jwt.verify(token, LOGIN_CHALLENGE_SECRET, { algorithms: ['HS256'] }) as any
+    if (typeof data !== 'object' || data.purpose !== 'login_2fa' || !Types.ObjectId.isValid(data._id)) return undefined
+    return { _id: data._id }
+  } catch {
+    return undefined
+  }
+}
+
+/** Read the refresh token from the signed (or legacy unsigned) `rt` cookie */
+export function readRefreshCookie(req: Request): string | undefined {
+  return (req as any).signedCookies?.rt || (req as any).cookies?.rt || undefined
+}
+
+/** Set refresh token in a signed, httpOnly cookie to prevent client-side access and tampering */
+function setRefreshCookie(res: Response, token: string) {
+  res.cookie('rt', token, {
+    httpOnly: true,
+    signed: true,
+    secure: process.env.NODE_ENV === 'production', // Use secure cookies in production
+    sameSite: process.env.NODE_ENV === 'production' ? 'strict' : 'lax',
+    maxAge: REFRESH_COOKIE_MAX_AGE_MS,
+    path: '/',
+  })
+}
+
+export function clearRefreshCookie(res: Response) {
+  res.clearCookie('rt', { path: '/' })
+}
+
+function newTokenId() {
+  return crypto.randomBytes(16).toString('hex')
+}
+
+/**
+ * maskIp
+ *  • IPv4 keeps the /24 ("203.0.113.x"), IPv6 keeps the /48 ("2001:db8:1::/48")
+ *  • Enough to recognise "home" vs "somewhere else" without storing a precise address
+ */
+export function maskIp(raw: string | undefined): string {
+  if (!raw) return ''
+  const ip = raw.replace(/^::ffff:/, '')
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(ip)) return ip.split('.').slice(0, 3).join('.') + '.x'
+  if (ip.includes(':')) return ip.split(':').slice(0, 3).join(':') + '::/48'
+  return ''
+}
+
+/** Short human label for a user agent, e.g. "Firefox on Windows" */
+export function describeUserAgent(ua: string): string {
+  if (!ua) return 'Unknown device'
+  const browser =
+    /Edg\//.test(ua) ? 'Edge'
+    : /OPR\/|Opera/.test(ua) ? 'Opera'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Safari\//.test(ua) ? 'Safari'
+    : /curl|wget|python|node|axios/i.test(ua) ? 'Script'
+    : 'Browser'
+  const os =
+    /Android/.test(ua) ? 'Android'
+    : /iPhone|iPad|iPod/.test(ua) ? 'iOS'
+    : /Windows/.test(ua) ? 'Windows'
+    : /Mac OS X|Macintosh/.test(ua) ? 'macOS'
+    : /Linux/.test(ua) ? 'Linux'
+    : ''
+  return os ? `${browser} on ${os}` : browser
+}
+
+/**
+ * startSession
+ *  • Creates a new session family for the user (login, signup, recovery, guest bootstrap)
+ *  • Records user agent and coarse IP for the active sessions list
+ *  • Sets the `rt` cookie and returns a fresh access token
+ */
+export async function startSession(req: Request, res: Response, user: TokenUser): Promise<{ accessToken: string; sessionId: string }> {
+  const jti = newTokenId()
+  const session = await Session.create({
+    user: user._id,
+    tokenId: jti,
+    userAgent: String(req.get('user-agent') || '').slice(0, 256),
+    ip: maskIp(req.ip),
+    lastUsedAt: new Date(),
+    expiresAt: new Date(Date.now() + REFRESH_COOKIE_MAX_AGE_MS),
+  })
+  const sid = String(session._id)
+  setRefreshCookie(res, signRefreshToken(user, sid, jti))
+  return { accessToken: signAccessToken(user, sid), sessionId: sid }
+}
+
+export type RotateResult =
+  | { ok: true; accessToken: string; userId: string; sessionId: string }
+  | { ok: false; reason: 'invalid' | 'revoked' | 'reused' }
+
+/**
+ * rotateSession
+ *  • Atomically swaps the family's current `jti` for a new one and re-issues both tokens
+ *  • A valid token with a stale `jti` is a replay: the family is revoked and the caller must log in again
+ */
+export async function rotateSession(res: Response, payload: RefreshPayload, user: TokenUser): Promise<RotateResult> {
+  if (payload._id !== String(user._id)) return { ok: false, reason: 'invalid' }
+
+  const next = newTokenId()
+  const rotated = await Session.findOneAndUpdate(
+    { _id: payload.sid, user: payload._id, tokenId: payload.jti, revokedAt: null },
+    { $set: { tokenId: next, lastUsedAt: new Date(), expiresAt: new Date(Date.now() + REFRESH_COOKIE_MAX_AGE_MS) } },
+    { new: true }
+  )
+
+  if (!rotated) {
+    const existing = await Session.findOne({ _id: payload.sid, user: payload._id }).select('revokedAt').lean<{ revokedAt?: Date | null }>()
+    if (!existing) return { ok: false, reason: 'invalid' }
+    if (existing.revokedAt) return { ok: false, reason: 'revoked' }
+    // Signature is valid and the family is live, but this jti was already rotated away → replay
+    await revokeSession(payload.sid, 'reuse_detected')
+    console.warn('⚠️ Refresh token reuse detected; session family revoked', { sid: payload.sid, user: payload._id })
+    return { ok: false, reason: 'reused' }
+  }
+
+  setRefreshCookie(res, signRefreshToken(user, payload.sid, next))
+  return { ok: true, accessToken: signAccessToken(user, payload.sid), userId: payload._id, sessionId: payload.sid }
+}
+
+/**
+ * isSessionTokenActive
+ *  • Used by authenticateJWT when the `rt` cookie is presented directly
+ *  • Does not rotate; only accepts the family's current token
+ */
+export async function isSessionTokenActive(payload: RefreshPayload): Promise<boolean> {
+  const found = await Session.exists({ _id: payload.sid, user: payload._id, tokenId: payload.jti, revokedAt: null, expiresAt: { $gt: new Date() } })
+  return !!found
+}
+
+/**
+ * Live sessions seen recently by isAccessSessionLive, so an access token doesn't cost a read
+ * on every request. Revocations in this process drop their entries at once; another instance's
+ * revocation takes effect within LIVE_CACHE_MS.
+ */
+const LIVE_CACHE_MS = 30 * 1000
+const LIVE_CACHE_MAX = 10000
+const liveSessions = new Map<string, { user: string; until: number }>()
+
+function forgetLiveSessions(match: (sid: string, user: string) => boolean) {
+  for (const [sid, entry] of liveSessions) if (match(sid, entry.user)) liveSessions.delete(sid)
+}
+
+/**
+ * isAccessSessionLive
+ *  • Used by authenticateJWT for bearer access tokens: the session family named by `sid` must
+ *    belong to the token's user and be neither revoked nor expired
+ */
+export async function isAccessSessionLive(userId: string, sessionId: string): Promise<boolean> {
+  const cached = liveSessions.get(sessionId)
+  if (cached && cached.user === userId && cached.until > Date.now()) return true
+  if (!Types.ObjectId.isValid(sessionId)) return false
+
+  const found = await Session.exists({ _id: sessionId, user: userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+  if (!found) {
+    liveSessions.delete(sessionId)
+    return false
+  }
+  if (liveSessions.size >= LIVE_CACHE_MAX) liveSessions.clear()
+  liveSessions.set(sessionId, { user: userId, until: Date.now() + LIVE_CACHE_MS })
+  return true
+}
+
+/** Bump lastUsedAt at most every few minutes so cookie-authenticated reads don't write on every request */
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000
+
+export async function touchSession(sessionId: string) {
+  const now = new Date()
+  await Session.updateOne(
+    { _id: sessionId, lastUsedAt: { $lt: new Date(now.getTime() - TOUCH_INTERVAL_MS) } },
+    { $set: { lastUsedAt: now } }
+  )
+}
+
+/** Revoke one session; scoping by user makes this safe to call with a client-supplied id */
+export async function revokeSession(sessionId: string, reason = 'logout', userId?: { toString(): string }) {
+  const filter: Record<string, unknown> = { _id: sessionId, revokedAt: null }
+  if (userId) filter.user = String(userId)
+  const r = await Session.updateOne(filter, { $set: { revokedAt: new Date(), revokedReason: reason } })
+  liveSessions.delete(sessionId)
+  return r.modifiedCount > 0
+}
+
+export type SessionSummary = {
+  id: string
+  device: string
+  userAgent: string
+  ip: string
+  createdAt: Date
+  lastUsedAt: Date
+  current: boolean
+}
+
+/** Live sessions of a user, most recently used first */
+export async function listSessions(userId: { toString(): string }, currentSessionId?: string): Promise<SessionSummary[]> {
+  const docs = await Session.find({ user: String(userId), revokedAt: null, expiresAt: { $gt: new Date() } })
+    .sort({ lastUsedAt: -1 })
+    .lean<Array<{ _id: unknown; userAgent?: string; ip?: string; createdAt: Date; lastUsedAt: Date }>>()
+  return docs.map((d) => ({
+    id: String(d._id),
+    device: describeUserAgent(d.userAgent || ''),
+    userAgent: d.userAgent || '',
+    ip: d.ip || '',
+    createdAt: d.createdAt,
+    lastUsedAt: d.lastUsedAt,
+    current: !!currentSessionId && String(d._id) === currentSessionId,
+  }))
+}
+
+/** Revoke every live session of a user, optionally keeping one (e.g. the caller's own) */
+export async function revokeAllSessions(userId: { toString(): string }, reason: string, exceptSessionId?: string) {
+  const filter: Record<string, unknown> = { user: String(userId), revokedAt: null }
+  if (exceptSessionId) filter._id = { $ne: exceptSessionId }
+  const r = await Session.updateMany(filter, { $set: { revokedAt: new Date(), revokedReason: reason } })
+  forgetLiveSessions((sid, user) => user === String(userId) && sid !== exceptSessionId)
+  return r.modifiedCount
+}
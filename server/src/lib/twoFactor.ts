@@ -0,0 +1,100 @@
+/**
+ * Two-factor state of an account (TOTP + backup codes), on top of the primitives in lib/totp.ts.
+ *
+ *  • Enrollment is two-phase: a pending secret is stored and only becomes active once the
+ *    user proves their app produces valid codes; re-enrolling replaces the active secret
+ *  • Confirming (re-)enrollment issues a fresh set of backup codes, invalidating old ones
+ *  • Second-factor checks are atomic conditional updates, so a code or backup code can be
+ *    used exactly once even under concurrent requests
+ */
+import User from '../models/user.js'
+import { generateBackupCodes, generateTotpSecret, hashBackupCode, isBackupCodeFormat, totpUri, verifyTotp } from './totp.js'
+
+export type TwoFactorStatus = { enabled: boolean; enabledAt: Date | null; backupCodesRemaining: number }
+
+export async function getTwoFactorStatus(userId: { toString(): string }): Promise<TwoFactorStatus> {
+  const u = await User.findById(String(userId))
+    .select('totpEnabledAt +totpBackupCodes')
+    .lean<{ totpEnabledAt?: Date | null; totpBackupCodes?: string[] }>()
+  return {
+    enabled: !!u?.totpEnabledAt,
+    enabledAt: u?.totpEnabledAt ?? null,
+    backupCodesRemaining: u?.totpEnabledAt ? u.totpBackupCodes?.length ?? 0 : 0,
+  }
+}
+
+/** Whether sign-in needs a second step for this user */
+export function isTwoFactorEnabled(user: { totpEnabledAt?: Date | null }): boolean {
+  return !!user.totpEnabledAt
+}
+
+/** Start (re-)enrollment: store a pending secret and return what the authenticator app needs */
+export async function beginTotpEnrollment(userId: { toString(): string }, username: string) {
+  const secret = generateTotpSecret()
+  await User.updateOne({ _id: String(userId) }, { $set: { totpPendingSecret: secret } })
+  return { secret, otpauthUri: totpUri(secret, username) }
+}
+
+/**
+ * confirmTotpEnrollment
+ *  • Verifies a first code against the pending secret and activates it
+ *  • Returns the new plaintext backup codes (shown once), or null for a wrong code
+ *    or when no enrollment is pending
+ */
+export async function confirmTotpEnrollment(userId: { toString(): string }, code: string): Promise<string[] | null> {
+  const u = await User.findById(String(userId))
+    .select('+totpPendingSecret')
+    .lean<{ totpPendingSecret?: string | null }>()
+  const pending = u?.totpPendingSecret
+  if (!pending) return null
+
+  const step = verifyTotp(pending, code)
+  if (step === null) return null
+
+  const { codes, hashes } = generateBackupCodes()
+  const r = await User.updateOne(
+    { _id: String(userId), totpPendingSecret: pending },
+    {
+      $set: { totpSecret: pending, totpPendingSecret: null, totpEnabledAt: new Date(), totpLastStep: step, totpBackupCodes: hashes },
+    }
+  )
+  return r.modifiedCount > 0 ? codes : null
+}
+
+export async function disableTwoFactor(userId: { toString(): string }) {
+  await User.updateOne(
+    { _id: String(userId) },
+    { $set: { totpSecret: null, totpPendingSecret: null, totpEnabledAt: null, totpLastStep: null, totpBackupCodes: [] } }
+  )
+}
+
+/**
+ * verifySecondFactor
+ *  • Accepts a current TOTP code or one unused backup code
+ *  • Returns which kind matched (and consumes it), or null
+ */
+export async function verifySecondFactor(userId: { toString(): string }, code: string): Promise<'totp' | 'backup' | null> {
+  const id = String(userId)
+
+  // 8-char backup codes and 6-digit TOTP codes can't be confused
+  if (isBackupCodeFormat(code)) {
+    const hash = hashBackupCode(code)
+    const r = await User.updateOne({ _id: id, totpEnabledAt: { $ne: null }, totpBackupCodes: hash }, { $pull: { totpBackupCodes: hash } })
+    return r.modifiedCount > 0 ? 'backup' : null
+  }
+
+  const u = await User.findById(id)
+    .select('+totpSecret +totpLastStep')
+    .lean<{ totpSecret?: string | null; totpLastStep?: number | null }>()
+  if (!u?.totpSecret) return null
+
+  const step = verifyTotp(u.totpSecret, code, u.totpLastStep)
+  if (step === null) return null
+
+  // Only advance forward: a concurrent request with the same code loses here
+  const r = await User.updateOne(
+    { _id: id, $or: [{ totpLastStep: null }, { totpLastStep: { $lt: step } }] },
+    { $set: { totpLastStep: step } }
+  )
+  return r.modifiedCount > 0 ? 'totp' : null
+}
@@ -0,0 +1,106 @@
+/**
+ * Username changes.
+ *
+ *  • Tweets, embedded comments and reposts reference authors by username, so a rename moves
+ *    every reference over (renameUsernameReferences). Without multi-document transactions the
+ *    move is made resumable instead: the user keeps `renameFrom` until it has finished, and the
+ *    account sweep completes any rename a crash interrupted
+ *  • The old handle is held for the user for USERNAME_HOLD_DAYS so nobody can impersonate them
+ *    right away, and lookups of it redirect to the new handle (resolveRenamedHandle)
+ *  • Access tokens carry the username they were issued with; handlers that write a username
+ *    use currentUsername() instead so a token from before the rename can't post under the old one
+ */
+import User from '../models/user.js'
+import UsernameHistory from '../models/usernameHistory.js'
+import { ACTIVE_USER_FILTER, isUsernameAvailable, renameUsernameReferences } from './accounts.js'
+
+/** How long an old handle stays reserved for the user who gave it up */
+export const USERNAME_HOLD_DAYS = Number(process.env.USERNAME_HOLD_DAYS) || 30
+const HOLD_MS = USERNAME_HOLD_DAYS * 24 * 60 * 60 * 1000
+
+/** Minimum time between two renames, so one account can't cycle through and hold many handles */
+export const USERNAME_CHANGE_INTERVAL_DAYS = Number(process.env.USERNAME_CHANGE_INTERVAL_DAYS) || 7
+const INTERVAL_MS = USERNAME_CHANGE_INTERVAL_DAYS * 24 * 60 * 60 * 1000
+
+export type ChangeUsernameResult =
+  | { ok: true; from: string; to: string }
+  | { ok: false; reason: 'not_found' | 'unchanged' | 'username_taken' }
+  | { ok: false; reason: 'too_soon'; retryAt: Date }
+
+/** Move references still filed under `renameFrom` and clear the marker */
+async function finishRename(user: { _id: unknown; username: string; renameFrom?: string | null }) {
+  if (!user.renameFrom) return
+  await renameUsernameReferences(user.renameFrom, user.username)
+  await User.updateOne({ _id: user._id, renameFrom: user.renameFrom }, { $set: { renameFrom: null } })
+}
+
+/**
+ * changeUsername
+ *  • Expects `to` already validated by UsernameChangeSchema (trimmed, lowercased)
+ *  • Order: hold the old handle, claim the new one (the unique index settles races), then
+ *    move the content; a failure after the claim is finished by sweepPendingRenames
+ */
+export async function changeUsername(userId: { toString(): string }, to: string, now = new Date()): Promise<ChangeUsernameResult> {
+  const user = await User.findById(String(userId)).select('_id username renameFrom')
+  if (!user) return { ok: false, reason: 'not_found' }
+  const from = user.username
+  if (from === to) return { ok: false, reason: 'unchanged' }
+
+  const last = await UsernameHistory.findOne({ user: user._id }).sort({ changedAt: -1 }).select('changedAt').lean<{ changedAt: Date }>()
+  if (last && now.getTime() - last.changedAt.getTime() < INTERVAL_MS) {
+    return { ok: false, reason: 'too_soon', retryAt: new Date(last.changedAt.getTime() + INTERVAL_MS) }
+  }
+  if (!(await isUsernameAvailable(to, user._id))) return { ok: false, reason: 'username_taken' }
+
+  // A previous rename that never finished has to land before references move again
+  await finishRename(user)
+
+  const held = await UsernameHistory.create({ username: from, user: user._id, changedAt: now, reservedUntil: new Date(now.getTime() + HOLD_MS) })
+  try {
+    const r = await User.updateOne({ _id: user._id, username: from }, { $set: { username: to, renameFrom: from } })
+    if (!r.modifiedCount) throw new Error('username changed concurrently')
+  } catch (err: any) {
+    await UsernameHistory.deleteOne({ _id: held._id })
+    if (err?.code === 11000 || err?.message === 'username changed concurrently') return { ok: false, reason: 'username_taken' }
+    throw err
+  }
+
+  // Taking back one of their own old handles: it is theirs again, not a redirect
+  await UsernameHistory.deleteMany({ user: user._id, username: to })
+  await finishRename({ _id: user._id, username: to, renameFrom: from })
+  return { ok: true, from, to }
+}
+
+/**
+ * resolveRenamedHandle
+ *  • For a handle nobody uses now, the current handle of the last account that gave it up
+ *  • undefined when the handle is in use, was never used, or its old owner is gone/deactivated
+ */
+export async function resolveRenamedHandle(username: string): Promise<string | undefined> {
+  if (await User.exists({ username })) return undefined
+  const last = await UsernameHistory.findOne({ username }).sort({ changedAt: -1 }).select('user').lean<{ user: unknown }>()
+  if (!last) return undefined
+  const owner = await User.findOne({ _id: last.user, ...ACTIVE_USER_FILTER }).select('username').lean<{ username: string }>()
+  return owner?.username
+}
+
+/** The user's handle right now, whatever their access token says */
+export async function currentUsername(userId: { toString(): string }): Promise<string | undefined> {
+  const u = await User.findById(String(userId)).select('username').lean<{ username: string }>()
+  return u?.username
+}
+
+/** Finish renames a crash or failed write left half-done */
+export async function sweepPendingRenames(): Promise<number> {
+  const pending = await User.find({ renameFrom: { $ne: null } })
+    .select('_id username renameFrom')
+    .lean<Array<{ _id: unknown; username: string; renameFrom: string }>>()
+  for (const u of pending) {
+    try {
+      await finishRename(u)
+    } catch (err) {
+      console.error('Rename sweep failed:', String(u._id), err)
+    }
+  }
+  return pending.length
+}
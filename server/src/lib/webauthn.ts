@@ -0,0 +1,286 @@
+/**
+ * WebAuthn (passkey) registration and assertion verification.
+ *
+ *  • Implemented on node's crypto: a minimal CBOR decoder for attestation objects and COSE keys,
+ *    and signature checks for ES256, RS256 and EdDSA
+ *  • Attestation is requested as "none": we trust the credential because the signed-in user
+ *    created it, not because of who manufactured the authenticator
+ *  • Challenges live in Mongo and are consumed once (models/webauthnChallenge.ts)
+ *  • Relying party settings come from WEBAUTHN_RP_ID, WEBAUTHN_RP_NAME and WEBAUTHN_ORIGINS
+ */
+import crypto from 'crypto'
+import WebAuthnChallenge from '../models/webauthnChallenge.js'
+
+export const RP_ID = process.env.WEBAUTHN_RP_ID || 'localhost'
+export const RP_NAME = process.env.WEBAUTHN_RP_NAME || 'Tweaker'
+
+/** Frontend origins allowed to run ceremonies (comma separated) */
+const ORIGINS = new Set(
+  (process.env.WEBAUTHN_ORIGINS || [process.env.CORS_ORIGIN || 'http://localhost:5173', 'http://localhost:5174', 'http://localhost:4173'].join(','))
+    .split(',')
+    .map((o) => o.trim())
+    .filter(Boolean)
+)
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000
+const TIMEOUT_MS = 60 * 1000
+
+/** COSE algorithm identifiers we can verify, in order of preference */
+const COSE_ALG_ES256 = -7
+const COSE_ALG_EDDSA = -8
+const COSE_ALG_RS256 = -257
+export const SUPPORTED_ALGS = [COSE_ALG_ES256, COSE_ALG_EDDSA, COSE_ALG_RS256]
+
+// ── CBOR ────────────────────────────────
+
+export type CborValue = number | bigint | string | boolean | null | undefined | Buffer | CborValue[] | Map<CborValue, CborValue>
+
+/** Decodes one CBOR item at `offset`; returns the value and the offset just past it */
+export function decodeCbor(buf: Buffer, offset = 0): [CborValue, number] {
+  if (offset >= buf.length) throw new Error('cbor: unexpected end')
+  const initial = buf[offset++]
+  const major = initial >> 5
+  const info = initial & 0x1f
+
+  let length: number
+  if (info < 24) length = info
+  else if (info === 24) { length = buf.readUInt8(offset); offset += 1 }
+  else if (info === 25) { length = buf.readUInt16BE(offset); offset += 2 }
+  else if (info === 26) { length = buf.readUInt32BE(offset); offset += 4 }
+  else if (info === 27) { length = Number(buf.readBigUInt64BE(offset)); offset += 8 }
+  else throw new Error('cbor: indefinite lengths are not supported')
+
+  switch (major) {
+    case 0: return [length, offset]
+    case 1: return [-1 - length, offset]
+    case 2: return [buf.subarray(offset, offset + length), offset + length]
+    case 3: return [buf.subarray(offset, offset + length).toString('utf8'), offset + length]
+    case 4: {
+      const arr: CborValue[] = []
+      for (let i = 0; i < length; i++) {
+        const [v, next] = decodeCbor(buf, offset)
+        arr.push(v)
+        offset = next
+      }
+      return [arr, offset]
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>()
+      for (let i = 0; i < length; i++) {
+        const [k, afterKey] = decodeCbor(buf, offset)
+        const [v, afterValue] = decodeCbor(buf, afterKey)
+        map.set(k, v)
+        offset = afterValue
+      }
+      return [map, offset]
+    }
+    case 7:
+      if (info === 20) return [false, offset]
+      if (info === 21) return [true, offset]
+      if (info === 22) return [null, offset]
+      if (info === 23) return [undefined, offset]
+      throw new Error('cbor: unsupported simple value')
+    default:
+      throw new Error('cbor: unsupported major type')
+  }
+}
+
+// ── Authenticator data ────────────────────────────────
+
+const FLAG_UP = 0x01
+const FLAG_UV = 0x04
+const FLAG_AT = 0x40
+
+type AuthData = {
+  rpIdHash: Buffer
+  flags: number
+  signCount: number
+  credentialId?: Buffer
+  cosePublicKey?: Map<CborValue, CborValue>
+}
+
+function parseAuthData(buf: Buffer): AuthData {
+  if (buf.length < 37) throw new Error('authData too short')
+  const rpIdHash = buf.subarray(0, 32)
+  const flags = buf[32]
+  const signCount = buf.readUInt32BE(33)
+  if (!(flags & FLAG_AT)) return { rpIdHash, flags, signCount }
+
+  // attested credential data: aaguid (16) | credIdLen (2) | credId | COSE key
+  let offset = 37 + 16
+  const idLen = buf.readUInt16BE(offset)
+  offset += 2
+  const credentialId = buf.subarray(offset, offset + idLen)
+  offset += idLen
+  const [key] = decodeCbor(buf, offset)
+  if (!(key instanceof Map)) throw new Error('credential public key is not a COSE map')
+  return { rpIdHash, flags, signCount, credentialId, cosePublicKey: key }
+}
+
+/** COSE_Key → JWK, for the key types matching SUPPORTED_ALGS */
+function coseToJwk(cose: Map<CborValue, CborValue>): { alg: number; jwk: crypto.JsonWebKey } {
+  const kty = cose.get(1)
+  const alg = cose.get(3)
+  const b64 = (v: CborValue) => {
+    if (!Buffer.isBuffer(v)) throw new Error('malformed COSE key')
+    return v.toString('base64url')
+  }
+  if (kty === 2 && alg === COSE_ALG_ES256 && cose.get(-1) === 1) {
+    return { alg, jwk: { kty: 'EC', crv: 'P-256', x: b64(cose.get(-2)), y: b64(cose.get(-3)) } }
+  }
+  if (kty === 1 && alg === COSE_ALG_EDDSA && cose.get(-1) === 6) {
+    return { alg, jwk: { kty: 'OKP', crv: 'Ed25519', x: b64(cose.get(-2)) } }
+  }
+  if (kty === 3 && alg === COSE_ALG_RS256) {
+    return { alg, jwk: { kty: 'RSA', n: b64(cose.get(-1)), e: b64(cose.get(-2)) } }
+  }
+  throw new Error('unsupported credential algorithm')
+}
+
+function verifySignature(alg: number, jwk: crypto.JsonWebKey, data: Buffer, signature: Buffer): boolean {
+  const key = crypto.createPublicKey({ key: jwk, format: 'jwk' })
+  if (alg === COSE_ALG_ES256) return crypto.verify('sha256', data, { key, dsaEncoding: 'der' }, signature)
+  if (alg === COSE_ALG_RS256) return crypto.verify('sha256', data, key, signature)
+  if (alg === COSE_ALG_EDDSA) return crypto.verify(null, data, key, signature)
+  return false
+}
+
+// ── Client data + challenges ────────────────────────────────
+
+type ClientData = { type: string; challenge: string; origin: string; crossOrigin?: boolean }
+
+function parseClientData(b64: string, type: 'webauthn.create' | 'webauthn.get'): ClientData {
+  const data = JSON.parse(Buffer.from(b64, 'base64url').toString('utf8')) as ClientData
+  if (data.type !== type) throw new Error('unexpected ceremony type')
+  if (!ORIGINS.has(data.origin)) throw new Error('origin not allowed')
+  if (data.crossOrigin) throw new Error('cross-origin ceremonies are not allowed')
+  return data
+}
+
+function rpIdHash(): Buffer {
+  return crypto.createHash('sha256').update(RP_ID).digest()
+}
+
+async function issueChallenge(purpose: 'register' | 'login', userId?: { toString(): string }): Promise<string> {
+  const challenge = crypto.randomBytes(32).toString('base64url')
+  await WebAuthnChallenge.create({
+    challenge,
+    purpose,
+    user: userId ? String(userId) : null,
+    expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS),
+  })
+  return challenge
+}
+
+/** Atomically consume a challenge; false when unknown, expired, already used or bound to someone else */
+async function consumeChallenge(challenge: string, purpose: 'register' | 'login', userId?: { toString(): string }): Promise<boolean> {
+  const filter: Record<string, unknown> = { challenge, purpose, expiresAt: { $gt: new Date() } }
+  if (userId) filter.user = String(userId)
+  return !!(await WebAuthnChallenge.findOneAndDelete(filter))
+}
+
+// ── Ceremonies ────────────────────────────────
+
+export type RegistrationResponse = {
+  id: string
+  type: string
+  response: { clientDataJSON: string; attestationObject: string; transports?: string[] }
+}
+
+export type AssertionResponse = {
+  id: string
+  type: string
+  response: { clientDataJSON: string; authenticatorData: string; signature: string; userHandle?: string | null }
+}
+
+/** PublicKeyCredentialCreationOptions (binary fields base64url-encoded) */
+export async function registrationOptions(user: { _id: { toString(): string }; username: string; fullName: string }, excludeCredentialIds: string[]) {
+  return {
+    challenge: await issueChallenge('register', user._id),
+    rp: { id: RP_ID, name: RP_NAME },
+    user: { id: Buffer.from(String(user._id)).toString('base64url'), name: user.username, displayName: user.fullName || user.username },
+    pubKeyCredParams: SUPPORTED_ALGS.map((alg) => ({ type: 'public-key', alg })),
+    timeout: TIMEOUT_MS,
+    attestation: 'none',
+    authenticatorSelection: { residentKey: 'required', requireResidentKey: true, userVerification: 'preferred' },
+    excludeCredentials: excludeCredentialIds.map((id) => ({ type: 'public-key', id })),
+  }
+}
+
+export type VerifiedRegistration = { credentialId: string; publicKey: string; alg: number; signCount: number; transports: string[] }
+
+/** Checks a navigator.credentials.create() result; throws with a short reason when it is not acceptable */
+export async function verifyRegistration(userId: { toString(): string }, cred: RegistrationResponse): Promise<VerifiedRegistration> {
+  if (cred?.type !== 'public-key' || !cred.response?.clientDataJSON || !cred.response?.attestationObject) {
+    throw new Error('malformed credential')
+  }
+  const clientData = parseClientData(cred.response.clientDataJSON, 'webauthn.create')
+  if (!(await consumeChallenge(clientData.challenge, 'register', userId))) throw new Error('challenge expired')
+
+  const [attestation] = decodeCbor(Buffer.from(cred.response.attestationObject, 'base64url'))
+  const authDataRaw = attestation instanceof Map ? attestation.get('authData') : undefined
+  if (!Buffer.isBuffer(authDataRaw)) throw new Error('malformed attestation')
+
+  const authData = parseAuthData(authDataRaw)
+  if (!authData.rpIdHash.equals(rpIdHash())) throw new Error('relying party mismatch')
+  if (!(authData.flags & FLAG_UP)) throw new Error('user presence required')
+  if (!authData.credentialId || !authData.cosePublicKey) throw new Error('no credential data')
+
+  const { alg, jwk } = coseToJwk(authData.cosePublicKey)
+  crypto.createPublicKey({ key: jwk, format: 'jwk' }) // throws for an invalid point/modulus
+  return {
+    credentialId: authData.credentialId.toString('base64url'),
+    publicKey: JSON.stringify(jwk),
+    alg,
+    signCount: authData.signCount,
+    transports: Array.isArray(cred.response.transports) ? cred.response.transports.filter((t) => typeof t === 'string').slice(0, 8) : [],
+  }
+}
+
+/** PublicKeyCredentialRequestOptions; empty allowCredentials lets the browser offer discoverable passkeys */
+export async function authenticationOptions(allowCredentialIds: string[] = []) {
+  return {
+    challenge: await issueChallenge('login'),
+    rpId: RP_ID,
+    timeout: TIMEOUT_MS,
+    userVerification: 'preferred',
+    allowCredentials: allowCredentialIds.map((id) => ({ type: 'public-key', id })),
+  }
+}
+
+/**
+ * verifyAssertion
+ *  • Checks a navigator.credentials.get() result against the stored credential
+ *  • The userHandle must name the credential's owner (the id registrationOptions gave the
+ *    authenticator); sign-in is discoverable, so the authenticator always returns one
+ *  • Returns the new sign counter and whether the user was verified (PIN/biometric)
+ */
+export async function verifyAssertion(
+  cred: AssertionResponse,
+  stored: { publicKey: string; alg: number; signCount: number },
+  ownerId: { toString(): string }
+): Promise<{ signCount: number; userVerified: boolean }> {
+  if (cred?.type !== 'public-key' || !cred.response?.clientDataJSON || !cred.response?.authenticatorData || !cred.response?.signature) {
+    throw new Error('malformed credential')
+  }
+  if (!cred.response.userHandle || !Buffer.from(cred.response.userHandle, 'base64url').equals(Buffer.from(String(ownerId)))) {
+    throw new Error('user handle mismatch')
+  }
+  const clientData = parseClientData(cred.response.clientDataJSON, 'webauthn.get')
+  if (!(await consumeChallenge(clientData.challenge, 'login'))) throw new Error('challenge expired')
+
+  const authDataRaw = Buffer.from(cred.response.authenticatorData, 'base64url')
+  const authData = parseAuthData(authDataRaw)
+  if (!authData.rpIdHash.equals(rpIdHash())) throw new Error('relying party mismatch')
+  if (!(authData.flags & FLAG_UP)) throw new Error('user presence required')
+
+  const clientDataHash = crypto.createHash('sha256').update(Buffer.from(cred.response.clientDataJSON, 'base64url')).digest()
+  const signed = Buffer.concat([authDataRaw, clientDataHash])
+  const ok = verifySignature(stored.alg, JSON.parse(stored.publicKey), signed, Buffer.from(cred.response.signature, 'base64url'))
+  if (!ok) throw new Error('bad signature')
+
+  // A counter that doesn't move forward means the credential may have been cloned
+  if ((authData.signCount || stored.signCount) && authData.signCount <= stored.signCount) throw new Error('sign counter did not increase')
+
+  return { signCount: authData.signCount, userVerified: !!(authData.flags & FLAG_UV) }
+}
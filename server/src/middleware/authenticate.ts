@@ -1,8 +1,10 @@
 import { Request, Response, NextFunction } from 'express'
 import jwt, { JwtPayload } from 'jsonwebtoken'
+import { isAccessSessionLive, isSessionTokenActive, touchSession, verifyRefreshToken } from '../lib/sessions.js'
+import { isApiToken, resolveApiToken, type ApiScope } from '../lib/apiTokens.js'
 
 // Public types for downstream handlers
-export type AuthUser = { _id: string; username: string }
+export type AuthUser = { _id: string; username: string; sid?: string; guest?: boolean; tokenId?: string; scopes?: ApiScope[] }
 export type RequestWithUser = Request & { user?: AuthUser }
 
 // Secret and safety warning (single-run)
@@ -21,11 +23,16 @@ if (JWT_REFRESH_SECRET === 'change_me_refresh') {
 /**
  * authenticateJWT
  *  • Accepts `Authorization: Bearer <token>` (access token)
+ *  • Or accepts a personal API token `Authorization: Bearer pat_…` (see lib/apiTokens.ts)
  *  • Or accepts signed/unsigned refresh cookie `rt`
  *  • Verifies with HS256 (access uses JWT_SECRET, refresh uses JWT_REFRESH_SECRET)
- *  • Attaches `{ _id, username }` to req.user
+ *  • Refresh cookies must be the current token of a live session family (see lib/sessions.ts)
+ *  • Access tokens must name a session family that is still live, so revoking it (sign out,
+ *    sign out everywhere, password change or reset) cuts them off before they expire
+ *  • Attaches `{ _id, username, sid, guest }` to req.user (`sid` = session the token belongs to, when known;
+ *    `guest` = anonymous identity from POST /auth/anon); API tokens attach `{ tokenId, scopes }` instead of `sid`
  */
-export function authenticateJWT(req: RequestWithUser, res: Response, next: NextFunction) {
+export async function authenticateJWT(req: RequestWithUser, res: Response, next: NextFunction) {
   // 1) Extract token from Authorization header or refresh cookie `rt`
   const auth = req.headers.authorization
   const bearer = auth && /^Bearer\s+/i.test(auth) ? auth.replace(/^Bearer\s+/i, '') : undefined
@@ -48,6 +55,16 @@ export function authenticateJWT(req: RequestWithUser, res: Response, next: NextF
   }
 
   try {
+    if (!isRefresh && isApiToken(token)) {
+      const identity = await resolveApiToken(token)
+      if (!identity) {
+        res.setHeader('WWW-Authenticate', 'Bearer realm="api", error="invalid_token"')
+        return res.status(401).json({ error: 'Invalid token' })
+      }
+      req.user = identity
+      return next()
+    }
+
     const secret = isRefresh ? JWT_REFRESH_SECRET : JWT_SECRET
     const payload = jwt.verify(token, secret, { algorithms: ['HS256'] }) as JwtPayload | string
     const data = typeof payload === 'string' ? undefined : payload
@@ -66,10 +83,81 @@ export function authenticateJWT(req: RequestWithUser, res: Response, next: NextF
       return res.status(401).json({ error: 'Invalid token' })
     }
 
-    req.user = { _id: uid, username: typeof uname === 'string' ? uname : '' }
+    let sid = typeof (data as any).sid === 'string' ? (data as any).sid as string : undefined
+    if (isRefresh) {
+      const session = verifyRefreshToken(token)
+      if (!session || !(await isSessionTokenActive(session))) {
+        res.setHeader('WWW-Authenticate', 'Bearer realm="api", error="invalid_token"')
+        return res.status(401).json({ error: 'Invalid token' })
+      }
+      sid = session.sid
+      touchSession(sid).catch(() => {})
+    } else if (!sid || !(await isAccessSessionLive(uid, sid))) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="api", error="invalid_token"')
+      return res.status(401).json({ error: 'Invalid token' })
+    }
+
+    req.user = { _id: uid, username: typeof uname === 'string' ? uname : '', sid, guest: (data as any).guest === true }
     return next()
   } catch {
     res.setHeader('WWW-Authenticate', 'Bearer realm="api", error="invalid_token"')
     return res.status(401).json({ error: 'Invalid token' })
   }
-}
\ No newline at end of file
+}
+
+/**
+ * viewerId
+ *  • For public reads that personalise a little (e.g. `liked`): the caller's user id, or undefined
+ *  • Signature and expiry only, no session lookup; never use it to authorise a write
+ */
+export function viewerId(req: Request): string | undefined {
+  const auth = req.headers.authorization || ''
+  const bearer = /^Bearer\s+/i.test(auth) ? auth.replace(/^Bearer\s+/i, '') : undefined
+  if (bearer && !isApiToken(bearer)) {
+    try {
+      const data = jwt.verify(bearer, JWT_SECRET, { algorithms: ['HS256'] }) as JwtPayload
+      return typeof data?._id === 'string' ? data._id : undefined
+    } catch {
+      return undefined
+    }
+  }
+  const rt = req.signedCookies?.rt || req.cookies?.rt
+  return typeof rt === 'string' ? verifyRefreshToken(rt)?._id : undefined
+}
+
+/**
+ * requireFullAccount
+ *  • Use after authenticateJWT on routes guests may not use (profile edits, follows,
+ *    credential changes); guests can read, post, reply, like and repost
+ *  • Responds 403 `guest_account` so the client can prompt the guest to sign up
+ */
+export function requireFullAccount(req: RequestWithUser, res: Response, next: NextFunction) {
+  if (req.user?.guest) return res.status(403).json({ error: 'guest_account' })
+  return next()
+}
+
+/**
+ * requireScope
+ *  • Use after authenticateJWT on routes personal API tokens may call
+ *  • Browser sessions pass; a token must carry `scope`, otherwise 403 `insufficient_scope`
+ */
+export function requireScope(scope: ApiScope) {
+  return (req: RequestWithUser, res: Response, next: NextFunction) => {
+    const scopes = req.user?.scopes
+    if (scopes && !scopes.includes(scope)) {
+      res.setHeader('WWW-Authenticate', `Bearer realm="api", error="insufficient_scope", scope="${scope}"`)
+      return res.status(403).json({ error: 'insufficient_scope', scope })
+    }
+    return next()
+  }
+}
+
+/**
+ * requireSession
+ *  • Use after authenticateJWT on account management (credentials, sessions, tokens, profile)
+ *  • Personal API tokens get 403 `session_required`, so a leaked token can't take over the account
+ */
+export function requireSession(req: RequestWithUser, res: Response, next: NextFunction) {
+  if (req.user?.tokenId) return res.status(403).json({ error: 'session_required' })
+  return next()
+}
@@ -28,9 +28,44 @@ export const signupLimiter = createLimiter(
   "Too many signup attempts, please try again later."
 );
 
+// Rate limiter for anonymous guest identities (each call creates a user)
+export const anonLimiter = createLimiter(
+  Number(process.env.RATE_WINDOW_MS) || 15 * 60 * 1000, // default 15 mins
+  Number(process.env.RATE_ANON_MAX) || 10,              // max 10 guests
+  "Too many guest sessions, please try again later."
+);
+
+// Rate limiter for secret-key account recovery
+export const recoverLimiter = createLimiter(
+  Number(process.env.RATE_WINDOW_MS) || 15 * 60 * 1000, // default 15 mins
+  Number(process.env.RATE_RECOVER_MAX) || 5,            // max 5 attempts
+  "Too many recovery attempts, please try again later."
+);
+
+// Rate limiter for password changes (current password can be guessed from a hijacked session)
+export const passwordChangeLimiter = createLimiter(
+  Number(process.env.RATE_WINDOW_MS) || 15 * 60 * 1000, // default 15 mins
+  Number(process.env.RATE_PASSWORD_MAX) || 5,           // max 5 attempts
+  "Too many password change attempts, please try again later."
+);
+
+// Rate limiter for two-factor enrollment and disabling (password + code guessing)
+export const twoFactorLimiter = createLimiter(
+  Number(process.env.RATE_WINDOW_MS) || 15 * 60 * 1000, // default 15 mins
+  Number(process.env.RATE_2FA_MAX) || 10,               // max 10 attempts
+  "Too many two-factor attempts, please try again later."
+);
+
 // Rate limiter for comments
 export const commentLimiter = createLimiter(
   Number(process.env.RATE_COMMENT_WINDOW_MS) || 60 * 1000, // default 1 min
   Number(process.env.RATE_COMMENT_MAX) || 20,              // max 20 attempts
   "Too many comments, please slow down."
-);
\ No newline at end of file
+);
+
+// Rate limiter for media uploads (each one is decoded and re-encoded)
+export const uploadLimiter = createLimiter(
+  Number(process.env.RATE_UPLOAD_WINDOW_MS) || 15 * 60 * 1000, // default 15 mins
+  Number(process.env.RATE_UPLOAD_MAX) || 60,                   // max 60 uploads
+  "Too many uploads, please try again later."
+);
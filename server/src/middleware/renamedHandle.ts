@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express'
+import { resolveRenamedHandle } from '../lib/usernames.js'
+
+/**
+ * redirectRenamedHandle
+ *  • Use as `router.param('username', redirectRenamedHandle)`
+ *  • When `:username` is an old handle of someone who renamed (and nobody has taken it since),
+ *    answers 307 to the same URL with the current handle; 307 keeps the method, so follow/unfollow
+ *    calls land on the right account too
+ *  • Handles in use, and unknown handles, pass through untouched
+ */
+export async function redirectRenamedHandle(req: Request, res: Response, next: NextFunction, value: string) {
+  try {
+    const requested = String(value || '').trim().toLowerCase()
+    const current = requested ? await resolveRenamedHandle(requested) : undefined
+    if (!current) return next()
+
+    // Position of :username in the matched route, e.g. '/user/:username' → 2
+    const segments = req.path.split('/')
+    const at = typeof req.route?.path === 'string' ? req.route.path.split('/').indexOf(':username') : -1
+    if (at < 0 || at >= segments.length) return next()
+    segments[at] = encodeURIComponent(current)
+    const query = req.originalUrl.includes('?') ? req.originalUrl.slice(req.originalUrl.indexOf('?')) : ''
+
+    res.setHeader('Location', `${req.baseUrl}${segments.join('/')}${query}`)
+    return res.status(307).json({ error: 'moved', username: current })
+  } catch (err) {
+    return next(err)
+  }
+}
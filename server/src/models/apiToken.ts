@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document, Types } from "mongoose"
+
+// `dm` can be granted ahead of direct messages so bot tokens keep working once those routes land
+export type ApiScope = "read" | "post" | "engage" | "dm"
+
+/**
+ * A personal access token for bots and scripts (lib/apiTokens.ts).
+ * Only a SHA-256 hash of the secret is stored; the plaintext is shown once at creation.
+ */
+export interface IApiToken extends Document {
+  user: Types.ObjectId
+  name: string
+  scopes: ApiScope[]
+  tokenHash: string
+  // first characters of the token so the user can tell tokens apart in Settings
+  prefix: string
+  lastUsedAt?: Date | null
+  expiresAt?: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const ApiTokenSchema = new Schema<IApiToken>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    name: { type: String, required: true, trim: true },
+    scopes: { type: [String], enum: ["read", "post", "engage", "dm"], default: [] },
+    tokenHash: { type: String, required: true, unique: true },
+    prefix: { type: String, required: true },
+    lastUsedAt: { type: Date, default: null },
+    // null = never expires
+    expiresAt: { type: Date, default: null },
+  },
+  {
+    collection: process.env.MONGO_API_TOKENS_COLLECTION || "apitokens",
+    timestamps: true,
+    versionKey: false,
+  }
+)
+
+// Expired tokens are dropped by Mongo; documents without expiresAt are left alone
+ApiTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+
+export default mongoose.models.ApiToken || mongoose.model<IApiToken>(
+  "ApiToken",
+  ApiTokenSchema,
+  process.env.MONGO_API_TOKENS_COLLECTION || "apitokens"
+)
@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document, Types } from "mongoose"
+import type { IPlace } from "./tweet.js"
+
+/**
+ * A post the user hasn't published yet (lib/drafts.ts): a saved draft, or one scheduled to go
+ * out at `scheduledAt`. The fields mirror the body of POST /posts; uploads it lists are held
+ * via Media.draft. `postId` is chosen up front so a publish that dies half way can tell on
+ * retry whether the post was already made.
+ */
+export interface IDraftMedia {
+  _id: Types.ObjectId
+  alt: string
+}
+
+export interface IDraftPoll {
+  options: string[]
+  durationMinutes: number
+}
+
+export type DraftStatus = "draft" | "scheduled" | "publishing" | "failed"
+
+export interface IDraft extends Document {
+  user: Types.ObjectId
+  /** May be empty until the draft is scheduled or published */
+  text: string
+  quotedId: Types.ObjectId | null
+  media: IDraftMedia[]
+  poll: IDraftPoll | null
+  /** Already coarsened, as the post will store it */
+  place: IPlace | null
+  scheduledAt: Date | null
+  status: DraftStatus
+  /** Why the last publish attempt failed (the createPost reason); set with status "failed" */
+  error: string | null
+  /** When the publisher claimed it; a stale claim is retried */
+  lockedAt: Date | null
+  postId: Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const DraftMediaSchema = new Schema<IDraftMedia>(
+  {
+    _id: { type: Schema.Types.ObjectId, ref: "Media", required: true },
+    alt: { type: String, default: "" },
+  },
+  { _id: false }
+)
+
+const DraftPollSchema = new Schema<IDraftPoll>(
+  {
+    options: { type: [String], required: true },
+    durationMinutes: { type: Number, required: true },
+  },
+  { _id: false }
+)
+
+const DraftPlaceSchema = new Schema<IPlace>(
+  {
+    placeId: { type: String, default: null },
+    name: { type: String, default: null },
+    country: { type: String, default: null },
+    location: {
+      type: { type: String, enum: ["Point"], required: true },
+      coordinates: { type: [Number], required: true },
+    },
+  },
+  { _id: false }
+)
+
+const DraftSchema = new Schema<IDraft>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    text: { type: String, default: "" },
+    quotedId: { type: Schema.Types.ObjectId, ref: "Tweet", default: null },
+    media: { type: [DraftMediaSchema], default: [] },
+    poll: { type: DraftPollSchema, default: null },
+    place: { type: DraftPlaceSchema, default: null },
+    scheduledAt: { type: Date, default: null },
+    status: { type: String, enum: ["draft", "scheduled", "publishing", "failed"], default: "draft" },
+    error: { type: String, default: null },
+    lockedAt: { type: Date, default: null },
+    postId: { type: Schema.Types.ObjectId, required: true, default: () => new Types.ObjectId() },
+  },
+  {
+    collection: process.env.MONGO_DRAFTS_COLLECTION || "drafts",
+    versionKey: false,
+    timestamps: true,
+  }
+)
+
+// Due drafts for the publisher
+DraftSchema.index({ status: 1, scheduledAt: 1 })
+
+export default mongoose.models.Draft || mongoose.model<IDraft>(
+  "Draft",
+  DraftSchema,
+  process.env.MONGO_DRAFTS_COLLECTION || "drafts"
+)
@@ -0,0 +1,37 @@
+import mongoose, { Schema, Document } from "mongoose"
+
+/**
+ * Failed sign-in bookkeeping per username (lib/loginThrottle.ts).
+ * Keyed by the normalized username rather than the user id so unknown usernames are
+ * throttled exactly like real ones and lockouts reveal nothing about which accounts exist.
+ */
+export interface ILoginThrottle extends Document {
+  username: string
+  failures: number
+  lastFailureAt: Date
+  lockedUntil?: Date | null
+  expiresAt: Date
+}
+
+const LoginThrottleSchema = new Schema<ILoginThrottle>(
+  {
+    username: { type: String, required: true, unique: true },
+    failures: { type: Number, default: 0 },
+    lastFailureAt: { type: Date, default: Date.now },
+    lockedUntil: { type: Date, default: null },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    collection: process.env.MONGO_LOGIN_THROTTLE_COLLECTION || "loginthrottles",
+    versionKey: false,
+  }
+)
+
+// Counters are forgotten once the failure window and any lock have passed
+LoginThrottleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+
+export default mongoose.models.LoginThrottle || mongoose.model<ILoginThrottle>(
+  "LoginThrottle",
+  LoginThrottleSchema,
+  process.env.MONGO_LOGIN_THROTTLE_COLLECTION || "loginthrottles"
+)
@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document, Types } from "mongoose"
+
+/**
+ * An uploaded attachment (lib/media.ts). Files live on disk under MEDIA_DIR; this document
+ * records who uploaded them and, once posted, which post they belong to. Uploads that never
+ * make it into a post or a saved draft are swept after a while.
+ */
+export interface IMedia extends Document {
+  owner: Types.ObjectId
+  kind: "image" | "video"
+  mime: string
+  /** Stored file names under MEDIA_DIR; `thumb` is null when no thumbnail could be made */
+  file: string
+  thumb: string | null
+  width: number | null
+  height: number | null
+  /** Video length; null for images */
+  durationSeconds: number | null
+  size: number
+  /** Set when a post claims the upload */
+  post: Types.ObjectId | null
+  /** Set while a saved draft lists the upload; the sweep leaves it alone */
+  draft: Types.ObjectId | null
+  createdAt: Date
+}
+
+const MediaSchema = new Schema<IMedia>(
+  {
+    owner: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    kind: { type: String, enum: ["image", "video"], required: true },
+    mime: { type: String, required: true },
+    file: { type: String, required: true },
+    thumb: { type: String, default: null },
+    width: { type: Number, default: null },
+    height: { type: Number, default: null },
+    durationSeconds: { type: Number, default: null },
+    size: { type: Number, required: true },
+    post: { type: Schema.Types.ObjectId, ref: "Tweet", default: null, index: true },
+    draft: { type: Schema.Types.ObjectId, ref: "Draft", default: null, index: true },
+    createdAt: { type: Date, default: Date.now },
+  },
+  {
+    collection: process.env.MONGO_MEDIA_COLLECTION || "media",
+    versionKey: false,
+  }
+)
+
+// Unclaimed uploads by age, for the sweep
+MediaSchema.index({ post: 1, createdAt: 1 })
+
+export default mongoose.models.Media || mongoose.model<IMedia>(
+  "Media",
+  MediaSchema,
+  process.env.MONGO_MEDIA_COLLECTION || "media"
+)
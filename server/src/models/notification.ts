@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document, Types } from "mongoose"
+
+export type NotificationType = "poll_closed"
+
+/**
+ * Something a user should hear about, listed under Notifications (routes/notifications.ts).
+ * `post` is the post it is about.
+ */
+export interface INotification extends Document {
+  user: Types.ObjectId
+  type: NotificationType
+  post: Types.ObjectId | null
+  readAt: Date | null
+  createdAt: Date
+}
+
+/** How long notifications are kept */
+const RETENTION_DAYS = Number(process.env.NOTIFICATION_RETENTION_DAYS) || 90
+
+const NotificationSchema = new Schema<INotification>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    type: { type: String, enum: ["poll_closed"], required: true },
+    post: { type: Schema.Types.ObjectId, ref: "Tweet", default: null },
+    readAt: { type: Date, default: null },
+  },
+  {
+    collection: process.env.MONGO_NOTIFICATIONS_COLLECTION || "notifications",
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  }
+)
+
+NotificationSchema.index({ user: 1, createdAt: -1, _id: -1 })
+// One notification per event; lets the poll job retry after a crash without duplicating
+NotificationSchema.index({ user: 1, type: 1, post: 1 }, { unique: true })
+NotificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_DAYS * 24 * 60 * 60 })
+
+export default mongoose.models.Notification || mongoose.model<INotification>(
+  "Notification",
+  NotificationSchema,
+  process.env.MONGO_NOTIFICATIONS_COLLECTION || "notifications"
+)
@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document, Types } from "mongoose"
+
+/**
+ * One user's vote in a post's poll (lib/polls.ts). The unique index is what enforces one vote
+ * per user; the tallies live on the post.
+ */
+export interface IPollVote extends Document {
+  post: Types.ObjectId
+  user: Types.ObjectId
+  /** Index into the poll's options */
+  option: number
+  createdAt: Date
+}
+
+const PollVoteSchema = new Schema<IPollVote>(
+  {
+    post: { type: Schema.Types.ObjectId, ref: "Tweet", required: true },
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    option: { type: Number, required: true, min: 0, max: 3 },
+    createdAt: { type: Date, default: Date.now },
+  },
+  {
+    collection: process.env.MONGO_POLL_VOTES_COLLECTION || "pollvotes",
+    versionKey: false,
+  }
+)
+
+PollVoteSchema.index({ post: 1, user: 1 }, { unique: true })
+
+export default mongoose.models.PollVote || mongoose.model<IPollVote>(
+  "PollVote",
+  PollVoteSchema,
+  process.env.MONGO_POLL_VOTES_COLLECTION || "pollvotes"
+)
@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document, Types } from "mongoose"
+
+/**
+ * A repost as a timeline entry: who reposted which post, and when (lib/reposts.ts).
+ * The post's `retweets[]` still carries the count; this collection is what feeds page
+ * through, ordered by repost time.
+ */
+export interface IRepost extends Document {
+  user: Types.ObjectId
+  post: Types.ObjectId
+  createdAt: Date
+}
+
+const RepostSchema = new Schema<IRepost>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    post: { type: Schema.Types.ObjectId, ref: "Tweet", required: true, index: true },
+    createdAt: { type: Date, default: Date.now },
+  },
+  {
+    collection: process.env.MONGO_REPOSTS_COLLECTION || "reposts",
+    versionKey: false,
+  }
+)
+
+// One repost per user and post
+RepostSchema.index({ user: 1, post: 1 }, { unique: true })
+// A user's reposts in timeline order, for profiles and followers' feeds
+RepostSchema.index({ user: 1, createdAt: -1, _id: -1 })
+
+export default mongoose.models.Repost || mongoose.model<IRepost>(
+  "Repost",
+  RepostSchema,
+  process.env.MONGO_REPOSTS_COLLECTION || "reposts"
+)
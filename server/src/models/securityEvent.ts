@@ -0,0 +1,76 @@
+import mongoose, { Schema, Document, Types } from "mongoose"
+
+export type SecurityEventType =
+  | "login"
+  | "login_failed"
+  | "lockout"
+  | "password_changed"
+  | "recovery"
+  | "two_factor_enabled"
+  | "two_factor_disabled"
+  | "backup_code_used"
+  | "passkey_added"
+  | "passkey_removed"
+  | "api_token_created"
+  | "api_token_revoked"
+  | "identity_linked"
+  | "identity_unlinked"
+  | "username_changed"
+
+/**
+ * One entry of a user's security audit log (Settings > Account Privacy and Security).
+ * Device info is stored the same way as on sessions: user agent plus coarsened IP.
+ */
+export interface ISecurityEvent extends Document {
+  user: Types.ObjectId
+  type: SecurityEventType
+  userAgent: string
+  ip: string
+  createdAt: Date
+}
+
+/** How long audit entries are kept */
+const RETENTION_DAYS = Number(process.env.SECURITY_EVENT_RETENTION_DAYS) || 180
+
+const SecurityEventSchema = new Schema<ISecurityEvent>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    type: {
+      type: String,
+      enum: [
+        "login",
+        "login_failed",
+        "lockout",
+        "password_changed",
+        "recovery",
+        "two_factor_enabled",
+        "two_factor_disabled",
+        "backup_code_used",
+        "passkey_added",
+        "passkey_removed",
+        "api_token_created",
+        "api_token_revoked",
+        "identity_linked",
+        "identity_unlinked",
+        "username_changed",
+      ],
+      required: true,
+    },
+    userAgent: { type: String, default: "" },
+    ip: { type: String, default: "" },
+  },
+  {
+    collection: process.env.MONGO_SECURITY_EVENTS_COLLECTION || "securityevents",
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  }
+)
+
+SecurityEventSchema.index({ user: 1, createdAt: -1 })
+SecurityEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_DAYS * 24 * 60 * 60 })
+
+export default mongoose.models.SecurityEvent || mongoose.model<ISecurityEvent>(
+  "SecurityEvent",
+  SecurityEventSchema,
+  process.env.MONGO_SECURITY_EVENTS_COLLECTION || "securityevents"
+)
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document, Types } from "mongoose"
+
+/**
+ * A refresh-token session family.
+ * One document per sign-in; every /refresh rotates `tokenId` in place so
+ * only the most recently issued refresh token of the family is accepted.
+ */
+export interface ISession extends Document {
+  user: Types.ObjectId
+  tokenId: string
+  userAgent: string
+  ip: string
+  lastUsedAt: Date
+  expiresAt: Date
+  revokedAt?: Date | null
+  revokedReason?: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const SessionSchema = new Schema<ISession>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    tokenId: { type: String, required: true },
+    // device info for the sessions list; ip is stored already coarsened (see maskIp)
+    userAgent: { type: String, default: "" },
+    ip: { type: String, default: "" },
+    lastUsedAt: { type: Date, default: Date.now },
+    expiresAt: { type: Date, required: true },
+    revokedAt: { type: Date, default: null },
+    revokedReason: { type: String, default: null },
+  },
+  {
+    collection: process.env.MONGO_SESSIONS_COLLECTION || "authsessions",
+    timestamps: true,
+    versionKey: false,
+  }
+)
+
+// Let Mongo purge families once their last refresh token has expired
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+
+export default mongoose.models.Session || mongoose.model<ISession>(
+  "Session",
+  SessionSchema,
+  process.env.MONGO_SESSIONS_COLLECTION || "authsessions"
+)
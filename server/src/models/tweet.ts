@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Types } from 'mongoose'
+import { MAX_TWEET_LEN, weightedLength } from '../utils/text.js'
 
 export interface IComment {
   _id?: Types.ObjectId
@@ -7,6 +8,50 @@ export interface IComment {
   createdAt: Date
 }
 
+/** A version of the post text that an edit replaced */
+export interface IRevision {
+  text: string
+  /** When this version went up: the post's createdAt for the original, else the edit that wrote it */
+  createdAt: Date
+}
+
+/** An attachment as the post shows it; `_id` is the Media document's (lib/media.ts) */
+export interface IAttachment {
+  _id: Types.ObjectId
+  kind: 'image' | 'video'
+  file: string
+  thumb: string | null
+  width: number | null
+  height: number | null
+  alt: string
+}
+
+export interface IPollOption {
+  text: string
+  votes: number
+}
+
+/** A poll attached at creation (lib/polls.ts); who voted for what is in the PollVote collection */
+export interface IPoll {
+  options: IPollOption[]
+  totalVotes: number
+  closesAt: Date
+  /** Set once the author has been told the poll closed */
+  closedNotifiedAt: Date | null
+}
+
+/**
+ * Where the author said the post was written (lib/places.ts). Coordinates are already coarse:
+ * a gazetteer place's centre or rounded raw coordinates, GeoJSON order [lng, lat].
+ */
+export interface IPlace {
+  /** Gazetteer id; null for raw coordinates */
+  placeId: string | null
+  name: string | null
+  country: string | null
+  location: { type: 'Point'; coordinates: [number, number] }
+}
+
 export interface IRetweet {
   username: string
   createdAt: Date
@@ -16,16 +61,39 @@ export interface ITweet extends Document {
   text: string
   username: string
   likes: Types.ObjectId[]
+  /** Legacy embedded replies; lib/replies.ts moves them into reply posts at startup */
   comments: IComment[]
+  /** Set on replies: the post replied to, and the top of the conversation */
+  parentId: Types.ObjectId | null
+  rootId: Types.ObjectId | null
+  /** Live direct replies, kept in step by reply creation and deletion */
+  replyCount: number
+  /** Set on quote posts: the post being quoted (lib/quotes.ts) */
+  quotedId: Types.ObjectId | null
+  /** Live quotes of this post */
+  quoteCount: number
   retweets: IRetweet[]
+  /** Up to MAX_ATTACHMENTS, in the order the author gave them */
+  media: IAttachment[]
+  poll: IPoll | null
+  /** Opt-in, per post */
+  place: IPlace | null
+  /** Prior versions, oldest first; the current text is not included */
+  revisions: IRevision[]
+  editedAt: Date | null
+  /** Set when the author deleted the post; the document stays behind as a tombstone */
+  deletedAt: Date | null
   createdAt: Date
   updatedAt: Date
 }
 
+// Counted as the Composer counts (utils/postLength.ts), not by UTF-16 length
+const withinPostLength = { validator: (v: string) => !v || weightedLength(v) <= MAX_TWEET_LEN, message: 'text is too long' }
+
 const CommentSchema = new Schema<IComment>(
   {
     username: { type: String, required: true, trim: true, lowercase: true },
-    text: { type: String, required: true, trim: true, maxlength: 280 },
+    text: { type: String, required: true, trim: true, validate: withinPostLength },
     createdAt: { type: Date, default: Date.now }
   }
 )
@@ -38,14 +106,72 @@ const RetweetSchema = new Schema<IRetweet>(
   { _id: false }
 )
 
+const AttachmentSchema = new Schema<IAttachment>(
+  {
+    _id: { type: Schema.Types.ObjectId, required: true },
+    kind: { type: String, enum: ['image', 'video'], required: true },
+    file: { type: String, required: true },
+    thumb: { type: String, default: null },
+    width: { type: Number, default: null },
+    height: { type: Number, default: null },
+    alt: { type: String, default: '', maxlength: 1000 }
+  }
+)
+
+const PollSchema = new Schema<IPoll>(
+  {
+    options: {
+      type: [new Schema<IPollOption>({ text: { type: String, required: true, trim: true, maxlength: 25 }, votes: { type: Number, default: 0 } }, { _id: false })],
+      validate: (v: IPollOption[]) => v.length >= 2 && v.length <= 4
+    },
+    totalVotes: { type: Number, default: 0 },
+    closesAt: { type: Date, required: true },
+    closedNotifiedAt: { type: Date, default: null }
+  },
+  { _id: false }
+)
+
+const PlaceSchema = new Schema<IPlace>(
+  {
+    placeId: { type: String, default: null },
+    name: { type: String, default: null },
+    country: { type: String, default: null },
+    location: {
+      type: { type: String, enum: ['Point'], required: true },
+      coordinates: { type: [Number], required: true }
+    }
+  },
+  { _id: false }
+)
+
+const RevisionSchema = new Schema<IRevision>(
+  {
+    text: { type: String, required: true, validate: withinPostLength },
+    createdAt: { type: Date, required: true }
+  },
+  { _id: false }
+)
+
 const TweetSchema = new Schema<ITweet>(
   {
-    text: { type: String, required: true, trim: true, maxlength: 280 },
+    // Tombstones keep no text
+    text: { type: String, required: function(this: ITweet) { return !this.deletedAt }, trim: true, validate: withinPostLength },
     username: { type: String, required: true, trim: true, lowercase: true, index: true },
     // store user ObjectIds for likes; align with login flow using user._id
     likes: [{ type: Schema.Types.ObjectId, ref: 'User', default: [] }],
     comments: { type: [CommentSchema], default: [] },
-    retweets: { type: [RetweetSchema], default: [] }
+    parentId: { type: Schema.Types.ObjectId, ref: 'Tweet', default: null },
+    rootId: { type: Schema.Types.ObjectId, ref: 'Tweet', default: null },
+    replyCount: { type: Number, default: 0 },
+    quotedId: { type: Schema.Types.ObjectId, ref: 'Tweet', default: null },
+    quoteCount: { type: Number, default: 0 },
+    retweets: { type: [RetweetSchema], default: [] },
+    media: { type: [AttachmentSchema], default: [] },
+    poll: { type: PollSchema, default: null },
+    place: { type: PlaceSchema, default: null },
+    revisions: { type: [RevisionSchema], default: [] },
+    editedAt: { type: Date, default: null },
+    deletedAt: { type: Date, default: null }
   },
   {
     timestamps: true,
@@ -56,10 +182,19 @@ const TweetSchema = new Schema<ITweet>(
   }
 )
 
-// Optimize fetching comments for a tweet in reverse chronological order
-TweetSchema.index({ _id: 1, 'comments.createdAt': -1 })
+// Replies to a post, newest first, for cursor pagination
+TweetSchema.index({ parentId: 1, createdAt: -1, _id: -1 })
+// Everything in one conversation, for the thread view
+TweetSchema.index({ rootId: 1, createdAt: 1 })
+// Quotes of a post, newest first
+TweetSchema.index({ quotedId: 1, createdAt: -1, _id: -1 }, { partialFilterExpression: { quotedId: { $type: 'objectId' } } })
+
+// Closed polls whose author hasn't been notified yet, for the close job
+TweetSchema.index({ 'poll.closesAt': 1 }, { partialFilterExpression: { 'poll.closedNotifiedAt': null } })
+
+// Posts by where they were written, for /posts/nearby; posts without a place aren't indexed
+TweetSchema.index({ 'place.location': '2dsphere' })
 
-TweetSchema.virtual('replyCount').get(function(this: ITweet) { return this.comments?.length || 0 })
 TweetSchema.virtual('likeCount').get(function(this: ITweet) { return this.likes?.length || 0 })
 TweetSchema.virtual('retweetCount').get(function(this: ITweet) { return this.retweets?.length || 0 })
 
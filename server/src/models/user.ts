@@ -1,5 +1,28 @@
 import mongoose, { Schema, Document, ObjectId } from "mongoose"
 
+export type UserStatus = "active" | "deactivated"
+
+/** A registered WebAuthn credential (lib/webauthn.ts) */
+export interface IPasskey {
+  _id: ObjectId
+  credentialId: string
+  publicKey: string
+  alg: number
+  signCount: number
+  transports: string[]
+  name: string
+  createdAt: Date
+  lastUsedAt?: Date | null
+}
+
+/** An external OpenID Connect identity linked to the account (lib/oidc.ts) */
+export interface IExternalIdentity {
+  provider: string
+  subject: string
+  email?: string | null
+  linkedAt: Date
+}
+
 export interface IUser extends Document {
   _id: ObjectId
   fullName: string
@@ -12,8 +35,46 @@ export interface IUser extends Document {
   avatar?: string | null
   followers?: ObjectId[]
   following?: ObjectId[]
+  status: UserStatus
+  deactivatedAt?: Date | null
+  isGuest: boolean
+  isAutomated: boolean
+  totpSecret?: string | null
+  totpPendingSecret?: string | null
+  totpEnabledAt?: Date | null
+  totpLastStep?: number | null
+  totpBackupCodes?: string[]
+  passkeys: IPasskey[]
+  identities: IExternalIdentity[]
+  hasPassword: boolean
+  renameFrom?: string | null
 }
 
+const PasskeySchema = new Schema(
+  {
+    // base64url credential id and public key (JWK JSON) as returned by the authenticator
+    credentialId: { type: String, required: true },
+    publicKey: { type: String, required: true },
+    alg: { type: Number, required: true },
+    signCount: { type: Number, default: 0 },
+    transports: { type: [String], default: [] },
+    name: { type: String, default: "Passkey" },
+    createdAt: { type: Date, default: Date.now },
+    lastUsedAt: { type: Date, default: null }
+  }
+)
+
+const ExternalIdentitySchema = new Schema(
+  {
+    // provider id from OIDC_PROVIDERS and the issuer's `sub` claim
+    provider: { type: String, required: true },
+    subject: { type: String, required: true },
+    email: { type: String, default: null },
+    linkedAt: { type: Date, default: Date.now }
+  },
+  { _id: false }
+)
+
 const UserSchema: Schema = new Schema(
   {
     fullName: { type: String, required: true },
@@ -25,7 +86,26 @@ const UserSchema: Schema = new Schema(
     coverImage: { type: String, default: null },
     avatar: { type: String, default: null },
     followers: [{ type: Schema.Types.ObjectId, ref: "User", index: true }],
-    following: [{ type: Schema.Types.ObjectId, ref: "User", index: true }]
+    following: [{ type: Schema.Types.ObjectId, ref: "User", index: true }],
+    // deactivated accounts are hidden immediately and purged after the grace window (lib/accounts.ts)
+    status: { type: String, enum: ["active", "deactivated"], default: "active", index: true },
+    deactivatedAt: { type: Date, default: null },
+    // anonymous guest identity (POST /auth/anon) until upgraded to a full account
+    isGuest: { type: Boolean, default: false },
+    // set the first time a personal API token is used (lib/apiTokens.ts); shown on the profile
+    isAutomated: { type: Boolean, default: false },
+    // TOTP two-factor (lib/twoFactor.ts); secrets and backup code hashes are never selected by default
+    totpSecret: { type: String, default: null, select: false },
+    totpPendingSecret: { type: String, default: null, select: false },
+    totpEnabledAt: { type: Date, default: null },
+    totpLastStep: { type: Number, default: null, select: false },
+    totpBackupCodes: { type: [String], default: [], select: false },
+    passkeys: { type: [PasskeySchema], default: [] },
+    identities: { type: [ExternalIdentitySchema], default: [] },
+    // false for accounts created through an identity provider: their password is random and unknown
+    hasPassword: { type: Boolean, default: true },
+    // previous handle while its tweets/comments/reposts are still being moved over (lib/usernames.ts)
+    renameFrom: { type: String, default: null }
   },
   {
     collection: process.env.MONGO_COLLECTION || "tweakerdbcollection",
@@ -33,6 +113,14 @@ const UserSchema: Schema = new Schema(
   }
 )
 
+// Passkey sign-in looks the account up by credential id
+UserSchema.index({ "passkeys.credentialId": 1 })
+// One account per external subject; only applies to users that have identities
+UserSchema.index(
+  { "identities.provider": 1, "identities.subject": 1 },
+  { unique: true, partialFilterExpression: { "identities.subject": { $exists: true } } }
+)
+
 export default mongoose.model<IUser>(
   "User",
   UserSchema,
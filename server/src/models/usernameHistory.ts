@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document, Types } from "mongoose"
+
+/**
+ * A handle a user gave up by renaming (lib/usernames.ts).
+ * While `reservedUntil` is in the future nobody else can claim it; entries are kept after that
+ * so links to the old handle keep redirecting until someone else takes it.
+ */
+export interface IUsernameHistory extends Document {
+  username: string
+  user: Types.ObjectId
+  changedAt: Date
+  reservedUntil: Date
+}
+
+const UsernameHistorySchema = new Schema<IUsernameHistory>(
+  {
+    username: { type: String, required: true },
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    changedAt: { type: Date, default: Date.now },
+    reservedUntil: { type: Date, required: true },
+  },
+  {
+    collection: process.env.MONGO_USERNAME_HISTORY_COLLECTION || "usernamehistory",
+    versionKey: false,
+  }
+)
+
+// Old-handle lookups want the most recent owner
+UsernameHistorySchema.index({ username: 1, changedAt: -1 })
+
+export default mongoose.models.UsernameHistory || mongoose.model<IUsernameHistory>(
+  "UsernameHistory",
+  UsernameHistorySchema,
+  process.env.MONGO_USERNAME_HISTORY_COLLECTION || "usernamehistory"
+)
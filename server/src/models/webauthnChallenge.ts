@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document, Types } from "mongoose"
+
+/**
+ * A pending WebAuthn ceremony (lib/webauthn.ts).
+ * Each challenge is consumed exactly once, so a captured registration or assertion
+ * response cannot be replayed even by authenticators that never bump their sign counter.
+ */
+export interface IWebAuthnChallenge extends Document {
+  challenge: string
+  purpose: "register" | "login"
+  user?: Types.ObjectId | null
+  expiresAt: Date
+}
+
+const WebAuthnChallengeSchema = new Schema<IWebAuthnChallenge>(
+  {
+    challenge: { type: String, required: true, unique: true },
+    purpose: { type: String, enum: ["register", "login"], required: true },
+    // registration is bound to the signed-in user; discoverable sign-in has no user yet
+    user: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    collection: process.env.MONGO_WEBAUTHN_CHALLENGES_COLLECTION || "webauthnchallenges",
+    versionKey: false,
+  }
+)
+
+WebAuthnChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+
+export default mongoose.models.WebAuthnChallenge || mongoose.model<IWebAuthnChallenge>(
+  "WebAuthnChallenge",
+  WebAuthnChallengeSchema,
+  process.env.MONGO_WEBAUTHN_CHALLENGES_COLLECTION || "webauthnchallenges"
+)
@@ -0,0 +1,105 @@
+/**
+ * Personal API token routes, mounted at /auth/tokens.
+ * Tokens are created, listed and revoked from a signed-in browser session only; a token
+ * can never mint or revoke tokens itself. Token handling lives in lib/apiTokens.ts.
+ */
+
+import { Router, Response } from 'express'
+import { Types } from 'mongoose'
+import { ApiTokenCreateSchema } from '../schemas/zod.js'
+import { authenticateJWT, requireFullAccount, requireSession, type RequestWithUser } from '../middleware/authenticate.js'
+import { createApiToken, listApiTokens, MAX_API_TOKENS, revokeApiToken } from '../lib/apiTokens.js'
+import { recordSecurityEvent } from '../lib/audit.js'
+
+const router = Router()
+
+/**
+ * GET /auth/tokens
+ *
+ * Lists the caller's personal API tokens.
+ *
+ * Response:
+ * - JSON { items: [{ id, name, scopes, prefix, createdAt, lastUsedAt, expiresAt }] }, newest first.
+ * - Only the first characters of each token (`prefix`) are returned; the secret is never shown again.
+ *
+ * @name ListApiTokens
+ * @route GET /auth/tokens
+ * @middleware authenticateJWT, requireSession
+ */
+router.get('/', authenticateJWT, requireSession, async (req: RequestWithUser, res: Response) => {
+  try {
+    return res.json({ items: await listApiTokens(req.user!._id) })
+  } catch (err) {
+    console.error('List API tokens error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+/**
+ * POST /auth/tokens
+ *
+ * Creates a personal API token for bots and scripts.
+ *
+ * Request:
+ * - Expects JSON body with { name, scopes, expiresInDays? } where scopes is a non-empty
+ *   subset of read, post, engage, dm and expiresInDays is 1–365 (omit for no expiry).
+ *
+ * Response:
+ * - 201 JSON { token, item }. `token` is the plaintext secret, returned only here; clients
+ *   send it as `Authorization: Bearer <token>`.
+ *
+ * Security considerations:
+ * - Using a token marks the account as automated on its public profile.
+ * - Tokens can't reach account management (credentials, sessions, tokens, profile edits).
+ *
+ * Edge cases:
+ * - Returns 400 with the first validation message for a bad payload.
+ * - Returns 400 when the account already has the maximum number of tokens.
+ * - Returns 403 `guest_account` for guests.
+ *
+ * @name CreateApiToken
+ * @route POST /auth/tokens
+ * @middleware authenticateJWT, requireSession, requireFullAccount
+ */
+router.post('/', authenticateJWT, requireSession, requireFullAccount, async (req: RequestWithUser, res: Response) => {
+  try {
+    const input = ApiTokenCreateSchema.parse(req.body)
+    const result = await createApiToken(req.user!._id, input)
+    if (!result.ok) return res.status(400).json({ error: `You can create up to ${MAX_API_TOKENS} tokens` })
+
+    await recordSecurityEvent(req, req.user!._id, 'api_token_created')
+    return res.status(201).json({ token: result.token, item: result.item })
+  } catch (err: any) {
+    if (err?.name === 'ZodError') return res.status(400).json({ error: err.issues?.[0]?.message || 'Invalid payload' })
+    console.error('Create API token error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+/**
+ * DELETE /auth/tokens/:id
+ *
+ * Revokes one of the caller's tokens; requests using it fail with 401 immediately.
+ *
+ * Edge cases:
+ * - Returns 404 when the id is unknown or belongs to another user.
+ *
+ * @name RevokeApiToken
+ * @route DELETE /auth/tokens/:id
+ * @middleware authenticateJWT, requireSession
+ */
+router.delete('/:id', authenticateJWT, requireSession, async (req: RequestWithUser, res: Response) => {
+  try {
+    const { id } = req.params
+    if (!Types.ObjectId.isValid(id) || !(await revokeApiToken(req.user!._id, id))) {
+      return res.status(404).json({ error: 'Token not found' })
+    }
+    await recordSecurityEvent(req, req.user!._id, 'api_token_revoked')
+    return res.json({ ok: true })
+  } catch (err) {
+    console.error('Revoke API token error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+export default router
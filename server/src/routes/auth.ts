@@ -1,153 +1,291 @@
 /**
- * Authentication routes for user signup, login, token refresh, and logout.
- * Handles JWT creation and verification, secure refresh tokens via signed httpOnly cookies,
- * and applies rate limiting middleware to protect against brute-force attacks.
+ * Authentication routes for user signup, anonymous guest identities, login (with optional
+ * TOTP second step), token refresh, logout, secret-key recovery, password changes,
+ * two-factor enrollment, management of the caller's active sessions (signed-in devices)
+ * and the caller's security audit log.
+ * Token issuance and refresh-session bookkeeping live in lib/sessions.ts; these handlers
+ * decide *when* a session starts, rotates or ends, and apply rate limiting middleware
+ * to protect against brute-force attacks.
  */
 
 import { Router, Request, Response } from 'express'
 import bcrypt from 'bcryptjs'
-import jwt from 'jsonwebtoken'
-import type { Secret, SignOptions } from 'jsonwebtoken'
-import { LoginSchema, SignupSchema } from '../schemas/zod.js'
-import User from '../models/user.js'
-import { loginLimiter, signupLimiter } from '../middleware/rateLimit.js'
+import { Types } from 'mongoose'
+import {
+  ChangePasswordSchema,
+  LoginSchema,
+  LoginTwoFactorSchema,
+  RecoverSchema,
+  SignupSchema,
+  TwoFactorDisableSchema,
+  TwoFactorEnableSchema,
+  TwoFactorSetupSchema,
+  UpgradeGuestSchema,
+} from '../schemas/zod.js'
+import User, { type IUser } from '../models/user.js'
+import {
+  anonLimiter,
+  loginLimiter,
+  passwordChangeLimiter,
+  recoverLimiter,
+  signupLimiter,
+  twoFactorLimiter,
+} from '../middleware/rateLimit.js'
+import { authenticateJWT, requireFullAccount, requireSession, type RequestWithUser } from '../middleware/authenticate.js'
+import { generateSecretKey, hashSecretKey, verifySecretKey } from '../lib/recovery.js'
+import { confirmIdentity, createAccount, createGuestAccount, isUsernameAvailable, isWithinGrace, reactivateAccount, REAUTH_WINDOW_MINUTES, upgradeGuestAccount, type ConfirmIdentityResult } from '../lib/accounts.js'
+import { clearLoginFailures, loginRetryAfter, recordLoginFailure } from '../lib/loginThrottle.js'
+import { listSecurityEvents, recordSecurityEvent } from '../lib/audit.js'
+import {
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  verifySecondFactor,
+} from '../lib/twoFactor.js'
+import {
+  clearRefreshCookie,
+  listSessions,
+  readRefreshCookie,
+  revokeAllSessions,
+  revokeSession,
+  rotateSession,
+  signLoginChallenge,
+  startSession,
+  verifyLoginChallenge,
+  verifyRefreshToken,
+} from '../lib/sessions.js'
 
 const router = Router()
-const { sign, verify } = jwt
 
-/**
- * JWT secret used for signing access tokens.
- * 
- * This secret should be a secure, unpredictable string and kept confidential.
- * It is used to sign and verify JWT access tokens that authenticate users.
- * Access tokens are short-lived and grant access to protected resources.
- * 
- * Defaults to 'change_me' if not set in environment variables, which is insecure.
- * Ensure to set a strong secret in production environments.
- * 
- * @constant {Secret}
- */
-const JWT_SECRET: Secret = process.env.JWT_SECRET || 'change_me'
+/** The only error a failed sign-in ever returns, whatever the actual cause */
+const INVALID_CREDENTIALS = 'Invalid username or password'
 
-/**
- * JWT secret used for signing refresh tokens.
- * 
- * This secret should be distinct from JWT_SECRET and kept confidential.
- * It is used to sign and verify JWT refresh tokens that allow clients to
- * obtain new access tokens without re-authenticating.
- * Refresh tokens are long-lived and must be securely stored.
- * 
- * Defaults to 'change_me_refresh' if not set in environment variables, which is insecure.
- * Ensure to set a strong secret in production environments.
- * 
- * @constant {Secret}
- */
-const JWT_REFRESH_SECRET: Secret = process.env.JWT_REFRESH_SECRET || 'change_me_refresh'
+/** Compared against when the username is unknown, so that path costs as much as a real check */
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('tweaker-dummy-password', 10)
 
-/**
- * Access token expiration duration.
- * 
- * Defines how long the access token remains valid before expiration.
- * Typically short-lived (e.g., 15 minutes) to limit exposure if compromised.
- * 
- * Defaults to '15m' if not set via environment variable ACCESS_TOKEN_TTL.
- * 
- * @constant {SignOptions['expiresIn']}
- */
-const ACCESS_TOKEN_EXPIRES_IN: SignOptions['expiresIn'] = (process.env.ACCESS_TOKEN_TTL as any) || '7d'
+/** Answer for a failed confirmIdentity; `reauth_required` asks an account without a password to sign in again */
+function refuseIdentity(res: Response, reason: Extract<ConfirmIdentityResult, { ok: false }>['reason']) {
+  if (reason === 'password_required') return res.status(400).json({ error: 'Password is required' })
+  if (reason === 'wrong_password') return res.status(401).json({ error: 'Password is incorrect' })
+  return res.status(403).json({ error: 'Sign in again to confirm it is you', code: 'reauth_required', windowMinutes: REAUTH_WINDOW_MINUTES })
+}
+
+/** 429 for a locked username; Retry-After in seconds, message rounded up to minutes */
+export function sendLocked(res: Response, retryAfterSec: number) {
+  const minutes = Math.ceil(retryAfterSec / 60)
+  res.setHeader('Retry-After', String(retryAfterSec))
+  return res.status(429).json({
+    error: `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+    retryAfter: retryAfterSec,
+  })
+}
+
+/** Deactivated accounts can sign in (and thereby reactivate) only during the grace window */
+export function canSignIn(user: IUser): boolean {
+  return user.status !== 'deactivated' || isWithinGrace(user.deactivatedAt)
+}
+
+/** Counts a failed sign-in step against the username and audits it when the account exists */
+export async function failLogin(req: Request, username: string, user?: IUser | null) {
+  const { lockedUntil } = await recordLoginFailure(username)
+  if (user) {
+    await recordSecurityEvent(req, user._id, 'login_failed')
+    if (lockedUntil) await recordSecurityEvent(req, user._id, 'lockout')
+  }
+}
 
 /**
- * Refresh token expiration duration.
- * 
- * Defines how long the refresh token remains valid before expiration.
- * Typically longer-lived than access tokens (e.g., 7 days).
- * 
- * Defaults to '7d' if not set via environment variable REFRESH_TOKEN_TTL.
- * 
- * @constant {SignOptions['expiresIn']}
+ * Final step of every successful sign-in (password, password + second factor, passkey,
+ * identity provider): clears the failure counter, undoes a pending deactivation, starts
+ * the session and sets its cookies. Callers decide how to respond.
  */
-const REFRESH_TOKEN_EXPIRES_IN: SignOptions['expiresIn'] = (process.env.REFRESH_TOKEN_TTL as any) || '7d'
+export async function establishLogin(req: Request, res: Response, user: IUser) {
+  await clearLoginFailures(user.username)
+  const reactivated = user.status === 'deactivated'
+  if (reactivated) await reactivateAccount(user._id)
+
+  const { accessToken } = await startSession(req, res, user)
+  await recordSecurityEvent(req, user._id, 'login')
+
+  res.cookie("accessToken", accessToken, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production", // set true in production with HTTPS
+    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+  })
+  return { accessToken, reactivated }
+}
+
+/** establishLogin, answered with the JSON every sign-in endpoint returns */
+export async function completeLogin(req: Request, res: Response, user: IUser, extra: Record<string, unknown> = {}) {
+  const { accessToken, reactivated } = await establishLogin(req, res, user)
+  return res.json({ accessToken, reactivated, user: { _id: user._id, username: user.username, fullName: user.fullName }, ...extra })
+}
 
 /**
- * POST /auth/signup
+ * POST /auth/signup  (also mounted as POST /signup for older clients, see index.ts)
  * 
- * Registers a new user in the system.
+ * Registers a new user in the system. This is the only signup implementation; account
+ * creation itself lives in lib/accounts.ts (createAccount).
  * 
  * Request:
- * - Expects JSON body with { username, password, fullName }.
- * - Validates input using SignupSchema.
- * - Normalizes username to lowercase and trims whitespace for uniqueness.
+ * - Expects JSON body with { username, password, fullName } and optionally { confirmPassword }.
+ * - Validates input using SignupSchema: username 3–20 of [a-z0-9_] (lowercased), full name
+ *   2–50 letters and spaces, password 6–20 characters; confirmPassword must match when sent.
  * - Hashes password securely with bcrypt before storing.
  * 
  * Response:
- * - On success, returns JSON with:
+ * - On success (201), returns JSON with:
+ *   - secretKey: the recovery key for the account, shown once.
  *   - accessToken: JWT access token for immediate authentication.
  *   - user: object containing _id, username, and fullName (sensitive info excluded).
  * - Sets a signed, httpOnly refresh token cookie ('rt') to maintain session securely.
  * 
  * Security considerations:
- * - Passwords are never stored or returned in plaintext.
+ * - Passwords and secret keys are never stored in plaintext.
  * - Refresh token cookie is httpOnly and signed to prevent client-side access and tampering.
  * - Rate limiting middleware (signupLimiter) protects against brute-force signup attempts.
  * 
- * Edge cases:
- * - Returns 400 if username already exists or validation fails.
- * - Returns 500 for unexpected server errors.
+ * Edge cases (errors are { error: <message>, code: <code> }):
+ * - 400 `invalid_payload` with the first validation message.
+ * - 409 `username_taken` if the username already exists.
+ * - 500 `server_error` for unexpected server errors.
  * 
  * @name Signup
  * @route POST /auth/signup
  * @middleware signupLimiter
  * @param {Request} req - Express request object
  * @param {Response} res - Express response object
- * @returns {Promise<Response>} JSON response with tokens and user info or error message
+ * @returns {Promise<Response>} JSON response with secret key, tokens and user info or error
  */
-router.post('/signup', signupLimiter, async (req: Request, res: Response) => {
+export async function signup(req: Request, res: Response) {
   try {
-    let { username, password, fullName } = SignupSchema.parse(req.body)
-    // Normalize username to lowercase and trim whitespace for uniqueness
-    username = username.trim().toLowerCase()
-    fullName = fullName.trim()
+    const input = SignupSchema.parse(req.body)
 
-    const existingUser = await User.findOne({ username })
-    if (existingUser) return res.status(400).json({ error: 'Username already exists' })
+    const created = await createAccount(input)
+    if (!created.ok) return res.status(409).json({ error: 'Username already exists', code: 'username_taken' })
+    const { user, secretKey } = created
+    console.log('👤 User created:', String(user._id))
 
-    const hashedPassword = await bcrypt.hash(password, 10)
+    const { accessToken } = await startSession(req, res, user)
 
-    const newUser = new User({
-      username,
-      password: hashedPassword,
-      fullName,
+    return res.status(201).json({
+      message: 'User created',
+      secretKey,
+      accessToken,
+      user: { _id: user._id, username: user.username, fullName: user.fullName },
     })
+  } catch (err: any) {
+    if (err?.name === 'ZodError') {
+      return res.status(400).json({ error: err.issues?.[0]?.message || 'Invalid payload', code: 'invalid_payload' })
+    }
+    console.error('Signup error:', err)
+    return res.status(500).json({ error: 'Server error', code: 'server_error' })
+  }
+}
 
-    await newUser.save()
+router.post('/signup', signupLimiter, signup)
 
-    const accessToken = sign(
-      { _id: newUser._id.toString(), username: newUser.username },
-      JWT_SECRET,
-      { expiresIn: ACCESS_TOKEN_EXPIRES_IN }
-    )
+/**
+ * POST /auth/anon
+ * 
+ * Issues an anonymous guest identity so visitors can take part without signing up.
+ * 
+ * Request:
+ * - No body required.
+ * 
+ * Response:
+ * - On success, returns JSON with:
+ *   - accessToken: JWT access token carrying a `guest` claim.
+ *   - user: object containing _id, username (generated, e.g. "anon_k3x9qa"), fullName ("Guest") and isGuest.
+ * - Sets a signed, httpOnly refresh token cookie ('rt') like a normal sign-in.
+ * 
+ * Security considerations:
+ * - Guests get a random password and secret key that are never revealed, so the identity
+ *   lives only as long as its session; POST /auth/upgrade turns it into a full account.
+ * - Guests can read, post, reply, like and repost; routes guarded by requireFullAccount
+ *   (profile edits, follows, credential changes) answer 403 `guest_account`.
+ * - Rate limiting middleware (anonLimiter) caps how many guests one client can mint;
+ *   guests that stay idle and leave no content are swept by the account job.
+ * 
+ * Edge cases:
+ * - Returns 500 for unexpected server errors.
+ * 
+ * @name Anon
+ * @route POST /auth/anon
+ * @middleware anonLimiter
+ */
+router.post('/anon', anonLimiter, async (req: Request, res: Response) => {
+  try {
+    const guest = await createGuestAccount()
+    const { accessToken } = await startSession(req, res, guest)
+    return res.status(201).json({
+      accessToken,
+      user: { _id: guest._id, username: guest.username, fullName: guest.fullName, isGuest: true },
+    })
+  } catch (err) {
+    console.error('Anon error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
 
-    const refreshToken = sign(
-      { _id: newUser._id.toString(), username: newUser.username },
-      JWT_REFRESH_SECRET,
-      { expiresIn: REFRESH_TOKEN_EXPIRES_IN }
-    )
+/**
+ * POST /auth/upgrade
+ * 
+ * Converts the signed-in guest into a full account, keeping everything it posted.
+ * 
+ * Request:
+ * - Requires a guest access token or refresh cookie.
+ * - Expects JSON body with { fullName, password, confirmPassword } and optionally { username }.
+ * - Validates input using UpgradeGuestSchema (same rules and error codes as signup).
+ * - Without a username the generated guest handle is kept.
+ * 
+ * Response:
+ * - On success, returns JSON with:
+ *   - secretKey: the recovery key for the account, shown once.
+ *   - accessToken: JWT access token without the `guest` claim.
+ *   - user: object containing _id, username, and fullName.
+ * - Sets a new signed, httpOnly refresh token cookie ('rt').
+ * 
+ * Security considerations:
+ * - The account keeps its _id, so likes carry over; posts, replies and reposts are
+ *   re-attributed when the username changes.
+ * - Guest sessions are revoked so no token with the `guest` claim outlives the upgrade.
+ * 
+ * Edge cases:
+ * - 400 `invalid_payload` / 409 `username_taken` exactly like /auth/signup.
+ * - Returns 409 if the caller is already a full account.
+ * - Returns 500 for unexpected server errors.
+ * 
+ * @name UpgradeGuest
+ * @route POST /auth/upgrade
+ * @middleware authenticateJWT, signupLimiter
+ */
+router.post('/upgrade', authenticateJWT, signupLimiter, async (req: RequestWithUser, res: Response) => {
+  try {
+    const { username, fullName, password } = UpgradeGuestSchema.parse(req.body)
 
-    // Set refresh token in a signed, httpOnly cookie to prevent client-side access and tampering
-    res.cookie('rt', refreshToken, {
-      httpOnly: true,
-      signed: true,
-      secure: process.env.NODE_ENV === 'production', // Use secure cookies in production
-      sameSite: process.env.NODE_ENV === 'production' ? 'strict' : 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days in milliseconds
-      path: '/',
-    })
+    if (username && !(await isUsernameAvailable(username, req.user!._id))) {
+      return res.status(409).json({ error: 'Username already exists', code: 'username_taken' })
+    }
+
+    const upgraded = await upgradeGuestAccount(req.user!._id, { username, fullName, password })
+    if (!upgraded) return res.status(409).json({ error: 'Account is not a guest' })
+    const { user, secretKey } = upgraded
 
-    return res.json({ accessToken, user: { _id: newUser._id, username: newUser.username, fullName: newUser.fullName } })
+    await revokeAllSessions(user._id, 'upgraded')
+    const { accessToken } = await startSession(req, res, user)
+
+    return res.json({ secretKey, accessToken, user: { _id: user._id, username: user.username, fullName: user.fullName } })
   } catch (err: any) {
-    if (err?.name === 'ZodError') return res.status(400).json({ error: 'Invalid payload' })
-    console.error('Signup error:', err)
-    return res.status(500).json({ error: 'Server error' })
+    if (err?.name === 'ZodError') {
+      return res.status(400).json({ error: err.issues?.[0]?.message || 'Invalid payload', code: 'invalid_payload' })
+    }
+    if (err?.code === 11000) return res.status(409).json({ error: 'Username already exists', code: 'username_taken' })
+    console.error('Upgrade error:', err)
+    return res.status(500).json({ error: 'Server error', code: 'server_error' })
   }
 })
 
@@ -165,16 +303,25 @@ router.post('/signup', signupLimiter, async (req: Request, res: Response) => {
  * Response:
  * - On success, returns JSON with:
  *   - accessToken: JWT access token for authenticated sessions.
+ *   - reactivated: true when this login restored a deactivated account within its grace window.
  *   - user: object containing _id, username, and fullName.
  * - Sets a signed, httpOnly refresh token cookie ('rt') for session persistence.
+ * - When the account has two-factor authentication enabled, no tokens are issued yet;
+ *   instead returns { twoFactorRequired: true, challengeToken } for POST /auth/login/2fa.
  * 
  * Security considerations:
  * - Passwords are never returned or exposed in responses.
  * - Refresh token cookie is httpOnly and signed to prevent client-side access and tampering.
- * - Rate limiting middleware (loginLimiter) protects against brute-force login attempts.
+ * - Rate limiting middleware (loginLimiter) limits attempts per IP; lib/loginThrottle.ts
+ *   additionally locks the username with exponential backoff after repeated failures.
+ * - Unknown usernames, wrong passwords and purged-but-not-yet-deleted accounts all get the
+ *   same 401 message, and unknown usernames still pay for a bcrypt compare, so neither the
+ *   response nor its timing reveals which accounts exist.
+ * - Successful and failed sign-ins and lockouts are written to the security audit log.
  * 
  * Edge cases:
- * - Returns 401 for invalid credentials (wrong username or password).
+ * - Returns 401 'Invalid username or password' for any credential failure.
+ * - Returns 429 with a Retry-After header while the username is locked.
  * - Returns 400 for invalid request payload.
  * - Returns 500 for unexpected server errors.
  * 
@@ -191,45 +338,86 @@ router.post('/login', loginLimiter, async (req: Request, res: Response) => {
     // Normalize username to lowercase and trim whitespace for consistent lookup
     username = username.trim().toLowerCase()
 
+    const retryAfter = await loginRetryAfter(username)
+    if (retryAfter) return sendLocked(res, retryAfter)
+
     const user = await User.findOne({ username })
-    if (!user) return res.status(401).json({ error: 'Invalid username' })
+    const ok = await bcrypt.compare(password, user?.password || DUMMY_PASSWORD_HASH)
 
-    const ok = await bcrypt.compare(password, user.password)
-    if (!ok) return res.status(401).json({ error: 'wrong password ' })
+    if (!user || !ok || !canSignIn(user)) {
+      await failLogin(req, username, user)
+      return res.status(401).json({ error: INVALID_CREDENTIALS })
+    }
 
-    const accessToken = sign(
-      { _id: user._id.toString(), username: user.username },
-      JWT_SECRET,
-      { expiresIn: ACCESS_TOKEN_EXPIRES_IN }
-    )
+    // Password is right; with 2FA on, tokens are only issued by POST /auth/login/2fa
+    if (isTwoFactorEnabled(user)) {
+      return res.json({ twoFactorRequired: true, challengeToken: signLoginChallenge(user) })
+    }
 
-    const refreshToken = sign(
-      { _id: user._id.toString(), username: user.username },
-      JWT_REFRESH_SECRET,
-      { expiresIn: REFRESH_TOKEN_EXPIRES_IN }
-    )
+    return await completeLogin(req, res, user)
+  } catch (err: any) {
+    if (err?.name === 'ZodError') return res.status(400).json({ error: 'Invalid payload' })
+    console.error('Login error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
 
-    // Set refresh token in a signed, httpOnly cookie to prevent client-side access and tampering
-    res.cookie('rt', refreshToken, {
-      httpOnly: true,
-      signed: true,
-      secure: process.env.NODE_ENV === 'production', // Use secure cookies in production
-      sameSite: process.env.NODE_ENV === 'production' ? 'strict' : 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days in milliseconds
-      path: '/',
-    })
+/**
+ * POST /auth/login/2fa
+ * 
+ * Second step of signing in to an account with two-factor authentication.
+ * 
+ * Request:
+ * - Expects JSON body with { challengeToken, code } where challengeToken comes from
+ *   POST /auth/login and code is a current authenticator code or an unused backup code.
+ * 
+ * Response:
+ * - Same as a successful POST /auth/login (tokens, 'rt' cookie, user), plus
+ *   backupCodesRemaining when a backup code was used.
+ * 
+ * Security considerations:
+ * - Challenge tokens expire after 5 minutes and are signed with a key that access tokens
+ *   don't use, so they grant nothing by themselves.
+ * - Wrong codes count towards the same per-username lockout as wrong passwords.
+ * - Authenticator codes can't be replayed; backup codes are single-use.
+ * 
+ * Edge cases:
+ * - Returns 401 'Sign-in expired, please start again' for a missing/expired challenge.
+ * - Returns 401 'Invalid code' for a wrong code.
+ * - Returns 429 with a Retry-After header while the username is locked.
+ * 
+ * @name LoginTwoFactor
+ * @route POST /auth/login/2fa
+ * @middleware loginLimiter
+ */
+router.post('/login/2fa', loginLimiter, async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code } = LoginTwoFactorSchema.parse(req.body)
+
+    const challenge = verifyLoginChallenge(challengeToken)
+    const user = challenge ? await User.findById(challenge._id) : null
+    if (!user || !isTwoFactorEnabled(user) || !canSignIn(user)) {
+      return res.status(401).json({ error: 'Sign-in expired, please start again' })
+    }
+
+    const retryAfter = await loginRetryAfter(user.username)
+    if (retryAfter) return sendLocked(res, retryAfter)
 
-    return res
-      .cookie("accessToken", accessToken, {
-        httpOnly: true,
-        sameSite: "lax",
-        secure: process.env.NODE_ENV === "production", // set true in production with HTTPS
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      })
-      .json({ accessToken, user: { _id: user._id, username: user.username, fullName: (user as any).fullName } });
+    const factor = await verifySecondFactor(user._id, code)
+    if (!factor) {
+      await failLogin(req, user.username, user)
+      return res.status(401).json({ error: 'Invalid code' })
+    }
+
+    if (factor === 'backup') {
+      await recordSecurityEvent(req, user._id, 'backup_code_used')
+      const { backupCodesRemaining } = await getTwoFactorStatus(user._id)
+      return await completeLogin(req, res, user, { backupCodesRemaining })
+    }
+    return await completeLogin(req, res, user)
   } catch (err: any) {
     if (err?.name === 'ZodError') return res.status(400).json({ error: 'Invalid payload' })
-    console.error('Login error:', err)
+    console.error('Login 2FA error:', err)
     return res.status(500).json({ error: 'Server error' })
   }
 })
@@ -237,24 +425,28 @@ router.post('/login', loginLimiter, async (req: Request, res: Response) => {
 /**
  * POST /auth/refresh
  * 
- * Issues a new access token by validating the refresh token sent in cookies.
+ * Rotates the refresh token and issues a new access token.
  * 
  * Request:
  * - Requires a signed, httpOnly cookie named 'rt' containing a valid refresh token.
- * - The refresh token is verified using JWT_REFRESH_SECRET.
+ * - The refresh token is verified using JWT_REFRESH_SECRET and must be the current
+ *   token of a live session family.
  * 
  * Response:
  * - On success, returns JSON with:
  *   - accessToken: new JWT access token.
  *   - user: object containing _id, username, and fullName (freshly fetched from DB).
+ * - Replaces the 'rt' cookie with a newly rotated refresh token; the old one stops working.
  * 
  * Security considerations:
  * - Refresh tokens are stored securely in signed, httpOnly cookies to prevent XSS access.
  * - Verifies refresh token integrity and expiration.
  * - Fetches latest user data to ensure user still exists and retrieve updated profile info.
+ * - Replaying an already-rotated token revokes the whole session family (reuse detection),
+ *   so whoever holds the stolen copy and the legitimate client are both signed out.
  * 
  * Edge cases:
- * - Returns 401 if refresh token is missing, invalid, expired, or user no longer exists.
+ * - Returns 401 if refresh token is missing, invalid, expired, revoked, reused, or user no longer exists.
  * 
  * @name RefreshToken
  * @route POST /auth/refresh
@@ -265,22 +457,25 @@ router.post('/login', loginLimiter, async (req: Request, res: Response) => {
 router.post('/refresh', async (req: Request, res: Response) => {
   try {
     // cookie-parser middleware must be enabled to access signedCookies
-    const rt = (req as any).signedCookies?.rt || (req as any).cookies?.rt
+    const rt = readRefreshCookie(req)
     if (!rt) return res.status(401).json({ error: 'No refresh token' })
 
-    const payload = verify(rt, JWT_REFRESH_SECRET) as any
-    const accessToken = sign(
-      { _id: payload._id, username: payload.username },
-      JWT_SECRET,
-      { expiresIn: ACCESS_TOKEN_EXPIRES_IN }
-    )
+    const payload = verifyRefreshToken(rt)
+    if (!payload) return res.status(401).json({ error: 'Invalid refresh token' })
 
     // Retrieve latest user info to include fullName and verify user still exists
-    const u = await User.findById(payload._id).select('_id username fullName')
+    const u = await User.findById(payload._id).select('_id username fullName isGuest')
     if (!u) return res.status(401).json({ error: 'Invalid refresh token' })
 
-    return res.json({ accessToken, user: { _id: u._id, username: u.username, fullName: (u as any).fullName } })
+    const rotated = await rotateSession(res, payload, u)
+    if (!rotated.ok) {
+      clearRefreshCookie(res)
+      return res.status(401).json({ error: rotated.reason === 'reused' ? 'Refresh token reused' : 'Invalid refresh token' })
+    }
+
+    return res.json({ accessToken: rotated.accessToken, user: { _id: u._id, username: u.username, fullName: (u as any).fullName, ...(u.isGuest ? { isGuest: true } : {}) } })
   } catch (e) {
+    console.error('Refresh error:', e)
     return res.status(401).json({ error: 'Invalid refresh token' })
   }
 })
@@ -288,31 +483,470 @@ router.post('/refresh', async (req: Request, res: Response) => {
 /**
  * POST /auth/logout
  * 
- * Logs out the user by clearing the refresh token cookie.
+ * Logs out the user by revoking the current session family and clearing the refresh token cookie.
  * 
  * Request:
- * - Does not require any body or authentication.
+ * - Does not require any body or authentication; uses the 'rt' cookie if present.
  * 
  * Response:
+ * - Revokes the session the refresh token belongs to.
  * - Clears the 'rt' cookie by setting it to expired.
  * - Returns JSON { ok: true } to indicate successful logout.
  * 
  * Security considerations:
- * - Removing the refresh token cookie effectively ends the session.
+ * - The refresh token is revoked server-side, so a copied cookie cannot be used afterwards.
  * - Access tokens remain valid until expiration; client should discard them.
  * 
  * Edge cases:
- * - Idempotent operation; clearing a non-existent cookie is safe.
+ * - Idempotent operation; logging out without a cookie or with an expired one is safe.
  * 
  * @name Logout
  * @route POST /auth/logout
- * @param {Request} _req - Express request object (unused)
+ * @param {Request} req - Express request object
  * @param {Response} res - Express response object
- * @returns {Response} JSON response indicating logout success
+ * @returns {Promise<Response>} JSON response indicating logout success
  */
-router.post('/logout', (_req: Request, res: Response) => {
-  res.clearCookie('rt', { path: '/' })
+router.post('/logout', async (req: Request, res: Response) => {
+  try {
+    const rt = readRefreshCookie(req)
+    const payload = rt ? verifyRefreshToken(rt) : undefined
+    if (payload) await revokeSession(payload.sid, 'logout')
+  } catch (e) {
+    console.error('Logout error:', e)
+  }
+  clearRefreshCookie(res)
   return res.json({ ok: true })
 })
 
+/**
+ * POST /auth/recover
+ * 
+ * Recovers an account whose password was lost, using the secret key shown once at signup.
+ * 
+ * Request:
+ * - Expects JSON body with { username, secretKey, password, confirmPassword, code? }.
+ * - Validates input using RecoverSchema (same password rules as signup).
+ * - Secret key comparison ignores case and extra whitespace.
+ * - `code` (authenticator or backup code) is required when two-factor authentication is on:
+ *   the secret key stands in for the password, not for the second factor.
+ * 
+ * Response:
+ * - On success, returns JSON with:
+ *   - secretKey: a freshly generated recovery key that replaces the old one.
+ *   - accessToken: JWT access token for the recovered account.
+ *   - reactivated: true when this restored a deactivated account within its grace window.
+ *   - user: object containing _id, username, and fullName.
+ * - Sets a new signed, httpOnly refresh token cookie ('rt').
+ * 
+ * Security considerations:
+ * - Nothing is changed until every factor checks out: a key alone can't reset the password
+ *   of an account with two-factor authentication on.
+ * - The old secret key stops working immediately; only a hash of the new one is stored.
+ * - Every existing session family is revoked, which invalidates all refresh tokens issued before
+ *   recovery and, through authenticateJWT's session check, every access token issued with them.
+ * - Finishes through establishLogin like any sign-in: clears the lockout, reactivates an
+ *   account within its grace window and records `login` after the `recovery` security event.
+ * - Unknown usernames, wrong keys and accounts that can no longer sign in (deactivated past
+ *   the grace window) return the same 401, after the same bcrypt work (verifySecretKey), so
+ *   accounts cannot be enumerated by response or timing.
+ * - Wrong keys and codes count towards the same per-username lockout as wrong passwords;
+ *   recoverLimiter additionally limits attempts per IP.
+ * 
+ * Edge cases:
+ * - Returns 400 for invalid request payload.
+ * - Returns 401 for an unknown username or wrong secret key, and 'Invalid code' for a wrong code.
+ * - Returns 401 { twoFactorRequired: true } when the key is right but the code is missing.
+ * - Returns 429 with a Retry-After header while the username is locked.
+ * - Returns 500 for unexpected server errors.
+ * 
+ * @name Recover
+ * @route POST /auth/recover
+ * @middleware recoverLimiter
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @returns {Promise<Response>} JSON response with new secret key, tokens and user info or error message
+ */
+router.post('/recover', recoverLimiter, async (req: Request, res: Response) => {
+  try {
+    let { username, secretKey, password, code } = RecoverSchema.parse(req.body)
+    username = username.trim().toLowerCase()
+
+    const retryAfter = await loginRetryAfter(username)
+    if (retryAfter) return sendLocked(res, retryAfter)
+
+    const user = await User.findOne({ username })
+    const ok = await verifySecretKey(secretKey, user?.secretKey)
+    if (!user || !ok || !canSignIn(user)) {
+      await failLogin(req, username, user)
+      return res.status(401).json({ error: 'Invalid username or secret key' })
+    }
+
+    // The secret key replaces the password, not the second factor
+    if (isTwoFactorEnabled(user)) {
+      if (!code) return res.status(401).json({ error: 'Enter your authentication code or a backup code', twoFactorRequired: true })
+      const factor = await verifySecondFactor(user._id, code)
+      if (!factor) {
+        await failLogin(req, user.username, user)
+        return res.status(401).json({ error: 'Invalid code' })
+      }
+      if (factor === 'backup') await recordSecurityEvent(req, user._id, 'backup_code_used')
+    }
+
+    // Rotate the key, then revoke all outstanding refresh tokens before signing in fresh
+    const newSecretKey = generateSecretKey()
+    const updated = await User.findByIdAndUpdate(
+      user._id,
+      { $set: { password: await bcrypt.hash(password, 10), secretKey: await hashSecretKey(newSecretKey) } },
+      { new: true }
+    )
+    if (!updated) return res.status(401).json({ error: 'Invalid username or secret key' })
+    await revokeAllSessions(updated._id, 'recovery')
+    await recordSecurityEvent(req, updated._id, 'recovery')
+
+    const { accessToken, reactivated } = await establishLogin(req, res, updated)
+
+    return res.json({
+      message: 'Password reset',
+      secretKey: newSecretKey,
+      accessToken,
+      reactivated,
+      user: { _id: updated._id, username: updated.username, fullName: updated.fullName },
+    })
+  } catch (err: any) {
+    if (err?.name === 'ZodError') return res.status(400).json({ error: 'Invalid payload' })
+    console.error('Recover error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+/**
+ * POST /auth/password
+ * 
+ * Changes the password of the signed-in user.
+ * 
+ * Request:
+ * - Expects JSON body with { currentPassword, password, confirmPassword },
+ *   or { secretKey, password, confirmPassword } when the current password is forgotten.
+ * - An account that has no password yet (signed up through an identity provider) sends just
+ *   { password, confirmPassword } to set its first one; it must have signed in within
+ *   REAUTH_WINDOW_MINUTES, and gets a recovery secret key like any signup.
+ * - Validates input using ChangePasswordSchema (same password rules as signup).
+ * 
+ * Response:
+ * - On success, returns JSON with:
+ *   - accessToken: JWT access token for the new session on this device.
+ *   - secretKey: a freshly rotated recovery key, only when the old key was used to authorize.
+ * - Sets a new signed, httpOnly refresh token cookie ('rt').
+ * 
+ * Security considerations:
+ * - The new password is hashed with bcrypt before storing.
+ * - Every existing session is revoked so other devices are signed out: their refresh tokens
+ *   stop working, and so do access tokens already issued to them, because authenticateJWT
+ *   checks that a token's session is still live. The caller continues on a brand new session.
+ * - A secret key used here has been typed into a live session, so it is rotated like in /recover.
+ * - Records a `password_changed` security event.
+ * - Rate limiting middleware (passwordChangeLimiter) slows down guessing from a hijacked session.
+ * 
+ * Edge cases:
+ * - Returns 400 with the first validation message for invalid payloads, or when the new
+ *   password equals the current one.
+ * - Returns 401 when the current password or secret key is wrong.
+ * - Returns 403 `guest_account` for guests; they set a password via /auth/upgrade.
+ * - Returns 500 for unexpected server errors.
+ * 
+ * @name ChangePassword
+ * @route POST /auth/password
+ * @middleware authenticateJWT, requireSession, requireFullAccount, passwordChangeLimiter
+ */
+router.post('/password', authenticateJWT, requireSession, requireFullAccount, passwordChangeLimiter, async (req: RequestWithUser, res: Response) => {
+  try {
+    const { currentPassword, secretKey, password } = ChangePasswordSchema.parse(req.body)
+
+    const user = await User.findById(req.user!._id)
+    if (!user) return res.status(401).json({ error: 'Unauthorized' })
+
+    if (user.hasPassword === false) {
+      const confirmed = await confirmIdentity(user, undefined, req.user!.sid)
+      if (!confirmed.ok) return refuseIdentity(res, confirmed.reason)
+    } else {
+      if (!currentPassword && !secretKey) return res.status(400).json({ error: 'Current password or secret key is required' })
+      const ok = currentPassword
+        ? await bcrypt.compare(currentPassword, user.password)
+        : await verifySecretKey(secretKey || '', user.secretKey)
+      if (!ok) return res.status(401).json({ error: currentPassword ? 'Current password is incorrect' : 'Secret key is incorrect' })
+
+      if (await bcrypt.compare(password, user.password)) {
+        return res.status(400).json({ error: 'New password must be different from the current one' })
+      }
+    }
+
+    const update: Record<string, string | boolean> = { password: await bcrypt.hash(password, 10), hasPassword: true }
+    const newSecretKey = currentPassword ? undefined : generateSecretKey()
+    if (newSecretKey) update.secretKey = await hashSecretKey(newSecretKey)
+    await User.updateOne({ _id: user._id }, { $set: update })
+
+    await revokeAllSessions(user._id, 'password_changed')
+    const { accessToken } = await startSession(req, res, user)
+    await recordSecurityEvent(req, user._id, 'password_changed')
+
+    return res.json({ ok: true, accessToken, ...(newSecretKey ? { secretKey: newSecretKey } : {}) })
+  } catch (err: any) {
+    if (err?.name === 'ZodError') return res.status(400).json({ error: err.issues?.[0]?.message || 'Invalid payload' })
+    console.error('Change password error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+/**
+ * GET /auth/2fa
+ * 
+ * Two-factor status of the caller.
+ * 
+ * Response:
+ * - JSON { enabled, enabledAt, backupCodesRemaining }.
+ * 
+ * @name TwoFactorStatus
+ * @route GET /auth/2fa
+ * @middleware authenticateJWT, requireSession
+ */
+router.get('/2fa', authenticateJWT, requireSession, async (req: RequestWithUser, res: Response) => {
+  try {
+    return res.json(await getTwoFactorStatus(req.user!._id))
+  } catch (err) {
+    console.error('2FA status error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+/**
+ * POST /auth/2fa/setup
+ * 
+ * Starts TOTP enrollment, or re-enrollment on a new device when 2FA is already on.
+ * 
+ * Request:
+ * - Expects JSON body with { password } to re-confirm the caller. An account without a
+ *   password (signed up through an identity provider) sends {} and must have signed in within
+ *   REAUTH_WINDOW_MINUTES instead.
+ * 
+ * Response:
+ * - JSON { secret, otpauthUri }: the otpauth:// URI goes into a QR code, the base32 secret
+ *   is for typing into the app by hand. Nothing changes until POST /auth/2fa/enable.
+ * 
+ * Edge cases:
+ * - Returns 401 for a wrong password.
+ * - Returns 403 `reauth_required` when an account without a password signed in too long ago.
+ * - Returns 403 `guest_account` for guests.
+ * 
+ * @name TwoFactorSetup
+ * @route POST /auth/2fa/setup
+ * @middleware authenticateJWT, requireSession, requireFullAccount, twoFactorLimiter
+ */
+router.post('/2fa/setup', authenticateJWT, requireSession, requireFullAccount, twoFactorLimiter, async (req: RequestWithUser, res: Response) => {
+  try {
+    const { password } = TwoFactorSetupSchema.parse(req.body)
+    const user = await User.findById(req.user!._id)
+    if (!user) return res.status(401).json({ error: 'Unauthorized' })
+    const confirmed = await confirmIdentity(user, password, req.user!.sid)
+    if (!confirmed.ok) return refuseIdentity(res, confirmed.reason)
+
+    return res.json(await beginTotpEnrollment(user._id, user.username))
+  } catch (err: any) {
+    if (err?.name === 'ZodError') return res.status(400).json({ error: err.issues?.[0]?.message || 'Invalid payload' })
+    console.error('2FA setup error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+/**
+ * POST /auth/2fa/enable
+ * 
+ * Finishes enrollment by verifying a first code from the authenticator app.
+ * 
+ * Request:
+ * - Expects JSON body with { code }.
+ * 
+ * Response:
+ * - JSON { ok: true, backupCodes }: ten single-use codes, shown once. Re-enrolling
+ *   replaces the previous authenticator secret and backup codes.
+ * 
+ * Edge cases:
+ * - Returns 400 'Invalid code' for a wrong code or when no setup is pending.
+ * 
+ * @name TwoFactorEnable
+ * @route POST /auth/2fa/enable
+ * @middleware authenticateJWT, requireSession, requireFullAccount, twoFactorLimiter
+ */
+router.post('/2fa/enable', authenticateJWT, requireSession, requireFullAccount, twoFactorLimiter, async (req: RequestWithUser, res: Response) => {
+  try {
+    const { code } = TwoFactorEnableSchema.parse(req.body)
+    const backupCodes = await confirmTotpEnrollment(req.user!._id, code)
+    if (!backupCodes) return res.status(400).json({ error: 'Invalid code' })
+
+    await recordSecurityEvent(req, req.user!._id, 'two_factor_enabled')
+    return res.json({ ok: true, backupCodes })
+  } catch (err: any) {
+    if (err?.name === 'ZodError') return res.status(400).json({ error: err.issues?.[0]?.message || 'Invalid payload' })
+    console.error('2FA enable error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+/**
+ * POST /auth/2fa/disable
+ * 
+ * Turns two-factor authentication off.
+ * 
+ * Request:
+ * - Expects JSON body with { password, code }; code may be an authenticator or backup code,
+ *   so a user who lost their device can still switch it off. Accounts without a password
+ *   leave it out and confirm by a recent sign-in, as for /2fa/setup.
+ * 
+ * Response:
+ * - JSON { ok: true }. The authenticator secret and remaining backup codes are deleted.
+ * 
+ * Edge cases:
+ * - Returns 401 for a wrong password or code.
+ * - Returns 409 when 2FA is not enabled.
+ * 
+ * @name TwoFactorDisable
+ * @route POST /auth/2fa/disable
+ * @middleware authenticateJWT, requireSession, requireFullAccount, twoFactorLimiter
+ */
+router.post('/2fa/disable', authenticateJWT, requireSession, requireFullAccount, twoFactorLimiter, async (req: RequestWithUser, res: Response) => {
+  try {
+    const { password, code } = TwoFactorDisableSchema.parse(req.body)
+    const user = await User.findById(req.user!._id)
+    if (!user) return res.status(401).json({ error: 'Unauthorized' })
+    if (!isTwoFactorEnabled(user)) return res.status(409).json({ error: 'Two-factor authentication is not enabled' })
+    const confirmed = await confirmIdentity(user, password, req.user!.sid)
+    if (!confirmed.ok) return refuseIdentity(res, confirmed.reason)
+    if (!(await verifySecondFactor(user._id, code))) return res.status(401).json({ error: 'Invalid code' })
+
+    await disableTwoFactor(user._id)
+    await recordSecurityEvent(req, user._id, 'two_factor_disabled')
+    return res.json({ ok: true })
+  } catch (err: any) {
+    if (err?.name === 'ZodError') return res.status(400).json({ error: err.issues?.[0]?.message || 'Invalid payload' })
+    console.error('2FA disable error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+/**
+ * GET /auth/sessions
+ * 
+ * Lists the caller's active sessions (one per signed-in device).
+ * 
+ * Response:
+ * - JSON { items: [{ id, device, userAgent, ip, createdAt, lastUsedAt, current }] },
+ *   most recently used first.
+ * - `ip` is coarsened when stored (IPv4 /24, IPv6 /48); `current` marks the requesting device.
+ * 
+ * Edge cases:
+ * - Revoked and expired sessions are not listed.
+ * - Returns 401 without a valid access token or refresh cookie.
+ * 
+ * @name ListSessions
+ * @route GET /auth/sessions
+ * @middleware authenticateJWT, requireSession
+ */
+router.get('/sessions', authenticateJWT, requireSession, async (req: RequestWithUser, res: Response) => {
+  try {
+    const items = await listSessions(req.user!._id, req.user!.sid)
+    return res.json({ items })
+  } catch (err) {
+    console.error('List sessions error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+/**
+ * DELETE /auth/sessions
+ * 
+ * Signs out every other device: revokes all of the caller's sessions except the current one.
+ * 
+ * Response:
+ * - JSON { ok: true, revoked: <number of sessions revoked> }.
+ * 
+ * Edge cases:
+ * - If the current session cannot be determined (legacy access token without `sid`),
+ *   returns 400 rather than signing the caller out too.
+ * 
+ * @name RevokeOtherSessions
+ * @route DELETE /auth/sessions
+ * @middleware authenticateJWT, requireSession
+ */
+router.delete('/sessions', authenticateJWT, requireSession, async (req: RequestWithUser, res: Response) => {
+  try {
+    const current = req.user!.sid
+    if (!current) return res.status(400).json({ error: 'Current session unknown, please sign in again' })
+    const revoked = await revokeAllSessions(req.user!._id, 'revoked_by_user', current)
+    return res.json({ ok: true, revoked })
+  } catch (err) {
+    console.error('Revoke sessions error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+/**
+ * DELETE /auth/sessions/:id
+ * 
+ * Revokes a single session of the caller (remote sign-out of one device).
+ * 
+ * Response:
+ * - JSON { ok: true, current: boolean }. When the caller revokes its own session the
+ *   'rt' cookie is cleared as well, which is equivalent to logging out.
+ * 
+ * Edge cases:
+ * - Returns 404 when the id is unknown, already revoked, or belongs to another user.
+ * 
+ * @name RevokeSession
+ * @route DELETE /auth/sessions/:id
+ * @middleware authenticateJWT, requireSession
+ */
+router.delete('/sessions/:id', authenticateJWT, requireSession, async (req: RequestWithUser, res: Response) => {
+  try {
+    const { id } = req.params
+    if (!Types.ObjectId.isValid(id)) return res.status(404).json({ error: 'Session not found' })
+    const ok = await revokeSession(id, 'revoked_by_user', req.user!._id)
+    if (!ok) return res.status(404).json({ error: 'Session not found' })
+    const current = id === req.user!.sid
+    if (current) clearRefreshCookie(res)
+    return res.json({ ok: true, current })
+  } catch (err) {
+    console.error('Revoke session error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+/**
+ * GET /auth/security-events
+ * 
+ * The caller's security audit log: sign-ins, failed sign-ins, lockouts, password changes
+ * and recoveries.
+ * 
+ * Response:
+ * - JSON { items: [{ id, type, device, ip, createdAt }] }, newest first, at most 50
+ *   (or ?limit=, capped at 200).
+ * - `ip` is coarsened when stored, like on sessions.
+ * 
+ * Edge cases:
+ * - Entries older than SECURITY_EVENT_RETENTION_DAYS are expired by Mongo.
+ * - Returns 401 without a valid access token or refresh cookie.
+ * 
+ * @name ListSecurityEvents
+ * @route GET /auth/security-events
+ * @middleware authenticateJWT, requireSession
+ */
+router.get('/security-events', authenticateJWT, requireSession, async (req: RequestWithUser, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200)
+    const items = await listSecurityEvents(req.user!._id, limit)
+    return res.json({ items })
+  } catch (err) {
+    console.error('List security events error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
 export default router
\ No newline at end of file
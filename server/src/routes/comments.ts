@@ -1,20 +1,26 @@
 /**
  * Comments Router — handles replies to posts
  *
+ * Replies are posts of their own (parentId/rootId, see lib/replies.ts), so they can be liked,
+ * reposted and replied to through /posts/:id/… like any post; this router creates them and
+ * lists the direct replies of one post. The full conversation tree is GET /posts/:id/thread.
+ *
  * Endpoints:
- *  • POST /comments/:postId   → add a comment to a post
- *  • GET /comments/:postId    → list comments for a post
+ *  • POST /comments/:postId   → reply to a post (or to a reply)
+ *  • GET /comments/:postId    → direct replies, newest first, cursor-paginated
  */
 
 import { Router, Request, Response } from "express"
 import { z } from "zod"
-import { authenticateJWT, type RequestWithUser } from "../middleware/authenticate.js"
+import { authenticateJWT, requireScope, viewerId, type RequestWithUser } from "../middleware/authenticate.js"
 import { commentLimiter } from "../middleware/rateLimit.js"
 import Tweet from "../models/tweet.js"
-import type { IComment } from "../models/tweet.js"
-import { sanitizeTweetText, timeAgo } from "../utils/text.js"
+import { MAX_TWEET_INPUT_LEN, MAX_TWEET_LEN, sanitizeTweetText, timeAgo, weightedLength } from "../utils/text.js"
 import User from "../models/user.js"
 import { Types } from "mongoose"
+import { hiddenUsernames } from "../lib/accounts.js"
+import { currentUsername } from "../lib/usernames.js"
+import { createReply } from "../lib/replies.js"
 
 
 const router = Router()
@@ -27,47 +33,67 @@ function ensureValidObjectId(id: string) {
   }
 }
 
+// Cursor format: `${isoTimestamp}|${objectId}` of the last reply on the previous page
+function buildCursorQuery(cursor?: string) {
+  if (!cursor) return {}
+  const [ts, id] = cursor.split('|')
+  if (!ts || !id || !Types.ObjectId.isValid(id)) return {}
+  return {
+    $or: [
+      { createdAt: { $lt: new Date(ts) } },
+      { createdAt: new Date(ts), _id: { $lt: new Types.ObjectId(id) } },
+    ],
+  }
+}
+
 router.post(
   "/:postId",
   commentLimiter,
   authenticateJWT,
+  requireScope("post"),
   async (req: RequestWithUser, res: Response) => {
     try {
       ensureValidObjectId(req.params.postId)
 
-      const Body = z.object({ text: z.string().min(1).max(280) })
+      const Body = z.object({ text: z.string().min(1).max(MAX_TWEET_INPUT_LEN) })
       const { text } = Body.parse(req.body)
 
       const clean = sanitizeTweetText(text)
       if (!clean) return res.status(400).json({ error: "empty_text" })
+      if (weightedLength(clean) > MAX_TWEET_LEN) return res.status(400).json({ error: "too_long", max_length: MAX_TWEET_LEN })
 
-      const post = await Tweet.findById(req.params.postId)
-      if (!post) return res.status(404).json({ error: "post_not_found" })
+      // Resolved by id: the token may predate a username change
+      const username = await currentUsername(req.user!._id)
+      if (!username) return res.status(401).json({ error: "unauthorized" })
 
-      const comment = {
-        username: req.user!.username,
-        text: clean,
-        createdAt: new Date(),
+      const result = await createReply(req.params.postId, username, clean)
+      if (!result.ok) {
+        return result.reason === "deleted"
+          ? res.status(410).json({ error: "post_deleted" })
+          : res.status(404).json({ error: "post_not_found" })
       }
+      const { reply } = result
 
-      post.comments = Array.isArray(post.comments) ? post.comments : []
-      post.comments.push(comment)
-      await post.save()
-
-      // Resolve fullName for the commenting user
-      const me = await User.findOne({ username: comment.username })
+      // Resolve fullName for the replying user
+      const me = await User.findOne({ username })
         .select('username fullName')
         .lean()
 
       return res.status(201).json({
         ok: true,
-        reply_count: post.comments.length,
+        reply_count: result.replyCount,
         comment: {
-          username: comment.username,
-          fullName: me?.fullName || comment.username,
-          text: comment.text,
-          created_at: comment.createdAt.toISOString(),
-          relative_time: timeAgo(comment.createdAt ?? comment.createdAt),
+          id: String(reply._id),
+          parent_post_id: req.params.postId,
+          username,
+          fullName: me?.fullName || username,
+          text: reply.text,
+          created_at: reply.createdAt.toISOString(),
+          relative_time: timeAgo(reply.createdAt),
+          like_count: 0,
+          liked: false,
+          repost_count: 0,
+          reply_count: 0,
         },
       })
     } catch (err: any) {
@@ -87,37 +113,65 @@ router.get(
       ensureValidObjectId(req.params.postId)
 
       const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100)
-      const cursor = Math.max(Number(req.query.cursor) || 0, 0)
+      const cursor = typeof req.query.cursor === "string" ? req.query.cursor : undefined
 
-      const post = await Tweet
-        .findById(req.params.postId)
-        .lean<{ comments?: IComment[] }>()
+      const post = await Tweet.findById(req.params.postId).select('replyCount').lean<{ replyCount?: number }>()
       if (!post) return res.status(404).json({ error: "post_not_found" })
 
-      const all = Array.isArray(post.comments) ? post.comments : []
-      // newest first
-      all.sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-
-      const slice = all.slice(cursor, cursor + limit)
+      // Skip replies from deactivated accounts; deleted replies stay only as tombstones
+      // over replies of their own
+      const items = await Tweet.find({
+        $and: [
+          { parentId: req.params.postId, username: { $nin: await hiddenUsernames() } },
+          { $or: [{ deletedAt: null }, { replyCount: { $gt: 0 } }] },
+          buildCursorQuery(cursor),
+        ],
+      })
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(limit)
+        .lean<Array<{ _id: Types.ObjectId; username: string; text?: string; likes?: unknown[]; retweets?: unknown[]; replyCount?: number; editedAt?: Date | null; deletedAt?: Date | null; createdAt: Date }>>()
 
-      // Resolve fullName for each unique commenter in this page
-      const usernames = [...new Set(slice.map((c: any) => c.username))]
+      // Resolve fullName for each unique replier in this page
+      const usernames = [...new Set(items.map((c) => c.username))]
       const users = await User.find({ username: { $in: usernames } })
-        .select('username fullName')
+        .select('username fullName avatar')
         .lean()
-      const nameMap = new Map(users.map((u: any) => [u.username, u.fullName]))
-
-      const items = slice.map((c: any) => ({
+      const userMap = new Map(users.map((u: any) => [u.username, u]))
+      const me = viewerId(req)
+
+      const page = items.map((c) => c.deletedAt ? {
+        id: String(c._id),
+        parent_post_id: req.params.postId,
+        deleted: true,
+        username: null,
+        fullName: null,
+        text: null,
+        created_at: c.createdAt.toISOString(),
+        relative_time: timeAgo(c.createdAt),
+        like_count: 0,
+        liked: false,
+        repost_count: 0,
+        reply_count: c.replyCount || 0,
+      } : {
+        id: String(c._id),
+        parent_post_id: req.params.postId,
         username: c.username,
-        fullName: nameMap.get(c.username) || c.username,
+        fullName: userMap.get(c.username)?.fullName || c.username,
+        avatar: userMap.get(c.username)?.avatar || null,
         text: c.text,
-        created_at: new Date(c.createdAt).toISOString(),
-        relative_time: timeAgo(new Date(c.createdAt)),
-      }))
+        created_at: c.createdAt.toISOString(),
+        relative_time: timeAgo(c.createdAt),
+        like_count: c.likes?.length || 0,
+        liked: !!(me && c.likes?.some((u) => String(u) === String(me))),
+        repost_count: c.retweets?.length || 0,
+        reply_count: c.replyCount || 0,
+        edited: !!c.editedAt,
+      })
 
-      const nextCursor = cursor + slice.length < all.length ? cursor + slice.length : null
+      const last = items[items.length - 1]
+      const nextCursor = items.length === limit ? `${last.createdAt.toISOString()}|${last._id}` : null
 
-      return res.json({ reply_count: all.length, items, nextCursor })
+      return res.json({ reply_count: post.replyCount || 0, items: page, nextCursor })
     } catch (err: any) {
       const status = err?.status || 500
       return res.status(status).json({ error: status === 400 ? 'invalid_id' : 'server_error' })
@@ -125,4 +179,4 @@ router.get(
   }
 )
 
-export default router
\ No newline at end of file
+export default router
@@ -0,0 +1,126 @@
+/**
+ * Drafts Router — the signed-in user's unpublished and scheduled posts (lib/drafts.ts)
+ *
+ * Endpoints:
+ *  • GET /drafts             → all of them, most recently edited first
+ *  • POST /drafts            → save a new draft, scheduled if it has `scheduled_at`
+ *  • PATCH /drafts/:id       → edit, reschedule (`scheduled_at`) or unschedule (`scheduled_at: null`)
+ *  • DELETE /drafts/:id      → discard it, or cancel a scheduled post
+ *
+ * Scheduled drafts are published by the background publisher (startScheduledPublisher) and
+ * then disappear from this list; one that failed stays with `status: "failed"` and `error`.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express'
+import { authenticateJWT, requireScope } from '../middleware/authenticate.js'
+import Draft, { type IDraft } from '../models/draft.js'
+import { MAX_TWEET_LEN } from '../utils/text.js'
+import { deleteDraft, DraftInputSchema, draftsJson, MAX_DRAFTS, saveDraft, SCHEDULE_MAX_DAYS, type SaveDraftResult } from '../lib/drafts.js'
+
+const router = Router()
+
+/** HTTP status for each way saveDraft and deleteDraft can refuse */
+const DRAFT_ERROR_STATUS: Record<Extract<SaveDraftResult, { ok: false }>['reason'], number> = {
+  not_found: 404,
+  draft_publishing: 409,
+  too_many_drafts: 409,
+  invalid_schedule: 400,
+  media_not_found: 400,
+  invalid_place: 400,
+  empty_text: 400,
+  too_long: 400,
+  poll_with_media: 400,
+  invalid_poll: 400,
+}
+
+router.param('id', (_req: Request, res: Response, next: NextFunction, id: string) => {
+  return /^[a-f0-9]{24}$/i.test(id) ? next() : res.status(404).json({ error: 'not_found' })
+})
+
+function refuse(res: Response, reason: keyof typeof DRAFT_ERROR_STATUS) {
+  const body: Record<string, unknown> = { error: reason }
+  if (reason === 'too_many_drafts') body.max_drafts = MAX_DRAFTS
+  if (reason === 'invalid_schedule') body.max_days = SCHEDULE_MAX_DAYS
+  if (reason === 'too_long') body.max_length = MAX_TWEET_LEN
+  return res.status(DRAFT_ERROR_STATUS[reason]).json(body)
+}
+
+/**
+ * GET /drafts
+ * Auth: Bearer access token, or API token with `post` scope
+ * Returns { items }: each { id, text, quoted_post_id, media, poll, place, scheduled_at, status, error, updated_at }
+ */
+router.get('/', authenticateJWT, requireScope('post'), async (req: Request & { user?: any }, res: Response) => {
+  try {
+    const drafts = await Draft.find({ user: String(req.user!._id) }).sort({ updatedAt: -1 }) as IDraft[]
+    return res.json({ items: await draftsJson(drafts) })
+  } catch (err) {
+    console.error('List drafts error:', err)
+    return res.status(500).json({ error: 'server_error' })
+  }
+})
+
+/**
+ * POST /drafts
+ * Body: { text?, quoted_post_id?, media?: [{ id, alt? }], poll?: { options, duration_minutes }, place?, scheduled_at?: iso }
+ * Auth: Bearer access token, or API token with `post` scope
+ * Effect: Saves a draft; with `scheduled_at` it is published then. Scheduling checks the content
+ * as POST /posts would (400 empty_text, too_long, invalid_poll, poll_with_media) and the time (400
+ * invalid_schedule unless in the future and within SCHEDULE_MAX_DAYS). 409 too_many_drafts
+ * past MAX_DRAFTS.
+ */
+router.post('/', authenticateJWT, requireScope('post'), async (req: Request & { user?: any }, res: Response) => {
+  try {
+    const parsed = DraftInputSchema.safeParse(req.body)
+    if (!parsed.success) return res.status(400).json({ error: 'invalid_payload', details: parsed.error.issues })
+
+    const r = await saveDraft(String(req.user!._id), null, parsed.data)
+    if (!r.ok) return refuse(res, r.reason)
+    const [item] = await draftsJson([r.draft])
+    return res.status(201).json(item)
+  } catch (err) {
+    console.error('Save draft error:', err)
+    return res.status(500).json({ error: 'server_error' })
+  }
+})
+
+/**
+ * PATCH /drafts/:id
+ * Body: any of the POST /drafts fields; `scheduled_at: null` turns it back into a plain draft
+ * Auth: Bearer access token, or API token with `post` scope
+ * Effect: Same checks as POST /drafts. 404 for someone else's draft; 409 draft_publishing once
+ * the publisher has started on it.
+ */
+router.patch('/:id', authenticateJWT, requireScope('post'), async (req: Request & { user?: any }, res: Response) => {
+  try {
+    const parsed = DraftInputSchema.safeParse(req.body)
+    if (!parsed.success) return res.status(400).json({ error: 'invalid_payload', details: parsed.error.issues })
+
+    const r = await saveDraft(String(req.user!._id), req.params.id, parsed.data)
+    if (!r.ok) return refuse(res, r.reason)
+    const [item] = await draftsJson([r.draft])
+    return res.json(item)
+  } catch (err) {
+    console.error('Update draft error:', err)
+    return res.status(500).json({ error: 'server_error' })
+  }
+})
+
+/**
+ * DELETE /drafts/:id
+ * Auth: Bearer access token, or API token with `post` scope
+ * Effect: Deletes the draft and the uploads it held. 409 draft_publishing once the publisher
+ * has started on it.
+ */
+router.delete('/:id', authenticateJWT, requireScope('post'), async (req: Request & { user?: any }, res: Response) => {
+  try {
+    const r = await deleteDraft(String(req.user!._id), req.params.id)
+    if (!r.ok) return refuse(res, r.reason)
+    return res.json({ ok: true })
+  } catch (err) {
+    console.error('Delete draft error:', err)
+    return res.status(500).json({ error: 'server_error' })
+  }
+})
+
+export default router
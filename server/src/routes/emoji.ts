@@ -0,0 +1,29 @@
+/**
+ * Emoji Router — the dataset behind the Composer's emoji picker (lib/emoji.ts)
+ *
+ * Endpoints:
+ *  • GET /emoji   → every category with its emoji, names, shortcodes and search keywords
+ *
+ * The same shortcodes are expanded server-side in post text, so the picker and `:name:` typed
+ * by hand agree.
+ */
+
+import { Router, Request, Response } from 'express'
+import { emojiJson } from '../lib/emoji.js'
+
+const router = Router()
+
+const body = emojiJson()
+
+/**
+ * GET /emoji
+ * Public. Returns { skin_tones: string[5], categories: [{ id, name, emoji: [{ emoji, name,
+ * shortcodes, keywords, skin_tones }] }] }. `skin_tones` on an entry says whether a modifier
+ * may follow it; the list only changes with a deploy, so clients may cache it for a day.
+ */
+router.get('/', (_req: Request, res: Response) => {
+  res.set('Cache-Control', 'public, max-age=86400')
+  res.json(body)
+})
+
+export default router
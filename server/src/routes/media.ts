@@ -0,0 +1,90 @@
+/**
+ * Media Router — attachment uploads and the files behind them
+ *
+ * Scope
+ *  • POST /media: one file per request (multipart field `file`); answers the upload's id,
+ *    which POST /posts takes in `media`
+ *  • GET /media/<file>: the stored files (attachments, avatars, covers), publicly readable like
+ *    the posts and profiles they belong to
+ *
+ * Design
+ *  • Validation, metadata stripping and thumbnails happen in lib/media.ts
+ *  • File names are random and never reused, so responses are cacheable for a year and marked
+ *    immutable, with ETags for clients that revalidate anyway; the frontend runs on another
+ *    origin, hence the cross-origin resource policy
+ *
+ * Operational notes
+ *  • Mounted by index.ts at `app.use('/api/media', media)`
+ */
+
+import express, { Router, Request, Response, NextFunction } from 'express'
+import multer from 'multer'
+import { authenticateJWT, requireScope } from '../middleware/authenticate.js'
+import { uploadLimiter } from '../middleware/rateLimit.js'
+import { MAX_IMAGE_BYTES, MAX_VIDEO_BYTES, MAX_VIDEO_SECONDS, MEDIA_DIR, mediaJson, saveUpload } from '../lib/media.js'
+
+const router = Router()
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_VIDEO_BYTES, files: 1 } })
+
+/** multer's own errors (file over the hard limit, extra files) as JSON errors */
+function receiveFile(req: Request, res: Response, next: NextFunction) {
+  upload.single('file')(req, res, (err?: any) => {
+    if (!err) return next()
+    if (err?.code === 'LIMIT_FILE_SIZE') return res.status(413).json({ error: 'too_large' })
+    return res.status(400).json({ error: 'invalid_upload' })
+  })
+}
+
+/**
+ * POST /media
+ * Body: multipart/form-data with `file` (JPEG, PNG, GIF, WebP or MP4)
+ * Auth: Bearer access token, or API token with `post` scope
+ * Effect: Stores the file cleaned of metadata; it stays unclaimed until a post attaches it.
+ * Errors: 400 missing_file / unreadable, 413 too_large, 415 unsupported_type, 422 too_long
+ */
+router.post('/', authenticateJWT, requireScope('post'), uploadLimiter, receiveFile, async (req: Request & { user?: any }, res: Response) => {
+  const file = (req as any).file as { buffer: Buffer } | undefined
+  if (!file?.buffer?.length) return res.status(400).json({ error: 'missing_file' })
+
+  try {
+    const r = await saveUpload(String(req.user!._id), file.buffer)
+    if (!r.ok) {
+      if (r.reason === 'unsupported_type') return res.status(415).json({ error: r.reason })
+      if (r.reason === 'too_large') return res.status(413).json({ error: r.reason, max_image_bytes: MAX_IMAGE_BYTES, max_video_bytes: MAX_VIDEO_BYTES })
+      if (r.reason === 'too_long') return res.status(422).json({ error: r.reason, max_seconds: MAX_VIDEO_SECONDS })
+      return res.status(400).json({ error: r.reason })
+    }
+
+    const m = r.media
+    res.status(201).json({
+      ...mediaJson(m),
+      duration_seconds: m.durationSeconds,
+    })
+  } catch (err) {
+    // A file malformed in a way the parser doesn't catch is the upload's fault, not a reason to crash
+    if (err instanceof RangeError) return res.status(400).json({ error: 'unreadable' })
+    console.error('POST /media error:', err)
+    return res.status(500).json({ error: 'server_error' })
+  }
+})
+
+/**
+ * GET /media/<file>
+ * Serves stored files; 404 for anything else.
+ */
+router.use(express.static(MEDIA_DIR, {
+  index: false,
+  dotfiles: 'deny',
+  etag: true,
+  immutable: true,
+  maxAge: '365d',
+  setHeaders: (res) => {
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin')
+  },
+}))
+
+router.use((_req: Request, res: Response) => {
+  res.status(404).json({ error: 'not_found' })
+})
+
+export default router
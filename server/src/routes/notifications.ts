@@ -0,0 +1,91 @@
+/**
+ * Notifications Router — the signed-in user's notifications (lib/notifications.ts records them)
+ *
+ * Endpoints:
+ *  • GET /notifications?cursor=<iso>|<id>  → newest first, with the post each one is about
+ *  • POST /notifications/read              → mark all as read
+ */
+
+import { Router, Request, Response } from 'express'
+import { Types } from 'mongoose'
+import { authenticateJWT, requireScope } from '../middleware/authenticate.js'
+import Notification from '../models/notification.js'
+import Tweet, { type IPoll } from '../models/tweet.js'
+import { pollJson } from '../lib/polls.js'
+import { timeAgo } from '../utils/text.js'
+
+const router = Router()
+
+const PAGE_SIZE = 20
+
+function buildCursorQuery(cursor?: string) {
+  if (!cursor) return {}
+  const [ts, id] = cursor.split('|')
+  const at = new Date(ts)
+  // A cursor we didn't issue starts from the top rather than failing the query
+  if (!ts || !id || isNaN(at.getTime()) || !Types.ObjectId.isValid(id)) return {}
+  return {
+    $or: [
+      { createdAt: { $lt: at } },
+      { createdAt: at, _id: { $lt: new Types.ObjectId(id) } },
+    ],
+  }
+}
+
+/**
+ * GET /notifications?cursor=<iso>|<id>
+ * Auth: Bearer access token, or API token with `read` scope
+ * Returns { items, nextCursor, unread_count }. `post` is null once the post is gone.
+ */
+router.get('/', authenticateJWT, requireScope('read'), async (req: Request & { user?: any }, res: Response) => {
+  try {
+    const user = String(req.user!._id)
+    const items = await Notification.find({ user, ...buildCursorQuery(req.query.cursor as string | undefined) })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(PAGE_SIZE)
+      .lean<Array<{ _id: Types.ObjectId; type: string; post: Types.ObjectId | null; readAt: Date | null; createdAt: Date }>>()
+
+    const posts = await Tweet.find({ _id: { $in: items.map(n => n.post).filter(Boolean) }, deletedAt: null })
+      .select('_id text poll')
+      .lean<Array<{ _id: Types.ObjectId; text: string; poll?: IPoll | null }>>()
+    const postById = new Map(posts.map(p => [String(p._id), p]))
+    const unread = await Notification.countDocuments({ user, readAt: null })
+
+    const last = items[items.length - 1]
+    return res.json({
+      items: items.map(n => {
+        const p = n.post ? postById.get(String(n.post)) : undefined
+        return {
+          id: String(n._id),
+          type: n.type,
+          created_at: n.createdAt.toISOString(),
+          relative_time: timeAgo(n.createdAt),
+          read: !!n.readAt,
+          post: p ? { id: String(p._id), text: p.text, poll: pollJson(p.poll, undefined) } : null,
+        }
+      }),
+      nextCursor: items.length === PAGE_SIZE ? `${last.createdAt.toISOString()}|${last._id}` : null,
+      unread_count: unread,
+    })
+  } catch (err) {
+    console.error('Notifications error:', err)
+    return res.status(500).json({ error: 'server_error' })
+  }
+})
+
+/**
+ * POST /notifications/read
+ * Auth: Bearer access token, or API token with `read` scope
+ * Effect: Marks every unread notification as read.
+ */
+router.post('/read', authenticateJWT, requireScope('read'), async (req: Request & { user?: any }, res: Response) => {
+  try {
+    await Notification.updateMany({ user: String(req.user!._id), readAt: null }, { $set: { readAt: new Date() } })
+    return res.json({ ok: true, unread_count: 0 })
+  } catch (err) {
+    console.error('Mark notifications read error:', err)
+    return res.status(500).json({ error: 'server_error' })
+  }
+})
+
+export default router
@@ -0,0 +1,292 @@
+/**
+ * External identity (OpenID Connect) routes, mounted at /auth/oidc.
+ * Sign-in runs the authorization code flow with PKCE in the browser: /start redirects to
+ * the provider, the provider redirects back to /callback, and the callback either signs in
+ * the linked account, creates a new one, or links the identity to the signed-in user.
+ * The browser then lands on the frontend with the outcome in the URL fragment.
+ * Provider configuration and token verification live in lib/oidc.ts.
+ */
+
+import { Router, Request, Response } from 'express'
+import User, { type IUser } from '../models/user.js'
+import { loginLimiter } from '../middleware/rateLimit.js'
+import { authenticateJWT, requireFullAccount, requireSession, type RequestWithUser } from '../middleware/authenticate.js'
+import { completeAuthorization, createAuthorizationRequest, getProvider, listProviders, suggestHandle, type OidcProvider } from '../lib/oidc.js'
+import { createExternalAccount } from '../lib/accounts.js'
+import { isTwoFactorEnabled } from '../lib/twoFactor.js'
+import { recordSecurityEvent } from '../lib/audit.js'
+import { signLoginChallenge } from '../lib/sessions.js'
+import { canSignIn, establishLogin } from './auth.js'
+
+const router = Router()
+
+/** Where the browser ends up after the provider round trip */
+const FRONTEND_URL = (process.env.OIDC_FRONTEND_URL || process.env.CORS_ORIGIN || 'http://localhost:5173').replace(/\/+$/, '')
+
+/** Holds state, nonce and PKCE verifier between /start and /callback */
+const STATE_COOKIE = 'oidc'
+const STATE_TTL_MS = 10 * 60 * 1000
+
+type SavedState = { provider: string; state: string; nonce: string; codeVerifier: string; link?: string }
+
+function saveState(res: Response, saved: SavedState) {
+  res.cookie(STATE_COOKIE, JSON.stringify(saved), {
+    httpOnly: true,
+    signed: true,
+    secure: process.env.NODE_ENV === 'production',
+    // lax, not strict: the callback is a top-level navigation coming from the provider's site
+    sameSite: 'lax',
+    maxAge: STATE_TTL_MS,
+    path: '/',
+  })
+}
+
+function takeState(req: Request, res: Response): SavedState | undefined {
+  const raw = req.signedCookies?.[STATE_COOKIE]
+  res.clearCookie(STATE_COOKIE, { path: '/' })
+  if (typeof raw !== 'string') return undefined
+  try {
+    const saved = JSON.parse(raw)
+    return typeof saved?.state === 'string' && typeof saved?.codeVerifier === 'string' ? saved : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/** Send the browser back to the frontend; the fragment never reaches a server or log */
+function finish(res: Response, path: '/login' | '/', params: Record<string, string>) {
+  return res.redirect(303, `${FRONTEND_URL}${path}#${new URLSearchParams(params).toString()}`)
+}
+
+function identityFilter(provider: OidcProvider, subject: string) {
+  return { identities: { $elemMatch: { provider: provider.id, subject } } }
+}
+
+/**
+ * GET /auth/oidc/providers
+ *
+ * Lists the configured identity providers for the login buttons.
+ *
+ * Response:
+ * - JSON { providers: [{ id, name }] }; empty when OIDC_PROVIDERS is not set.
+ *
+ * @name ListOidcProviders
+ * @route GET /auth/oidc/providers
+ */
+router.get('/providers', (_req: Request, res: Response) => {
+  return res.json({ providers: listProviders() })
+})
+
+/**
+ * GET /auth/oidc/:provider/start
+ *
+ * Starts sign-in with an identity provider.
+ *
+ * Response:
+ * - 302 to the provider's authorization endpoint, with state, nonce and an S256 PKCE
+ *   challenge; the matching secrets are kept in a signed, httpOnly cookie for 10 minutes.
+ *
+ * Edge cases:
+ * - Returns 404 for an unknown provider.
+ * - Redirects to /login#oidc_error=provider_unavailable when discovery fails.
+ *
+ * @name OidcStart
+ * @route GET /auth/oidc/:provider/start
+ * @middleware loginLimiter
+ */
+router.get('/:provider/start', loginLimiter, async (req: Request, res: Response) => {
+  const provider = getProvider(req.params.provider)
+  if (!provider) return res.status(404).json({ error: 'Unknown provider' })
+  try {
+    const { url, ...secrets } = await createAuthorizationRequest(provider)
+    saveState(res, { provider: provider.id, ...secrets })
+    return res.redirect(302, url)
+  } catch (err) {
+    console.error('OIDC start error:', provider.id, err)
+    return finish(res, '/login', { oidc_error: 'provider_unavailable' })
+  }
+})
+
+/**
+ * POST /auth/oidc/:provider/link
+ *
+ * Starts linking an identity provider account to the signed-in user.
+ *
+ * Response:
+ * - JSON { url }: the client navigates there. The provider redirects back to /callback,
+ *   which links the identity and lands on the frontend with #connected=<provider>.
+ *
+ * Edge cases:
+ * - Returns 404 for an unknown provider, 502 when discovery fails.
+ * - Returns 403 `guest_account` for guests.
+ *
+ * @name OidcLink
+ * @route POST /auth/oidc/:provider/link
+ * @middleware authenticateJWT, requireSession, requireFullAccount
+ */
+router.post('/:provider/link', authenticateJWT, requireSession, requireFullAccount, async (req: RequestWithUser, res: Response) => {
+  const provider = getProvider(req.params.provider)
+  if (!provider) return res.status(404).json({ error: 'Unknown provider' })
+  try {
+    const { url, ...secrets } = await createAuthorizationRequest(provider)
+    saveState(res, { provider: provider.id, ...secrets, link: req.user!._id })
+    return res.json({ url })
+  } catch (err) {
+    console.error('OIDC link error:', provider.id, err)
+    return res.status(502).json({ error: 'Provider unavailable' })
+  }
+})
+
+/**
+ * GET /auth/oidc/:provider/callback
+ *
+ * Finishes the provider round trip.
+ *
+ * Request:
+ * - Query { code, state } (or { error } when the user declined) from the provider.
+ *
+ * Response (always a redirect to the frontend, outcome in the fragment):
+ * - Sign-in: an account linked to the identity is signed in; otherwise a new account with a
+ *   generated handle is created and signed in. The 'rt' cookie is set and the browser lands on
+ *   /login#oidc=ok (plus &reactivated=1), where the client calls POST /auth/refresh.
+ * - With TOTP enabled the browser lands on /login#oidc=2fa&challenge=<token>, finished with
+ *   POST /auth/login/2fa like a password sign-in.
+ * - Linking: the identity is added to the user that started /link; lands on /#connected=<provider>.
+ *
+ * Security considerations:
+ * - state must match the signed cookie set by /start or /link (login CSRF), and the ID token's
+ *   signature, issuer, audience, expiry and nonce are verified.
+ * - Accounts are matched only by (provider, sub); an email address never links accounts.
+ *
+ * Edge cases:
+ * - /login#oidc_error=<code> with: cancelled, invalid_state, verification_failed,
+ *   account_unavailable (deactivated past the grace window).
+ * - /#connect_error=<code> with: identity_in_use (linked to another account),
+ *   already_linked (this account already has a different identity at the provider).
+ *
+ * @name OidcCallback
+ * @route GET /auth/oidc/:provider/callback
+ * @middleware loginLimiter
+ */
+router.get('/:provider/callback', loginLimiter, async (req: Request, res: Response) => {
+  const provider = getProvider(req.params.provider)
+  if (!provider) return res.status(404).json({ error: 'Unknown provider' })
+
+  const saved = takeState(req, res)
+  const fail = (code: string) => saved?.link ? finish(res, '/', { connect_error: code }) : finish(res, '/login', { oidc_error: code })
+
+  if (typeof req.query.error === 'string') return fail('cancelled')
+  if (!saved || saved.provider !== provider.id || saved.state !== req.query.state || typeof req.query.code !== 'string') {
+    return fail('invalid_state')
+  }
+
+  try {
+    let claims
+    try {
+      claims = await completeAuthorization(provider, req.query.code, saved)
+    } catch (err) {
+      console.warn('OIDC verification failed:', provider.id, (err as Error).message)
+      return fail('verification_failed')
+    }
+
+    const owner: IUser | null = await User.findOne(identityFilter(provider, claims.sub))
+
+    if (saved.link) {
+      if (owner) return String(owner._id) === saved.link ? finish(res, '/', { connected: provider.id }) : fail('identity_in_use')
+      const r = await User.updateOne(
+        { _id: saved.link, 'identities.provider': { $ne: provider.id } },
+        { $push: { identities: { provider: provider.id, subject: claims.sub, email: claims.email ?? null, linkedAt: new Date() } } }
+      )
+      if (!r.modifiedCount) return fail('already_linked')
+      await recordSecurityEvent(req, saved.link, 'identity_linked')
+      return finish(res, '/', { connected: provider.id })
+    }
+
+    let user = owner
+    if (!user) {
+      try {
+        user = await createExternalAccount(
+          { provider: provider.id, subject: claims.sub, email: claims.email },
+          { handle: suggestHandle(claims), name: claims.name }
+        )
+      } catch (err: any) {
+        // Two callbacks for the same new identity raced; the loser signs into the winner's account
+        if (err?.code !== 11000) throw err
+        user = await User.findOne(identityFilter(provider, claims.sub))
+      }
+    }
+    if (!user || !canSignIn(user)) return fail('account_unavailable')
+
+    if (isTwoFactorEnabled(user)) {
+      return finish(res, '/login', { oidc: '2fa', challenge: signLoginChallenge(user) })
+    }
+    const { reactivated } = await establishLogin(req, res, user)
+    return finish(res, '/login', reactivated ? { oidc: 'ok', reactivated: '1' } : { oidc: 'ok' })
+  } catch (err) {
+    console.error('OIDC callback error:', provider.id, err)
+    return fail('server_error')
+  }
+})
+
+/**
+ * GET /auth/oidc/identities
+ *
+ * Lists the identity providers linked to the caller's account, for Settings.
+ *
+ * Response:
+ * - JSON { items: [{ provider, name, email, linkedAt }], providers: [{ id, name }], hasPassword }.
+ *
+ * @name ListIdentities
+ * @route GET /auth/oidc/identities
+ * @middleware authenticateJWT, requireSession
+ */
+router.get('/identities', authenticateJWT, requireSession, async (req: RequestWithUser, res: Response) => {
+  try {
+    const u = await User.findById(req.user!._id).select('identities hasPassword')
+    if (!u) return res.status(401).json({ error: 'Unauthorized' })
+    const items = (u.identities || []).map((i) => ({
+      provider: i.provider,
+      name: getProvider(i.provider)?.name ?? i.provider,
+      email: i.email ?? null,
+      linkedAt: i.linkedAt,
+    }))
+    return res.json({ items, providers: listProviders(), hasPassword: u.hasPassword !== false })
+  } catch (err) {
+    console.error('List identities error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+/**
+ * DELETE /auth/oidc/identities/:provider
+ *
+ * Unlinks an identity provider from the caller's account.
+ *
+ * Edge cases:
+ * - Returns 400 when it is the only way left to sign in (account created through a provider,
+ *   no other identity and no passkey).
+ * - Returns 404 when no identity from that provider is linked.
+ *
+ * @name UnlinkIdentity
+ * @route DELETE /auth/oidc/identities/:provider
+ * @middleware authenticateJWT, requireSession, requireFullAccount
+ */
+router.delete('/identities/:provider', authenticateJWT, requireSession, requireFullAccount, async (req: RequestWithUser, res: Response) => {
+  try {
+    const u = await User.findById(req.user!._id).select('identities hasPassword passkeys')
+    if (!u) return res.status(401).json({ error: 'Unauthorized' })
+    if (!u.identities?.some((i) => i.provider === req.params.provider)) return res.status(404).json({ error: 'Not linked' })
+    if (u.hasPassword === false && u.identities.length <= 1 && !u.passkeys?.length) {
+      return res.status(400).json({ error: 'Add a passkey or link another provider before disconnecting this one' })
+    }
+
+    await User.updateOne({ _id: u._id }, { $pull: { identities: { provider: req.params.provider } } })
+    await recordSecurityEvent(req, u._id, 'identity_unlinked')
+    return res.json({ ok: true })
+  } catch (err) {
+    console.error('Unlink identity error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+export default router
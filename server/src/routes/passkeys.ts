@@ -0,0 +1,255 @@
+/**
+ * Passkey (WebAuthn) routes, mounted at /auth/passkeys.
+ * Registration and management need a signed-in full account; sign-in is passwordless and
+ * ends in the same completeLogin step as the password flow in routes/auth.ts.
+ * Ceremony verification lives in lib/webauthn.ts.
+ */
+
+import { Router, Request, Response } from 'express'
+import { Types } from 'mongoose'
+import User from '../models/user.js'
+import { PasskeyLoginSchema, PasskeyRegisterSchema } from '../schemas/zod.js'
+import { loginLimiter, twoFactorLimiter } from '../middleware/rateLimit.js'
+import { authenticateJWT, requireFullAccount, requireSession, type RequestWithUser } from '../middleware/authenticate.js'
+import { authenticationOptions, registrationOptions, verifyAssertion, verifyRegistration } from '../lib/webauthn.js'
+import { isTwoFactorEnabled } from '../lib/twoFactor.js'
+import { recordSecurityEvent } from '../lib/audit.js'
+import { signLoginChallenge } from '../lib/sessions.js'
+import { loginRetryAfter } from '../lib/loginThrottle.js'
+import { canSignIn, completeLogin, failLogin, sendLocked } from './auth.js'
+
+const router = Router()
+
+/** Per-account cap; each passkey is one row in Settings */
+const MAX_PASSKEYS = 10
+
+/**
+ * GET /auth/passkeys
+ *
+ * Lists the caller's passkeys.
+ *
+ * Response:
+ * - JSON { items: [{ id, name, transports, createdAt, lastUsedAt }] }, oldest first.
+ *
+ * @name ListPasskeys
+ * @route GET /auth/passkeys
+ * @middleware authenticateJWT, requireSession
+ */
+router.get('/', authenticateJWT, requireSession, async (req: RequestWithUser, res: Response) => {
+  try {
+    const u = await User.findById(req.user!._id).select('passkeys')
+    if (!u) return res.status(401).json({ error: 'Unauthorized' })
+    const items = (u.passkeys || []).map((p) => ({
+      id: String(p._id),
+      name: p.name,
+      transports: p.transports,
+      createdAt: p.createdAt,
+      lastUsedAt: p.lastUsedAt ?? null,
+    }))
+    return res.json({ items })
+  } catch (err) {
+    console.error('List passkeys error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+/**
+ * POST /auth/passkeys/register/options
+ *
+ * Starts a registration ceremony.
+ *
+ * Response:
+ * - PublicKeyCredentialCreationOptions with binary fields base64url-encoded; the client
+ *   decodes them and passes the result to navigator.credentials.create().
+ * - Already registered credentials are excluded so the same authenticator isn't added twice.
+ *
+ * Edge cases:
+ * - Returns 400 when the account already has the maximum number of passkeys.
+ * - Returns 403 `guest_account` for guests.
+ *
+ * @name PasskeyRegisterOptions
+ * @route POST /auth/passkeys/register/options
+ * @middleware authenticateJWT, requireSession, requireFullAccount, twoFactorLimiter
+ */
+router.post('/register/options', authenticateJWT, requireSession, requireFullAccount, twoFactorLimiter, async (req: RequestWithUser, res: Response) => {
+  try {
+    const u = await User.findById(req.user!._id).select('username fullName passkeys')
+    if (!u) return res.status(401).json({ error: 'Unauthorized' })
+    if ((u.passkeys?.length || 0) >= MAX_PASSKEYS) return res.status(400).json({ error: `You can register up to ${MAX_PASSKEYS} passkeys` })
+
+    return res.json(await registrationOptions(u, (u.passkeys || []).map((p) => p.credentialId)))
+  } catch (err) {
+    console.error('Passkey options error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+/**
+ * POST /auth/passkeys/register/verify
+ *
+ * Finishes a registration ceremony and stores the new passkey.
+ *
+ * Request:
+ * - Expects JSON body with { credential, name? } where credential is the
+ *   navigator.credentials.create() result with binary fields base64url-encoded.
+ *
+ * Response:
+ * - JSON { ok: true, passkey: { id, name, createdAt } }.
+ *
+ * Edge cases:
+ * - Returns 400 'Passkey could not be verified' for a wrong origin, RP, expired or reused
+ *   challenge, unsupported algorithm or malformed response.
+ * - Returns 409 if the credential is already registered.
+ *
+ * @name PasskeyRegisterVerify
+ * @route POST /auth/passkeys/register/verify
+ * @middleware authenticateJWT, requireSession, requireFullAccount, twoFactorLimiter
+ */
+router.post('/register/verify', authenticateJWT, requireSession, requireFullAccount, twoFactorLimiter, async (req: RequestWithUser, res: Response) => {
+  try {
+    const { credential, name } = PasskeyRegisterSchema.parse(req.body)
+
+    let verified
+    try {
+      verified = await verifyRegistration(req.user!._id, credential)
+    } catch (err) {
+      console.warn('Passkey registration rejected:', (err as Error).message)
+      return res.status(400).json({ error: 'Passkey could not be verified' })
+    }
+
+    if (await User.exists({ 'passkeys.credentialId': verified.credentialId })) {
+      return res.status(409).json({ error: 'This passkey is already registered' })
+    }
+
+    const passkey = { _id: new Types.ObjectId(), ...verified, name: name || 'Passkey', createdAt: new Date(), lastUsedAt: null }
+    const r = await User.updateOne(
+      { _id: req.user!._id, [`passkeys.${MAX_PASSKEYS - 1}`]: { $exists: false } },
+      { $push: { passkeys: passkey } }
+    )
+    if (!r.modifiedCount) return res.status(400).json({ error: `You can register up to ${MAX_PASSKEYS} passkeys` })
+
+    await recordSecurityEvent(req, req.user!._id, 'passkey_added')
+    return res.json({ ok: true, passkey: { id: String(passkey._id), name: passkey.name, createdAt: passkey.createdAt } })
+  } catch (err: any) {
+    if (err?.name === 'ZodError') return res.status(400).json({ error: err.issues?.[0]?.message || 'Invalid payload' })
+    console.error('Passkey register error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+/**
+ * DELETE /auth/passkeys/:id
+ *
+ * Removes one of the caller's passkeys.
+ *
+ * Edge cases:
+ * - Returns 404 when the id is unknown or belongs to another user.
+ *
+ * @name RemovePasskey
+ * @route DELETE /auth/passkeys/:id
+ * @middleware authenticateJWT, requireSession, requireFullAccount
+ */
+router.delete('/:id', authenticateJWT, requireSession, requireFullAccount, async (req: RequestWithUser, res: Response) => {
+  try {
+    const { id } = req.params
+    if (!Types.ObjectId.isValid(id)) return res.status(404).json({ error: 'Passkey not found' })
+    const r = await User.updateOne({ _id: req.user!._id, 'passkeys._id': id }, { $pull: { passkeys: { _id: id } } })
+    if (!r.modifiedCount) return res.status(404).json({ error: 'Passkey not found' })
+
+    await recordSecurityEvent(req, req.user!._id, 'passkey_removed')
+    return res.json({ ok: true })
+  } catch (err) {
+    console.error('Remove passkey error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+/**
+ * POST /auth/passkeys/login/options
+ *
+ * Starts a passwordless sign-in ceremony.
+ *
+ * Response:
+ * - PublicKeyCredentialRequestOptions without allowCredentials: the browser offers the
+ *   passkeys it holds for this site, so no username is needed (or revealed).
+ *
+ * @name PasskeyLoginOptions
+ * @route POST /auth/passkeys/login/options
+ * @middleware loginLimiter
+ */
+router.post('/login/options', loginLimiter, async (_req: Request, res: Response) => {
+  try {
+    return res.json(await authenticationOptions())
+  } catch (err) {
+    console.error('Passkey login options error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+/**
+ * POST /auth/passkeys/login/verify
+ *
+ * Finishes a passwordless sign-in.
+ *
+ * Request:
+ * - Expects JSON body with { credential }: the navigator.credentials.get() result with
+ *   binary fields base64url-encoded.
+ *
+ * Response:
+ * - Same as a successful POST /auth/login (tokens, 'rt' cookie, user).
+ * - If the account has TOTP enabled and the authenticator did not verify the user
+ *   (no PIN/biometric), returns { twoFactorRequired: true, challengeToken } instead,
+ *   to be finished with POST /auth/login/2fa.
+ *
+ * Security considerations:
+ * - Challenges are single-use and expire after 5 minutes; the signature, origin, RP id,
+ *   sign counter and userHandle (must be the credential's owner) are all checked.
+ * - The same per-username lockout as POST /auth/login applies: a rejected assertion counts
+ *   as a failed sign-in, and a locked account is refused before verifying.
+ *
+ * Edge cases:
+ * - Returns 401 'Passkey not recognised' for unknown credentials or failed verification.
+ * - Returns 429 with Retry-After while the account is locked.
+ *
+ * @name PasskeyLoginVerify
+ * @route POST /auth/passkeys/login/verify
+ * @middleware loginLimiter
+ */
+router.post('/login/verify', loginLimiter, async (req: Request, res: Response) => {
+  try {
+    const { credential } = PasskeyLoginSchema.parse(req.body)
+
+    const user = await User.findOne({ 'passkeys.credentialId': credential.id })
+    const stored = user?.passkeys.find((p) => p.credentialId === credential.id)
+    if (!user || !stored) return res.status(401).json({ error: 'Passkey not recognised' })
+
+    const retryAfter = await loginRetryAfter(user.username)
+    if (retryAfter) return sendLocked(res, retryAfter)
+
+    let result
+    try {
+      result = await verifyAssertion(credential, stored, user._id)
+    } catch (err) {
+      console.warn('Passkey assertion rejected:', (err as Error).message)
+      await failLogin(req, user.username, user)
+      return res.status(401).json({ error: 'Passkey not recognised' })
+    }
+
+    await User.updateOne(
+      { _id: user._id, 'passkeys._id': stored._id },
+      { $set: { 'passkeys.$.signCount': result.signCount, 'passkeys.$.lastUsedAt': new Date() } }
+    )
+
+    if (!canSignIn(user)) return res.status(401).json({ error: 'Passkey not recognised' })
+    if (isTwoFactorEnabled(user) && !result.userVerified) {
+      return res.json({ twoFactorRequired: true, challengeToken: signLoginChallenge(user) })
+    }
+    return await completeLogin(req, res, user)
+  } catch (err: any) {
+    if (err?.name === 'ZodError') return res.status(400).json({ error: 'Invalid payload' })
+    console.error('Passkey login error:', err)
+    return res.status(500).json({ error: 'Server error' })
+  }
+})
+
+export default router
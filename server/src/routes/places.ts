@@ -0,0 +1,36 @@
+/**
+ * Places Router — the offline gazetteer behind location tagging (lib/places.ts)
+ *
+ * Endpoints:
+ *  • GET /places?q=<text>            → places whose name matches, for the Composer's picker
+ *  • GET /places?lat=<n>&lng=<n>     → what tagging those coordinates would store, so the
+ *                                      author sees the coarsened place before posting
+ */
+
+import { Router, Request, Response } from 'express'
+import { z } from 'zod'
+import { placeJson, resolvePlace, searchPlaces } from '../lib/places.js'
+
+const router = Router()
+
+/**
+ * GET /places?q= | ?lat=&lng=
+ * Public. Returns { items: [{ id, name, country, lat, lng }] }; for coordinates the one item
+ * has `id: null` and coarsened `lat`/`lng`, and `name` is null away from any listed place.
+ */
+router.get('/', (req: Request, res: Response) => {
+  const parsed = z.object({
+    q: z.string().max(100).optional(),
+    lat: z.coerce.number().min(-90).max(90).optional(),
+    lng: z.coerce.number().min(-180).max(180).optional(),
+  }).safeParse(req.query)
+  if (!parsed.success) return res.status(400).json({ error: 'invalid_location' })
+  const { q, lat, lng } = parsed.data
+
+  if (lat !== undefined && lng !== undefined) {
+    return res.json({ items: [placeJson(resolvePlace({ lat, lng }))] })
+  }
+  res.json({ items: searchPlaces(q || '') })
+})
+
+export default router
@@ -3,15 +3,30 @@
  *
  * Scope
  *  • AuthZ: lightweight JWT verification via Authorization: Bearer <access_token>
+ *    (personal API tokens need the `post` scope to create and `engage` to like/repost)
  *  • Create a post, fetch single post, global feed w/ stable cursor pagination
- *  • Toggle like / repost semantics using the Tweet collection
+ *  • Author-only deletion that leaves a tombstone, so replies under it keep their context
+ *  • Quote posts: POST with `quoted_post_id`; payloads embed the original as `quoted_post`
+ *    (lib/quotes.ts) and /posts/:id/quotes lists the quotes of a post
+ *  • Up to four attachments per post, uploaded beforehand via /media (lib/media.ts)
+ *  • Polls attached at creation, one vote per user (lib/polls.ts)
+ *  • An optional, coarsened place per post (lib/places.ts); /posts/nearby lists posts around a
+ *    point or gazetteer place
+ *  • Creation itself lives in lib/posting.ts, shared with scheduled drafts (routes/drafts.ts)
+ *  • Author-only edits within POST_EDIT_WINDOW_MINUTES of posting; prior versions stay readable
+ *    at /posts/:id/history and feed items carry `edited`
+ *  • Toggle like / repost semantics using the Tweet collection; reposts also become timeline
+ *    entries (lib/reposts.ts) that feeds merge in by repost time
  *  • Minimal report endpoint (telemetry placeholder)
  *
  * Design
  *  • Stateless auth on each request; no session storage
  *  • Stable sort order: (createdAt desc, _id desc) to guarantee deterministic pagination
  *  • Cursor format: `${isoTimestamp}|${objectId}` so we can page without gaps/dupes
- *  • Input hygiene: trim + control‑char stripping; 280‑char cap to mirror Twitter
+ *  • Input hygiene: trim + control‑char stripping + `:shortcode:` emoji; 280‑char cap to mirror
+ *    Twitter, counted as readers see characters with links at a fixed length (utils/postLength.ts,
+ *    shared with the Composer)
+ *  • Deleted posts are left out of feeds and profiles; by id they read as a tombstone
  *
  * Operational notes
  *  • Expects process.env.JWT_SECRET to verify tokens
@@ -19,33 +34,79 @@
  */
 
 import { Router, Request, Response, NextFunction } from 'express'
+import { Types } from 'mongoose'
 import { z } from 'zod'
-import Tweet from '../models/tweet.js'
-import { authenticateJWT } from '../middleware/authenticate.js'
-import { sanitizeTweetText } from '../utils/text.js'
+import Tweet, { type IAttachment, type IPlace, type IPoll, type ITweet } from '../models/tweet.js'
+import { authenticateJWT, requireScope, viewerId } from '../middleware/authenticate.js'
+import { MAX_TWEET_INPUT_LEN, MAX_TWEET_LEN, sanitizeTweetText, weightedLength } from '../utils/text.js'
 import { timeAgo } from "../utils/text.js";
 import User from '../models/user.js'
 import Post from '../models/post.js'
-import jwt from 'jsonwebtoken'
+import { hiddenUsernames } from '../lib/accounts.js'
+import { currentUsername } from '../lib/usernames.js'
+import { releaseReply } from '../lib/replies.js'
+import { quotedCards, releaseQuote } from '../lib/quotes.js'
+import { addRepost, removeRepost, repostedByViewer } from '../lib/reposts.js'
+import Repost, { type IRepost } from '../models/repost.js'
+import { discardMedia, mediaJson } from '../lib/media.js'
+import { castVote, pollJson, viewerPollVotes } from '../lib/polls.js'
+import { createPost, PostInputSchema, type CreatePostResult } from '../lib/posting.js'
+import { DEFAULT_NEARBY_RADIUS_KM, MAX_NEARBY_RADIUS_KM, placeById, placeJson, withinKm } from '../lib/places.js'
+import PollVote from '../models/pollVote.js'
+import { redirectRenamedHandle } from '../middleware/renamedHandle.js'
 
 const router = Router()
 
 // ----------------------------------------------------------------------------
 // Helpers
 // ----------------------------------------------------------------------------
-/** Maximum characters allowed for a post */
-const MAX_TWEET_LEN = 280
-
-function getUserId(req: Request): string | undefined {
-  try {
-    const hdr = req.headers.authorization || ''
-    const bearer = hdr.startsWith('Bearer ') ? hdr.slice(7) : undefined
-    const token = bearer || (req as any).cookies?.token || (req as any).cookies?.rt
-    if (!token) return undefined
-    const payload = jwt.verify(token, process.env.JWT_SECRET!) as any
-    return (payload?.sub || payload?.id || payload?._id) as string | undefined
-  } catch {
-    return undefined
+/** How long after posting the author may still edit */
+const POST_EDIT_WINDOW_MINUTES = Number(process.env.POST_EDIT_WINDOW_MINUTES) || 30
+const EDIT_WINDOW_MS = POST_EDIT_WINDOW_MINUTES * 60 * 1000
+
+/** Edits per post, so the window can't be used to grow one document without bound */
+const MAX_POST_EDITS = 10
+
+/** Filter for posts that haven't been deleted (documents from before deletion have no field) */
+const LIVE = { deletedAt: null }
+
+/** HTTP status for each way createPost can refuse */
+const CREATE_ERROR_STATUS: Record<Extract<CreatePostResult, { ok: false }>['reason'], number> = {
+  empty_text: 400,
+  too_long: 400,
+  invalid_poll: 400,
+  poll_with_media: 400,
+  invalid_place: 400,
+  media_not_found: 400,
+  quoted_not_found: 404,
+}
+
+/** Filter for posts that aren't replies; feeds and profiles list only these */
+const TOP_LEVEL = { parentId: null }
+
+/** Limits for GET /posts/:id/thread; deeper or later replies are paged in via /comments/:id */
+const THREAD_MAX_DEPTH = 4
+const THREAD_MAX_NODES = 300
+const THREAD_MAX_ANCESTORS = 50
+
+/**
+ * tombstoneJson
+ * What a deleted post reads as: no text, author or engagement, only where it sat and how
+ * many replies hang under it.
+ */
+function tombstoneJson(p: { _id: unknown; createdAt: Date; parentId?: unknown; replyCount?: number }) {
+  return {
+    id: String(p._id),
+    deleted: true,
+    text: null,
+    created_at: p.createdAt.toISOString(),
+    relative_time: timeAgo(p.createdAt),
+    parent_post_id: p.parentId ? String(p.parentId) : null,
+    user: null,
+    like_count: 0,
+    repost_count: 0,
+    reply_count: p.replyCount || 0,
+    view_count: 0,
   }
 }
 
@@ -71,29 +132,143 @@ function buildCursorQuery(cursor?: string) {
   }
 }
 
+/**
+ * feedItemsJson
+ * Feed-shaped items for a page of posts by any mix of authors: one author lookup and one
+ * quoted-post lookup per page.
+ */
+async function feedItemsJson(items: ITweet[], me: string | undefined) {
+  const usernames = Array.from(new Set(items.map(p => p.username)))
+  const authors = await User.find({ username: { $in: usernames } }).select('username fullName avatar verified').lean()
+  const metaByUsername = new Map<string, { fullName: string; avatar?: string | null; verified: boolean }>(
+    authors.map(a => [
+      a.username,
+      { fullName: (a as any).fullName, avatar: (a as any).avatar || null, verified: !!(a as any).verified },
+    ])
+  )
+  const quotes = await quotedCards(items.map(p => p.quotedId))
+  const reposted = await repostedByViewer(me, items.map(p => p._id as Types.ObjectId))
+  const votes = await viewerPollVotes(me, items.filter(p => p.poll).map(p => p._id as Types.ObjectId))
+
+  return items.map(p => ({
+    id: String(p._id),
+    text: p.text,
+    created_at: p.createdAt.toISOString(),
+    relative_time: timeAgo(p.createdAt),
+    parent_post_id: p.parentId ? String(p.parentId) : null,
+    user: {
+      fullName: (metaByUsername.get(p.username)?.fullName) || p.username,
+      username: p.username,
+      avatar: metaByUsername.get(p.username)?.avatar || null,
+      verified: metaByUsername.get(p.username)?.verified || false,
+    },
+    like_count: (Array.isArray((p as any).likes) ? (p as any).likes.length : Array.isArray((p as any).likesBy) ? (p as any).likesBy.length : 0),
+    liked: !!( me && Array.isArray((p as any).likes) && (p as any).likes.some((u:any)=> String(u)===String(me)) ),
+    repost_count: p.retweets?.length || 0,
+    reposted: reposted.has(String(p._id)),
+    reply_count: p.replyCount || 0,
+    quote_count: p.quoteCount || 0,
+    quoted_post_id: p.quotedId ? String(p.quotedId) : null,
+    quoted_post: p.quotedId ? quotes.get(String(p.quotedId)) ?? null : null,
+    media: (p.media || []).map(mediaJson),
+    poll: pollJson(p.poll, votes.get(String(p._id))),
+    place: placeJson(p.place),
+    view_count: (p as any).views ?? 0,
+    edited: !!p.editedAt,
+    edited_at: p.editedAt ? p.editedAt.toISOString() : null,
+  }))
+}
+
+/**
+ * timelinePage
+ * One feed page from two streams fetched with the same cursor, each newest first: posts and
+ * repost entries. Merged by time, so a repost sits where it was reposted, not where the post
+ * was written. Repost entries render as the original post plus `reposted_by`/`reposted_at`;
+ * `entry_id` tells the entries apart since one post can appear more than once.
+ * The cursor comes from the merged page before originals are resolved, so a repost of a post
+ * that has since gone only makes that page shorter.
+ */
+async function timelinePage(posts: ITweet[], reposts: IRepost[], take: number, me: string | undefined) {
+  type Entry = { at: Date; _id: Types.ObjectId; post?: ITweet; repost?: IRepost }
+  const entries: Entry[] = [
+    ...posts.map(p => ({ at: p.createdAt, _id: p._id as Types.ObjectId, post: p })),
+    ...reposts.map(r => ({ at: r.createdAt, _id: r._id as Types.ObjectId, repost: r })),
+  ]
+    .sort((a, b) => b.at.getTime() - a.at.getTime() || String(b._id).localeCompare(String(a._id)))
+    .slice(0, take)
+
+  const next = entries.length === take
+    ? `${entries[entries.length - 1].at.toISOString()}|${entries[entries.length - 1]._id}`
+    : null
+
+  const repostEntries = entries.filter(e => e.repost).map(e => e.repost!)
+  const [originals, reposters] = repostEntries.length
+    ? await Promise.all([
+        Tweet.find({ _id: { $in: repostEntries.map(r => r.post) }, ...LIVE, username: { $nin: await hiddenUsernames() } }),
+        User.find({ _id: { $in: repostEntries.map(r => r.user) }, status: { $ne: 'deactivated' } }).select('username fullName').lean(),
+      ])
+    : [[], []]
+  const reposterById = new Map(reposters.map(u => [String(u._id), u as any]))
+
+  const docs = [...entries.filter(e => e.post).map(e => e.post!), ...originals]
+  const json = new Map((await feedItemsJson(docs, me)).map(item => [item.id, item]))
+
+  const items = entries.flatMap(e => {
+    if (e.post) {
+      const item = json.get(String(e.post._id))
+      return item ? [{ ...item, entry_id: item.id }] : []
+    }
+    const item = json.get(String(e.repost!.post))
+    const by = reposterById.get(String(e.repost!.user))
+    if (!item || !by) return []
+    return [{
+      ...item,
+      entry_id: `repost:${e._id}`,
+      reposted_by: { username: by.username, fullName: by.fullName || by.username },
+      reposted_at: e.at.toISOString(),
+    }]
+  })
+  return { items, nextCursor: next }
+}
+
 // ----------------------------------------------------------------------------
 // Routes
 // ----------------------------------------------------------------------------
+// `:id` is a post ObjectId; anything else falls through to later routes (so /user/history
+// reaches /user/:username instead of failing to cast 'user' in /:id/history)
+router.param('id', (_req: Request, _res: Response, next: NextFunction, id: string) => {
+  return /^[a-f0-9]{24}$/i.test(id) ? next() : next('route')
+})
+
 /**
  * POST /posts
- * Body: { text: string }
- * Auth: Bearer access token
- * Effect: Creates a new post document in the Tweet collection.
+ * Body: { text: string, quoted_post_id?: string, media?: [{ id: string, alt?: string }], poll? }
+ * Auth: Bearer access token, or API token with `post` scope
+ * Effect: Creates a new post document in the Tweet collection. `:shortcode:` emoji in the text
+ * are expanded, and it may then be at most MAX_TWEET_LEN characters as weightedLength counts
+ * them, each link as URL_LENGTH (400 too_long). With `quoted_post_id` it is a quote post:
+ * the original must be live (404 quoted_not_found otherwise) and gains a quote.
+ * `media` attaches up to MAX_ATTACHMENTS of the author's uploads from POST /media, in order;
+ * 400 media_not_found if any isn't theirs or is already on a post.
+ * `poll: { options: string[], duration_minutes }` attaches a poll (lib/polls.ts); 400
+ * invalid_poll for blank or repeated options, poll_with_media alongside `media`.
+ * `place: { id } | { lat, lng }` tags the post with a gazetteer place or coordinates, stored
+ * coarsened (lib/places.ts); 400 invalid_place for an unknown id.
  */
-router.post('/', authenticateJWT, async (req: Request & { user?: any }, res: Response) => {
-  // Validate shape + length with zod, then sanitize content
-  const { text } = z.object({ text: z.string().min(1).max(MAX_TWEET_LEN) }).parse(req.body)
-  const cleaned =  sanitizeTweetText(text)
-  if (!cleaned) return res.status(400).json({ error: 'empty_text' })
+router.post('/', authenticateJWT, requireScope('post'), async (req: Request & { user?: any }, res: Response) => {
+  // Validate shape + length with zod; createPost sanitizes and checks the rest
+  const parsed = PostInputSchema.safeParse(req.body)
+  if (!parsed.success) return res.status(400).json({ error: 'invalid_payload', details: parsed.error.issues })
+  const input = parsed.data
 
-  const doc = await Tweet.create({
-    text: cleaned,
-    username: req.user!.username,
-    likes: [],
-    comments: [],
-    retweets: [],
-    createdAt: new Date(),
-  })
+  // Resolved by id: the token may predate a username change
+  const username = await currentUsername(req.user!._id)
+  if (!username) return res.status(401).json({ error: 'unauthorized' })
+
+  const created = await createPost({ _id: String(req.user!._id), username }, input)
+  if (!created.ok) return res.status(CREATE_ERROR_STATUS[created.reason]).json({ error: created.reason })
+  const doc = created.post
+  const quotes = await quotedCards([doc.quotedId])
 
   const author = await User.findOne({ username: doc.username }).select('fullName username avatar verified').lean()
 
@@ -110,74 +285,97 @@ router.post('/', authenticateJWT, async (req: Request & { user?: any }, res: Res
     },
     like_count: Array.isArray((doc as any).likes) ? (doc as any).likes.length : Array.isArray((doc as any).likesBy) ? (doc as any).likesBy.length : 0,
     repost_count: Array.isArray(doc.retweets) ? doc.retweets.length : 0,
-    reply_count: Array.isArray(doc.comments) ? doc.comments.length : 0,
+    reply_count: 0,
+    quote_count: 0,
+    quoted_post_id: doc.quotedId ? String(doc.quotedId) : null,
+    quoted_post: doc.quotedId ? quotes.get(String(doc.quotedId)) ?? null : null,
+    media: doc.media.map(mediaJson),
+    poll: pollJson(doc.poll, undefined),
+    place: placeJson(doc.place),
     view_count: (doc as any).views ?? 0,
+    edited: false,
+    edited_at: null,
   })
 })
 
 /**
  * GET /posts/feed/global?cursor=<iso>|<id>
- * Public global feed, newest first, cursor‑paginated.
+ * Public global feed, newest first, cursor‑paginated. For a signed-in viewer it also carries
+ * reposts by accounts they follow (see timelinePage).
  */
 router.get('/feed/global', async (req: Request, res: Response) => {
   const cursor = (req.query.cursor as string | undefined) ?? undefined
   const take = 20 // page size; keep modest for latency and mobile payloads
 
   const sort = { createdAt: -1, _id: -1 } as const
-  const query = buildCursorQuery(cursor)
+  // Deactivated authors are hidden from the feed until they reactivate or get purged
+  const query = { ...buildCursorQuery(cursor), ...LIVE, ...TOP_LEVEL, username: { $nin: await hiddenUsernames() } }
 
   const items = await Tweet.find(query).sort(sort).limit(take)
-  const usernames = Array.from(new Set(items.map(p => p.username)))
-  const authors = await User.find({ username: { $in: usernames } }).select('username fullName avatar verified').lean()
-  const metaByUsername = new Map<string, { fullName: string; avatar?: string | null; verified: boolean }>(
-    authors.map(a => [
-      a.username,
-      { fullName: (a as any).fullName, avatar: (a as any).avatar || null, verified: !!(a as any).verified },
-    ])
-  )
-  const me = getUserId(req)
 
-  const next = items.length === take
-    ? `${items[items.length - 1].createdAt.toISOString()}|${items[items.length - 1]._id}`
+  // Signed-in viewers also see reposts by the accounts they follow
+  const me = viewerId(req)
+  const viewer = me && Types.ObjectId.isValid(me)
+    ? await User.findById(me).select('following').lean<{ following?: Types.ObjectId[] }>()
     : null
+  const reposts = viewer?.following?.length
+    ? await Repost.find({ ...buildCursorQuery(cursor), user: { $in: viewer.following } }).sort(sort).limit(take)
+    : []
 
-  res.json({
-    items: items.map(p => ({
-      id: String(p._id),
-      text: p.text,
-      created_at: p.createdAt.toISOString(),
-      relative_time: timeAgo(p.createdAt),
-      parent_post_id: null,
-      user: {
-        fullName: (metaByUsername.get(p.username)?.fullName) || p.username,
-        username: p.username,
-        avatar: metaByUsername.get(p.username)?.avatar || null,
-        verified: metaByUsername.get(p.username)?.verified || false,
-      },
-      like_count: (Array.isArray((p as any).likes) ? (p as any).likes.length : Array.isArray((p as any).likesBy) ? (p as any).likesBy.length : 0),
-      liked: !!( me && Array.isArray((p as any).likes) && (p as any).likes.some((u:any)=> String(u)===String(me)) ),
-      repost_count: p.retweets?.length || 0,
-      reply_count: p.comments?.length || 0,
-      view_count: (p as any).views ?? 0,
-    })),
-    nextCursor: next,
-  })
+  res.json(await timelinePage(items, reposts, take, me))
+})
+
+/**
+ * GET /posts/nearby?lat=&lng=|place_id=&radius_km=&cursor=<iso>|<id>
+ * Public, newest first, cursor‑paginated: posts tagged with a place within `radius_km`
+ * (default DEFAULT_NEARBY_RADIUS_KM, at most MAX_NEARBY_RADIUS_KM) of the point or of the
+ * gazetteer place. 400 invalid_location without a usable centre.
+ */
+router.get('/nearby', async (req: Request, res: Response) => {
+  const parsed = z.object({
+    lat: z.coerce.number().min(-90).max(90).optional(),
+    lng: z.coerce.number().min(-180).max(180).optional(),
+    place_id: z.string().max(64).optional(),
+    radius_km: z.coerce.number().positive().max(MAX_NEARBY_RADIUS_KM).default(DEFAULT_NEARBY_RADIUS_KM),
+    cursor: z.string().optional(),
+  }).safeParse(req.query)
+  if (!parsed.success) return res.status(400).json({ error: 'invalid_location' })
+  const { lat, lng, place_id, radius_km, cursor } = parsed.data
+
+  const centre = place_id ? placeById(place_id) : lat !== undefined && lng !== undefined ? { lat, lng } : undefined
+  if (!centre) return res.status(400).json({ error: 'invalid_location' })
+
+  const take = 20
+  const query = {
+    ...withinKm(centre, radius_km),
+    ...buildCursorQuery(cursor),
+    ...LIVE,
+    ...TOP_LEVEL,
+    username: { $nin: await hiddenUsernames() },
+  }
+  const items = await Tweet.find(query).sort({ createdAt: -1, _id: -1 }).limit(take)
+  res.json(await timelinePage(items, [], take, viewerId(req)))
 })
 
 /**
  * GET /posts/:id
- * Returns a single post by id.
+ * Returns a single post by id, or its tombstone (`deleted: true`) once the author deleted it.
  */
 router.get('/:id', async (req: Request, res: Response) => {
   const p = await Tweet.findById(req.params.id)
   if (!p) return res.status(404).json({ error: 'not_found' })
-  const author = await User.findOne({ username: p.username }).select('fullName username avatar verified').lean()
+  if (p.deletedAt) return res.json(tombstoneJson(p))
+  const author = await User.findOne({ username: p.username }).select('fullName username avatar verified status').lean()
+  if ((author as any)?.status === 'deactivated') return res.status(404).json({ error: 'not_found' })
+  const quotes = await quotedCards([p.quotedId])
+  const reposted = await repostedByViewer(viewerId(req), [p._id as Types.ObjectId])
+  const votes = p.poll ? await viewerPollVotes(viewerId(req), [p._id as Types.ObjectId]) : new Map<string, number>()
   res.json({
     id: String(p._id),
     text: p.text,
     created_at: p.createdAt.toISOString(),
     relative_time: timeAgo(p.createdAt),
-    parent_post_id: null,
+    parent_post_id: p.parentId ? String(p.parentId) : null,
     user: {
       fullName: author?.fullName || p.username,
       username: p.username,
@@ -186,56 +384,302 @@ router.get('/:id', async (req: Request, res: Response) => {
     },
     like_count: (Array.isArray((p as any).likes) ? (p as any).likes.length : Array.isArray((p as any).likesBy) ? (p as any).likesBy.length : 0),
     repost_count: p.retweets?.length || 0,
-    reply_count: p.comments?.length || 0,
+    reposted: reposted.has(String(p._id)),
+    reply_count: p.replyCount || 0,
+    quote_count: p.quoteCount || 0,
+    quoted_post_id: p.quotedId ? String(p.quotedId) : null,
+    quoted_post: p.quotedId ? quotes.get(String(p.quotedId)) ?? null : null,
+    media: (p.media || []).map(mediaJson),
+    poll: pollJson(p.poll, votes.get(String(p._id))),
+    place: placeJson(p.place),
     view_count: (p as any).views ?? 0,
+    edited: !!p.editedAt,
+    edited_at: p.editedAt ? p.editedAt.toISOString() : null,
   })
 })
 
+/**
+ * DELETE /posts/:id
+ * Auth: the post's author; Bearer access token, or API token with `post` scope
+ * Effect: Blanks the post into a tombstone. Text, media, poll, likes and reposts go (so counters read 0);
+ * replies stay so the thread still renders under "this post was deleted", and quotes of it show
+ * a "deleted" card. A deleted reply or quote no longer counts toward its parent's reply_count
+ * or the original's quote_count.
+ */
+router.delete('/:id', authenticateJWT, requireScope('post'), async (req: Request & { user?: any }, res: Response) => {
+  const t = await Tweet.findOne({ _id: req.params.id, ...LIVE }).select('username parentId quotedId')
+  if (!t) return res.status(404).json({ error: 'not_found' })
+
+  // Resolved by id: the token may predate a username change
+  const username = await currentUsername(req.user!._id)
+  if (!username || t.username !== username) return res.status(403).json({ error: 'forbidden' })
+
+  const r = await Tweet.updateOne(
+    { _id: t._id, ...LIVE },
+    { $set: { deletedAt: new Date(), likes: [], retweets: [], revisions: [], media: [], poll: null, place: null }, $unset: { text: 1 } }
+  )
+  if (r.modifiedCount) {
+    await discardMedia({ post: t._id })
+    await PollVote.deleteMany({ post: t._id })
+    await releaseReply(t.parentId)
+    await releaseQuote(t.quotedId)
+    await Repost.deleteMany({ post: t._id })
+  }
+  res.json({ ok: true, id: String(t._id) })
+})
+
+/**
+ * PATCH /posts/:id
+ * Body: { text: string }
+ * Auth: the post's author; Bearer access token, or API token with `post` scope
+ * Effect: Replaces the text within POST_EDIT_WINDOW_MINUTES of posting and files the old text
+ * under `revisions`. Likes, reposts and replies carry over.
+ * Errors: 403 forbidden / edit_window_closed / edit_limit_reached, 400 unchanged / too_long,
+ * 409 edit_conflict when another edit landed first.
+ */
+router.patch('/:id', authenticateJWT, requireScope('post'), async (req: Request & { user?: any }, res: Response) => {
+  const parsed = z.object({ text: z.string().min(1).max(MAX_TWEET_INPUT_LEN) }).safeParse(req.body)
+  if (!parsed.success) return res.status(400).json({ error: 'invalid_payload', details: parsed.error.issues })
+  const cleaned = sanitizeTweetText(parsed.data.text)
+  if (!cleaned) return res.status(400).json({ error: 'empty_text' })
+  if (weightedLength(cleaned) > MAX_TWEET_LEN) return res.status(400).json({ error: 'too_long', max_length: MAX_TWEET_LEN })
+
+  const t = await Tweet.findOne({ _id: req.params.id, ...LIVE }).select('username text createdAt editedAt revisions')
+  if (!t) return res.status(404).json({ error: 'not_found' })
+
+  // Resolved by id: the token may predate a username change
+  const username = await currentUsername(req.user!._id)
+  if (!username || t.username !== username) return res.status(403).json({ error: 'forbidden' })
+
+  const now = new Date()
+  if (now.getTime() - t.createdAt.getTime() > EDIT_WINDOW_MS) {
+    return res.status(403).json({ error: 'edit_window_closed', window_minutes: POST_EDIT_WINDOW_MINUTES })
+  }
+  if ((t.revisions?.length || 0) >= MAX_POST_EDITS) return res.status(403).json({ error: 'edit_limit_reached' })
+  if (cleaned === t.text) return res.status(400).json({ error: 'unchanged' })
+
+  // Conditioned on the text we read, so two edits racing can't drop a version from the history
+  const r = await Tweet.updateOne(
+    { _id: t._id, text: t.text, ...LIVE },
+    {
+      $set: { text: cleaned, editedAt: now },
+      $push: { revisions: { text: t.text, createdAt: t.editedAt || t.createdAt } },
+    }
+  )
+  if (!r.modifiedCount) return res.status(409).json({ error: 'edit_conflict' })
+
+  res.json({ ok: true, id: String(t._id), text: cleaned, edited: true, edited_at: now.toISOString() })
+})
+
+/**
+ * GET /posts/:id/quotes?cursor=<iso>|<id>
+ * Quote posts of :id, newest first, same shape as the global feed. Quotes outlive their
+ * original, so this still answers for a deleted post.
+ */
+router.get('/:id/quotes', async (req: Request, res: Response) => {
+  if (!(await Tweet.exists({ _id: req.params.id }))) return res.status(404).json({ error: 'not_found' })
+  const cursor = (req.query.cursor as string | undefined) ?? undefined
+  const take = 20
+
+  const query = { ...buildCursorQuery(cursor), quotedId: req.params.id, ...LIVE, username: { $nin: await hiddenUsernames() } }
+  const items = await Tweet.find(query).sort({ createdAt: -1, _id: -1 }).limit(take)
+
+  const next = items.length === take
+    ? `${items[items.length - 1].createdAt.toISOString()}|${items[items.length - 1]._id}`
+    : null
+
+  res.json({ items: await feedItemsJson(items, viewerId(req)), nextCursor: next })
+})
+
+/**
+ * GET /posts/:id/history
+ * Every version of a post, newest first; the first item is the current text.
+ * Tombstones keep no history, so a deleted post answers 404.
+ */
+router.get('/:id/history', async (req: Request, res: Response) => {
+  const p = await Tweet.findOne({ _id: req.params.id, ...LIVE }).select('username text createdAt editedAt revisions')
+  if (!p) return res.status(404).json({ error: 'not_found' })
+  if (await User.exists({ username: p.username, status: 'deactivated' })) return res.status(404).json({ error: 'not_found' })
+
+  const current = { text: p.text, created_at: (p.editedAt || p.createdAt).toISOString(), current: true }
+  const prior = [...(p.revisions || [])].reverse().map(v => ({ text: v.text, created_at: v.createdAt.toISOString(), current: false }))
+  res.json({ id: String(p._id), edited: !!p.editedAt, items: [current, ...prior] })
+})
+
+type ThreadDoc = {
+  _id: Types.ObjectId
+  text?: string
+  username: string
+  likes?: unknown[]
+  retweets?: unknown[]
+  parentId?: Types.ObjectId | null
+  rootId?: Types.ObjectId | null
+  replyCount?: number
+  media?: IAttachment[]
+  poll?: IPoll | null
+  place?: IPlace | null
+  editedAt?: Date | null
+  deletedAt?: Date | null
+  createdAt: Date
+}
+
+/**
+ * GET /posts/:id/thread
+ * The conversation around a post, for the post detail view:
+ *  • `ancestors`: the chain of posts it replies to, top of the conversation first
+ *  • `post`: the post itself with `replies` nested up to THREAD_MAX_DEPTH levels, oldest first.
+ *    Every node carries `more_replies`, the replies not included, to fetch from /comments/:id
+ * Deleted posts, and posts by deactivated authors, appear as tombstones only while replies
+ * hang under them.
+ */
+router.get('/:id/thread', async (req: Request, res: Response) => {
+  const p = await Tweet.findById(req.params.id).lean<ThreadDoc>()
+  if (!p) return res.status(404).json({ error: 'not_found' })
+  const hidden = new Set(await hiddenUsernames())
+  if (!p.deletedAt && hidden.has(p.username)) return res.status(404).json({ error: 'not_found' })
+
+  // The chain above it in one query, following parentId; depth 0 is the direct parent
+  const [up] = p.parentId
+    ? await Tweet.aggregate<{ chain: Array<ThreadDoc & { depth: number }> }>([
+        { $match: { _id: p._id } },
+        {
+          $graphLookup: {
+            from: Tweet.collection.name,
+            startWith: '$parentId',
+            connectFromField: 'parentId',
+            connectToField: '_id',
+            as: 'chain',
+            maxDepth: THREAD_MAX_ANCESTORS - 1,
+            depthField: 'depth',
+          },
+        },
+        { $project: { chain: 1 } },
+      ])
+    : []
+  const ancestors: ThreadDoc[] = (up?.chain || []).sort((a, b) => b.depth - a.depth)
+
+  // Its own replies, one level per query down to THREAD_MAX_DEPTH, oldest first; the
+  // THREAD_MAX_NODES budget goes to this subtree only, not to sibling branches
+  const later: ThreadDoc[] = []
+  const children = new Map<string, ThreadDoc[]>()
+  let frontier = [p._id]
+  for (let depth = 0; depth < THREAD_MAX_DEPTH && frontier.length && later.length < THREAD_MAX_NODES; depth++) {
+    const level = await Tweet.find({ parentId: { $in: frontier } })
+      .sort({ createdAt: 1, _id: 1 })
+      .limit(THREAD_MAX_NODES - later.length)
+      .lean<ThreadDoc[]>()
+    for (const d of level) {
+      const key = String(d.parentId)
+      children.set(key, [...(children.get(key) || []), d])
+    }
+    later.push(...level)
+    frontier = level.map(d => d._id)
+  }
+
+  const usernames = [...new Set([p, ...ancestors, ...later].map(d => d.username))]
+  const authors = await User.find({ username: { $in: usernames } }).select('username fullName avatar verified').lean()
+  const meta = new Map(authors.map(a => [a.username, a as any]))
+  const me = viewerId(req)
+  const votes = await viewerPollVotes(me, [p, ...ancestors, ...later].filter(d => d.poll).map(d => d._id))
+
+  const gone = (d: ThreadDoc) => !!d.deletedAt || hidden.has(d.username)
+  const json = (d: ThreadDoc) => gone(d) ? tombstoneJson(d) : {
+    id: String(d._id),
+    text: d.text,
+    created_at: d.createdAt.toISOString(),
+    relative_time: timeAgo(d.createdAt),
+    parent_post_id: d.parentId ? String(d.parentId) : null,
+    user: {
+      fullName: meta.get(d.username)?.fullName || d.username,
+      username: d.username,
+      avatar: meta.get(d.username)?.avatar || null,
+      verified: !!meta.get(d.username)?.verified,
+    },
+    like_count: d.likes?.length || 0,
+    liked: !!(me && d.likes?.some(u => String(u) === String(me))),
+    repost_count: d.retweets?.length || 0,
+    reply_count: d.replyCount || 0,
+    media: (d.media || []).map(mediaJson),
+    poll: pollJson(d.poll, votes.get(String(d._id))),
+    place: placeJson(d.place),
+    edited: !!d.editedAt,
+    edited_at: d.editedAt ? d.editedAt.toISOString() : null,
+  }
+
+  type ThreadNode = ReturnType<typeof json> & { replies: ThreadNode[]; more_replies: number }
+  const build = (d: ThreadDoc, depth: number): ThreadNode | null => {
+    const kids = depth < THREAD_MAX_DEPTH ? (children.get(String(d._id)) || []) : []
+    const replies = kids.map(k => build(k, depth + 1)).filter((n): n is ThreadNode => n !== null)
+    if (depth > 0 && gone(d) && replies.length === 0) return null
+    const shown = replies.filter(r => !('deleted' in r)).length
+    return { ...json(d), replies, more_replies: Math.max(0, (d.replyCount || 0) - shown) }
+  }
+
+  res.json({ ancestors: ancestors.map(json), post: build(p, 0) })
+})
+
+/**
+ * POST /posts/:id/poll/votes
+ * Body: { option: number } — index into the poll's options
+ * Auth: Bearer access token, or API token with `engage` scope
+ * Effect: Casts the current user's one vote; answers the poll with tallies now visible to them.
+ * Errors: 404 not_found (no such post or no poll), 409 poll_closed / already_voted, 400 invalid_option
+ */
+router.post('/:id/poll/votes', authenticateJWT, requireScope('engage'), async (req: Request & { user?: any }, res: Response) => {
+  const parsed = z.object({ option: z.number().int().min(0) }).safeParse(req.body)
+  if (!parsed.success) return res.status(400).json({ error: 'invalid_option' })
+
+  const r = await castVote(req.params.id, String(req.user!._id), parsed.data.option)
+  if (!r.ok) {
+    if (r.reason === 'not_found') return res.status(404).json({ error: 'not_found' })
+    if (r.reason === 'closed') return res.status(409).json({ error: 'poll_closed' })
+    if (r.reason === 'already_voted') return res.status(409).json({ error: 'already_voted' })
+    return res.status(400).json({ error: 'invalid_option' })
+  }
+  res.json({ ok: true, poll: pollJson(r.poll, parsed.data.option) })
+})
+
 /**
  * POST /posts/:id/like — toggle like by current user
  * DELETE /posts/:id/like — ensure unliked
  */
-router.post('/:id/like', authenticateJWT, async (req: Request & { user?: any }, res: Response) => {
+router.post('/:id/like', authenticateJWT, requireScope('engage'), async (req: Request & { user?: any }, res: Response) => {
   const { id } = req.params;
   const uid = req.user!._id;
-  await Tweet.updateOne({ _id: id }, { $addToSet: { likes: uid } });
-  const t = await Tweet.findById(id).select('likes').lean();
+  await Tweet.updateOne({ _id: id, ...LIVE }, { $addToSet: { likes: uid } });
+  const t = await Tweet.findOne({ _id: id, ...LIVE }).select('likes').lean();
   if (!t) return res.status(404).json({ error: 'not_found' });
   res.json({ ok: true, liked: true, like_count: (t as any).likes?.length || 0 });
 });
 
-router.delete('/:id/like', authenticateJWT, async (req: Request & { user?: any }, res: Response) => {
+router.delete('/:id/like', authenticateJWT, requireScope('engage'), async (req: Request & { user?: any }, res: Response) => {
   const { id } = req.params;
   const uid = req.user!._id;
-  await Tweet.updateOne({ _id: id }, { $pull: { likes: uid } });
-  const t = await Tweet.findById(id).select('likes').lean();
+  await Tweet.updateOne({ _id: id, ...LIVE }, { $pull: { likes: uid } });
+  const t = await Tweet.findOne({ _id: id, ...LIVE }).select('likes').lean();
   if (!t) return res.status(404).json({ error: 'not_found' });
   res.json({ ok: true, liked: false, like_count: (t as any).likes?.length || 0 });
 })
 
 /**
- * POST /posts/:id/repost — toggle repost by current user
+ * POST /posts/:id/repost — ensure reposted by current user (a timeline entry for followers)
  * DELETE /posts/:id/repost — ensure not reposted
+ * Both answer { ok, reposted, repost_count }, so a client can set its button from either.
  */
-router.post('/:id/repost', authenticateJWT, async (req: Request & { user?: any }, res: Response) => {
-  const t = await Tweet.findById(req.params.id)
-  if (!t) return res.status(404).json({ error: 'not_found' })
-  const uname = req.user!.username
-  const has = (t.retweets || []).some((rt: any) => rt.username === uname)
-  t.retweets = has
-    ? (t.retweets || []).filter((rt: any) => rt.username !== uname)
-    : [ ...(t.retweets || []), { username: uname, createdAt: new Date() } ]
-  await t.save()
-  res.json({ ok: true, repost_count: t.retweets.length })
+router.post('/:id/repost', authenticateJWT, requireScope('engage'), async (req: Request & { user?: any }, res: Response) => {
+  const uname = await currentUsername(req.user!._id)
+  if (!uname) return res.status(401).json({ error: 'unauthorized' })
+  const r = await addRepost(req.params.id, { _id: req.user!._id, username: uname })
+  if (!r.ok) return res.status(404).json({ error: 'not_found' })
+  res.json({ ok: true, reposted: r.reposted, repost_count: r.repostCount })
 })
 
-router.delete('/:id/repost', authenticateJWT, async (req: Request & { user?: any }, res: Response) => {
-  const t = await Tweet.findById(req.params.id)
-  if (!t) return res.status(404).json({ error: 'not_found' })
-  const uname = req.user!.username
-  t.retweets = (t.retweets || []).filter((rt: any) => rt.username !== uname)
-  await t.save()
-  res.json({ ok: true, repost_count: t.retweets.length })
+router.delete('/:id/repost', authenticateJWT, requireScope('engage'), async (req: Request & { user?: any }, res: Response) => {
+  const uname = await currentUsername(req.user!._id)
+  if (!uname) return res.status(401).json({ error: 'unauthorized' })
+  const r = await removeRepost(req.params.id, { _id: req.user!._id, username: uname })
+  if (!r.ok) return res.status(404).json({ error: 'not_found' })
+  res.json({ ok: true, reposted: r.reposted, repost_count: r.repostCount })
 })
 
 /**
@@ -244,59 +688,49 @@ router.delete('/:id/repost', authenticateJWT, async (req: Request & { user?: any
  * Note: this is a telemetry placeholder and does not store to DB yet.
  */
 router.post('/:id/report', async (req: Request, res: Response) => {
-  const { reason } = z.object({ reason: z.string().min(1).max(200) }).parse(req.body)
-  console.warn('report received', { postId: req.params.id, reason })
+  const parsed = z.object({ reason: z.string().min(1).max(200) }).safeParse(req.body)
+  if (!parsed.success) return res.status(400).json({ error: 'invalid_payload', details: parsed.error.issues })
+  console.warn('report received', { postId: req.params.id, reason: parsed.data.reason })
   return res.json({ ok: true })
 })
 
+// An old handle of a renamed user answers 307 to /posts/user/<current handle>
+router.param('username', redirectRenamedHandle)
+
 /**
  * GET /posts/user/:username?cursor=<iso>|<id>
- * Returns posts authored by :username, newest first, same shape as global feed.
+ * Returns posts authored by :username and their reposts, newest first, same shape as global feed.
  */
 router.get('/user/:username', async (req: Request, res: Response) => {
   const { username } = req.params
   const cursor = (req.query.cursor as string | undefined) ?? undefined
-  const me = getUserId(req)
+  const me = viewerId(req)
   const take = 20
   const sort = { createdAt: -1, _id: -1 } as const
 
-  const base = { username }
+  if (await User.exists({ username, status: 'deactivated' })) {
+    return res.json({ items: [], nextCursor: null })
+  }
+
+  const base = { username, ...LIVE, ...TOP_LEVEL }
   const q = cursor ? { $and: [base, buildCursorQuery(cursor)] } : base
 
   const items = await Tweet.find(q).sort(sort).limit(take)
-  const next = items.length === take
-    ? `${items[items.length - 1].createdAt.toISOString()}|${items[items.length - 1]._id}`
-    : null
 
-  // single author lookup
-  const author = await User.findOne({ username }).select('username fullName avatar verified').lean()
-  const fullName = author?.fullName || username
-  const avatar = (author as any)?.avatar || null
-  const verified = !!((author as any)?.verified)
+  // Their reposts, in repost order
+  const author = await User.findOne({ username }).select('_id').lean()
+  const reposts = author
+    ? await Repost.find({ ...buildCursorQuery(cursor), user: author._id }).sort(sort).limit(take)
+    : []
 
-  res.json({
-    items: items.map(p => ({
-      id: String(p._id),
-      text: p.text,
-      created_at: p.createdAt.toISOString(),
-      relative_time: timeAgo(p.createdAt),
-      parent_post_id: null,
-      user: { fullName, username, avatar, verified },
-      like_count: (Array.isArray((p as any).likes) ? (p as any).likes.length : Array.isArray((p as any).likesBy) ? (p as any).likesBy.length : 0),
-      liked: !!( me && Array.isArray((p as any).likes) && (p as any).likes.some((u:any)=> String(u)===String(me)) ),
-      repost_count: p.retweets?.length || 0,
-      reply_count: p.comments?.length || 0,
-      view_count: (p as any).views ?? 0,
-    })),
-    nextCursor: next,
-  })
+  res.json(await timelinePage(items, reposts, take, me))
 })
 
 /**
  * POST /posts/:id/like/toggle — per-user idempotent toggle
  * If user already liked → unlike; else → like. Always returns latest like_count.
  */
-router.post('/:id/like/toggle', authenticateJWT, async (req: Request & { user?: any }, res: Response) => {
+router.post('/:id/like/toggle', authenticateJWT, requireScope('engage'), async (req: Request & { user?: any }, res: Response) => {
   const { id } = req.params;
   const uid = req.user!._id;
 
@@ -304,12 +738,12 @@ router.post('/:id/like/toggle', authenticateJWT, async (req: Request & { user?:
   const already = await Tweet.exists({ _id: id, likes: uid });
 
   if (already) {
-    await Tweet.updateOne({ _id: id }, { $pull: { likes: uid } });
+    await Tweet.updateOne({ _id: id, ...LIVE }, { $pull: { likes: uid } });
   } else {
-    await Tweet.updateOne({ _id: id }, { $addToSet: { likes: uid } });
+    await Tweet.updateOne({ _id: id, ...LIVE }, { $addToSet: { likes: uid } });
   }
 
-  const t = await Tweet.findById(id).select('likes').lean();
+  const t = await Tweet.findOne({ _id: id, ...LIVE }).select('likes').lean();
   if (!t) return res.status(404).json({ error: 'not_found' });
 
   return res.json({ ok: true, liked: !already, like_count: (t as any).likes?.length || 0 });
@@ -2,17 +2,29 @@ import { Router, Request, Response } from 'express'
 import User from '../models/user.js'
 import Tweet from '../models/tweet.js'
 import multer from 'multer'
-import { authenticateJWT } from '../middleware/authenticate.js'
+import { authenticateJWT, requireFullAccount, requireScope, requireSession } from '../middleware/authenticate.js'
+import { redirectRenamedHandle } from '../middleware/renamedHandle.js'
+import { ACTIVE_USER_FILTER, confirmIdentity, deactivateAccount, DELETION_GRACE_DAYS, REAUTH_WINDOW_MINUTES } from '../lib/accounts.js'
+import { changeUsername, USERNAME_HOLD_DAYS } from '../lib/usernames.js'
+import { clearRefreshCookie, signAccessToken } from '../lib/sessions.js'
+import { recordSecurityEvent } from '../lib/audit.js'
+import { discardProfileImage, MAX_IMAGE_BYTES, mediaJson, saveProfileImage } from '../lib/media.js'
+import { pollJson } from '../lib/polls.js'
+import { placeJson } from '../lib/places.js'
+import { UsernameChangeSchema } from '../schemas/zod.js'
 
 const router = Router()
-const upload = multer({ storage: multer.memoryStorage() })
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_IMAGE_BYTES } })
+
+// Old handles of renamed users answer 307 to the current one on every /users/:username/* route
+router.param('username', redirectRenamedHandle)
 
 // GET /users/suggested?take=6
 // Returns a plain array of users: [{ id, fullName, username, avatar }]
 router.get('/suggested', async (req: Request, res: Response) => {
   try {
     const take = Math.min(Number(req.query.take) || 6, 50)
-    const docs = await User.find({}, { username: 1, fullName: 1, avatar: 1 })
+    const docs = await User.find({ ...ACTIVE_USER_FILTER, isGuest: { $ne: true } }, { username: 1, fullName: 1, avatar: 1 })
       .sort({ createdAt: -1 })
       .limit(take)
       .lean()
@@ -46,18 +58,18 @@ function buildCursorQuery(cursor?: string) {
 }
 
 // GET /users/:username/posts?cursor=
-// Returns paginated list of a user's tweets
+// Returns paginated list of a user's top-level posts; their replies live in the threads
 router.get('/:username/posts', async (req: Request, res: Response) => {
   try {
     const username = String(req.params.username || '').trim().toLowerCase()
     const take = Math.min(Number(req.query.take) || 20, 50)
     const cursor = (req.query.cursor as string | undefined) ?? undefined
 
-    // ensure user exists
-    const u = await User.findOne({ username }).select('_id username fullName')
+    // ensure user exists and is not deactivated
+    const u = await User.findOne({ username, ...ACTIVE_USER_FILTER }).select('_id username fullName')
     if (!u) return res.json({ items: [], nextCursor: null })
 
-    const query = { username: u.username, ...buildCursorQuery(cursor) }
+    const query = { username: u.username, parentId: null, deletedAt: null, ...buildCursorQuery(cursor) }
 
     const items = await Tweet.find(query)
       .sort({ createdAt: -1, _id: -1 })
@@ -72,10 +84,16 @@ router.get('/:username/posts', async (req: Request, res: Response) => {
         id: String(p._id),
         text: p.text,
         created_at: p.createdAt,
-        parent_post_id: null,
+        parent_post_id: p.parentId ? String(p.parentId) : null,
         user: { id: String(u._id), handle: u.username, fullName: (u as any).fullName },
         like_count: Array.isArray(p.likes) ? p.likes.length : 0,
         repost_count: Array.isArray(p.retweets) ? p.retweets.length : 0,
+        quote_count: p.quoteCount || 0,
+        quoted_post_id: p.quotedId ? String(p.quotedId) : null,
+        media: (p.media || []).map(mediaJson),
+        poll: pollJson(p.poll, undefined),
+        place: placeJson(p.place),
+        edited: !!p.editedAt,
       })),
       nextCursor: next,
     })
@@ -85,13 +103,13 @@ router.get('/:username/posts', async (req: Request, res: Response) => {
   }
 })
 
-// GET /users/:username/profile → minimal public profile
+// GET /users/:username/profile → minimal public profile (404 while deactivated)
 router.get('/:username/profile', async (req: Request, res: Response) => {
   try {
     const username = String(req.params.username || '').trim().toLowerCase()
-    const u = await User.findOne({ username }).select('_id username fullName')
+    const u = await User.findOne({ username, ...ACTIVE_USER_FILTER }).select('_id username fullName isAutomated')
     if (!u) return res.status(404).json({ error: 'not_found' })
-    return res.json({ id: String(u._id), username: u.username, fullName: (u as any).fullName })
+    return res.json({ id: String(u._id), username: u.username, fullName: (u as any).fullName, isAutomated: !!u.isAutomated })
   } catch (e) {
     console.error('GET /users/:username/profile error:', e)
     return res.status(500).json({ error: 'server_error' })
@@ -99,7 +117,7 @@ router.get('/:username/profile', async (req: Request, res: Response) => {
 })
 
 // GET /users/me → current authenticated user
-router.get('/me', authenticateJWT, async (req: Request, res: Response) => {
+router.get('/me', authenticateJWT, requireScope('read'), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user?._id || (req as any).user?.id
     if (!userId) return res.status(401).json({ error: 'unauthorized' })
@@ -116,6 +134,9 @@ router.get('/me', authenticateJWT, async (req: Request, res: Response) => {
       followers: Array.isArray((u as any).followers) ? (u as any).followers.length : 0,
       following: Array.isArray((u as any).following) ? (u as any).following.length : 0,
       verified: !!(u as any).verified,
+      isGuest: !!u.isGuest,
+      hasPassword: u.hasPassword !== false,
+      isAutomated: !!u.isAutomated,
       createdAt: (u as any).createdAt,
       updatedAt: (u as any).updatedAt,
     })
@@ -125,13 +146,28 @@ router.get('/me', authenticateJWT, async (req: Request, res: Response) => {
   }
 })
 
+const IMAGE_ERROR_STATUS = { unsupported_type: 415, too_large: 413, unreadable: 400 } as const
+
+// multer's own errors (file over MAX_IMAGE_BYTES, unknown fields) as JSON errors
+function receiveProfileImages(req: Request, res: Response, next: (err?: any) => void) {
+  upload.fields([{ name: 'cover', maxCount: 1 }, { name: 'avatar', maxCount: 1 }])(req, res, (err?: any) => {
+    if (!err) return next()
+    if (err?.code === 'LIMIT_FILE_SIZE') return res.status(413).json({ error: 'too_large' })
+    return res.status(400).json({ error: 'invalid_upload' })
+  })
+}
+
 // PUT /users/me  (update profile: JSON or multipart)
 // Accepts fields: fullName, bio, link
-// Accepts files: cover, avatar
+// Accepts files: cover, avatar — stored as files at standard sizes (lib/media.ts); the profile
+// keeps their URLs. 415 unsupported_type / 400 unreadable for files that aren't usable images
+// Guests get 403 guest_account until they upgrade
 router.put(
   '/me',
   authenticateJWT,
-  upload.fields([{ name: 'cover', maxCount: 1 }, { name: 'avatar', maxCount: 1 }]),
+  requireSession,
+  requireFullAccount,
+  receiveProfileImages,
   async (req: Request, res: Response) => {
     try {
       const userId = (req as any).user?._id || (req as any).user?.id
@@ -143,8 +179,6 @@ router.put(
         link?: string
       }
 
-      // Convert uploaded files to data URLs (placeholder storage).
-      // Replace with a real uploader (S3/Cloudinary) in production.
       let coverImageUrl: string | undefined
       let avatarUrl: string | undefined
 
@@ -153,10 +187,17 @@ router.put(
       const avatarFile = files?.avatar?.[0]
 
       if (coverFile) {
-        coverImageUrl = `data:${coverFile.mimetype};base64,${coverFile.buffer.toString('base64')}`
+        const saved = await saveProfileImage('cover', coverFile.buffer)
+        if (!saved.ok) return res.status(IMAGE_ERROR_STATUS[saved.reason]).json({ error: saved.reason, field: 'cover' })
+        coverImageUrl = saved.url
       }
       if (avatarFile) {
-        avatarUrl = `data:${avatarFile.mimetype};base64,${avatarFile.buffer.toString('base64')}`
+        const saved = await saveProfileImage('avatar', avatarFile.buffer)
+        if (!saved.ok) {
+          await discardProfileImage(coverImageUrl)
+          return res.status(IMAGE_ERROR_STATUS[saved.reason]).json({ error: saved.reason, field: 'avatar' })
+        }
+        avatarUrl = saved.url
       }
 
       const update: any = {}
@@ -166,7 +207,16 @@ if (typeof link === 'string') update.link = link.trim()
 if (coverImageUrl) update.coverImage = coverImageUrl
 if (avatarUrl) update.avatar = avatarUrl
 
-const updated = await User.findByIdAndUpdate(userId, { $set: update }, { new: true }).lean()
+const previous = await User.findByIdAndUpdate(userId, { $set: update }).select('avatar coverImage').lean()
+if (!previous) {
+  await discardProfileImage(coverImageUrl)
+  await discardProfileImage(avatarUrl)
+  return res.status(404).json({ error: 'not_found' })
+}
+// The replaced files
+if (coverImageUrl) await discardProfileImage((previous as any).coverImage)
+if (avatarUrl) await discardProfileImage((previous as any).avatar)
+const updated = await User.findById(userId).lean()
 if (!updated) return res.status(404).json({ error: 'not_found' })
 
 return res.json({
@@ -190,14 +240,77 @@ return res.json({
   }
 )
 
+// PUT /users/me/username — change handle; body: { username }
+// Tweets, comments and reposts move to the new handle; the old one is held for the user for
+// `holdDays` and redirects to the new one. Returns a fresh accessToken carrying the new handle.
+// Errors: 400 invalid_payload | unchanged, 409 username_taken, 429 too_soon (+ retryAt)
+router.put('/me/username', authenticateJWT, requireSession, requireFullAccount, async (req: Request, res: Response) => {
+  try {
+    const me = (req as any).user
+    if (!me?._id) return res.status(401).json({ error: 'unauthorized' })
+
+    const parsed = UsernameChangeSchema.safeParse(req.body)
+    if (!parsed.success) return res.status(400).json({ error: 'invalid_payload', message: parsed.error.issues[0]?.message })
+
+    const result = await changeUsername(me._id, parsed.data.username)
+    if (!result.ok) {
+      if (result.reason === 'too_soon') return res.status(429).json({ error: 'too_soon', retryAt: result.retryAt })
+      if (result.reason === 'username_taken') return res.status(409).json({ error: 'username_taken' })
+      if (result.reason === 'unchanged') return res.status(400).json({ error: 'unchanged' })
+      return res.status(404).json({ error: 'not_found' })
+    }
+
+    await recordSecurityEvent(req, me._id, 'username_changed')
+    return res.json({
+      ok: true,
+      username: result.to,
+      previousUsername: result.from,
+      holdDays: USERNAME_HOLD_DAYS,
+      accessToken: signAccessToken({ _id: me._id, username: result.to }, me.sid),
+    })
+  } catch (e) {
+    console.error('PUT /users/me/username error:', e)
+    return res.status(500).json({ error: 'server_error' })
+  }
+})
+
+// POST /users/me/deactivate — hide the account now, purge it after the grace window
+// Body: { password }; an account without one (identity provider sign-up) sends {} and must
+// have signed in within REAUTH_WINDOW_MINUTES (403 reauth_required otherwise).
+// Signing in again before `deletionScheduledFor` reactivates it.
+router.post('/me/deactivate', authenticateJWT, requireSession, requireFullAccount, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?._id || (req as any).user?.id
+    if (!userId) return res.status(401).json({ error: 'unauthorized' })
+
+    const password = typeof req.body?.password === 'string' ? req.body.password : ''
+
+    const u = await User.findById(userId).select('password hasPassword status')
+    if (!u) return res.status(404).json({ error: 'not_found' })
+    if (u.status === 'deactivated') return res.status(409).json({ error: 'already_deactivated' })
+    const confirmed = await confirmIdentity(u, password, (req as any).user?.sid)
+    if (!confirmed.ok) {
+      const status = { password_required: 400, wrong_password: 401, reauth_required: 403 }[confirmed.reason]
+      return res.status(status).json({ error: confirmed.reason, ...(confirmed.reason === 'reauth_required' ? { windowMinutes: REAUTH_WINDOW_MINUTES } : {}) })
+    }
+
+    const deletionScheduledFor = await deactivateAccount(u._id)
+    clearRefreshCookie(res)
+    return res.json({ ok: true, deletionScheduledFor, graceDays: DELETION_GRACE_DAYS })
+  } catch (e) {
+    console.error('POST /users/me/deactivate error:', e)
+    return res.status(500).json({ error: 'server_error' })
+  }
+})
+
 // POST /users/:username/follow — follow a user
-router.post('/:username/follow', authenticateJWT, async (req: Request, res: Response) => {
+router.post('/:username/follow', authenticateJWT, requireFullAccount, requireScope('engage'), async (req: Request, res: Response) => {
   try {
     const meId = (req as any).user?._id || (req as any).user?.id
     if (!meId) return res.status(401).json({ error: 'unauthorized' })
 
     const username = String(req.params.username || '').trim().toLowerCase()
-    const target = await User.findOne({ username }).select('_id username').lean()
+    const target = await User.findOne({ username, ...ACTIVE_USER_FILTER }).select('_id username').lean()
     if (!target) return res.status(404).json({ error: 'not_found' })
     if (String(target._id) === String(meId)) {
       return res.status(400).json({ error: 'cannot_follow_self' })
@@ -228,7 +341,7 @@ router.post('/:username/follow', authenticateJWT, async (req: Request, res: Resp
 })
 
 // DELETE /users/:username/follow — unfollow a user
-router.delete('/:username/follow', authenticateJWT, async (req: Request, res: Response) => {
+router.delete('/:username/follow', authenticateJWT, requireFullAccount, requireScope('engage'), async (req: Request, res: Response) => {
   try {
     const meId = (req as any).user?._id || (req as any).user?.id
     if (!meId) return res.status(401).json({ error: 'unauthorized' })
@@ -265,7 +378,7 @@ router.delete('/:username/follow', authenticateJWT, async (req: Request, res: Re
 })
 
 // GET /users/:username/relationship — is current user following target?
-router.get('/:username/relationship', authenticateJWT, async (req: Request, res: Response) => {
+router.get('/:username/relationship', authenticateJWT, requireScope('read'), async (req: Request, res: Response) => {
   try {
     const meId = (req as any).user?._id || (req as any).user?.id
     const username = String(req.params.username || '').trim().toLowerCase()
@@ -289,7 +402,7 @@ router.get('/:username/relationship', authenticateJWT, async (req: Request, res:
 // GET /users → all users for WhoToFollow
 router.get('/', async (req: Request, res: Response) => {
   try {
-    const docs = await User.find({}, { username: 1, fullName: 1, avatar: 1 })
+    const docs = await User.find({ ...ACTIVE_USER_FILTER, isGuest: { $ne: true } }, { username: 1, fullName: 1, avatar: 1 })
       .sort({ createdAt: -1 })
       .lean();
 
@@ -1,26 +1,61 @@
 import { z } from "zod"
 
-// ── Signup Schema ────────────────────────────────
-export const SignupSchema = z.object({
-  fullName: z
+// ── Shared password rules ────────────────────────────────
+// Used by signup, recovery and change-password so the rules can't drift apart
+const password = z
   .string()
-  .min(2, "Full Name must be at least 2 characters")
-  .max(50, "Full Name cannot exceed 50 characters"),
-  username: z
-    .string()
-    .min(4, "Username must be at least 4 characters")
-    .max(24, "Username cannot exceed 24 characters"),
-  password: z
-    .string()
-    .min(6, "Password must be at least 6 characters")
-    .max(20, "Password must be at most 20 characters"),
-  confirmPassword: z
-    .string()
-    .min(6, "Confirm Password must be at least 6 characters")
-    .max(20, "confirm Password must be at most 20 characters"),
-}).refine((data) => data.password === data.confirmPassword, {
+  .min(6, "Password must be at least 6 characters")
+  .max(20, "Password must be at most 20 characters")
+
+const confirmPassword = z
+  .string()
+  .min(6, "Confirm Password must be at least 6 characters")
+  .max(20, "confirm Password must be at most 20 characters")
+
+const passwordsMatch = {
+  check: (data: { password: string; confirmPassword: string }) => data.password === data.confirmPassword,
   message: "⚠️ Passwords do not match",
   path: ["confirmPassword"],
+}
+
+// A 6-digit authenticator code or an 8-character backup code (two-factor sign-in and recovery)
+const twoFactorCode = z.string().trim().min(6, "Code is required").max(20, "Invalid code")
+
+// ── Shared identity rules ────────────────────────────────
+// Values are trimmed (and the username lowercased) before validation, so every
+// signup entry point stores exactly what it validated
+const fullName = z
+  .string()
+  .trim()
+  .min(2, "Full name must be at least 2 characters")
+  .max(50, "Full name cannot exceed 50 characters")
+  .regex(/^[a-zA-Z\s]+$/, "Full name can only contain letters and spaces")
+
+const username = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(3, "Username must be at least 3 characters")
+  .max(20, "Username cannot exceed 20 characters")
+  .regex(/^[a-z0-9_]+$/, "Username can only contain letters, numbers and underscores")
+
+// confirmPassword is optional for API clients, but must match when sent
+const optionalConfirmMatches = {
+  check: (data: { password: string; confirmPassword?: string }) =>
+    data.confirmPassword === undefined || data.password === data.confirmPassword,
+  message: passwordsMatch.message,
+  path: passwordsMatch.path,
+}
+
+// ── Signup Schema ────────────────────────────────
+export const SignupSchema = z.object({
+  fullName,
+  username,
+  password,
+  confirmPassword: confirmPassword.optional(),
+}).refine(optionalConfirmMatches.check, {
+  message: optionalConfirmMatches.message,
+  path: optionalConfirmMatches.path,
 })
 
 // ── Login Schema ────────────────────────────────
@@ -29,6 +64,112 @@ export const LoginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 })
 
+// ── Recover Schema ────────────────────────────────
+// New password follows the same rules as SignupSchema; `code` is required when the account
+// has two-factor authentication on, since the secret key replaces the password only
+export const RecoverSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  secretKey: z.string().min(1, "Secret key is required"),
+  password,
+  confirmPassword,
+  code: twoFactorCode.optional(),
+}).refine(passwordsMatch.check, {
+  message: passwordsMatch.message,
+  path: passwordsMatch.path,
+})
+
+// ── Change Password Schema ────────────────────────────────
+// Caller proves ownership with the current password or, if forgotten, the recovery secret key;
+// an account without a password yet (identity provider sign-up) sends neither, see /auth/password
+export const ChangePasswordSchema = z.object({
+  currentPassword: z.string().optional(),
+  secretKey: z.string().optional(),
+  password,
+  confirmPassword,
+}).refine(passwordsMatch.check, {
+  message: passwordsMatch.message,
+  path: passwordsMatch.path,
+})
+
+// ── Upgrade Guest Schema ────────────────────────────────
+// Same rules as SignupSchema; username is optional (keeps the generated handle)
+export const UpgradeGuestSchema = z.object({
+  fullName,
+  username: username.optional(),
+  password,
+  confirmPassword: confirmPassword.optional(),
+}).refine(optionalConfirmMatches.check, {
+  message: optionalConfirmMatches.message,
+  path: optionalConfirmMatches.path,
+})
+
+// ── Two-factor Schemas ────────────────────────────────
+export const LoginTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1, "Challenge token is required"),
+  code: twoFactorCode,
+})
+
+// `password` is left out by accounts without one; lib/accounts.ts confirmIdentity
+export const TwoFactorSetupSchema = z.object({
+  password: z.string().optional(),
+})
+
+export const TwoFactorEnableSchema = z.object({
+  code: twoFactorCode,
+})
+
+export const TwoFactorDisableSchema = z.object({
+  password: z.string().optional(),
+  code: twoFactorCode,
+})
+
+// ── Passkey Schemas ────────────────────────────────
+// Binary WebAuthn fields arrive base64url-encoded; lib/webauthn.ts checks their contents
+const base64url = z.string().min(1).max(16384).regex(/^[A-Za-z0-9_-]+$/, "Invalid encoding")
+
+export const PasskeyRegisterSchema = z.object({
+  name: z.string().trim().max(50, "Name cannot exceed 50 characters").optional(),
+  credential: z.object({
+    id: base64url,
+    type: z.literal("public-key"),
+    response: z.object({
+      clientDataJSON: base64url,
+      attestationObject: base64url,
+      transports: z.array(z.string().max(32)).max(8).optional(),
+    }),
+  }),
+})
+
+export const PasskeyLoginSchema = z.object({
+  credential: z.object({
+    id: base64url,
+    type: z.literal("public-key"),
+    response: z.object({
+      clientDataJSON: base64url,
+      authenticatorData: base64url,
+      signature: base64url,
+      userHandle: base64url.nullable().optional(),
+    }),
+  }),
+})
+
+export const ApiTokenCreateSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(50, "Name cannot exceed 50 characters"),
+  scopes: z.array(z.enum(["read", "post", "engage", "dm"])).min(1, "Pick at least one scope"),
+  // omitted or null = never expires
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+})
+
+export const UsernameChangeSchema = z.object({
+  username,
+})
+
 // ── Types ────────────────────────────────
 export type SignupInput = z.infer<typeof SignupSchema>
-export type LoginInput = z.infer<typeof LoginSchema>
\ No newline at end of file
+export type LoginInput = z.infer<typeof LoginSchema>
+export type RecoverInput = z.infer<typeof RecoverSchema>
+export type ChangePasswordInput = z.infer<typeof ChangePasswordSchema>
+export type UpgradeGuestInput = z.infer<typeof UpgradeGuestSchema>
+export type LoginTwoFactorInput = z.infer<typeof LoginTwoFactorSchema>
+export type ApiTokenCreateInput = z.infer<typeof ApiTokenCreateSchema>
+export type UsernameChangeInput = z.infer<typeof UsernameChangeSchema>
@@ -0,0 +1,44 @@
+/**
+ * How long a post is, shared with the frontend: the Composer imports this file as is, so its
+ * counter and the server's too_long check can't drift apart. Keep it free of imports and of
+ * anything that only runs in Node or only in the browser.
+ *
+ *  • Characters are counted as readers see them (grapheme clusters): a flag, a skin-toned or
+ *    ZWJ emoji, a letter with combining marks or a CJK character is one
+ *  • Every link counts as URL_LENGTH however long it is, as it would once shortened
+ *  • Whitespace is collapsed first, the way sanitizeTweetText stores the text
+ */
+
+/** Maximum length of a post or reply, as weightedLength counts it */
+export const MAX_TWEET_LEN = 280
+
+/** What each link counts as */
+export const URL_LENGTH = 23
+
+// http(s) links and bare www. ones; punctuation closing a sentence isn't part of the link
+const URL_RE = /\b(?:https?:\/\/|www\.)[^\s<>"]+[^\s<>".,;:!?)\]'}]/gi
+
+const graphemes = new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+
+function graphemeCount(s: string) {
+  return s ? Array.from(graphemes.segment(s)).length : 0
+}
+
+/** Strips control characters, collapses runs of whitespace within each line and trims */
+export function normalizeText(raw: string) {
+  let t = raw.replace(/[\x00-\x09\x0B-\x1F\x7F]/g, '')
+  t = t.replace(/\r\n?/g, '\n')
+  t = t.split('\n').map(l => l.replace(/\s+/g, ' ').trim()).join('\n')
+  return t.trim()
+}
+
+/** Counted length of already normalized text (see normalizeText) */
+export function weightedLength(text: string) {
+  let n = 0
+  let last = 0
+  for (const m of text.matchAll(URL_RE)) {
+    n += graphemeCount(text.slice(last, m.index)) + URL_LENGTH
+    last = m.index! + m[0].length
+  }
+  return n + graphemeCount(text.slice(last))
+}
@@ -0,0 +1,49 @@
+/**
+ * `:shortcode:` expansion, shared with the frontend like postLength.ts: the Composer counts text
+ * with shortcodes expanded exactly as sanitizeTweetText stores it. Keep it free of imports; the
+ * caller supplies the lookup (lib/emoji.ts from the dataset, the Composer from GET /emoji).
+ *
+ *  • Only known names are replaced, so `12:30:45` and the like survive
+ *  • A Slack-style `:skin-tone-2:` … `:skin-tone-6:` right after a shortcode applies that tone
+ *    where the emoji takes one, and is dropped where it doesn't
+ */
+
+/** Fitzpatrick modifiers U+1F3FB…U+1F3FF, numbered 2–6 as in `:skin-tone-N:` */
+export const SKIN_TONES = ['🏻', '🏼', '🏽', '🏾', '🏿']
+
+/** What a shortcode names: the emoji and whether a skin tone may follow it */
+export type ShortcodeHit = { emoji: string; tones: boolean }
+
+const SHORTCODE_RE = /:([a-z0-9_+-]{1,40}):/g
+const SKIN_TONE_RE = /^:skin-tone-([2-6]):/
+
+/** `emoji` with the modifier after its first code point, replacing a presentation selector there */
+export function withSkinTone(emoji: string, modifier: string | null | undefined) {
+  if (!modifier) return emoji
+  const [base, ...rest] = Array.from(emoji)
+  if (rest[0] === '\uFE0F') rest.shift()
+  return base + modifier + rest.join('')
+}
+
+export function expandShortcodes(text: string, lookup: (code: string) => ShortcodeHit | undefined) {
+  if (!text.includes(':')) return text
+  const re = new RegExp(SHORTCODE_RE)
+  let out = ''
+  let last = 0
+  let m: RegExpExecArray | null
+  while ((m = re.exec(text))) {
+    const hit = lookup(m[1])
+    // Not ours: its closing colon may still open one that is (`at 12:30:wave:`)
+    if (!hit) { re.lastIndex -= 1; continue }
+    let emoji = hit.emoji
+    let end = re.lastIndex
+    const tone = SKIN_TONE_RE.exec(text.slice(end))
+    if (tone) {
+      if (hit.tones) emoji = withSkinTone(emoji, SKIN_TONES[Number(tone[1]) - 2])
+      end += tone[0].length
+    }
+    out += text.slice(last, m.index) + emoji
+    last = re.lastIndex = end
+  }
+  return out + text.slice(last)
+}
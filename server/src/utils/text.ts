@@ -1,11 +1,18 @@
-export const MAX_TWEET_LEN = 280
+import { expandShortcodes } from '../lib/emoji.js'
+import { normalizeText } from './postLength.js'
 
+export { MAX_TWEET_LEN, weightedLength } from './postLength.js'
+
+/**
+ * Cap on the raw text a request may send. Shortcodes, emoji sequences and links make the raw
+ * string longer than what's counted, so MAX_TWEET_LEN is checked on the sanitized text instead.
+ */
+export const MAX_TWEET_INPUT_LEN = 4000
+
+/** Strips control characters, collapses whitespace and expands `:shortcode:` emoji */
 export function sanitizeTweetText(raw: unknown) {
   if (typeof raw !== 'string') return ''
-  let t = raw.replace(/[\x00-\x09\x0B-\x1F\x7F]/g, '')
-  t = t.replace(/\r\n?/g, '\n')
-  t = t.split('\n').map(l => l.replace(/\s+/g, ' ').trim()).join('\n')
-  return t.trim()
+  return expandShortcodes(normalizeText(raw))
 }
 
 export function timeAgo(date: Date): string {
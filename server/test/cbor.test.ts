@@ -0,0 +1,45 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { decodeCbor } from '../src/lib/webauthn.js'
+
+const hex = (s: string) => Buffer.from(s.replace(/\s/g, ''), 'hex')
+
+test('decodeCbor reads integers of every width', () => {
+  assert.deepEqual(decodeCbor(hex('17')), [23, 1])
+  assert.deepEqual(decodeCbor(hex('18 18')), [24, 2])
+  assert.deepEqual(decodeCbor(hex('19 03e8')), [1000, 3])
+  assert.deepEqual(decodeCbor(hex('1a 000f4240')), [1000000, 5])
+  assert.deepEqual(decodeCbor(hex('1b 000000e8d4a51000')), [1000000000000, 9])
+  assert.deepEqual(decodeCbor(hex('26')), [-7, 1])
+  assert.deepEqual(decodeCbor(hex('39 0100')), [-257, 3])
+})
+
+test('decodeCbor reads strings, arrays and simple values', () => {
+  assert.deepEqual(decodeCbor(hex('43 010203')), [Buffer.from([1, 2, 3]), 4])
+  assert.deepEqual(decodeCbor(hex('64 49455446')), ['IETF', 5])
+  assert.deepEqual(decodeCbor(hex('83 01 f4 f6')), [[1, false, null], 4])
+  assert.deepEqual(decodeCbor(hex('f5')), [true, 1])
+})
+
+test('decodeCbor reads a COSE EC2 key as a map', () => {
+  // { 1: 2, 3: -7, -1: 1, -2: h'aabb', -3: h'ccdd' }
+  const [key, end] = decodeCbor(hex('a5 01 02 03 26 20 01 21 42 aabb 22 42 ccdd'))
+  assert.equal(end, 15)
+  assert.ok(key instanceof Map)
+  assert.equal(key.get(1), 2)
+  assert.equal(key.get(3), -7)
+  assert.equal(key.get(-1), 1)
+  assert.deepEqual(key.get(-2), hex('aabb'))
+  assert.deepEqual(key.get(-3), hex('ccdd'))
+})
+
+test('decodeCbor starts at the given offset', () => {
+  assert.deepEqual(decodeCbor(hex('ff ff 0a'), 2), [10, 3])
+})
+
+test('decodeCbor rejects what it does not support or cannot finish', () => {
+  assert.throws(() => decodeCbor(hex('')), /unexpected end/)
+  assert.throws(() => decodeCbor(hex('82 01')), /unexpected end/)
+  assert.throws(() => decodeCbor(hex('9f 01 ff')), /indefinite/)
+  assert.throws(() => decodeCbor(hex('c1 00')), /unsupported major type/)
+})
@@ -0,0 +1,18 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { lockDurationMs } from '../src/lib/loginThrottle.js'
+
+test('lockDurationMs leaves the first five failures free', () => {
+  for (let n = 0; n <= 5; n++) assert.equal(lockDurationMs(n), 0)
+})
+
+test('lockDurationMs doubles the lock from 30 seconds with every further failure', () => {
+  assert.equal(lockDurationMs(6), 30_000)
+  assert.equal(lockDurationMs(7), 60_000)
+  assert.equal(lockDurationMs(8), 120_000)
+})
+
+test('lockDurationMs never locks for more than an hour', () => {
+  assert.equal(lockDurationMs(13), 60 * 60 * 1000)
+  assert.equal(lockDurationMs(1000), 60 * 60 * 1000)
+})
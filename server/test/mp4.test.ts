@@ -0,0 +1,58 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { inspectMp4 } from '../src/lib/media.js'
+
+function box(type: string, ...body: Buffer[]) {
+  const content = Buffer.concat(body)
+  const head = Buffer.alloc(8)
+  head.writeUInt32BE(8 + content.length)
+  head.write(type, 4, 'latin1')
+  return Buffer.concat([head, content])
+}
+
+/** Version 0 mvhd with the timescale and duration fields and nothing after them */
+function mvhd(timescale: number, duration: number) {
+  const b = Buffer.alloc(20)
+  b.writeUInt32BE(timescale, 12)
+  b.writeUInt32BE(duration, 16)
+  return box('mvhd', b)
+}
+
+function trak(handler: string) {
+  const hdlr = Buffer.alloc(12)
+  hdlr.write(handler, 8, 'latin1')
+  return box('trak', box('mdia', box('hdlr', hdlr)))
+}
+
+const ftyp = box('ftyp', Buffer.from('isom\0\0\0\0', 'latin1'))
+const gps = box('udta', box('\xa9xyz', Buffer.from('+48.8584+002.2945/', 'latin1')))
+
+test('inspectMp4 reads the duration and finds a video track', () => {
+  const file = Buffer.concat([ftyp, box('moov', mvhd(1000, 12500), trak('soun'), trak('vide'))])
+  assert.deepEqual(inspectMp4(file), { seconds: 12.5, hasVideo: true })
+})
+
+test('inspectMp4 reports audio-only files as having no video', () => {
+  const file = Buffer.concat([ftyp, box('moov', mvhd(600, 600), trak('soun'))])
+  assert.deepEqual(inspectMp4(file), { seconds: 1, hasVideo: false })
+})
+
+test('inspectMp4 blanks udta and meta boxes in place', () => {
+  const file = Buffer.concat([ftyp, box('moov', mvhd(1000, 1000), box('meta', Buffer.alloc(4)), trak('vide'), gps), gps])
+  const size = file.length
+  assert.ok(inspectMp4(file))
+  assert.equal(file.length, size)
+  assert.equal(file.indexOf('udta', 0, 'latin1'), -1)
+  assert.equal(file.indexOf('meta', 0, 'latin1'), -1)
+  assert.notEqual(file.indexOf('free', 0, 'latin1'), -1)
+})
+
+test('inspectMp4 returns null for files it cannot read instead of throwing', () => {
+  assert.equal(inspectMp4(ftyp), null)
+  assert.equal(inspectMp4(Buffer.concat([ftyp, box('moov', box('mvhd'))])), null)
+  assert.equal(inspectMp4(Buffer.concat([ftyp, box('moov', mvhd(0, 100), trak('vide'))])), null)
+  assert.deepEqual(inspectMp4(Buffer.concat([ftyp, box('moov', mvhd(1, 1), box('trak', box('mdia', box('hdlr'))))])), { seconds: 1, hasVideo: false })
+  // A box claiming more bytes than the file has ends the walk
+  const cut = Buffer.concat([ftyp, box('moov', mvhd(1000, 1000), trak('vide'))])
+  assert.equal(inspectMp4(cut.subarray(0, cut.length - 4)), null)
+})
@@ -0,0 +1,16 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { coarsen, COORD_DECIMALS } from '../src/lib/places.js'
+
+test('coarsen rounds to COORD_DECIMALS places', () => {
+  assert.equal(COORD_DECIMALS, 1)
+  assert.equal(coarsen(48.858370), 48.9)
+  assert.equal(coarsen(2.294481), 2.3)
+  assert.equal(coarsen(-33.86785), -33.9)
+  assert.equal(coarsen(-0.04), -0)
+  assert.equal(coarsen(180), 180)
+})
+
+test('coarsen is stable: coarsening twice changes nothing', () => {
+  for (const v of [51.50735, -122.4194, 0.05, 139.6917]) assert.equal(coarsen(coarsen(v)), coarsen(v))
+})
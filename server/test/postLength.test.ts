@@ -0,0 +1,28 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { MAX_TWEET_LEN, normalizeText, URL_LENGTH, weightedLength } from '../src/utils/postLength.js'
+
+test('normalizeText strips control characters and collapses whitespace per line', () => {
+  assert.equal(normalizeText('  a\u0000b \t  c \r\n\r\n  d  '), 'ab c\n\nd')
+})
+
+test('weightedLength counts what readers see as one character as one', () => {
+  assert.equal(weightedLength('abc'), 3)
+  assert.equal(weightedLength('👍🏽'), 1)
+  assert.equal(weightedLength('👩‍👩‍👧‍👦'), 1)
+  assert.equal(weightedLength('🇫🇷'), 1)
+  assert.equal(weightedLength('é'), 1)
+  assert.equal(weightedLength('日本語'), 3)
+})
+
+test('weightedLength counts every link as URL_LENGTH', () => {
+  const long = 'https://example.com/' + 'x'.repeat(200)
+  assert.equal(weightedLength(long), URL_LENGTH)
+  assert.equal(weightedLength('see www.example.com.'), 4 + URL_LENGTH + 1)
+  assert.equal(weightedLength(`${long} ${long}`), URL_LENGTH * 2 + 1)
+})
+
+test('a post of MAX_TWEET_LEN emoji fits and one more does not', () => {
+  assert.equal(weightedLength('😀'.repeat(MAX_TWEET_LEN)), MAX_TWEET_LEN)
+  assert.ok(weightedLength('😀'.repeat(MAX_TWEET_LEN + 1)) > MAX_TWEET_LEN)
+})
@@ -0,0 +1,32 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { generateSecretKey, hashSecretKey, normalizeSecretKey, verifySecretKey } from '../src/lib/recovery.js'
+
+test('generateSecretKey gives 12 groups of 4 lowercase base36 characters', () => {
+  const key = generateSecretKey()
+  assert.match(key, /^[a-z0-9]{4}( [a-z0-9]{4}){11}$/)
+  assert.notEqual(generateSecretKey(), key)
+})
+
+test('normalizeSecretKey ignores case and extra whitespace', () => {
+  assert.equal(normalizeSecretKey('  ABCD\tefgh \n 1234 '), 'abcd efgh 1234')
+})
+
+test('verifySecretKey accepts the key against its hash, however it was pasted', async () => {
+  const key = generateSecretKey()
+  const stored = await hashSecretKey(key)
+  assert.equal(await verifySecretKey(key, stored), true)
+  assert.equal(await verifySecretKey(`  ${key.toUpperCase().replace(/ /g, '   ')} `, stored), true)
+  assert.equal(await verifySecretKey(generateSecretKey(), stored), false)
+})
+
+test('verifySecretKey still accepts legacy plaintext keys', async () => {
+  assert.equal(await verifySecretKey('abcd efgh', 'ABCD  efgh'), true)
+  assert.equal(await verifySecretKey('abcd efgi', 'abcd efgh'), false)
+  assert.equal(await verifySecretKey('abcd', 'abcd efgh'), false)
+})
+
+test('verifySecretKey fails when nothing is stored', async () => {
+  assert.equal(await verifySecretKey('abcd efgh', undefined), false)
+  assert.equal(await verifySecretKey('', null), false)
+})
@@ -0,0 +1,29 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { Types } from 'mongoose'
+import { replyFromComment } from '../src/lib/replies.js'
+
+test('replyFromComment keeps the comment id and time and threads the reply under the post', () => {
+  const post = { _id: new Types.ObjectId(), rootId: null }
+  const c = { _id: new Types.ObjectId(), username: 'ana', text: 'hi', createdAt: new Date('2024-03-01T10:00:00Z') }
+  assert.deepEqual(replyFromComment(post, c), {
+    _id: c._id,
+    text: 'hi',
+    username: 'ana',
+    parentId: post._id,
+    rootId: post._id,
+    likes: [],
+    retweets: [],
+    createdAt: c.createdAt,
+    updatedAt: c.createdAt,
+  })
+})
+
+test('replyFromComment puts replies to a reply in the same conversation', () => {
+  const post = { _id: new Types.ObjectId(), rootId: new Types.ObjectId() }
+  const reply = replyFromComment(post, { username: 'ana', text: 'hi' })
+  assert.equal(reply.parentId, post._id)
+  assert.equal(reply.rootId, post.rootId)
+  assert.ok(reply._id instanceof Types.ObjectId)
+  assert.ok(reply.createdAt instanceof Date)
+})
@@ -0,0 +1,22 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { Types } from 'mongoose'
+import { repostEntries } from '../src/lib/reposts.js'
+
+test('repostEntries skips reposters without an account', () => {
+  const post = {
+    _id: new Types.ObjectId(),
+    retweets: [
+      { username: 'ana', createdAt: new Date('2024-03-01T10:00:00Z') },
+      { username: 'gone' },
+      { username: 'bo' },
+    ],
+  }
+  const ana = new Types.ObjectId()
+  const bo = new Types.ObjectId()
+  const entries = repostEntries(post, new Map([['ana', ana], ['bo', bo]]))
+  assert.equal(entries.length, 2)
+  assert.deepEqual(entries[0], { user: ana, post: post._id, createdAt: post.retweets[0].createdAt })
+  assert.equal(entries[1].user, bo)
+  assert.ok(entries[1].createdAt instanceof Date)
+})
@@ -0,0 +1,15 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ChangePasswordSchema } from '../src/schemas/zod.js'
+
+test('ChangePasswordSchema applies the signup password rules', () => {
+  assert.equal(ChangePasswordSchema.safeParse({ currentPassword: 'old-pass', password: 'new-pass', confirmPassword: 'new-pass' }).success, true)
+  assert.equal(ChangePasswordSchema.safeParse({ currentPassword: 'old-pass', password: 'short', confirmPassword: 'short' }).success, false)
+  assert.equal(ChangePasswordSchema.safeParse({ currentPassword: 'old-pass', password: 'x'.repeat(21), confirmPassword: 'x'.repeat(21) }).success, false)
+})
+
+test('ChangePasswordSchema requires the confirmation to match', () => {
+  const r = ChangePasswordSchema.safeParse({ secretKey: 'abcd', password: 'new-pass', confirmPassword: 'new-pasS' })
+  assert.equal(r.success, false)
+  assert.deepEqual(r.error?.issues[0].path, ['confirmPassword'])
+})
@@ -0,0 +1,47 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import jwt from 'jsonwebtoken'
+import { Types } from 'mongoose'
+
+process.env.JWT_SECRET = 'test-access-secret'
+process.env.JWT_REFRESH_SECRET = 'test-refresh-secret'
+const { describeUserAgent, maskIp, signAccessToken, signLoginChallenge, verifyLoginChallenge, verifyRefreshToken } = await import('../src/lib/sessions.js')
+
+const user = { _id: new Types.ObjectId(), username: 'ana' }
+const sid = String(new Types.ObjectId())
+
+test('verifyRefreshToken returns the session family and token id of a refresh token', () => {
+  const token = jwt.sign({ _id: String(user._id), username: 'ana', sid, jti: 'j1' }, 'test-refresh-secret', { expiresIn: '1h' })
+  assert.deepEqual(verifyRefreshToken(token), { _id: String(user._id), username: 'ana', sid, jti: 'j1' })
+})
+
+test('verifyRefreshToken rejects access tokens, expired tokens and tokens without a session', () => {
+  assert.equal(verifyRefreshToken(signAccessToken(user, sid)), undefined)
+  assert.equal(verifyRefreshToken(jwt.sign({ _id: String(user._id), sid, jti: 'j1' }, 'test-refresh-secret', { expiresIn: -10 })), undefined)
+  assert.equal(verifyRefreshToken(jwt.sign({ _id: String(user._id), jti: 'j1' }, 'test-refresh-secret')), undefined)
+  assert.equal(verifyRefreshToken(jwt.sign({ _id: String(user._id), sid: 'not-an-id', jti: 'j1' }, 'test-refresh-secret')), undefined)
+  assert.equal(verifyRefreshToken('garbage'), undefined)
+})
+
+test('login challenges are not access or refresh tokens, and vice versa', () => {
+  const challenge = signLoginChallenge(user)
+  assert.deepEqual(verifyLoginChallenge(challenge), { _id: String(user._id) })
+  assert.equal(verifyRefreshToken(challenge), undefined)
+  assert.equal(verifyLoginChallenge(signAccessToken(user, sid)), undefined)
+})
+
+test('maskIp keeps only the network part of an address', () => {
+  assert.equal(maskIp('203.0.113.42'), '203.0.113.x')
+  assert.equal(maskIp('::ffff:198.51.100.7'), '198.51.100.x')
+  assert.equal(maskIp('2001:db8:1:2::5'), '2001:db8:1::/48')
+  assert.equal(maskIp(undefined), '')
+  assert.equal(maskIp('localhost'), '')
+})
+
+test('describeUserAgent names the browser and the system', () => {
+  assert.equal(describeUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:128.0) Gecko/20100101 Firefox/128.0'), 'Firefox on Windows')
+  assert.equal(describeUserAgent('Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1'), 'Safari on iOS')
+  assert.equal(describeUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0'), 'Edge on macOS')
+  assert.equal(describeUserAgent('curl/8.5.0'), 'Script')
+  assert.equal(describeUserAgent(''), 'Unknown device')
+})
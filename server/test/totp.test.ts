@@ -0,0 +1,53 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { generateBackupCodes, generateTotpSecret, hashBackupCode, isBackupCodeFormat, totpUri, verifyTotp } from '../src/lib/totp.js'
+
+// RFC 6238 appendix B: the SHA-1 seed "12345678901234567890", truncated to six digits
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+const at = (seconds: number) => seconds * 1000
+
+test('verifyTotp accepts the RFC 6238 test vectors and returns their step', () => {
+  assert.equal(verifyTotp(SECRET, '287082', null, at(59)), 1)
+  assert.equal(verifyTotp(SECRET, '081804', null, at(1111111109)), 37037036)
+  assert.equal(verifyTotp(SECRET, '005 924', null, at(1234567890)), 41152263)
+})
+
+test('verifyTotp accepts one step of drift either way and no more', () => {
+  const step = Math.floor(1234567890 / 30)
+  assert.equal(verifyTotp(SECRET, '005924', null, at(1234567890 + 30)), step)
+  assert.equal(verifyTotp(SECRET, '005924', null, at(1234567890 - 30)), step)
+  assert.equal(verifyTotp(SECRET, '005924', null, at(1234567890 + 60)), null)
+  assert.equal(verifyTotp(SECRET, '005924', null, at(1234567890 - 60)), null)
+})
+
+test('verifyTotp refuses a code from a step at or before the last one used', () => {
+  const step = Math.floor(1234567890 / 30)
+  assert.equal(verifyTotp(SECRET, '005924', step, at(1234567890)), null)
+  assert.equal(verifyTotp(SECRET, '005924', step - 1, at(1234567890)), step)
+})
+
+test('verifyTotp rejects anything that is not six digits', () => {
+  assert.equal(verifyTotp(SECRET, '28708', null, at(59)), null)
+  assert.equal(verifyTotp(SECRET, '2870821', null, at(59)), null)
+  assert.equal(verifyTotp(SECRET, 'abcdef', null, at(59)), null)
+})
+
+test('generateTotpSecret makes 160-bit base32 secrets for the otpauth URI', () => {
+  const secret = generateTotpSecret()
+  assert.match(secret, /^[A-Z2-7]{32}$/)
+  const uri = new URL(totpUri(secret, 'ana'))
+  assert.equal(uri.protocol, 'otpauth:')
+  assert.equal(uri.searchParams.get('secret'), secret)
+  assert.equal(uri.searchParams.get('digits'), '6')
+  assert.equal(uri.searchParams.get('period'), '30')
+})
+
+test('backup codes match their hash however they are typed', () => {
+  const { codes, hashes } = generateBackupCodes()
+  assert.equal(codes.length, 10)
+  assert.equal(new Set(codes).size, 10)
+  for (const c of codes) assert.match(c, /^[a-z0-9]{4}-[a-z0-9]{4}$/)
+  assert.equal(hashBackupCode(codes[0].toUpperCase().replace('-', ' ')), hashes[0])
+  assert.equal(isBackupCodeFormat(codes[0].replace('-', '')), true)
+  assert.equal(isBackupCodeFormat('123456'), false)
+})